@@ -0,0 +1,145 @@
+// Replays the recorded responses in scripts/fixtures through each exchange
+// provider and checks the normalized output: symbol form, ticker fields,
+// candle spacing and order, and order book sides.
+//
+//   npm run check:exchanges
+import assert from 'node:assert/strict';
+import { promises as fs } from 'node:fs';
+import type { CandleData, OrderbookData } from '@/services/bitgetApi';
+import {
+  createExchangeProvider,
+  exchangeOptions,
+  MarketSymbol,
+  MarketTicker,
+} from '@/lib/exchanges';
+import { FetchFixtures, fixtureFetch } from '@/lib/exchanges/fixtures';
+import {
+  FIXTURE_CANDLES,
+  FIXTURE_DEPTH,
+  FIXTURE_END_TIME,
+  FIXTURE_SYMBOL,
+  fixtureFile,
+  runScenario,
+  Scenario,
+  scenarios,
+} from './exchange-fixtures';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function checkSymbols(symbols: MarketSymbol[], { market }: Scenario) {
+  assert.ok(symbols.length > 0, 'no symbols');
+  symbols.forEach(row =>
+    assert.equal(row.symbol, `${row.baseCoin}${row.quoteCoin}`, row.symbol)
+  );
+  const btc = symbols.find(row => row.symbol === FIXTURE_SYMBOL);
+  assert.ok(btc?.active, `${FIXTURE_SYMBOL} missing or inactive`);
+  // Only USDT-margined perpetuals count as futures
+  if (market === 'futures') {
+    symbols.forEach(row => assert.equal(row.quoteCoin, 'USDT', row.symbol));
+  }
+}
+
+function checkTickers(tickers: MarketTicker[]) {
+  assert.ok(tickers.length > 0, 'no tickers');
+  tickers.forEach(row => {
+    assert.ok(Number.isFinite(row.lastPrice), `${row.symbol} last price`);
+    // A fraction, not a percentage
+    if (row.change24h !== null) {
+      assert.ok(Math.abs(row.change24h) < 10, `${row.symbol} change24h`);
+    }
+    if (row.bidPrice && row.askPrice) {
+      assert.ok(row.bidPrice <= row.askPrice, `${row.symbol} crossed book`);
+    }
+  });
+  const btc = tickers.find(row => row.symbol === FIXTURE_SYMBOL);
+  assert.ok(btc && btc.lastPrice > 0, `${FIXTURE_SYMBOL} ticker`);
+}
+
+function checkCandles(candles: CandleData[]) {
+  assert.equal(candles.length, FIXTURE_CANDLES, 'candle count');
+  assert.ok(
+    candles[candles.length - 1].timestamp <= FIXTURE_END_TIME,
+    'candle after the end time'
+  );
+  candles.forEach((candle, i) => {
+    if (i > 0) {
+      assert.equal(
+        candle.timestamp - candles[i - 1].timestamp,
+        HOUR_MS,
+        'candle spacing'
+      );
+    }
+    assert.ok(
+      candle.low <= Math.min(candle.open, candle.close) &&
+        candle.high >= Math.max(candle.open, candle.close),
+      `OHLC at ${candle.timestamp}`
+    );
+    // Volume in the base coin, quote volume in USDT
+    const impliedPrice = candle.quoteVolume / candle.volume;
+    assert.ok(
+      impliedPrice >= candle.low * 0.99 && impliedPrice <= candle.high * 1.01,
+      `volume units at ${candle.timestamp}`
+    );
+  });
+}
+
+function checkOrderbook(book: OrderbookData) {
+  const asks = book.asks.map(([price, size]) => [+price, +size]);
+  const bids = book.bids.map(([price, size]) => [+price, +size]);
+  assert.ok(asks.length > 0 && asks.length <= FIXTURE_DEPTH, 'ask levels');
+  assert.ok(bids.length > 0 && bids.length <= FIXTURE_DEPTH, 'bid levels');
+  asks.forEach(([price, size], i) => {
+    assert.ok(size > 0, 'ask size');
+    if (i > 0) assert.ok(price > asks[i - 1][0], 'asks ascending');
+  });
+  bids.forEach(([price, size], i) => {
+    assert.ok(size > 0, 'bid size');
+    if (i > 0) assert.ok(price < bids[i - 1][0], 'bids descending');
+  });
+  assert.ok(bids[0][0] < asks[0][0], 'crossed book');
+  assert.ok(Number.isFinite(parseInt(book.ts)), 'timestamp');
+}
+
+const checks = {
+  symbols: checkSymbols,
+  tickers: checkTickers,
+  candles: checkCandles,
+  orderbook: checkOrderbook,
+} as const;
+
+async function main() {
+  let failures = 0;
+  for (const { value: exchange } of exchangeOptions) {
+    const fixtures = JSON.parse(
+      await fs.readFile(fixtureFile(exchange), 'utf8')
+    ) as FetchFixtures;
+    for (const scenario of scenarios) {
+      const name = `${exchange} ${scenario.market} ${scenario.call}`;
+      try {
+        const result = await runScenario(
+          createExchangeProvider(exchange, fixtureFetch(fixtures)),
+          scenario
+        );
+        (checks[scenario.call] as (result: unknown, s: Scenario) => void)(
+          result,
+          scenario
+        );
+        console.log(`ok - ${name}`);
+      } catch (error) {
+        failures++;
+        console.error(
+          `not ok - ${name}: ${error instanceof Error ? error.message : error}`
+        );
+      }
+    }
+  }
+  if (failures > 0) {
+    console.error(`${failures} scenario(s) failed`);
+    process.exit(1);
+  }
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
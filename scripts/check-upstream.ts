@@ -0,0 +1,69 @@
+// Runs the upstream client's circuit breaker through a full cycle against a
+// stubbed fetch and a fake clock: closed, open after repeated failures,
+// half-open trial that fails and reopens, trial that succeeds and closes.
+//
+//   npm run check:upstream
+import assert from 'node:assert/strict';
+import { fetchUpstreamJson, UpstreamError } from '@/lib/upstream';
+
+const HOST = 'https://breaker.test';
+const COOLDOWN_MS = 30000;
+
+let clock = Date.now();
+Date.now = () => clock;
+
+let healthy = false;
+let calls = 0;
+globalThis.fetch = async () => {
+  calls++;
+  return healthy
+    ? new Response('{"ok":true}', { status: 200 })
+    : new Response('unavailable', { status: 503 });
+};
+
+let requestId = 0;
+// Distinct paths so neither de-duplication nor one bucket gets in the way
+async function send(): Promise<string> {
+  try {
+    await fetchUpstreamJson(`${HOST}/r${requestId++}`, { retries: 2 });
+    return 'OK';
+  } catch (error) {
+    return error instanceof UpstreamError ? error.code : String(error);
+  }
+}
+
+async function step(
+  name: string,
+  expected: { code: string; calls: number }
+): Promise<void> {
+  calls = 0;
+  const code = await send();
+  assert.equal(code, expected.code, `${name}: code`);
+  assert.equal(calls, expected.calls, `${name}: upstream calls`);
+  console.log(`ok - ${name}: ${code}, ${calls} call(s)`);
+}
+
+async function main() {
+  // Each failing request makes three attempts and counts as one failure
+  for (let i = 1; i <= 5; i++) {
+    await step(`failing request ${i}`, { code: 'HTTP_ERROR', calls: 3 });
+  }
+  await step('open', { code: 'CIRCUIT_OPEN', calls: 0 });
+
+  clock += COOLDOWN_MS;
+  await step('failed trial is not retried', {
+    code: 'HTTP_ERROR',
+    calls: 1,
+  });
+  await step('reopened after failed trial', { code: 'CIRCUIT_OPEN', calls: 0 });
+
+  clock += COOLDOWN_MS;
+  healthy = true;
+  await step('successful trial', { code: 'OK', calls: 1 });
+  await step('closed', { code: 'OK', calls: 1 });
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,53 @@
+// Calls made against every exchange provider, shared by the fixture recorder
+// and the replay check. Each scenario gets a fresh provider so cached state
+// (OKX contract values) cannot change which URLs are requested.
+
+import path from 'node:path';
+import type { MarketType } from '@/services/bitgetApi';
+import type { ExchangeId, ExchangeProvider } from '@/lib/exchanges';
+
+export const FIXTURE_DIR = path.join(process.cwd(), 'scripts', 'fixtures');
+
+export const fixtureFile = (exchange: ExchangeId) =>
+  path.join(FIXTURE_DIR, `${exchange}.json`);
+
+// Candle URLs include the end time, so it has to be fixed to replay
+export const FIXTURE_END_TIME = Date.UTC(2025, 0, 1);
+export const FIXTURE_SYMBOL = 'BTCUSDT';
+export const FIXTURE_CANDLES = 3;
+export const FIXTURE_DEPTH = 5;
+
+export type ScenarioCall = 'symbols' | 'tickers' | 'candles' | 'orderbook';
+
+export interface Scenario {
+  market: MarketType;
+  call: ScenarioCall;
+}
+
+export const scenarios: Scenario[] = (['spot', 'futures'] as const).flatMap(
+  market =>
+    (['symbols', 'tickers', 'candles', 'orderbook'] as const).map(call => ({
+      market,
+      call,
+    }))
+);
+
+export function runScenario(
+  provider: ExchangeProvider,
+  { market, call }: Scenario
+): Promise<unknown> {
+  switch (call) {
+    case 'symbols':
+      return provider.getSymbols(market);
+    case 'tickers':
+      return provider.getTickers(market);
+    case 'candles':
+      return provider.getCandles(market, FIXTURE_SYMBOL, {
+        granularity: '1h',
+        endTime: FIXTURE_END_TIME,
+        limit: FIXTURE_CANDLES,
+      });
+    case 'orderbook':
+      return provider.getOrderbook(market, FIXTURE_SYMBOL, FIXTURE_DEPTH);
+  }
+}
@@ -0,0 +1,276 @@
+// Local stand-in for Bitget's public WebSocket. Serves synthetic ticker,
+// candle, books15 and trade pushes for whatever the client subscribes to.
+//
+//   npm run mock:ws
+//   NEXT_PUBLIC_BITGET_WS_URL=ws://localhost:8765 npm run dev
+//
+// MOCK_WS_PORT changes the port, MOCK_WS_INTERVAL the push interval (ms) and
+// MOCK_WS_DROP_MS drops every connection after that many ms so reconnect and
+// resubscribe can be exercised.
+import { createHash } from 'node:crypto';
+import { createServer } from 'node:http';
+
+const PORT = parseInt(process.env.MOCK_WS_PORT || '8765');
+const INTERVAL = parseInt(process.env.MOCK_WS_INTERVAL || '1000');
+const DROP_MS = parseInt(process.env.MOCK_WS_DROP_MS || '0');
+const GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const candleSteps = {
+  '1m': 60e3,
+  '5m': 300e3,
+  '15m': 900e3,
+  '30m': 1800e3,
+  '1H': 3600e3,
+  '4H': 14400e3,
+  '6H': 21600e3,
+  '12H': 43200e3,
+  '1D': 86400e3,
+  '3D': 259200e3,
+  '1W': 604800e3,
+  '1M': 2592000e3,
+};
+
+// Random walk per instrument so every channel for a symbol agrees
+const prices = new Map();
+const nextPrice = instId => {
+  const previous =
+    prices.get(instId) ?? (instId.startsWith('BTC') ? 60000 : 100);
+  const price = previous * (1 + (Math.random() - 0.5) * 0.002);
+  prices.set(instId, price);
+  return price;
+};
+
+const encodeFrame = (text, opcode = 0x1) => {
+  const payload = Buffer.from(text);
+  const length = payload.length;
+  const header =
+    length < 126
+      ? Buffer.from([0x80 | opcode, length])
+      : length < 65536
+        ? Buffer.from([0x80 | opcode, 126, length >> 8, length & 0xff])
+        : Buffer.concat([
+            Buffer.from([0x80 | opcode, 127]),
+            (() => {
+              const size = Buffer.alloc(8);
+              size.writeBigUInt64BE(BigInt(length));
+              return size;
+            })(),
+          ]);
+  return Buffer.concat([header, payload]);
+};
+
+// Pull complete client frames off the buffer; returns the unconsumed rest
+const decodeFrames = (buffer, onFrame) => {
+  let offset = 0;
+  while (buffer.length - offset >= 2) {
+    const opcode = buffer[offset] & 0x0f;
+    const masked = (buffer[offset + 1] & 0x80) !== 0;
+    let length = buffer[offset + 1] & 0x7f;
+    let cursor = offset + 2;
+    if (length === 126) {
+      if (buffer.length < cursor + 2) break;
+      length = buffer.readUInt16BE(cursor);
+      cursor += 2;
+    } else if (length === 127) {
+      if (buffer.length < cursor + 8) break;
+      length = Number(buffer.readBigUInt64BE(cursor));
+      cursor += 8;
+    }
+    const maskEnd = cursor + (masked ? 4 : 0);
+    if (buffer.length < maskEnd + length) break;
+
+    const payload = Buffer.from(buffer.subarray(maskEnd, maskEnd + length));
+    if (masked) {
+      const mask = buffer.subarray(cursor, maskEnd);
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    }
+    onFrame(opcode, payload);
+    offset = maskEnd + length;
+  }
+  return buffer.subarray(offset);
+};
+
+const tickerData = (instId, price) => [
+  {
+    instId,
+    lastPr: price.toFixed(2),
+    open24h: (price * 0.98).toFixed(2),
+    high24h: (price * 1.02).toFixed(2),
+    low24h: (price * 0.97).toFixed(2),
+    change24h: '0.0204',
+    bidPr: (price * 0.9999).toFixed(2),
+    askPr: (price * 1.0001).toFixed(2),
+    bidSz: '1.5',
+    askSz: '1.2',
+    baseVolume: '12345.6',
+    quoteVolume: (12345.6 * price).toFixed(2),
+    ts: Date.now().toString(),
+  },
+];
+
+const candleRow = (start, price) => [
+  start.toString(),
+  (price * 0.999).toFixed(2),
+  (price * 1.002).toFixed(2),
+  (price * 0.997).toFixed(2),
+  price.toFixed(2),
+  '10.5',
+  (10.5 * price).toFixed(2),
+  (10.5 * price).toFixed(2),
+];
+
+const candleData = (channel, price, snapshot) => {
+  const step = candleSteps[channel.replace('candle', '')] || 60e3;
+  const current = Math.floor(Date.now() / step) * step;
+  if (!snapshot) return [candleRow(current, price)];
+  return Array.from({ length: 50 }, (_, i) =>
+    candleRow(current - (49 - i) * step, price)
+  );
+};
+
+const bookData = price => [
+  {
+    asks: Array.from({ length: 15 }, (_, i) => [
+      (price * (1 + 0.0001 * (i + 1))).toFixed(2),
+      (Math.random() * 2).toFixed(4),
+    ]),
+    bids: Array.from({ length: 15 }, (_, i) => [
+      (price * (1 - 0.0001 * (i + 1))).toFixed(2),
+      (Math.random() * 2).toFixed(4),
+    ]),
+    checksum: 0,
+    ts: Date.now().toString(),
+  },
+];
+
+let tradeId = 1;
+const tradeData = (price, snapshot) =>
+  Array.from(
+    { length: snapshot ? 50 : 1 + Math.floor(Math.random() * 3) },
+    () => ({
+      ts: Date.now().toString(),
+      price: (price * (1 + (Math.random() - 0.5) * 0.0002)).toFixed(2),
+      // Mostly small fills with the occasional block
+      size: (Math.random() < 0.05
+        ? 5 + Math.random() * 10
+        : Math.random() * 0.5
+      ).toFixed(4),
+      side: Math.random() < 0.5 ? 'buy' : 'sell',
+      tradeId: (tradeId++).toString(),
+    })
+  );
+
+const push = (socket, arg, snapshot) => {
+  const price = nextPrice(arg.instId);
+  const data =
+    arg.channel === 'ticker'
+      ? tickerData(arg.instId, price)
+      : arg.channel.startsWith('candle')
+        ? candleData(arg.channel, price, snapshot)
+        : arg.channel === 'trade'
+          ? tradeData(price, snapshot)
+          : bookData(price);
+  socket.write(
+    encodeFrame(
+      JSON.stringify({
+        action: snapshot ? 'snapshot' : 'update',
+        arg,
+        data,
+        ts: Date.now(),
+      })
+    )
+  );
+};
+
+const server = createServer((_, response) => {
+  response.writeHead(426, { 'Content-Type': 'text/plain' });
+  response.end('WebSocket only');
+});
+
+server.on('upgrade', (request, socket) => {
+  const key = request.headers['sec-websocket-key'];
+  if (!key) {
+    socket.destroy();
+    return;
+  }
+  const accept = createHash('sha1')
+    .update(key + GUID)
+    .digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+      'Upgrade: websocket\r\n' +
+      'Connection: Upgrade\r\n' +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+
+  const subscriptions = new Map();
+  let pending = Buffer.alloc(0);
+  console.log('client connected');
+
+  const send = payload => socket.write(encodeFrame(JSON.stringify(payload)));
+
+  const handleText = text => {
+    if (text === 'ping') {
+      socket.write(encodeFrame('pong'));
+      return;
+    }
+    let message;
+    try {
+      message = JSON.parse(text);
+    } catch {
+      send({ event: 'error', code: 30001, msg: 'Invalid request' });
+      return;
+    }
+    for (const arg of message.args || []) {
+      const id = `${arg.instType}:${arg.channel}:${arg.instId}`;
+      if (message.op === 'subscribe') {
+        subscriptions.set(id, arg);
+        send({ event: 'subscribe', arg });
+        push(socket, arg, true);
+      } else if (message.op === 'unsubscribe') {
+        subscriptions.delete(id);
+        send({ event: 'unsubscribe', arg });
+      }
+    }
+    console.log(
+      `subscriptions: ${Array.from(subscriptions.keys()).join(', ')}`
+    );
+  };
+
+  socket.on('data', chunk => {
+    pending = decodeFrames(
+      Buffer.concat([pending, chunk]),
+      (opcode, payload) => {
+        if (opcode === 0x1) handleText(payload.toString());
+        else if (opcode === 0x9)
+          socket.write(encodeFrame(payload.toString(), 0xa));
+        else if (opcode === 0x8) socket.end(encodeFrame('', 0x8));
+      }
+    );
+  });
+
+  const timer = setInterval(() => {
+    subscriptions.forEach(arg => push(socket, arg, false));
+  }, INTERVAL);
+  const dropTimer =
+    DROP_MS > 0
+      ? setTimeout(() => {
+          console.log('dropping client');
+          socket.destroy();
+        }, DROP_MS)
+      : null;
+
+  const cleanup = () => {
+    clearInterval(timer);
+    if (dropTimer) clearTimeout(dropTimer);
+  };
+  socket.on('close', () => {
+    cleanup();
+    console.log('client disconnected');
+  });
+  socket.on('error', cleanup);
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock Bitget WebSocket listening on ws://localhost:${PORT}`);
+});
@@ -0,0 +1,171 @@
+// Local stand-in for an OpenAI-compatible chat completions API, for trying
+// the analysis runner without a real model. The answer is a canned report
+// built from the CSV in the prompt, with a trade plan JSON block when the
+// prompt asks for one.
+//
+//   npm run mock:llm
+//   LLM_PROVIDER=openai LLM_BASE_URL=http://localhost:8766/v1 npm run dev
+//
+// MOCK_LLM_PORT changes the port and MOCK_LLM_DELAY the delay between
+// streamed words (ms).
+import { createServer } from 'node:http';
+
+const PORT = parseInt(process.env.MOCK_LLM_PORT || '8766');
+const CHUNK_DELAY_MS = parseInt(process.env.MOCK_LLM_DELAY || '20');
+
+const round = value => Number(value.toPrecision(6));
+
+const buildStubPlan = (last, low, high, long) => {
+  const side = long ? 1 : -1;
+  const entry = [last, last * (1 - side * 0.01)].sort((a, b) => a - b);
+  return {
+    bias: long ? 'bullish' : 'bearish',
+    supports: [round(low)],
+    resistances: [round(high)],
+    setup: {
+      direction: long ? 'long' : 'short',
+      entryLow: round(entry[0]),
+      entryHigh: round(entry[1]),
+      stopLoss: round(last * (1 - side * 0.03)),
+      takeProfits: [
+        round(last * (1 + side * 0.03)),
+        round(last * (1 + side * 0.06)),
+      ],
+    },
+    horizonHours: 48,
+    confidence: 0.5,
+    rationale: 'Stub plan following the move over the period.',
+  };
+};
+
+const buildStubReport = prompt => {
+  const symbol = prompt.match(/Historical data for (\S+)/)?.[1] || 'UNKNOWN';
+  const closes = Array.from(
+    prompt.matchAll(/^\d{4}-\d{2}-\d{2}T[^,]+,[^,]+,[^,]+,[^,]+,([^,]+),/gm)
+  ).map(match => parseFloat(match[1]));
+
+  if (closes.length === 0) {
+    return `## ${symbol} Stub Analysis\n\nNo candle data was found in the prompt.\n`;
+  }
+
+  const first = closes[0];
+  const last = closes[closes.length - 1];
+  const high = Math.max(...closes);
+  const low = Math.min(...closes);
+  const change = ((last - first) / first) * 100;
+  const bias = change > 2 ? 'Buy' : change < -2 ? 'Sell' : 'Hold';
+  const plan = prompt.includes('horizonHours')
+    ? `\n\`\`\`json\n${JSON.stringify(buildStubPlan(last, low, high, change >= 0), null, 2)}\n\`\`\`\n`
+    : '';
+
+  return `## ${symbol} Stub Analysis
+
+> Generated by the local mock server, not a real model.
+
+### 1. Technical Analysis
+- Closes analysed: **${closes.length}**
+- Move over the period: **${change.toFixed(2)}%** (${first} → ${last})
+
+### 2. Support and Resistance
+- Support: **${low}**
+- Resistance: **${high}**
+
+### 3. Recommendation
+- **${bias}**
+
+### 4. Risk Assessment
+- Range width: ${(((high - low) / low) * 100).toFixed(2)}% of the low
+
+### 5. Price Targets
+- Upside: ${high}
+- Downside: ${low}
+${plan}`;
+};
+
+const sleep = ms => new Promise(resolve => setTimeout(resolve, ms));
+
+const sendJson = (response, status, payload) => {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(payload));
+};
+
+const readBody = request =>
+  new Promise((resolve, reject) => {
+    const chunks = [];
+    request.on('data', chunk => chunks.push(chunk));
+    request.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    request.on('error', reject);
+  });
+
+const server = createServer(async (request, response) => {
+  if (request.method !== 'POST' || request.url !== '/v1/chat/completions') {
+    sendJson(response, 404, { error: { message: 'Not found' } });
+    return;
+  }
+
+  let body;
+  try {
+    body = JSON.parse(await readBody(request));
+  } catch {
+    sendJson(response, 400, { error: { message: 'Invalid JSON body' } });
+    return;
+  }
+
+  const prompt = (body.messages || [])
+    .filter(message => message.role === 'user')
+    .map(message => message.content)
+    .join('\n');
+  const report = buildStubReport(prompt);
+  const id = `chatcmpl-stub-${Date.now()}`;
+  const model = body.model || 'stub';
+  console.log(`${body.stream ? 'streaming' : 'answering'} ${id}`);
+
+  if (!body.stream) {
+    sendJson(response, 200, {
+      id,
+      object: 'chat.completion',
+      model,
+      choices: [
+        {
+          index: 0,
+          message: { role: 'assistant', content: report },
+          finish_reason: 'stop',
+        },
+      ],
+    });
+    return;
+  }
+
+  // Stream word by word as server-sent events, like the real API
+  let closed = false;
+  response.on('close', () => {
+    closed = true;
+  });
+  const send = payload =>
+    response.write(`data: ${JSON.stringify(payload)}\n\n`);
+  response.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+  });
+  for (const piece of report.match(/\S+\s*/g) || []) {
+    if (closed) return;
+    send({
+      id,
+      object: 'chat.completion.chunk',
+      model,
+      choices: [{ index: 0, delta: { content: piece } }],
+    });
+    await sleep(CHUNK_DELAY_MS);
+  }
+  send({
+    id,
+    object: 'chat.completion.chunk',
+    model,
+    choices: [{ index: 0, delta: {}, finish_reason: 'stop' }],
+  });
+  response.end('data: [DONE]\n\n');
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock LLM listening on http://localhost:${PORT}/v1`);
+});
@@ -0,0 +1,54 @@
+// Records every provider's responses for the shared scenarios into
+// scripts/fixtures/<exchange>.json. Needs network access to the exchanges.
+//
+//   npm run fixtures:record            # all exchanges
+//   npm run fixtures:record -- okx     # just one
+import { promises as fs } from 'node:fs';
+import {
+  createExchangeProvider,
+  ExchangeId,
+  exchangeOptions,
+  isExchangeId,
+} from '@/lib/exchanges';
+import { FetchFixtures, recordingFetch } from '@/lib/exchanges/fixtures';
+import {
+  FIXTURE_DIR,
+  fixtureFile,
+  runScenario,
+  scenarios,
+} from './exchange-fixtures';
+
+async function record(exchange: ExchangeId): Promise<void> {
+  const fixtures: FetchFixtures = {};
+  for (const scenario of scenarios) {
+    await runScenario(
+      createExchangeProvider(exchange, recordingFetch(fixtures)),
+      scenario
+    );
+  }
+  await fs.writeFile(
+    fixtureFile(exchange),
+    `${JSON.stringify(fixtures, null, 2)}\n`
+  );
+  console.log(`${exchange}: ${Object.keys(fixtures).length} responses`);
+}
+
+async function main() {
+  const requested = process.argv.slice(2);
+  const unknown = requested.filter(id => !isExchangeId(id));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown exchange ${unknown.join(', ')}`);
+  }
+  const exchanges =
+    requested.length > 0
+      ? (requested as ExchangeId[])
+      : exchangeOptions.map(option => option.value);
+
+  await fs.mkdir(FIXTURE_DIR, { recursive: true });
+  for (const exchange of exchanges) await record(exchange);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
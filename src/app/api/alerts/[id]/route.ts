@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  AlertRule,
+  AlertValidationError,
+  validateAlertInput,
+} from '@/lib/alerts';
+import { updateAlertStore } from '@/lib/alertStore';
+import { rejectCrossOrigin } from '@/lib/routeResponse';
+import { assertPublicWebhookUrl } from '@/lib/webhookTarget';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Update an alert; fields not in the body keep their current values
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const rejected = rejectCrossOrigin(request);
+  if (rejected) return rejected;
+  try {
+    const { id } = await params;
+    const changes = await request.json();
+    // A new webhook must point at a public host before it is stored
+    const webhookUrl =
+      typeof changes?.webhookUrl === 'string' ? changes.webhookUrl.trim() : '';
+    if (webhookUrl) await assertPublicWebhookUrl(webhookUrl);
+    const updated = await updateAlertStore(data => {
+      const index = data.alerts.findIndex(alert => alert.id === id);
+      if (index === -1) return null;
+      const current = data.alerts[index];
+      const input = validateAlertInput({ ...current, ...changes });
+      // Changing what is watched resets the crossing baseline
+      const watchChanged =
+        input.symbol !== current.symbol ||
+        input.marketType !== current.marketType ||
+        input.metric !== current.metric ||
+        input.period !== current.period ||
+        input.granularity !== current.granularity;
+      const alert: AlertRule = {
+        ...current,
+        ...input,
+        state: watchChanged
+          ? { ...current.state, lastValue: null }
+          : current.state,
+      };
+      data.alerts[index] = alert;
+      return alert;
+    });
+
+    if (!updated) {
+      return NextResponse.json({ error: 'Alert not found' }, { status: 404 });
+    }
+    return NextResponse.json({ code: '00000', msg: 'success', data: updated });
+  } catch (error) {
+    if (error instanceof AlertValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Error updating alert:', error);
+    return NextResponse.json(
+      { error: 'Failed to update alert' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const rejected = rejectCrossOrigin(request);
+  if (rejected) return rejected;
+  try {
+    const { id } = await params;
+    const removed = await updateAlertStore(data => {
+      const before = data.alerts.length;
+      data.alerts = data.alerts.filter(alert => alert.id !== id);
+      return data.alerts.length < before;
+    });
+
+    if (!removed) {
+      return NextResponse.json({ error: 'Alert not found' }, { status: 404 });
+    }
+    return NextResponse.json({ code: '00000', msg: 'success' });
+  } catch (error) {
+    console.error('Error deleting alert:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete alert' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { evaluateAlerts } from '@/lib/alertEvaluator';
+import { rejectCrossOrigin } from '@/lib/routeResponse';
+
+// Run one evaluation pass now, e.g. from cron when the built-in scheduler is
+// disabled with ALERTS_EVALUATOR=off
+export async function POST(request: NextRequest) {
+  const rejected = rejectCrossOrigin(request);
+  if (rejected) return rejected;
+  try {
+    const events = await evaluateAlerts();
+    return NextResponse.json({ code: '00000', msg: 'success', data: events });
+  } catch (error) {
+    console.error('Error evaluating alerts:', error);
+    return NextResponse.json(
+      { error: 'Failed to evaluate alerts' },
+      { status: 500 }
+    );
+  }
+}
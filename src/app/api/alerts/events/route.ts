@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { readAlertStore } from '@/lib/alertStore';
+
+// Trigger log, newest first; `since` (ms) returns only newer events
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const since = parseInt(searchParams.get('since') || '0') || 0;
+    const limit = Math.min(parseInt(searchParams.get('limit') || '100'), 500);
+
+    const { events } = await readAlertStore();
+    return NextResponse.json({
+      code: '00000',
+      msg: 'success',
+      data: events.filter(event => event.triggeredAt > since).slice(0, limit),
+    });
+  } catch (error) {
+    console.error('Error reading alert events:', error);
+    return NextResponse.json(
+      { error: 'Failed to read alert events' },
+      { status: 500 }
+    );
+  }
+}
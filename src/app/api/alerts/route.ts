@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  AlertValidationError,
+  createAlert,
+  validateAlertInput,
+} from '@/lib/alerts';
+import { readAlertStore, updateAlertStore } from '@/lib/alertStore';
+import { rejectCrossOrigin } from '@/lib/routeResponse';
+import { assertPublicWebhookUrl } from '@/lib/webhookTarget';
+
+export async function GET() {
+  try {
+    const { alerts } = await readAlertStore();
+    return NextResponse.json({ code: '00000', msg: 'success', data: alerts });
+  } catch (error) {
+    console.error('Error reading alerts:', error);
+    return NextResponse.json(
+      { error: 'Failed to read alerts' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const rejected = rejectCrossOrigin(request);
+  if (rejected) return rejected;
+  try {
+    const input = validateAlertInput(await request.json());
+    if (input.webhookUrl) await assertPublicWebhookUrl(input.webhookUrl);
+    const alert = createAlert(input, Date.now());
+    await updateAlertStore(data => {
+      data.alerts.push(alert);
+    });
+    return NextResponse.json(
+      { code: '00000', msg: 'success', data: alert },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof AlertValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Error creating alert:', error);
+    return NextResponse.json(
+      { error: 'Failed to create alert' },
+      { status: 500 }
+    );
+  }
+}
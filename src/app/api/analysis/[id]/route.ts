@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { rejectCrossOrigin } from '@/lib/routeResponse';
+import { deleteReport, getReport } from '@/lib/reportStore';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Full report including its inputs and the messages sent to the model
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const report = await getReport(id);
+    if (!report) {
+      return NextResponse.json({ error: 'Report not found' }, { status: 404 });
+    }
+    return NextResponse.json({ code: '00000', msg: 'success', data: report });
+  } catch (error) {
+    console.error('Error reading analysis report:', error);
+    return NextResponse.json(
+      { error: 'Failed to read analysis report' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const rejected = rejectCrossOrigin(request);
+  if (rejected) return rejected;
+  try {
+    const { id } = await params;
+    if (!(await deleteReport(id))) {
+      return NextResponse.json({ error: 'Report not found' }, { status: 404 });
+    }
+    return NextResponse.json({ code: '00000', msg: 'success' });
+  } catch (error) {
+    console.error('Error deleting analysis report:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete analysis report' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { rejectCrossOrigin } from '@/lib/routeResponse';
+import { ReportScoringError, scoreReport } from '@/lib/reportScoring';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Score the report's trade plan against prices since it was created and
+// return the updated report
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const rejected = rejectCrossOrigin(request);
+  if (rejected) return rejected;
+  try {
+    const { id } = await params;
+    const report = await scoreReport(id);
+    return NextResponse.json({ code: '00000', msg: 'success', data: report });
+  } catch (error) {
+    if (error instanceof ReportScoringError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error('Error scoring analysis report:', error);
+    return NextResponse.json(
+      { error: 'Failed to score analysis report' },
+      { status: 500 }
+    );
+  }
+}
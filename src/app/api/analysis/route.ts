@@ -0,0 +1,178 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { rejectCrossOrigin } from '@/lib/routeResponse';
+import {
+  AnalysisReport,
+  AnalysisRequest,
+  AnalysisStatus,
+  buildAnalysisMessages,
+} from '@/lib/analysis';
+import { isExchangeId } from '@/lib/exchanges/types';
+import { getLLMConfig, LLMError, openCompletionStream } from '@/lib/llm';
+import { createReportId, listReports, saveReport } from '@/lib/reportStore';
+import { parseTradePlan, TradePlanError } from '@/lib/tradePlan';
+
+// Saved reports, newest first, plus the configured provider
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const symbol = searchParams.get('symbol');
+
+    const reports = await listReports();
+    const config = getLLMConfig();
+    return NextResponse.json({
+      code: '00000',
+      msg: 'success',
+      data: symbol ? reports.filter(r => r.symbol === symbol) : reports,
+      provider: config
+        ? {
+            provider: config.provider,
+            model: config.model,
+            maxTokens: config.maxTokens,
+          }
+        : null,
+    });
+  } catch (error) {
+    console.error('Error listing analysis reports:', error);
+    return NextResponse.json(
+      { error: 'Failed to list analysis reports' },
+      { status: 500 }
+    );
+  }
+}
+
+// Run an analysis and stream the model's markdown back as plain text. The
+// report is saved when the stream ends, including failed or cancelled runs.
+export async function POST(request: NextRequest) {
+  const rejected = rejectCrossOrigin(request);
+  if (rejected) return rejected;
+
+  const config = getLLMConfig();
+  if (!config) {
+    return NextResponse.json(
+      { error: 'No LLM provider configured. Set LLM_PROVIDER on the server.' },
+      { status: 503 }
+    );
+  }
+
+  let input: AnalysisRequest;
+  try {
+    input = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+  if (
+    !input.symbol ||
+    !input.prompt?.trim() ||
+    !input.summary ||
+    !Array.isArray(input.candles)
+  ) {
+    return NextResponse.json(
+      { error: 'symbol, prompt, summary and candles are required' },
+      { status: 400 }
+    );
+  }
+
+  const startedAt = Date.now();
+  const messages = buildAnalysisMessages(input);
+  const controller = new AbortController();
+  request.signal.addEventListener('abort', () => controller.abort());
+
+  let deltas: AsyncGenerator<string>;
+  try {
+    deltas = await openCompletionStream(config, messages, controller.signal);
+  } catch (error) {
+    console.error('Error starting analysis:', error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof LLMError
+            ? error.message
+            : 'Failed to start analysis',
+      },
+      { status: error instanceof LLMError && error.status ? error.status : 500 }
+    );
+  }
+
+  const report: AnalysisReport = {
+    id: createReportId(),
+    createdAt: startedAt,
+    symbol: input.symbol,
+    exchange: isExchangeId(input.exchange) ? input.exchange : 'bitget',
+    marketType: input.marketType,
+    granularity: input.granularity,
+    timeRange: input.timeRange,
+    provider: config.provider,
+    model: config.model,
+    template: input.template,
+    data: input.data,
+    status: 'complete',
+    durationMs: 0,
+    inputs: {
+      prompt: input.prompt,
+      summary: input.summary,
+      candles: input.candles,
+    },
+    messages,
+    output: '',
+  };
+
+  const finish = async (status: AnalysisStatus, error?: string) => {
+    report.status = status;
+    report.error = error;
+    report.durationMs = Date.now() - startedAt;
+    if (input.structuredOutput && status === 'complete') {
+      try {
+        report.plan = parseTradePlan(report.output);
+      } catch (planError) {
+        report.planErrors =
+          planError instanceof TradePlanError
+            ? planError.issues
+            : ['Failed to parse trade plan'];
+      }
+    }
+    try {
+      await saveReport(report);
+    } catch (saveError) {
+      console.error('Error saving analysis report:', saveError);
+    }
+  };
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(streamController) {
+      try {
+        for await (const text of deltas) {
+          report.output += text;
+          streamController.enqueue(encoder.encode(text));
+        }
+        await finish('complete');
+        streamController.close();
+      } catch (error) {
+        if (controller.signal.aborted) {
+          await finish('cancelled');
+          return;
+        }
+        const message =
+          error instanceof Error ? error.message : 'Analysis failed';
+        console.error('Error streaming analysis:', error);
+        await finish('error', message);
+        // The client reads plain text, so report the failure inline
+        streamController.enqueue(
+          encoder.encode(`\n\n> **Analysis failed:** ${message}\n`)
+        );
+        streamController.close();
+      }
+    },
+    cancel() {
+      controller.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/markdown; charset=utf-8',
+      'Cache-Control': 'no-cache',
+      'X-Report-Id': report.id,
+    },
+  });
+}
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { rejectCrossOrigin } from '@/lib/routeResponse';
+import { scoreDueReports } from '@/lib/reportScoring';
+
+// Score every trade plan whose horizon has passed, e.g. from cron when the
+// built-in scheduler is disabled with REPORT_SCORING=off
+export async function POST(request: NextRequest) {
+  const rejected = rejectCrossOrigin(request);
+  if (rejected) return rejected;
+  try {
+    const scored = await scoreDueReports();
+    return NextResponse.json({ code: '00000', msg: 'success', data: scored });
+  } catch (error) {
+    console.error('Error scoring analysis reports:', error);
+    return NextResponse.json(
+      { error: 'Failed to score analysis reports' },
+      { status: 500 }
+    );
+  }
+}
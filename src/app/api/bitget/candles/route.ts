@@ -1,4 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
+import {
+  corsHeaders,
+  errorResponse,
+  optionsResponse,
+} from '@/lib/routeResponse';
+import { getCandlesWithCache } from '@/lib/candleCache';
+import { MAX_HISTORY_CANDLES, toMilliseconds } from '@/lib/granularity';
 
 // Map UI granularity values to API granularity values
 function mapGranularity(granularity: string): string {
@@ -31,83 +38,39 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Build query parameters for Bitget API
-    const params = new URLSearchParams({
+    // Serve closed candles from the local cache and page through Bitget only
+    // for the ranges it is missing
+    const { candles, coverage, cache } = await getCandlesWithCache({
+      market: 'spot',
       symbol,
       granularity,
-      limit: Math.min(parseInt(limit), 1000).toString(), // API limit is 1000
+      startTime: toMilliseconds(startTime),
+      endTime: toMilliseconds(endTime),
+      limit: Math.min(parseInt(limit) || 200, MAX_HISTORY_CANDLES),
     });
 
-    // Convert timestamps to seconds if they're in milliseconds
-    if (startTime) {
-      const startTimeNum = parseInt(startTime);
-      const startTimeSeconds =
-        startTimeNum > 9999999999
-          ? Math.floor(startTimeNum / 1000)
-          : startTimeNum;
-      params.append('startTime', startTimeSeconds.toString());
-    }
-    if (endTime) {
-      const endTimeNum = parseInt(endTime);
-      const endTimeSeconds =
-        endTimeNum > 9999999999 ? Math.floor(endTimeNum / 1000) : endTimeNum;
-      params.append('endTime', endTimeSeconds.toString());
-    }
-
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 15000); // 15 second timeout
-
-    const response = await fetch(
-      `https://api.bitget.com/api/v2/spot/market/candles?${params}`,
+    return NextResponse.json(
+      {
+        code: '00000',
+        msg: 'success',
+        requestTime: Date.now(),
+        data: candles,
+        coverage,
+        cache,
+      },
       {
-        method: 'GET',
         headers: {
-          'Content-Type': 'application/json',
-          'User-Agent': 'Mozilla/5.0 (compatible; BitgetDashboard/1.0)',
+          ...corsHeaders,
+          'X-Data-Source': cache.source,
         },
-        signal: controller.signal,
       }
     );
-
-    clearTimeout(timeoutId);
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Bitget API error response:', errorText);
-      console.error(
-        'Request URL:',
-        `https://api.bitget.com/api/v2/spot/market/candles?${params}`
-      );
-      throw new Error(
-        `HTTP error! status: ${response.status}, response: ${errorText}`
-      );
-    }
-
-    const data = await response.json();
-
-    return NextResponse.json(data, {
-      headers: {
-        'Access-Control-Allow-Origin': '*',
-        'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
-      },
-    });
   } catch (error) {
     console.error('Error fetching candles:', error);
-    return NextResponse.json(
-      { error: 'Failed to fetch historical data' },
-      { status: 500 }
-    );
+    return errorResponse(error, 'Failed to fetch historical data');
   }
 }
 
 export async function OPTIONS() {
-  return new NextResponse(null, {
-    status: 200,
-    headers: {
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
-    },
-  });
+  return optionsResponse();
 }
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  corsHeaders,
+  errorResponse,
+  optionsResponse,
+} from '@/lib/routeResponse';
+import { toMilliseconds } from '@/lib/granularity';
+import { fetchFundingHistory } from '@/lib/fundingHistory';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const symbol = searchParams.get('symbol');
+    const startTime = searchParams.get('startTime');
+    const endTime = searchParams.get('endTime');
+
+    if (!symbol) {
+      return NextResponse.json(
+        { error: 'Symbol parameter is required' },
+        { status: 400 }
+      );
+    }
+
+    const { rates, pages, complete } = await fetchFundingHistory({
+      symbol,
+      startTime: toMilliseconds(startTime),
+      endTime: toMilliseconds(endTime),
+    });
+
+    return NextResponse.json(
+      {
+        code: '00000',
+        msg: 'success',
+        requestTime: Date.now(),
+        data: rates,
+        pages,
+        complete,
+      },
+      {
+        headers: {
+          ...corsHeaders,
+          'Cache-Control': 'public, max-age=300', // Cache for 5 minutes
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Error fetching futures funding history:', error);
+    return errorResponse(error, 'Failed to fetch futures funding history');
+  }
+}
+
+export async function OPTIONS() {
+  return optionsResponse();
+}
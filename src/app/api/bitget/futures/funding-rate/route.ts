@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  corsHeaders,
+  errorResponse,
+  optionsResponse,
+} from '@/lib/routeResponse';
+import { fetchCurrentFunding } from '@/lib/futuresMarket';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const symbol = searchParams.get('symbol');
+
+    if (!symbol) {
+      return NextResponse.json(
+        { error: 'Symbol parameter is required' },
+        { status: 400 }
+      );
+    }
+
+    const funding = await fetchCurrentFunding(symbol);
+
+    return NextResponse.json(
+      {
+        code: '00000',
+        msg: 'success',
+        requestTime: Date.now(),
+        data: funding,
+      },
+      {
+        headers: {
+          ...corsHeaders,
+          'Cache-Control': 'public, max-age=60', // Cache for 1 minute
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Error fetching futures funding rate:', error);
+    return errorResponse(error, 'Failed to fetch futures funding rate');
+  }
+}
+
+export async function OPTIONS() {
+  return optionsResponse();
+}
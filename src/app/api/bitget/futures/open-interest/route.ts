@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  corsHeaders,
+  errorResponse,
+  optionsResponse,
+} from '@/lib/routeResponse';
+import { toMilliseconds } from '@/lib/granularity';
+import { readOpenInterest, recordOpenInterest } from '@/lib/openInterestStore';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const symbol = searchParams.get('symbol');
+    const startTime = searchParams.get('startTime');
+    const endTime = searchParams.get('endTime');
+
+    if (!symbol) {
+      return NextResponse.json(
+        { error: 'Symbol parameter is required' },
+        { status: 400 }
+      );
+    }
+
+    // Take a fresh sample so the history always ends at the current value,
+    // and so the recorder picks the symbol up from now on
+    let current = null;
+    try {
+      current = await recordOpenInterest(symbol);
+    } catch (error) {
+      console.warn(`Open interest unavailable for ${symbol}:`, error);
+    }
+    const samples = await readOpenInterest(
+      symbol,
+      toMilliseconds(startTime),
+      toMilliseconds(endTime)
+    );
+
+    return NextResponse.json(
+      {
+        code: '00000',
+        msg: 'success',
+        requestTime: Date.now(),
+        data: samples,
+        current,
+      },
+      { headers: corsHeaders }
+    );
+  } catch (error) {
+    console.error('Error fetching futures open interest:', error);
+    return errorResponse(error, 'Failed to fetch futures open interest');
+  }
+}
+
+export async function OPTIONS() {
+  return optionsResponse();
+}
@@ -1,4 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { fetchBitgetJson } from '@/lib/upstream';
+import {
+  corsHeaders,
+  errorResponse,
+  optionsResponse,
+} from '@/lib/routeResponse';
 
 export async function GET(request: NextRequest) {
   try {
@@ -13,70 +19,24 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Build query parameters for Bitget Futures API
-    const params = new URLSearchParams({
-      symbol,
-      productType: 'usdt-futures', // Required for futures API
-      limit: Math.min(parseInt(limit), 100).toString(), // API limit is 100
-    });
-
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 15000); // 15 second timeout
-
     // Use futures market orderbook endpoint
-    const response = await fetch(
-      `https://api.bitget.com/api/v2/mix/market/orderbook?${params}`,
+    const data = await fetchBitgetJson(
+      '/api/v2/mix/market/orderbook',
       {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-          'User-Agent': 'Mozilla/5.0 (compatible; BitgetDashboard/1.0)',
-        },
-        signal: controller.signal,
-      }
+        symbol,
+        productType: 'usdt-futures', // Required for futures API
+        limit: Math.min(parseInt(limit), 100).toString(), // API limit is 100
+      },
+      { timeoutMs: 15000 }
     );
 
-    clearTimeout(timeoutId);
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Bitget Futures API error response:', errorText);
-      console.error(
-        'Request URL:',
-        `https://api.bitget.com/api/v2/mix/market/orderbook?${params}`
-      );
-      throw new Error(
-        `HTTP error! status: ${response.status}, response: ${errorText}`
-      );
-    }
-
-    const data = await response.json();
-
-    return NextResponse.json(data, {
-      headers: {
-        'Access-Control-Allow-Origin': '*',
-        'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
-      },
-    });
+    return NextResponse.json(data, { headers: corsHeaders });
   } catch (error) {
     console.error('Error fetching futures orderbook:', error);
-    return NextResponse.json(
-      { error: 'Failed to fetch futures orderbook data' },
-      { status: 500 }
-    );
+    return errorResponse(error, 'Failed to fetch futures orderbook data');
   }
 }
 
 export async function OPTIONS() {
-  return NextResponse.json(
-    {},
-    {
-      headers: {
-        'Access-Control-Allow-Origin': '*',
-        'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
-      },
-    }
-  );
+  return optionsResponse();
 }
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  corsHeaders,
+  errorResponse,
+  optionsResponse,
+} from '@/lib/routeResponse';
+import { getCandlesWithCache } from '@/lib/candleCache';
+import { MAX_HISTORY_CANDLES, toMilliseconds } from '@/lib/granularity';
+
+// Map UI granularity values to API granularity values for futures
+function mapGranularity(granularity: string): string {
+  const granularityMap: { [key: string]: string } = {
+    '1min': '1m',
+    '5min': '5m',
+    '15min': '15m',
+    '1h': '1H',
+    '4h': '4H',
+    '1day': '1D',
+    '1week': '1W',
+    '1month': '1M',
+  };
+  return granularityMap[granularity] || '1D';
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const symbol = searchParams.get('symbol');
+    const granularity = mapGranularity(searchParams.get('granularity') || '1D');
+    const startTime = searchParams.get('startTime');
+    const endTime = searchParams.get('endTime');
+    const limit = searchParams.get('limit') || '200';
+    const priceType = searchParams.get('priceType');
+
+    if (!symbol) {
+      return NextResponse.json(
+        { error: 'Symbol parameter is required' },
+        { status: 400 }
+      );
+    }
+    if (priceType !== 'mark' && priceType !== 'index') {
+      return NextResponse.json(
+        { error: 'priceType must be mark or index' },
+        { status: 400 }
+      );
+    }
+
+    // Cached separately from trade candles under the same symbol
+    const { candles, coverage, cache } = await getCandlesWithCache({
+      market: 'futures',
+      symbol,
+      granularity,
+      priceType,
+      startTime: toMilliseconds(startTime),
+      endTime: toMilliseconds(endTime),
+      limit: Math.min(parseInt(limit) || 200, MAX_HISTORY_CANDLES),
+    });
+
+    return NextResponse.json(
+      {
+        code: '00000',
+        msg: 'success',
+        requestTime: Date.now(),
+        data: candles,
+        coverage,
+        cache,
+      },
+      {
+        headers: {
+          ...corsHeaders,
+          'X-Data-Source': cache.source,
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Error fetching futures price candles:', error);
+    return errorResponse(error, 'Failed to fetch futures mark/index candles');
+  }
+}
+
+export async function OPTIONS() {
+  return optionsResponse();
+}
@@ -1,4 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { fetchBitgetJson } from '@/lib/upstream';
+import {
+  corsHeaders,
+  errorResponse,
+  optionsResponse,
+} from '@/lib/routeResponse';
 
 export async function GET(request: NextRequest) {
   try {
@@ -12,66 +18,19 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Build query parameters for Bitget Futures API
-    const params = new URLSearchParams({
+    // Use futures market ticker endpoint
+    const data = await fetchBitgetJson('/api/v2/mix/market/ticker', {
       symbol,
+      productType: 'usdt-futures',
     });
 
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 10000); // 10 second timeout
-
-    // Use futures market ticker endpoint
-    const response = await fetch(
-      `https://api.bitget.com/api/v2/mix/market/ticker?${params}`,
-      {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-          'User-Agent': 'Mozilla/5.0 (compatible; BitgetDashboard/1.0)',
-        },
-        signal: controller.signal,
-      }
-    );
-
-    clearTimeout(timeoutId);
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Bitget Futures API error response:', errorText);
-      console.error(
-        'Request URL:',
-        `https://api.bitget.com/api/v2/mix/market/ticker?${params}`
-      );
-      throw new Error(
-        `HTTP error! status: ${response.status}, response: ${errorText}`
-      );
-    }
-
-    const data = await response.json();
-
-    return NextResponse.json(data, {
-      headers: {
-        'Access-Control-Allow-Origin': '*',
-        'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
-      },
-    });
+    return NextResponse.json(data, { headers: corsHeaders });
   } catch (error) {
     console.error('Error fetching futures ticker:', error);
-    return NextResponse.json(
-      { error: 'Failed to fetch futures ticker data' },
-      { status: 500 }
-    );
+    return errorResponse(error, 'Failed to fetch futures ticker data');
   }
 }
 
 export async function OPTIONS() {
-  return new NextResponse(null, {
-    status: 200,
-    headers: {
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
-    },
-  });
+  return optionsResponse();
 }
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { fetchBitgetJson } from '@/lib/upstream';
+import {
+  corsHeaders,
+  errorResponse,
+  optionsResponse,
+} from '@/lib/routeResponse';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const symbol = searchParams.get('symbol');
+    const limit = searchParams.get('limit') || '100';
+
+    if (!symbol) {
+      return NextResponse.json(
+        { error: 'Symbol parameter is required' },
+        { status: 400 }
+      );
+    }
+
+    // Most recent public fills, newest first
+    const data = await fetchBitgetJson('/api/v2/mix/market/fills', {
+      symbol,
+      productType: 'usdt-futures', // Required for futures API
+      limit: Math.min(parseInt(limit) || 100, 100).toString(), // API limit is 100
+    });
+
+    return NextResponse.json(data, {
+      headers: {
+        ...corsHeaders,
+        'Cache-Control': 'public, s-maxage=1, stale-while-revalidate=5',
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching futures recent trades:', error);
+    return errorResponse(error, 'Failed to fetch futures recent trades');
+  }
+}
+
+export async function OPTIONS() {
+  return optionsResponse();
+}
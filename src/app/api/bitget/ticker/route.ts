@@ -1,4 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { fetchBitgetJson } from '@/lib/upstream';
+import {
+  corsHeaders,
+  errorResponse,
+  optionsResponse,
+} from '@/lib/routeResponse';
 
 export async function GET(request: NextRequest) {
   try {
@@ -12,31 +18,13 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const response = await fetch(
-      'https://api.bitget.com/api/v2/spot/market/tickers',
-      {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-          'User-Agent': 'Mozilla/5.0 (compatible; BitgetDashboard/1.0)',
-        },
-      }
+    // Shares the all-tickers request with concurrent callers
+    const data = await fetchBitgetJson<{ symbol: string }[]>(
+      '/api/v2/spot/market/tickers'
     );
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Bitget API error response:', errorText);
-      throw new Error(
-        `HTTP error! status: ${response.status}, response: ${errorText}`
-      );
-    }
-
-    const data = await response.json();
-
     // Filter for the specific symbol
-    const ticker = data.data.find(
-      (t: { symbol: string }) => t.symbol === symbol
-    );
+    const ticker = data.data.find(t => t.symbol === symbol);
     if (!ticker) {
       return NextResponse.json(
         { error: `Symbol ${symbol} not found` },
@@ -50,29 +38,13 @@ export async function GET(request: NextRequest) {
       data: [ticker],
     };
 
-    return NextResponse.json(filteredData, {
-      headers: {
-        'Access-Control-Allow-Origin': '*',
-        'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
-      },
-    });
+    return NextResponse.json(filteredData, { headers: corsHeaders });
   } catch (error) {
     console.error('Error fetching ticker:', error);
-    return NextResponse.json(
-      { error: 'Failed to fetch ticker' },
-      { status: 500 }
-    );
+    return errorResponse(error, 'Failed to fetch ticker');
   }
 }
 
 export async function OPTIONS() {
-  return new NextResponse(null, {
-    status: 200,
-    headers: {
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
-    },
-  });
+  return optionsResponse();
 }
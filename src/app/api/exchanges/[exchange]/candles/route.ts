@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  ExchangeRequestError,
+  parseMarket,
+  providerFor,
+} from '@/lib/exchanges';
+import { MAX_HISTORY_CANDLES, toMilliseconds } from '@/lib/granularity';
+import {
+  corsHeaders,
+  errorResponse,
+  optionsResponse,
+} from '@/lib/routeResponse';
+
+interface RouteContext {
+  params: Promise<{ exchange: string }>;
+}
+
+// Candles oldest first, paged past the exchange's per-request cap
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { exchange } = await params;
+    const { searchParams } = new URL(request.url);
+    const provider = providerFor(exchange);
+    const market = parseMarket(searchParams.get('market'));
+    const symbol = searchParams.get('symbol');
+
+    if (!symbol) {
+      return NextResponse.json(
+        { error: 'Symbol parameter is required' },
+        { status: 400 }
+      );
+    }
+
+    const data = await provider.getCandles(market, symbol, {
+      granularity: searchParams.get('granularity') || '1day',
+      startTime: toMilliseconds(searchParams.get('startTime')),
+      endTime: toMilliseconds(searchParams.get('endTime')),
+      limit: Math.min(
+        parseInt(searchParams.get('limit') || '200') || 200,
+        MAX_HISTORY_CANDLES
+      ),
+    });
+
+    return NextResponse.json(
+      { code: '00000', msg: 'success', requestTime: Date.now(), data },
+      {
+        headers: {
+          ...corsHeaders,
+          'Cache-Control': 'public, s-maxage=30, stale-while-revalidate=60',
+        },
+      }
+    );
+  } catch (error) {
+    if (error instanceof ExchangeRequestError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Error fetching exchange candles:', error);
+    return errorResponse(error, 'Failed to fetch candles');
+  }
+}
+
+export async function OPTIONS() {
+  return optionsResponse();
+}
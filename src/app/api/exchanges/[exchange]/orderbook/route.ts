@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  ExchangeRequestError,
+  parseMarket,
+  providerFor,
+} from '@/lib/exchanges';
+import {
+  corsHeaders,
+  errorResponse,
+  optionsResponse,
+} from '@/lib/routeResponse';
+
+interface RouteContext {
+  params: Promise<{ exchange: string }>;
+}
+
+// Orderbook with sizes in the base coin
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { exchange } = await params;
+    const { searchParams } = new URL(request.url);
+    const provider = providerFor(exchange);
+    const market = parseMarket(searchParams.get('market'));
+    const symbol = searchParams.get('symbol');
+
+    if (!symbol) {
+      return NextResponse.json(
+        { error: 'Symbol parameter is required' },
+        { status: 400 }
+      );
+    }
+
+    const data = await provider.getOrderbook(
+      market,
+      symbol,
+      parseInt(searchParams.get('limit') || '100') || 100
+    );
+
+    return NextResponse.json(
+      { code: '00000', msg: 'success', requestTime: Date.now(), data },
+      {
+        headers: {
+          ...corsHeaders,
+          'Cache-Control': 'public, s-maxage=1, stale-while-revalidate=5',
+        },
+      }
+    );
+  } catch (error) {
+    if (error instanceof ExchangeRequestError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Error fetching exchange orderbook:', error);
+    return errorResponse(error, 'Failed to fetch orderbook');
+  }
+}
+
+export async function OPTIONS() {
+  return optionsResponse();
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  ExchangeRequestError,
+  parseMarket,
+  providerFor,
+} from '@/lib/exchanges';
+import {
+  corsHeaders,
+  errorResponse,
+  optionsResponse,
+} from '@/lib/routeResponse';
+
+interface RouteContext {
+  params: Promise<{ exchange: string }>;
+}
+
+// Normalized symbols of one exchange's spot or perpetual market
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { exchange } = await params;
+    const { searchParams } = new URL(request.url);
+    const provider = providerFor(exchange);
+    const market = parseMarket(searchParams.get('market'));
+
+    const data = await provider.getSymbols(market);
+
+    return NextResponse.json(
+      { code: '00000', msg: 'success', requestTime: Date.now(), data },
+      {
+        headers: {
+          ...corsHeaders,
+          'Cache-Control': 'public, max-age=300',
+        },
+      }
+    );
+  } catch (error) {
+    if (error instanceof ExchangeRequestError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Error fetching exchange symbols:', error);
+    return errorResponse(error, 'Failed to fetch symbols');
+  }
+}
+
+export async function OPTIONS() {
+  return optionsResponse();
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  ExchangeRequestError,
+  parseMarket,
+  providerFor,
+} from '@/lib/exchanges';
+import {
+  corsHeaders,
+  errorResponse,
+  optionsResponse,
+} from '@/lib/routeResponse';
+
+interface RouteContext {
+  params: Promise<{ exchange: string }>;
+}
+
+// 24h tickers of every symbol on one exchange's spot or perpetual market
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { exchange } = await params;
+    const { searchParams } = new URL(request.url);
+    const provider = providerFor(exchange);
+    const market = parseMarket(searchParams.get('market'));
+
+    const data = await provider.getTickers(market);
+
+    return NextResponse.json(
+      { code: '00000', msg: 'success', requestTime: Date.now(), data },
+      {
+        headers: {
+          ...corsHeaders,
+          'Cache-Control': 'public, s-maxage=5, stale-while-revalidate=30',
+        },
+      }
+    );
+  } catch (error) {
+    if (error instanceof ExchangeRequestError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Error fetching exchange tickers:', error);
+    return errorResponse(error, 'Failed to fetch tickers');
+  }
+}
+
+export async function OPTIONS() {
+  return optionsResponse();
+}
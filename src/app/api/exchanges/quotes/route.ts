@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ExchangeRequestError, parseMarket } from '@/lib/exchanges';
+import { getVenueQuotes } from '@/lib/exchanges/quotes';
+import {
+  corsHeaders,
+  errorResponse,
+  optionsResponse,
+} from '@/lib/routeResponse';
+
+// One symbol's ticker on every exchange, for spot and/or perpetuals
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const symbol = searchParams.get('symbol');
+
+    if (!symbol) {
+      return NextResponse.json(
+        { error: 'Symbol parameter is required' },
+        { status: 400 }
+      );
+    }
+
+    const markets = Array.from(
+      new Set(
+        (searchParams.get('markets') || 'spot,futures')
+          .split(',')
+          .map(value => parseMarket(value.trim()))
+      )
+    );
+
+    const data = await getVenueQuotes(symbol.toUpperCase(), markets);
+
+    return NextResponse.json(
+      { code: '00000', msg: 'success', requestTime: Date.now(), data },
+      {
+        headers: {
+          ...corsHeaders,
+          'Cache-Control': 'public, s-maxage=5, stale-while-revalidate=30',
+        },
+      }
+    );
+  } catch (error) {
+    if (error instanceof ExchangeRequestError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Error fetching venue quotes:', error);
+    return errorResponse(error, 'Failed to fetch quotes');
+  }
+}
+
+export async function OPTIONS() {
+  return optionsResponse();
+}
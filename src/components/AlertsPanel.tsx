@@ -0,0 +1,450 @@
+'use client';
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Bell, BellOff, Plus, RefreshCw, Trash2 } from 'lucide-react';
+import { MarketType } from '@/services/bitgetApi';
+import { alertsApi } from '@/services/alertsApi';
+import {
+  AlertEvent,
+  AlertInput,
+  AlertMetric,
+  AlertOperator,
+  alertGranularities,
+  alertMetrics,
+  alertOperators,
+  AlertRule,
+  describeAlert,
+  isIndicatorMetric,
+} from '@/lib/alerts';
+import { ExchangeId, exchangeLabel } from '@/lib/exchanges/types';
+import { cn } from '@/lib/utils';
+
+interface AlertsPanelProps {
+  selectedCoin: string;
+  marketType: MarketType;
+  exchange: ExchangeId;
+}
+
+const POLL_INTERVAL = 15000;
+
+const inputClass =
+  'dashboard-input px-2 py-1 rounded-md border border-gray-200 dark:border-gray-600 text-sm';
+
+const selectClass = cn(inputClass, 'bg-white dark:bg-gray-800');
+
+const formatTime = (timestamp: number | null) =>
+  timestamp ? new Date(timestamp).toLocaleString() : '-';
+
+const AlertsPanel: React.FC<AlertsPanelProps> = ({
+  selectedCoin,
+  marketType,
+  exchange,
+}) => {
+  const [alerts, setAlerts] = useState<AlertRule[]>([]);
+  const [events, setEvents] = useState<AlertEvent[]>([]);
+  const [error, setError] = useState<string>('');
+  const [checking, setChecking] = useState<boolean>(false);
+  const [permission, setPermission] = useState<
+    NotificationPermission | 'unsupported'
+  >('default');
+
+  const [symbol, setSymbol] = useState<string>(selectedCoin);
+  const [market, setMarket] = useState<MarketType>(marketType);
+  const [metric, setMetric] = useState<AlertMetric>('price');
+  const [period, setPeriod] = useState<number>(14);
+  const [granularity, setGranularity] = useState<string>('1h');
+  const [operator, setOperator] = useState<AlertOperator>('crossesAbove');
+  const [threshold, setThreshold] = useState<string>('');
+  const [trigger, setTrigger] = useState<'once' | 'recurring'>('once');
+  const [cooldown, setCooldown] = useState<number>(60);
+  const [webhookUrl, setWebhookUrl] = useState<string>('');
+
+  // Newest event already shown; null until the first load so existing
+  // history does not raise notifications
+  const latestEventRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    setSymbol(selectedCoin);
+    setMarket(marketType);
+  }, [selectedCoin, marketType]);
+
+  useEffect(() => {
+    setPermission(
+      typeof Notification === 'undefined'
+        ? 'unsupported'
+        : Notification.permission
+    );
+  }, []);
+
+  const notify = useCallback((fresh: AlertEvent[]) => {
+    if (
+      typeof Notification === 'undefined' ||
+      Notification.permission !== 'granted'
+    ) {
+      return;
+    }
+    fresh.forEach(event => {
+      new Notification(`Alert: ${event.symbol}`, {
+        body: event.message,
+        tag: event.id,
+      });
+    });
+  }, []);
+
+  const refresh = useCallback(async () => {
+    try {
+      const since = latestEventRef.current;
+      const [nextAlerts, newEvents] = await Promise.all([
+        alertsApi.getAlerts(),
+        alertsApi.getEvents(since ?? undefined),
+      ]);
+      setAlerts(nextAlerts);
+      if (since === null) {
+        setEvents(newEvents);
+      } else if (newEvents.length > 0) {
+        setEvents(prev => [...newEvents, ...prev].slice(0, 100));
+        notify(newEvents);
+      }
+      latestEventRef.current = Math.max(
+        since ?? 0,
+        ...newEvents.map(event => event.triggeredAt)
+      );
+      setError('');
+    } catch (err) {
+      console.error('Failed to load alerts:', err);
+      setError('Failed to load alerts');
+    }
+  }, [notify]);
+
+  useEffect(() => {
+    refresh();
+    const interval = setInterval(refresh, POLL_INTERVAL);
+    return () => clearInterval(interval);
+  }, [refresh]);
+
+  const handleRequestPermission = async () => {
+    if (typeof Notification === 'undefined') return;
+    setPermission(await Notification.requestPermission());
+  };
+
+  const handleMetricChange = (value: AlertMetric) => {
+    setMetric(value);
+    const defaultPeriod = alertMetrics.find(
+      m => m.value === value
+    )?.defaultPeriod;
+    if (defaultPeriod) setPeriod(defaultPeriod);
+  };
+
+  const handleCreate = async () => {
+    const input: AlertInput = {
+      symbol: symbol.trim().toUpperCase(),
+      marketType: market,
+      metric,
+      period: isIndicatorMetric(metric) ? period : undefined,
+      granularity: isIndicatorMetric(metric) ? granularity : undefined,
+      operator,
+      threshold: parseFloat(threshold),
+      trigger,
+      cooldownMinutes: trigger === 'recurring' ? cooldown : 0,
+      webhookUrl: webhookUrl.trim() || undefined,
+      enabled: true,
+    };
+    try {
+      const alert = await alertsApi.createAlert(input);
+      setAlerts(prev => [...prev, alert]);
+      setThreshold('');
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create alert');
+    }
+  };
+
+  const handleToggle = async (alert: AlertRule) => {
+    try {
+      const updated = await alertsApi.updateAlert(alert.id, {
+        enabled: !alert.enabled,
+      });
+      setAlerts(prev => prev.map(a => (a.id === updated.id ? updated : a)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update alert');
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await alertsApi.deleteAlert(id);
+      setAlerts(prev => prev.filter(a => a.id !== id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete alert');
+    }
+  };
+
+  const handleCheckNow = async () => {
+    setChecking(true);
+    try {
+      await alertsApi.evaluate();
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to check alerts');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  return (
+    <div className='dashboard-card p-6 rounded-lg'>
+      <div className='flex flex-wrap items-center justify-between gap-3 mb-4'>
+        <h2 className='text-xl font-semibold'>Alerts</h2>
+        <div className='flex items-center gap-2'>
+          {permission === 'granted' ? (
+            <span className='flex items-center gap-1 text-xs text-muted'>
+              <Bell className='w-3 h-3' />
+              Browser notifications on
+            </span>
+          ) : permission === 'unsupported' ? (
+            <span className='flex items-center gap-1 text-xs text-muted'>
+              <BellOff className='w-3 h-3' />
+              Notifications unsupported
+            </span>
+          ) : (
+            <button
+              onClick={handleRequestPermission}
+              disabled={permission === 'denied'}
+              className='dashboard-button-secondary flex items-center gap-2 px-3 py-1 rounded-md disabled:opacity-50 text-sm'
+              title={
+                permission === 'denied'
+                  ? 'Notifications are blocked in browser settings'
+                  : undefined
+              }
+            >
+              <Bell className='w-3 h-3' />
+              Enable notifications
+            </button>
+          )}
+          <button
+            onClick={handleCheckNow}
+            disabled={checking}
+            className='dashboard-button-secondary flex items-center gap-2 px-3 py-1 rounded-md disabled:opacity-50 text-sm'
+          >
+            <RefreshCw className={cn('w-3 h-3', checking && 'animate-spin')} />
+            Check now
+          </button>
+        </div>
+      </div>
+
+      {/* The evaluator only reads Bitget prices and candles */}
+      {exchange !== 'bitget' && (
+        <p className='text-sm text-yellow-600 mb-4'>
+          Alerts are evaluated against Bitget prices, not{' '}
+          {exchangeLabel(exchange)}.
+        </p>
+      )}
+
+      <div className='flex flex-wrap items-end gap-2 mb-4 text-sm'>
+        <input
+          type='text'
+          value={symbol}
+          onChange={e => setSymbol(e.target.value)}
+          className={cn(inputClass, 'w-28')}
+          placeholder='Symbol'
+        />
+        <select
+          value={market}
+          onChange={e => setMarket(e.target.value as MarketType)}
+          className={selectClass}
+        >
+          <option value='spot'>Spot</option>
+          <option value='futures'>Futures</option>
+        </select>
+        <select
+          value={metric}
+          onChange={e => handleMetricChange(e.target.value as AlertMetric)}
+          className={selectClass}
+        >
+          {alertMetrics.map(m => (
+            <option key={m.value} value={m.value}>
+              {m.label}
+            </option>
+          ))}
+        </select>
+        {isIndicatorMetric(metric) && (
+          <>
+            <input
+              type='number'
+              min={1}
+              max={500}
+              value={period}
+              onChange={e => setPeriod(parseInt(e.target.value) || 1)}
+              className={cn(inputClass, 'w-16')}
+              title='Period'
+            />
+            <select
+              value={granularity}
+              onChange={e => setGranularity(e.target.value)}
+              className={selectClass}
+            >
+              {alertGranularities.map(g => (
+                <option key={g} value={g}>
+                  {g}
+                </option>
+              ))}
+            </select>
+          </>
+        )}
+        <select
+          value={operator}
+          onChange={e => setOperator(e.target.value as AlertOperator)}
+          className={selectClass}
+        >
+          {alertOperators.map(o => (
+            <option key={o.value} value={o.value}>
+              {o.label}
+            </option>
+          ))}
+        </select>
+        <input
+          type='number'
+          step='any'
+          value={threshold}
+          onChange={e => setThreshold(e.target.value)}
+          className={cn(inputClass, 'w-28')}
+          placeholder={metric === 'change24h' ? 'Percent' : 'Value'}
+        />
+        <select
+          value={trigger}
+          onChange={e => setTrigger(e.target.value as 'once' | 'recurring')}
+          className={selectClass}
+        >
+          <option value='once'>Once</option>
+          <option value='recurring'>Recurring</option>
+        </select>
+        {trigger === 'recurring' && (
+          <label className='flex items-center gap-1 text-muted'>
+            Cooldown
+            <input
+              type='number'
+              min={0}
+              value={cooldown}
+              onChange={e => setCooldown(parseInt(e.target.value) || 0)}
+              className={cn(inputClass, 'w-16')}
+            />
+            min
+          </label>
+        )}
+        <input
+          type='url'
+          value={webhookUrl}
+          onChange={e => setWebhookUrl(e.target.value)}
+          className={cn(inputClass, 'flex-1 min-w-48')}
+          placeholder='Webhook URL (optional)'
+        />
+        <button
+          onClick={handleCreate}
+          disabled={!symbol.trim() || threshold === ''}
+          className='dashboard-button flex items-center gap-1 px-3 py-1 rounded-md disabled:opacity-50'
+        >
+          <Plus className='w-4 h-4' />
+          Add Alert
+        </button>
+      </div>
+
+      {error && <p className='text-sm text-red-600 mb-4'>{error}</p>}
+
+      <div className='grid grid-cols-1 lg:grid-cols-2 gap-6'>
+        <div>
+          <h3 className='font-medium mb-2'>Active Rules</h3>
+          {alerts.length === 0 ? (
+            <p className='text-sm text-muted'>No alerts defined</p>
+          ) : (
+            <div className='space-y-2'>
+              {alerts.map(alert => (
+                <div
+                  key={alert.id}
+                  className={cn(
+                    'flex items-start gap-3 rounded-md border border-gray-200 dark:border-gray-700 p-2 text-sm',
+                    !alert.enabled && 'opacity-60'
+                  )}
+                >
+                  <div className='min-w-0 flex-1'>
+                    <div className='font-medium'>{describeAlert(alert)}</div>
+                    <div className='text-xs text-muted'>
+                      {alert.trigger === 'once'
+                        ? 'Once'
+                        : `Recurring, ${alert.cooldownMinutes} min cooldown`}
+                      {alert.webhookUrl && ' · webhook'}
+                      {' · '}fired {alert.state.triggerCount}x
+                      {alert.state.lastValue !== null &&
+                        ` · last ${Number(alert.state.lastValue.toFixed(6))}`}
+                      {' · '}checked {formatTime(alert.state.lastCheckedAt)}
+                    </div>
+                    {alert.state.lastError && (
+                      <div className='text-xs text-red-600'>
+                        {alert.state.lastError}
+                      </div>
+                    )}
+                  </div>
+                  <button
+                    onClick={() => handleToggle(alert)}
+                    className='text-gray-400 hover:text-gray-600'
+                    title={alert.enabled ? 'Disable' : 'Enable'}
+                  >
+                    {alert.enabled ? (
+                      <Bell className='w-4 h-4' />
+                    ) : (
+                      <BellOff className='w-4 h-4' />
+                    )}
+                  </button>
+                  <button
+                    onClick={() => handleDelete(alert.id)}
+                    className='text-gray-400 hover:text-red-500'
+                    title='Delete'
+                  >
+                    <Trash2 className='w-4 h-4' />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div>
+          <h3 className='font-medium mb-2'>Alert Log</h3>
+          {events.length === 0 ? (
+            <p className='text-sm text-muted'>No alerts have fired yet</p>
+          ) : (
+            <div className='max-h-80 overflow-y-auto space-y-1'>
+              {events.map(event => (
+                <div
+                  key={event.id}
+                  className='flex items-start justify-between gap-3 border-b border-gray-100 dark:border-gray-800 py-1 text-sm'
+                >
+                  <div className='min-w-0'>
+                    <div>{event.message}</div>
+                    {event.webhook !== 'skipped' && (
+                      <div
+                        className={cn(
+                          'text-xs',
+                          event.webhook === 'sent'
+                            ? 'text-green-600'
+                            : 'text-red-600'
+                        )}
+                      >
+                        Webhook {event.webhook}
+                        {event.webhookError && `: ${event.webhookError}`}
+                      </div>
+                    )}
+                  </div>
+                  <span className='text-xs text-muted whitespace-nowrap'>
+                    {formatTime(event.triggeredAt)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AlertsPanel;
@@ -0,0 +1,663 @@
+'use client';
+
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+import ReactMarkdown from 'react-markdown';
+import { Copy, Download, Pencil, Play, Square, Trash2 } from 'lucide-react';
+import PromptTemplateEditor from './PromptTemplateEditor';
+import TradePlanCard from './TradePlanCard';
+import ForecastAccuracy from './ForecastAccuracy';
+import { CandleData, DataSummary, MarketType } from '@/services/bitgetApi';
+import { analysisApi } from '@/services/analysisApi';
+import {
+  ANALYSIS_SYSTEM_PROMPT,
+  AnalysisProviderInfo,
+  AnalysisReport,
+  AnalysisReportSummary,
+  planHorizonEnd,
+} from '@/lib/analysis';
+import {
+  buildDataBlock,
+  contextBudgets,
+  DataBlockOptions,
+  dataModes,
+  DataMode,
+  estimateTokens,
+} from '@/lib/promptData';
+import { ExchangeId, exchangeLabel } from '@/lib/exchanges/types';
+import { readStored, writeStored } from '@/lib/storage';
+import {
+  addVersion,
+  builtInTemplates,
+  createTemplate,
+  currentVersion,
+  loadActiveTemplateId,
+  loadUserTemplates,
+  PromptContext,
+  PromptTemplate,
+  renderTemplate,
+  saveActiveTemplateId,
+  saveUserTemplates,
+} from '@/lib/promptTemplates';
+import { PlanScore, tradePlanInstructions } from '@/lib/tradePlan';
+import { cn } from '@/lib/utils';
+
+interface AnalysisPanelProps {
+  symbol: string;
+  exchange: ExchangeId;
+  marketType: MarketType;
+  granularity: string;
+  granularityLabel: string;
+  timeRange: number;
+  summary: DataSummary;
+  candles: CandleData[];
+  // The open report, while its trade plan should be drawn on the chart
+  onPlanReportChange?: (report: AnalysisReport | null) => void;
+}
+
+interface StoredDataOptions extends Partial<DataBlockOptions> {
+  tradePlan?: boolean;
+}
+
+const DATA_OPTIONS_KEY = 'coinai.promptDataOptions';
+
+// Answer length assumed before the provider's limit is known
+const DEFAULT_RESERVED_TOKENS = 4096;
+
+const selectClass =
+  'dashboard-input px-2 py-1 rounded-md border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-800 text-sm';
+
+const statusClass: Record<AnalysisReportSummary['status'], string> = {
+  complete: 'text-green-600',
+  error: 'text-red-600',
+  cancelled: 'text-muted',
+};
+
+// Directional result plus how the setup played out
+const planLabel = (score: PlanScore) =>
+  [
+    score.biasCorrect === null
+      ? 'neutral'
+      : score.biasCorrect
+        ? 'direction ✓'
+        : 'direction ✗',
+    score.outcome,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+const outcomeClass = (score: PlanScore) =>
+  score.outcome === 'target'
+    ? 'text-green-600'
+    : score.outcome === 'stopped'
+      ? 'text-red-600'
+      : 'text-muted';
+
+const AnalysisPanel: React.FC<AnalysisPanelProps> = ({
+  symbol,
+  exchange,
+  marketType,
+  granularity,
+  granularityLabel,
+  timeRange,
+  summary,
+  candles,
+  onPlanReportChange,
+}) => {
+  const [output, setOutput] = useState<string>('');
+  const [running, setRunning] = useState<boolean>(false);
+  const [error, setError] = useState<string>('');
+  const [reports, setReports] = useState<AnalysisReportSummary[]>([]);
+  const [provider, setProvider] = useState<AnalysisProviderInfo | null>(null);
+  const [activeReportId, setActiveReportId] = useState<string>('');
+  const [showPrompt, setShowPrompt] = useState<boolean>(false);
+  const [userTemplates, setUserTemplates] = useState<PromptTemplate[]>([]);
+  const [activeTemplateId, setActiveTemplateId] = useState<string>(
+    builtInTemplates[0].id
+  );
+  const [editing, setEditing] = useState<boolean>(false);
+  const [dataMode, setDataMode] = useState<DataMode>('auto');
+  const [contextTokens, setContextTokens] = useState<number>(128000);
+  const [requestPlan, setRequestPlan] = useState<boolean>(false);
+  const [activeReport, setActiveReport] = useState<AnalysisReport | null>(null);
+  const [planOnChart, setPlanOnChart] = useState<boolean>(true);
+  const [scoring, setScoring] = useState<boolean>(false);
+  const [allSymbols, setAllSymbols] = useState<boolean>(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    setUserTemplates(loadUserTemplates());
+    setActiveTemplateId(loadActiveTemplateId());
+    const stored = readStored<StoredDataOptions>(DATA_OPTIONS_KEY, {});
+    if (stored.mode) setDataMode(stored.mode);
+    if (stored.contextTokens) setContextTokens(stored.contextTokens);
+    if (stored.tradePlan) setRequestPlan(true);
+  }, []);
+
+  const templates = useMemo(
+    () => [...builtInTemplates, ...userTemplates],
+    [userTemplates]
+  );
+  const activeTemplate =
+    templates.find(t => t.id === activeTemplateId) || templates[0];
+
+  const context = useMemo<PromptContext>(
+    () => ({
+      symbol,
+      exchange: exchangeLabel(exchange),
+      marketType,
+      granularity,
+      granularityLabel,
+      timeRange,
+      summary,
+      candles,
+    }),
+    [
+      symbol,
+      exchange,
+      marketType,
+      granularity,
+      granularityLabel,
+      timeRange,
+      summary,
+      candles,
+    ]
+  );
+
+  const rendered = useMemo(
+    () => renderTemplate(currentVersion(activeTemplate).body, context),
+    [activeTemplate, context]
+  );
+
+  // Inline the candles in whatever form fits next to the rendered template
+  // and the trade plan instructions
+  const reservedTokens = provider?.maxTokens || DEFAULT_RESERVED_TOKENS;
+  const planText = requestPlan ? `\n\n${tradePlanInstructions}` : '';
+  const promptTokens = estimateTokens(
+    ANALYSIS_SYSTEM_PROMPT + rendered.text + planText
+  );
+  const dataBlock = useMemo(
+    () =>
+      buildDataBlock(candles, promptTokens, {
+        mode: dataMode,
+        contextTokens,
+        reservedTokens,
+      }),
+    [candles, promptTokens, dataMode, contextTokens, reservedTokens]
+  );
+  const fullPrompt = dataBlock
+    ? `${rendered.text}
+
+Historical data for ${symbol} on ${exchangeLabel(exchange)} (${marketType}, ${granularityLabel}):
+
+\`\`\`
+${dataBlock.text}
+\`\`\`${planText}`
+    : rendered.text + planText;
+  const totalTokens = estimateTokens(ANALYSIS_SYSTEM_PROMPT + fullPrompt);
+  const availableTokens = contextTokens - reservedTokens;
+
+  const updateDataOptions = (
+    mode: DataMode,
+    tokens: number,
+    tradePlan: boolean = requestPlan
+  ) => {
+    setDataMode(mode);
+    setContextTokens(tokens);
+    setRequestPlan(tradePlan);
+    writeStored<StoredDataOptions>(DATA_OPTIONS_KEY, {
+      mode,
+      contextTokens: tokens,
+      tradePlan,
+    });
+  };
+
+  const loadReports = useCallback(async () => {
+    try {
+      const result = await analysisApi.getReports(
+        allSymbols ? undefined : symbol
+      );
+      setReports(result.reports);
+      setProvider(result.provider);
+    } catch (err) {
+      console.error('Failed to load analysis reports:', err);
+    }
+  }, [symbol, allSymbols]);
+
+  useEffect(() => {
+    loadReports();
+  }, [loadReports]);
+
+  // Stop a running analysis when leaving the page
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  useEffect(() => {
+    onPlanReportChange?.(
+      planOnChart && activeReport?.plan ? activeReport : null
+    );
+  }, [activeReport, planOnChart, onPlanReportChange]);
+
+  // A different symbol has its own reports; drop the open one
+  useEffect(() => {
+    setActiveReport(null);
+    setActiveReportId('');
+    setOutput('');
+  }, [symbol]);
+
+  const handleRun = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setRunning(true);
+    setError('');
+    setOutput('');
+    setActiveReportId('');
+    setActiveReport(null);
+    try {
+      const id = await analysisApi.runAnalysis(
+        {
+          symbol,
+          exchange,
+          marketType,
+          granularity,
+          timeRange,
+          prompt: fullPrompt,
+          summary,
+          candles,
+          template: {
+            id: activeTemplate.id,
+            name: activeTemplate.name,
+            version: currentVersion(activeTemplate).version,
+          },
+          data: dataBlock
+            ? {
+                encoding: dataBlock.encoding,
+                rows: dataBlock.rows,
+                sourceRows: dataBlock.sourceRows,
+                tokens: dataBlock.tokens,
+              }
+            : undefined,
+          structuredOutput: requestPlan,
+        },
+        text => setOutput(prev => prev + text),
+        controller.signal
+      );
+      setActiveReportId(id);
+      // The saved report carries the parsed trade plan
+      if (requestPlan && id) setActiveReport(await analysisApi.getReport(id));
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        setError(err instanceof Error ? err.message : 'Analysis failed');
+      }
+    } finally {
+      setRunning(false);
+      abortRef.current = null;
+      loadReports();
+    }
+  };
+
+  const handleStop = () => abortRef.current?.abort();
+
+  const handleOpenReport = async (id: string) => {
+    try {
+      const report = await analysisApi.getReport(id);
+      setOutput(report.output);
+      setActiveReportId(id);
+      setActiveReport(report);
+      setError(report.error || '');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to open report');
+    }
+  };
+
+  const handleDeleteReport = async (id: string) => {
+    try {
+      await analysisApi.deleteReport(id);
+      setReports(prev => prev.filter(r => r.id !== id));
+      if (id === activeReportId) {
+        setActiveReportId('');
+        setActiveReport(null);
+        setOutput('');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete report');
+    }
+  };
+
+  const handleScore = async () => {
+    if (!activeReport) return;
+    setScoring(true);
+    try {
+      setActiveReport(await analysisApi.scoreReport(activeReport.id));
+      setError('');
+      loadReports();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to score plan');
+    } finally {
+      setScoring(false);
+    }
+  };
+
+  // Full report with its inputs, for reproducing or sharing a run
+  const handleDownloadReport = async (id: string) => {
+    try {
+      const report = await analysisApi.getReport(id);
+      const blob = new Blob([JSON.stringify(report, null, 2)], {
+        type: 'application/json',
+      });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${report.symbol}_${report.id}.json`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export report');
+    }
+  };
+
+  const updateUserTemplates = (next: PromptTemplate[]) => {
+    setUserTemplates(next);
+    saveUserTemplates(next);
+  };
+
+  const selectTemplate = (id: string) => {
+    setActiveTemplateId(id);
+    saveActiveTemplateId(id);
+  };
+
+  const handleSaveVersion = (body: string, note?: string) => {
+    updateUserTemplates(
+      userTemplates.map(t =>
+        t.id === activeTemplate.id ? addVersion(t, body, note) : t
+      )
+    );
+  };
+
+  const handleSaveAsNew = (name: string, body: string) => {
+    const template = createTemplate(name, body);
+    updateUserTemplates([...userTemplates, template]);
+    selectTemplate(template.id);
+  };
+
+  const handleDeleteTemplate = () => {
+    updateUserTemplates(userTemplates.filter(t => t.id !== activeTemplate.id));
+    selectTemplate(builtInTemplates[0].id);
+    setEditing(false);
+  };
+
+  const handleCopyPrompt = () => {
+    navigator.clipboard.writeText(fullPrompt);
+    alert('AI analysis prompt copied to clipboard!');
+  };
+
+  return (
+    <div className='dashboard-card p-6 rounded-lg'>
+      <div className='flex flex-wrap items-center justify-between gap-3 mb-4'>
+        <h2 className='text-xl font-semibold'>AI Analysis</h2>
+        <span className='text-xs text-muted'>
+          {provider
+            ? `${provider.provider} · ${provider.model}`
+            : 'No LLM provider configured'}
+        </span>
+      </div>
+
+      <div className='flex flex-wrap items-center gap-2 mb-4'>
+        <select
+          value={activeTemplate.id}
+          onChange={e => selectTemplate(e.target.value)}
+          disabled={running}
+          className='dashboard-input px-2 py-2 rounded-lg border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-800 text-sm'
+        >
+          {templates.map(template => (
+            <option key={template.id} value={template.id}>
+              {template.name}
+              {template.builtIn
+                ? ''
+                : ` (v${currentVersion(template).version})`}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={() => setEditing(!editing)}
+          className='dashboard-button-secondary flex items-center gap-2 px-3 py-2 rounded-lg text-sm'
+        >
+          <Pencil className='w-4 h-4' />
+          {editing ? 'Close editor' : 'Edit template'}
+        </button>
+        {running ? (
+          <button
+            onClick={handleStop}
+            className='dashboard-button flex items-center gap-2 px-4 py-2 rounded-lg'
+          >
+            <Square className='w-4 h-4' />
+            Stop
+          </button>
+        ) : (
+          <button
+            onClick={handleRun}
+            disabled={!provider || candles.length === 0}
+            className='dashboard-button flex items-center gap-2 px-4 py-2 rounded-lg disabled:opacity-50'
+            title={
+              provider ? undefined : 'Set LLM_PROVIDER on the server to enable'
+            }
+          >
+            <Play className='w-4 h-4' />
+            Run Analysis
+          </button>
+        )}
+        <button
+          onClick={handleCopyPrompt}
+          className='dashboard-button-secondary flex items-center gap-2 px-3 py-2 rounded-lg'
+        >
+          <Copy className='w-4 h-4' />
+          Copy Prompt
+        </button>
+        <button
+          onClick={() => setShowPrompt(!showPrompt)}
+          className='dashboard-button-secondary px-3 py-2 rounded-lg text-sm'
+        >
+          {showPrompt ? 'Hide prompt' : 'Show prompt'}
+        </button>
+      </div>
+
+      {editing && (
+        <PromptTemplateEditor
+          template={activeTemplate}
+          context={context}
+          onSaveVersion={handleSaveVersion}
+          onSaveAsNew={handleSaveAsNew}
+          onDelete={handleDeleteTemplate}
+          onClose={() => setEditing(false)}
+        />
+      )}
+
+      <div className='flex flex-wrap items-center gap-2 mb-4 text-sm'>
+        <label className='flex items-center gap-1 text-muted'>
+          Data
+          <select
+            value={dataMode}
+            onChange={e =>
+              updateDataOptions(e.target.value as DataMode, contextTokens)
+            }
+            className={selectClass}
+          >
+            {dataModes.map(mode => (
+              <option key={mode.value} value={mode.value}>
+                {mode.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className='flex items-center gap-1 text-muted'>
+          Context
+          <select
+            value={contextTokens}
+            onChange={e =>
+              updateDataOptions(dataMode, parseInt(e.target.value))
+            }
+            className={selectClass}
+          >
+            {contextBudgets.map(budget => (
+              <option key={budget.value} value={budget.value}>
+                {budget.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label
+          className='flex items-center gap-1 text-muted'
+          title='Ask for levels and a trade setup as JSON, drawn on the chart and scorable later'
+        >
+          <input
+            type='checkbox'
+            checked={requestPlan}
+            onChange={e =>
+              updateDataOptions(dataMode, contextTokens, e.target.checked)
+            }
+          />
+          Request trade plan
+        </label>
+        <span
+          className={cn(
+            'text-xs',
+            totalTokens > availableTokens ? 'text-red-600' : 'text-muted'
+          )}
+        >
+          ~{totalTokens.toLocaleString()} of {availableTokens.toLocaleString()}{' '}
+          prompt tokens
+          {dataBlock &&
+            ` · ${dataBlock.encoding === 'stats' ? 'statistics' : dataBlock.encoding} of ${dataBlock.rows < dataBlock.sourceRows ? `${dataBlock.rows} merged from ` : ''}${dataBlock.sourceRows} candles`}
+          {totalTokens > availableTokens &&
+            ' · over budget, choose a more compact format or a larger context'}
+        </span>
+      </div>
+
+      {rendered.missing.length > 0 && (
+        <p className='text-xs text-yellow-600 mb-4'>
+          Unresolved placeholders: {rendered.missing.join(', ')}
+        </p>
+      )}
+
+      {showPrompt && !editing && (
+        <div className='dashboard-card p-4 rounded-lg mb-4'>
+          <pre className='whitespace-pre-wrap text-sm'>{fullPrompt}</pre>
+        </div>
+      )}
+
+      {error && <p className='text-sm text-red-600 mb-4'>{error}</p>}
+
+      {activeReport && !running && (
+        <TradePlanCard
+          report={activeReport}
+          showOnChart={planOnChart}
+          onToggleChart={setPlanOnChart}
+          onScore={handleScore}
+          scoring={scoring}
+        />
+      )}
+
+      {(output || running) && (
+        <div className='markdown-body rounded-lg border border-gray-200 dark:border-gray-700 p-4 mb-4 text-sm'>
+          {output ? (
+            <ReactMarkdown>{output}</ReactMarkdown>
+          ) : (
+            <p className='text-muted'>Waiting for the model...</p>
+          )}
+        </div>
+      )}
+
+      <div className='flex items-center justify-between gap-2 mb-2'>
+        <h3 className='font-medium'>
+          Saved Reports{allSymbols ? '' : ` for ${symbol}`}
+        </h3>
+        <label className='flex items-center gap-1 text-sm text-muted'>
+          <input
+            type='checkbox'
+            checked={allSymbols}
+            onChange={e => setAllSymbols(e.target.checked)}
+          />
+          All symbols
+        </label>
+      </div>
+      {reports.length === 0 ? (
+        <p className='text-sm text-muted'>No reports yet</p>
+      ) : (
+        <div className='max-h-64 overflow-y-auto space-y-1'>
+          {reports.map(report => (
+            <div
+              key={report.id}
+              className={cn(
+                'flex items-center gap-3 rounded-md px-2 py-1 text-sm cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-800',
+                report.id === activeReportId && 'bg-blue-50 dark:bg-blue-900/30'
+              )}
+              onClick={() => handleOpenReport(report.id)}
+            >
+              <span className='whitespace-nowrap'>
+                {new Date(report.createdAt).toLocaleString()}
+              </span>
+              <span className='text-muted truncate flex-1'>
+                {allSymbols && `${report.symbol} · `}
+                {report.template &&
+                  `${report.template.name} v${report.template.version} · `}
+                {report.exchange && report.exchange !== 'bitget'
+                  ? `${exchangeLabel(report.exchange)} `
+                  : ''}
+                {report.marketType} · {report.granularity} · {report.provider}{' '}
+                {report.model}
+              </span>
+              {report.plan && (
+                <span
+                  className={cn(
+                    'text-xs whitespace-nowrap',
+                    report.score?.complete
+                      ? outcomeClass(report.score)
+                      : 'text-muted'
+                  )}
+                  title='Trade plan outcome'
+                >
+                  {report.score?.complete
+                    ? planLabel(report.score)
+                    : `due ${new Date(planHorizonEnd(report) as number).toLocaleDateString()}`}
+                </span>
+              )}
+              <span className={cn('text-xs', statusClass[report.status])}>
+                {report.status}
+              </span>
+              <button
+                onClick={e => {
+                  e.stopPropagation();
+                  handleDownloadReport(report.id);
+                }}
+                className='text-gray-400 hover:text-gray-600'
+                title='Download report with inputs'
+              >
+                <Download className='w-4 h-4' />
+              </button>
+              <button
+                onClick={e => {
+                  e.stopPropagation();
+                  handleDeleteReport(report.id);
+                }}
+                className='text-gray-400 hover:text-red-500'
+                title='Delete report'
+              >
+                <Trash2 className='w-4 h-4' />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <ForecastAccuracy reports={reports} />
+    </div>
+  );
+};
+
+export default AnalysisPanel;
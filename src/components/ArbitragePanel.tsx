@@ -0,0 +1,364 @@
+'use client';
+
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+import { RefreshCw } from 'lucide-react';
+import { marketDataApi } from '@/services/marketDataApi';
+import type { VenueQuote } from '@/lib/exchanges/types';
+import {
+  arbitrageSpreads,
+  ArbitrageSettings,
+  compositePrice,
+  defaultArbitrageSettings,
+  loadArbitrageSettings,
+  saveArbitrageSettings,
+  venueKey,
+  venueLabel,
+  venueRows,
+} from '@/lib/arbitrage';
+import { cn, formatCurrency } from '@/lib/utils';
+
+interface ArbitragePanelProps {
+  selectedCoin: string;
+}
+
+const POLL_MS = 15000;
+const SPREAD_ROWS = 10;
+
+const controlClass =
+  'dashboard-input p-2 rounded-md text-sm bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600';
+
+const formatBps = (value: number | null) =>
+  value === null ? '-' : `${value >= 0 ? '+' : ''}${value.toFixed(1)} bps`;
+
+const signClass = (value: number | null) =>
+  value === null ? '' : value >= 0 ? 'text-green-600' : 'text-red-600';
+
+const formatVolume = (value: number | null) =>
+  value === null
+    ? '-'
+    : new Intl.NumberFormat('en-US', {
+        notation: 'compact',
+        maximumFractionDigits: 2,
+      }).format(value);
+
+const ArbitragePanel: React.FC<ArbitragePanelProps> = ({ selectedCoin }) => {
+  const [quotes, setQuotes] = useState<VenueQuote[]>([]);
+  const [failed, setFailed] = useState<string[]>([]);
+  const [updatedAt, setUpdatedAt] = useState<number | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string>('');
+  const [settings, setSettings] = useState<ArbitrageSettings>(
+    defaultArbitrageSettings
+  );
+  // Drops responses for a symbol that is no longer selected
+  const requestKeyRef = useRef<string>('');
+
+  useEffect(() => {
+    setSettings(loadArbitrageSettings());
+  }, []);
+
+  const updateSettings = (changes: Partial<ArbitrageSettings>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    saveArbitrageSettings(next);
+  };
+
+  const setFee = (key: string, bps: number | null) => {
+    const fees = { ...settings.fees };
+    if (bps === null) delete fees[key];
+    else fees[key] = bps / 10000;
+    updateSettings({ fees });
+  };
+
+  const { includeFutures } = settings;
+  const loadQuotes = useCallback(async () => {
+    const key = `${selectedCoin}:${includeFutures}`;
+    requestKeyRef.current = key;
+    setLoading(true);
+    try {
+      const result = await marketDataApi.getVenueQuotes(
+        selectedCoin,
+        includeFutures ? ['spot', 'futures'] : ['spot']
+      );
+      if (requestKeyRef.current !== key) return;
+      setQuotes(result.quotes);
+      setFailed(result.failed);
+      setUpdatedAt(Date.now());
+      setError('');
+    } catch (err) {
+      if (requestKeyRef.current !== key) return;
+      console.error('Failed to load venue quotes:', err);
+      setError(`Failed to load quotes for ${selectedCoin}`);
+    } finally {
+      if (requestKeyRef.current === key) setLoading(false);
+    }
+  }, [selectedCoin, includeFutures]);
+
+  useEffect(() => {
+    setQuotes([]);
+    setFailed([]);
+    loadQuotes();
+    const interval = setInterval(loadQuotes, POLL_MS);
+    return () => clearInterval(interval);
+  }, [loadQuotes]);
+
+  const composite = useMemo(() => compositePrice(quotes), [quotes]);
+  const venues = useMemo(
+    () => venueRows(quotes, composite, settings),
+    [quotes, composite, settings]
+  );
+  const spreads = useMemo(
+    () => arbitrageSpreads(quotes, settings),
+    [quotes, settings]
+  );
+  const flaggedCount = spreads.filter(row => row.flagged).length;
+
+  return (
+    <div className='dashboard-card p-6 rounded-lg'>
+      <div className='flex items-center justify-between mb-4'>
+        <h2 className='text-xl font-semibold'>
+          Cross-Exchange - {selectedCoin}
+        </h2>
+        <div className='flex items-center gap-2'>
+          {updatedAt && (
+            <span className='text-xs text-muted'>
+              Updated {new Date(updatedAt).toLocaleTimeString()}
+            </span>
+          )}
+          <button
+            onClick={loadQuotes}
+            disabled={loading}
+            className='dashboard-button-secondary flex items-center gap-2 px-3 py-1 rounded-md disabled:opacity-50 text-sm'
+          >
+            <RefreshCw className={cn('w-3 h-3', loading && 'animate-spin')} />
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      <div className='flex flex-wrap items-center gap-3 mb-4 text-sm'>
+        <label className='flex items-center gap-1 text-muted'>
+          Flag net spreads from (bps)
+          <input
+            type='number'
+            step={1}
+            value={settings.thresholdBps}
+            onChange={e =>
+              updateSettings({ thresholdBps: parseFloat(e.target.value) || 0 })
+            }
+            className={cn(controlClass, 'w-24')}
+          />
+        </label>
+        <label className='flex items-center gap-2'>
+          <input
+            type='checkbox'
+            checked={settings.includeFutures}
+            onChange={e => updateSettings({ includeFutures: e.target.checked })}
+          />
+          Include perpetuals
+        </label>
+      </div>
+
+      {error && <p className='text-red-600 text-sm mb-3'>{error}</p>}
+      {failed.length > 0 && (
+        <p className='text-yellow-600 text-sm mb-3'>
+          No data from {failed.join(', ')}
+        </p>
+      )}
+
+      <div className='grid grid-cols-2 md:grid-cols-4 gap-4 mb-4 text-sm'>
+        <div>
+          <p className='text-muted'>Composite price</p>
+          <p className='text-lg font-bold font-mono'>
+            {composite ? formatCurrency(composite.price) : '-'}
+          </p>
+        </div>
+        <div>
+          <p className='text-muted'>24h volume (USDT)</p>
+          <p className='font-mono'>
+            {formatVolume(composite ? composite.quoteVolume : null)}
+          </p>
+        </div>
+        <div>
+          <p className='text-muted'>Venues</p>
+          <p className='font-mono'>{quotes.length}</p>
+        </div>
+        <div>
+          <p className='text-muted'>Spreads above threshold</p>
+          <p className={cn('font-mono', flaggedCount > 0 && 'text-yellow-600')}>
+            {flaggedCount}
+          </p>
+        </div>
+      </div>
+
+      <div className='overflow-auto mb-6'>
+        <table className='w-full text-sm'>
+          <thead className='text-muted'>
+            <tr className='border-b'>
+              <th className='py-2 px-2 text-left'>Venue</th>
+              <th className='py-2 px-2 text-right'>Last</th>
+              <th className='py-2 px-2 text-right'>Bid</th>
+              <th className='py-2 px-2 text-right'>Ask</th>
+              <th className='py-2 px-2 text-right'>24h volume</th>
+              <th className='py-2 px-2 text-right'>Weight</th>
+              <th className='py-2 px-2 text-right'>vs composite</th>
+              <th
+                className='py-2 px-2 text-right'
+                title='Taker fee per leg; clear to use the default'
+              >
+                Fee (bps)
+              </th>
+            </tr>
+          </thead>
+          <tbody className='font-mono'>
+            {venues.map(row => {
+              const key = venueKey(row.quote);
+              return (
+                <tr key={key}>
+                  <td className='py-1 px-2 font-sans font-medium'>
+                    {venueLabel(row.quote)}
+                  </td>
+                  <td className='py-1 px-2 text-right'>
+                    {formatCurrency(row.quote.lastPrice)}
+                  </td>
+                  <td className='py-1 px-2 text-right'>
+                    {row.quote.bidPrice
+                      ? formatCurrency(row.quote.bidPrice)
+                      : '-'}
+                  </td>
+                  <td className='py-1 px-2 text-right'>
+                    {row.quote.askPrice
+                      ? formatCurrency(row.quote.askPrice)
+                      : '-'}
+                  </td>
+                  <td className='py-1 px-2 text-right'>
+                    {formatVolume(row.quote.quoteVolume)}
+                  </td>
+                  <td className='py-1 px-2 text-right'>
+                    {(row.weight * 100).toFixed(1)}%
+                  </td>
+                  <td
+                    className={cn(
+                      'py-1 px-2 text-right',
+                      signClass(row.deviationBps)
+                    )}
+                  >
+                    {formatBps(row.deviationBps)}
+                  </td>
+                  <td className='py-1 px-2 text-right'>
+                    <input
+                      type='number'
+                      min={0}
+                      step={0.5}
+                      value={
+                        settings.fees[key] !== undefined
+                          ? +(settings.fees[key] * 10000).toFixed(2)
+                          : ''
+                      }
+                      placeholder={(row.fee * 10000).toFixed(1)}
+                      onChange={e =>
+                        setFee(
+                          key,
+                          e.target.value === ''
+                            ? null
+                            : parseFloat(e.target.value) || 0
+                        )
+                      }
+                      className={cn(controlClass, 'w-20 p-1 text-right')}
+                    />
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        {venues.length === 0 && !loading && (
+          <p className='text-center text-muted text-sm py-4'>
+            No venue lists {selectedCoin}
+          </p>
+        )}
+      </div>
+
+      <h3 className='font-semibold mb-2'>Best spreads after fees</h3>
+      <div className='overflow-auto'>
+        <table className='w-full text-sm'>
+          <thead className='text-muted'>
+            <tr className='border-b'>
+              <th className='py-2 px-2 text-left'>Buy on</th>
+              <th className='py-2 px-2 text-left'>Sell on</th>
+              <th className='py-2 px-2 text-right'>Buy at</th>
+              <th className='py-2 px-2 text-right'>Sell at</th>
+              <th className='py-2 px-2 text-right'>Gross</th>
+              <th className='py-2 px-2 text-right'>Fees</th>
+              <th className='py-2 px-2 text-right'>Net</th>
+            </tr>
+          </thead>
+          <tbody className='font-mono'>
+            {spreads.slice(0, SPREAD_ROWS).map(row => (
+              <tr
+                key={`${venueKey(row.buy)}>${venueKey(row.sell)}`}
+                className={cn(
+                  row.flagged && 'bg-yellow-50 dark:bg-yellow-900/20'
+                )}
+              >
+                <td className='py-1 px-2 font-sans'>{venueLabel(row.buy)}</td>
+                <td className='py-1 px-2 font-sans'>{venueLabel(row.sell)}</td>
+                <td className='py-1 px-2 text-right'>
+                  {formatCurrency(row.buyPrice)}
+                </td>
+                <td className='py-1 px-2 text-right'>
+                  {formatCurrency(row.sellPrice)}
+                  {row.usesLastPrice && (
+                    <span
+                      className='ml-1 text-xs text-muted'
+                      title='No book price from one venue; last price used'
+                    >
+                      *
+                    </span>
+                  )}
+                </td>
+                <td
+                  className={cn(
+                    'py-1 px-2 text-right',
+                    signClass(row.grossBps)
+                  )}
+                >
+                  {formatBps(row.grossBps)}
+                </td>
+                <td className='py-1 px-2 text-right text-muted'>
+                  {row.feesBps.toFixed(1)} bps
+                </td>
+                <td
+                  className={cn(
+                    'py-1 px-2 text-right font-semibold',
+                    signClass(row.netBps)
+                  )}
+                >
+                  {formatBps(row.netBps)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {spreads.length === 0 && !loading && (
+          <p className='text-center text-muted text-sm py-4'>
+            Needs quotes from at least two venues
+          </p>
+        )}
+      </div>
+      <p className='text-xs text-muted mt-3'>
+        Composite weights each venue&apos;s last price by its 24h quote volume.
+        Spreads buy at the ask and sell at the bid, paying the taker fee on both
+        legs; transfer costs and funding are not included.
+      </p>
+    </div>
+  );
+};
+
+export default ArbitragePanel;
@@ -0,0 +1,675 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Loader2, Play, Plus, X } from 'lucide-react';
+import Sparkline from './Sparkline';
+import {
+  bitgetApi,
+  CandleData,
+  FundingRateData,
+  MarketType,
+  SymbolInfo,
+} from '@/services/bitgetApi';
+import {
+  BacktestConfig,
+  BacktestResult,
+  Condition,
+  ConditionOperator,
+  defaultBacktestConfig,
+  defaultFuturesSettings,
+  FuturesSettings,
+  MarginMode,
+  Operand,
+  runBacktest,
+  seriesOptions,
+  Strategy,
+  StrategyRule,
+  StrategySeriesType,
+  strategyPresets,
+} from '@/lib/backtest';
+import { defaultFees, ExchangeId, exchangeLabel } from '@/lib/exchanges/types';
+import { cn, formatCurrency, formatPercentage } from '@/lib/utils';
+
+interface BacktestPanelProps {
+  candles: CandleData[];
+  symbol: string;
+  marketType: MarketType;
+  exchange: ExchangeId;
+  symbolInfo?: SymbolInfo;
+  onResult: (result: BacktestResult | null) => void;
+}
+
+const operatorOptions: { value: ConditionOperator; label: string }[] = [
+  { value: 'crossesAbove', label: 'crosses above' },
+  { value: 'crossesBelow', label: 'crosses below' },
+  { value: '>', label: '>' },
+  { value: '<', label: '<' },
+];
+
+const selectClass =
+  'dashboard-input p-1 rounded-md text-sm bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600';
+const numberClass =
+  'dashboard-input w-20 px-1 py-1 rounded border border-gray-200 dark:border-gray-600 text-sm';
+
+const cloneStrategy = (strategy: Strategy): Strategy =>
+  JSON.parse(JSON.stringify(strategy));
+
+const OperandEditor: React.FC<{
+  operand: Operand;
+  onChange: (operand: Operand) => void;
+}> = ({ operand, onChange }) => {
+  const selected = operand.kind === 'value' ? 'value' : operand.series.type;
+  const option = seriesOptions.find(o => o.type === selected);
+
+  return (
+    <span className='inline-flex items-center gap-1'>
+      <select
+        value={selected}
+        onChange={e => {
+          if (e.target.value === 'value') {
+            onChange({ kind: 'value', value: 0 });
+            return;
+          }
+          const next = seriesOptions.find(o => o.type === e.target.value);
+          onChange({
+            kind: 'series',
+            series: {
+              type: e.target.value as StrategySeriesType,
+              period: next?.defaultPeriod,
+            },
+          });
+        }}
+        className={selectClass}
+      >
+        {seriesOptions.map(o => (
+          <option key={o.type} value={o.type}>
+            {o.label}
+          </option>
+        ))}
+        <option value='value'>Value</option>
+      </select>
+      {operand.kind === 'value' ? (
+        <input
+          type='number'
+          value={operand.value}
+          onChange={e =>
+            onChange({ kind: 'value', value: parseFloat(e.target.value) || 0 })
+          }
+          className={numberClass}
+        />
+      ) : (
+        option?.hasPeriod && (
+          <input
+            type='number'
+            min={1}
+            value={operand.series.period ?? option.defaultPeriod}
+            onChange={e =>
+              onChange({
+                kind: 'series',
+                series: {
+                  ...operand.series,
+                  period: Math.max(1, parseInt(e.target.value) || 1),
+                },
+              })
+            }
+            className={cn(numberClass, 'w-14')}
+            title='Period'
+          />
+        )
+      )}
+    </span>
+  );
+};
+
+const RuleEditor: React.FC<{
+  title: string;
+  rule: StrategyRule;
+  onChange: (rule: StrategyRule) => void;
+}> = ({ title, rule, onChange }) => {
+  const updateCondition = (index: number, condition: Condition) => {
+    onChange({
+      ...rule,
+      conditions: rule.conditions.map((c, i) => (i === index ? condition : c)),
+    });
+  };
+
+  return (
+    <div className='space-y-2'>
+      <div className='flex items-center gap-2 text-sm'>
+        <span className='font-medium'>{title}</span>
+        <span className='text-muted'>when</span>
+        <select
+          value={rule.match}
+          onChange={e =>
+            onChange({ ...rule, match: e.target.value as 'all' | 'any' })
+          }
+          className={selectClass}
+        >
+          <option value='all'>all</option>
+          <option value='any'>any</option>
+        </select>
+        <span className='text-muted'>conditions match</span>
+      </div>
+      {rule.conditions.map((condition, index) => (
+        <div key={index} className='flex flex-wrap items-center gap-2 pl-4'>
+          <OperandEditor
+            operand={condition.left}
+            onChange={left => updateCondition(index, { ...condition, left })}
+          />
+          <select
+            value={condition.operator}
+            onChange={e =>
+              updateCondition(index, {
+                ...condition,
+                operator: e.target.value as ConditionOperator,
+              })
+            }
+            className={selectClass}
+          >
+            {operatorOptions.map(o => (
+              <option key={o.value} value={o.value}>
+                {o.label}
+              </option>
+            ))}
+          </select>
+          <OperandEditor
+            operand={condition.right}
+            onChange={right => updateCondition(index, { ...condition, right })}
+          />
+          <button
+            onClick={() =>
+              onChange({
+                ...rule,
+                conditions: rule.conditions.filter((_, i) => i !== index),
+              })
+            }
+            className='text-gray-400 hover:text-red-500'
+            title='Remove condition'
+          >
+            <X className='w-4 h-4' />
+          </button>
+        </div>
+      ))}
+      <button
+        onClick={() =>
+          onChange({
+            ...rule,
+            conditions: [
+              ...rule.conditions,
+              {
+                left: { kind: 'series', series: { type: 'close' } },
+                operator: 'crossesAbove',
+                right: { kind: 'series', series: { type: 'sma', period: 20 } },
+              },
+            ],
+          })
+        }
+        className='dashboard-button-secondary flex items-center gap-1 px-2 py-1 ml-4 rounded-md text-xs'
+      >
+        <Plus className='w-3 h-3' />
+        Add condition
+      </button>
+    </div>
+  );
+};
+
+const BacktestPanel: React.FC<BacktestPanelProps> = ({
+  candles,
+  symbol,
+  marketType,
+  exchange,
+  symbolInfo,
+  onResult,
+}) => {
+  const [strategy, setStrategy] = useState<Strategy>(() =>
+    cloneStrategy(strategyPresets[0])
+  );
+  const [config, setConfig] = useState<BacktestConfig>(defaultBacktestConfig);
+  const [feeType, setFeeType] = useState<'taker' | 'maker'>('taker');
+  const [futures, setFutures] = useState<FuturesSettings>(
+    defaultFuturesSettings
+  );
+  const [result, setResult] = useState<BacktestResult | null>(null);
+  const [running, setRunning] = useState(false);
+  const [fundingNotice, setFundingNotice] = useState<string | null>(null);
+  const isFutures = marketType === 'futures';
+  const hasFunding = exchange === 'bitget';
+
+  const feeRate =
+    parseFloat(
+      (feeType === 'taker'
+        ? symbolInfo?.takerFeeRate
+        : symbolInfo?.makerFeeRate) || ''
+    ) || defaultFees[exchange][marketType][feeType];
+
+  // A result only makes sense for the candles it was run on
+  useEffect(() => {
+    setResult(null);
+    onResult(null);
+  }, [candles, onResult]);
+
+  // Futures runs settle the funding that was actually charged over the range
+  const loadFunding = async (): Promise<FundingRateData[]> => {
+    // Bitget's rates say nothing about another exchange's perpetual
+    if (!hasFunding) {
+      setFundingNotice(
+        `Funding history is only available for Bitget; ran without ${exchangeLabel(exchange)} funding`
+      );
+      return [];
+    }
+    try {
+      const rates = await bitgetApi.getFuturesFundingHistory(
+        symbol,
+        candles[0].timestamp.toString(),
+        candles[candles.length - 1].timestamp.toString()
+      );
+      setFundingNotice(
+        rates.length === 0 ? 'No funding settlements in this range' : null
+      );
+      return rates;
+    } catch {
+      setFundingNotice('Funding history unavailable; ran without funding');
+      return [];
+    }
+  };
+
+  const handleRun = async () => {
+    setRunning(true);
+    try {
+      const fundingRates = isFutures ? await loadFunding() : [];
+      const backtest = runBacktest(candles, strategy, {
+        ...config,
+        feeRate,
+        futures: isFutures ? { ...futures, fundingRates } : undefined,
+      });
+      setResult(backtest);
+      onResult(backtest);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const metrics = result?.metrics;
+  const metricCards = metrics
+    ? [
+        { label: 'Total Return', value: formatPercentage(metrics.totalReturn) },
+        { label: 'CAGR', value: formatPercentage(metrics.cagr) },
+        { label: 'Sharpe', value: metrics.sharpe.toFixed(2) },
+        { label: 'Sortino', value: metrics.sortino.toFixed(2) },
+        {
+          label: 'Max Drawdown',
+          value: formatPercentage(-metrics.maxDrawdown),
+        },
+        { label: 'Win Rate', value: formatPercentage(metrics.winRate) },
+        {
+          label: 'Profit Factor',
+          value: Number.isFinite(metrics.profitFactor)
+            ? metrics.profitFactor.toFixed(2)
+            : '∞',
+        },
+        { label: 'Trades', value: metrics.totalTrades.toString() },
+        { label: 'Final Equity', value: formatCurrency(metrics.finalEquity) },
+        { label: 'Fees Paid', value: formatCurrency(metrics.totalFees) },
+        { label: 'Exposure', value: formatPercentage(metrics.exposure) },
+        { label: 'Avg Trade', value: formatCurrency(metrics.averageTrade) },
+        ...(isFutures
+          ? [
+              {
+                label: 'Funding Paid',
+                value: formatCurrency(metrics.totalFunding),
+              },
+              { label: 'Liquidations', value: metrics.liquidations.toString() },
+            ]
+          : []),
+      ]
+    : [];
+
+  return (
+    <div className='dashboard-card p-6 rounded-lg'>
+      <h2 className='text-xl font-semibold mb-4'>Backtest - {symbol}</h2>
+
+      <div className='space-y-4'>
+        <div className='flex flex-wrap items-center gap-3 text-sm'>
+          <label className='flex items-center gap-2'>
+            Preset
+            <select
+              value=''
+              onChange={e => {
+                const preset = strategyPresets.find(
+                  p => p.name === e.target.value
+                );
+                if (preset) setStrategy(cloneStrategy(preset));
+              }}
+              className={selectClass}
+            >
+              <option value=''>{strategy.name}</option>
+              {strategyPresets.map(preset => (
+                <option key={preset.name} value={preset.name}>
+                  {preset.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className='flex items-center gap-2'>
+            Direction
+            <select
+              value={strategy.direction}
+              onChange={e =>
+                setStrategy({
+                  ...strategy,
+                  direction: e.target.value as Strategy['direction'],
+                })
+              }
+              className={selectClass}
+            >
+              <option value='long'>Long</option>
+              <option value='short'>Short</option>
+            </select>
+          </label>
+          <label className='flex items-center gap-2'>
+            Stop loss %
+            <input
+              type='number'
+              min={0}
+              step={0.5}
+              value={strategy.stopLossPercent ?? ''}
+              onChange={e =>
+                setStrategy({
+                  ...strategy,
+                  stopLossPercent: parseFloat(e.target.value) || undefined,
+                })
+              }
+              className={numberClass}
+            />
+          </label>
+          <label className='flex items-center gap-2'>
+            Take profit %
+            <input
+              type='number'
+              min={0}
+              step={0.5}
+              value={strategy.takeProfitPercent ?? ''}
+              onChange={e =>
+                setStrategy({
+                  ...strategy,
+                  takeProfitPercent: parseFloat(e.target.value) || undefined,
+                })
+              }
+              className={numberClass}
+            />
+          </label>
+        </div>
+
+        <RuleEditor
+          title='Enter'
+          rule={strategy.entry}
+          onChange={entry => setStrategy({ ...strategy, entry })}
+        />
+        <RuleEditor
+          title='Exit'
+          rule={strategy.exit}
+          onChange={exit => setStrategy({ ...strategy, exit })}
+        />
+
+        <div className='flex flex-wrap items-center gap-3 text-sm'>
+          <label className='flex items-center gap-2'>
+            Capital
+            <input
+              type='number'
+              min={1}
+              value={config.initialCapital}
+              onChange={e =>
+                setConfig({
+                  ...config,
+                  initialCapital: parseFloat(e.target.value) || 1,
+                })
+              }
+              className={cn(numberClass, 'w-24')}
+            />
+          </label>
+          <label className='flex items-center gap-2'>
+            Size
+            <input
+              type='number'
+              min={0}
+              value={config.sizing.value}
+              onChange={e =>
+                setConfig({
+                  ...config,
+                  sizing: {
+                    ...config.sizing,
+                    value: parseFloat(e.target.value) || 0,
+                  },
+                })
+              }
+              className={numberClass}
+            />
+            <select
+              value={config.sizing.mode}
+              onChange={e =>
+                setConfig({
+                  ...config,
+                  sizing: {
+                    mode: e.target.value as BacktestConfig['sizing']['mode'],
+                    value: config.sizing.value,
+                  },
+                })
+              }
+              className={selectClass}
+            >
+              <option value='percentEquity'>% of equity</option>
+              <option value='fixedQuote'>USDT per trade</option>
+            </select>
+          </label>
+          <label className='flex items-center gap-2'>
+            Slippage (bps)
+            <input
+              type='number'
+              min={0}
+              value={config.slippageBps}
+              onChange={e =>
+                setConfig({
+                  ...config,
+                  slippageBps: parseFloat(e.target.value) || 0,
+                })
+              }
+              className={numberClass}
+            />
+          </label>
+          <label className='flex items-center gap-2'>
+            Fees
+            <select
+              value={feeType}
+              onChange={e => setFeeType(e.target.value as 'taker' | 'maker')}
+              className={selectClass}
+            >
+              <option value='taker'>Taker</option>
+              <option value='maker'>Maker</option>
+            </select>
+            <span className='text-muted'>{(feeRate * 100).toFixed(3)}%</span>
+          </label>
+          <button
+            onClick={handleRun}
+            disabled={candles.length === 0 || running}
+            className='dashboard-button flex items-center gap-2 px-4 py-2 rounded-lg disabled:opacity-50'
+          >
+            {running ? (
+              <Loader2 className='w-4 h-4 animate-spin' />
+            ) : (
+              <Play className='w-4 h-4' />
+            )}
+            Run Backtest
+          </button>
+        </div>
+
+        {isFutures && (
+          <div className='flex flex-wrap items-center gap-3 text-sm'>
+            <label className='flex items-center gap-2'>
+              Leverage
+              <input
+                type='number'
+                min={1}
+                max={125}
+                value={futures.leverage}
+                onChange={e =>
+                  setFutures({
+                    ...futures,
+                    leverage: Math.min(
+                      125,
+                      Math.max(1, parseFloat(e.target.value) || 1)
+                    ),
+                  })
+                }
+                className={cn(numberClass, 'w-16')}
+              />
+              x
+            </label>
+            <label className='flex items-center gap-2'>
+              Margin
+              <select
+                value={futures.marginMode}
+                onChange={e =>
+                  setFutures({
+                    ...futures,
+                    marginMode: e.target.value as MarginMode,
+                  })
+                }
+                className={selectClass}
+              >
+                <option value='isolated'>Isolated</option>
+                <option value='cross'>Cross</option>
+              </select>
+            </label>
+            <label className='flex items-center gap-2'>
+              Maint. margin %
+              <input
+                type='number'
+                min={0}
+                step={0.1}
+                value={futures.maintenanceMarginRate * 100}
+                onChange={e =>
+                  setFutures({
+                    ...futures,
+                    maintenanceMarginRate:
+                      Math.max(0, parseFloat(e.target.value) || 0) / 100,
+                  })
+                }
+                className={cn(numberClass, 'w-16')}
+              />
+            </label>
+            <span className='text-muted'>
+              {hasFunding
+                ? 'Size is the margin committed per trade; funding is settled from Bitget history'
+                : `Size is the margin committed per trade; funding is not included for ${exchangeLabel(exchange)}`}
+            </span>
+          </div>
+        )}
+
+        {fundingNotice && isFutures && (
+          <p className='text-sm text-yellow-600'>{fundingNotice}</p>
+        )}
+
+        {result && metrics && (
+          <div className='space-y-4'>
+            <div className='grid grid-cols-2 md:grid-cols-6 gap-3'>
+              {metricCards.map(card => (
+                <div key={card.label}>
+                  <p className='text-xs text-muted'>{card.label}</p>
+                  <p className='text-lg font-bold'>{card.value}</p>
+                </div>
+              ))}
+            </div>
+
+            <div>
+              <p className='text-sm text-muted mb-1'>Equity Curve</p>
+              <Sparkline
+                values={result.equity.map(p => p.equity)}
+                width={1000}
+                height={120}
+                color={metrics.totalReturn >= 0 ? '#10b981' : '#ef4444'}
+                fill
+                className='w-full'
+              />
+            </div>
+
+            {result.trades.length > 0 && (
+              <div className='max-h-64 overflow-y-auto'>
+                <table className='w-full text-sm'>
+                  <thead className='text-muted'>
+                    <tr className='border-b'>
+                      <th className='text-left py-1'>Entry</th>
+                      <th className='text-left py-1'>Exit</th>
+                      <th className='text-right py-1'>Entry Price</th>
+                      <th className='text-right py-1'>Exit Price</th>
+                      {isFutures && (
+                        <>
+                          <th className='text-right py-1'>Liq. Price</th>
+                          <th className='text-right py-1'>Funding</th>
+                        </>
+                      )}
+                      <th className='text-right py-1'>P&amp;L</th>
+                      <th className='text-right py-1'>Return</th>
+                      <th className='text-right py-1'>Reason</th>
+                    </tr>
+                  </thead>
+                  <tbody className='font-mono'>
+                    {[...result.trades].reverse().map(trade => (
+                      <tr key={trade.entryTime}>
+                        <td className='py-1'>
+                          {new Date(trade.entryTime).toLocaleString()}
+                        </td>
+                        <td className='py-1'>
+                          {new Date(trade.exitTime).toLocaleString()}
+                        </td>
+                        <td className='text-right'>
+                          {formatCurrency(trade.entryPrice)}
+                        </td>
+                        <td className='text-right'>
+                          {formatCurrency(trade.exitPrice)}
+                        </td>
+                        {isFutures && (
+                          <>
+                            <td className='text-right'>
+                              {trade.liquidationPrice !== null
+                                ? formatCurrency(trade.liquidationPrice)
+                                : '-'}
+                            </td>
+                            <td className='text-right'>
+                              {formatCurrency(trade.funding)}
+                            </td>
+                          </>
+                        )}
+                        <td
+                          className={cn(
+                            'text-right',
+                            trade.pnl >= 0 ? 'text-green-600' : 'text-red-600'
+                          )}
+                        >
+                          {formatCurrency(trade.pnl)}
+                        </td>
+                        <td className='text-right'>
+                          {trade.returnPercent.toFixed(2)}%
+                        </td>
+                        <td
+                          className={cn(
+                            'text-right',
+                            trade.exitReason === 'liquidation' &&
+                              'text-red-600 font-semibold'
+                          )}
+                        >
+                          {trade.exitReason}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BacktestPanel;
@@ -0,0 +1,119 @@
+'use client';
+
+import React, { useEffect, useRef } from 'react';
+import {
+  ColorType,
+  createChart,
+  HistogramSeries,
+  LineSeries,
+  LineStyle,
+  Time,
+} from 'lightweight-charts';
+import type { BasisPoint } from '@/lib/basis';
+
+interface BasisChartProps {
+  points: BasisPoint[];
+  isDarkMode?: boolean;
+  height?: number;
+}
+
+// Absolute basis as bars on the left scale, annualized % on the right
+const BasisChart: React.FC<BasisChartProps> = ({
+  points,
+  isDarkMode = true,
+  height = 240,
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || points.length === 0) return;
+
+    const gridColor = isDarkMode ? '#374151' : '#e5e7eb';
+    const borderColor = isDarkMode ? '#4b5563' : '#d1d5db';
+    const chart = createChart(container, {
+      layout: {
+        background: {
+          type: ColorType.Solid,
+          color: isDarkMode ? '#222831' : '#ffffff',
+        },
+        textColor: isDarkMode ? '#e5e7eb' : '#374151',
+        fontSize: 11,
+      },
+      grid: {
+        vertLines: { color: gridColor, style: 1 },
+        horzLines: { color: gridColor, style: 1 },
+      },
+      leftPriceScale: { visible: true, borderColor },
+      rightPriceScale: { borderColor },
+      timeScale: {
+        borderColor,
+        timeVisible: true,
+        secondsVisible: false,
+      },
+      width: container.clientWidth,
+      height,
+    });
+
+    const basisSeries = chart.addSeries(HistogramSeries, {
+      priceScaleId: 'left',
+      priceLineVisible: false,
+      title: 'Basis',
+    });
+    basisSeries.setData(
+      points.map(point => ({
+        time: (point.timestamp / 1000) as Time,
+        value: point.basis,
+        color:
+          point.basis >= 0
+            ? 'rgba(16, 185, 129, 0.5)'
+            : 'rgba(239, 68, 68, 0.5)',
+      }))
+    );
+
+    const annualizedSeries = chart.addSeries(LineSeries, {
+      color: '#3b82f6',
+      lineWidth: 2,
+      priceLineVisible: false,
+      title: 'Annualized %',
+      priceFormat: { type: 'price', precision: 2, minMove: 0.01 },
+    });
+    annualizedSeries.setData(
+      points.map(point => ({
+        time: (point.timestamp / 1000) as Time,
+        value: point.annualizedPercent,
+      }))
+    );
+    annualizedSeries.createPriceLine({
+      price: 0,
+      color: isDarkMode ? '#6b7280' : '#9ca3af',
+      lineWidth: 1,
+      lineStyle: LineStyle.Dotted,
+      axisLabelVisible: false,
+      title: '',
+    });
+    chart.timeScale().fitContent();
+
+    const handleResize = () =>
+      chart.applyOptions({ width: container.clientWidth });
+    window.addEventListener('resize', handleResize);
+
+    return () => {
+      window.removeEventListener('resize', handleResize);
+      chart.remove();
+    };
+  }, [points, isDarkMode, height]);
+
+  return points.length > 0 ? (
+    <div ref={containerRef} className='w-full' style={{ height }} />
+  ) : (
+    <div
+      className='flex items-center justify-center text-sm text-muted'
+      style={{ height }}
+    >
+      No overlapping spot and perpetual candles
+    </div>
+  );
+};
+
+export default BasisChart;
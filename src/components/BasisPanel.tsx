@@ -0,0 +1,339 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { RefreshCw } from 'lucide-react';
+import BasisChart from './BasisChart';
+import { bitgetApi, CandleData } from '@/services/bitgetApi';
+import { granularityToMs, MAX_HISTORY_CANDLES } from '@/lib/granularity';
+import {
+  alignBasis,
+  basisStats,
+  buildPremiums,
+  FUNDING_INTERVAL_HOURS,
+  OUTLIER_Z,
+  PremiumRow,
+} from '@/lib/basis';
+import { cn, formatCurrency } from '@/lib/utils';
+
+interface BasisPanelProps {
+  selectedCoin: string;
+  timeRange: number; // days
+  granularity: string;
+  isDarkMode: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PAGE_SIZE = 50;
+
+const controlClass =
+  'dashboard-input p-2 rounded-md text-sm bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600';
+
+const formatSigned = (value: number, digits = 3) =>
+  `${value >= 0 ? '+' : ''}${value.toFixed(digits)}%`;
+
+const signClass = (value: number) =>
+  value >= 0 ? 'text-green-600' : 'text-red-600';
+
+const formatVolume = (value: number) =>
+  new Intl.NumberFormat('en-US', {
+    notation: 'compact',
+    maximumFractionDigits: 2,
+  }).format(value);
+
+const BasisPanel: React.FC<BasisPanelProps> = ({
+  selectedCoin,
+  timeRange,
+  granularity,
+  isDarkMode,
+}) => {
+  const [symbol, setSymbol] = useState<string>(selectedCoin);
+  const [spotCandles, setSpotCandles] = useState<CandleData[]>([]);
+  const [futuresCandles, setFuturesCandles] = useState<CandleData[]>([]);
+  const [historyLoading, setHistoryLoading] = useState<boolean>(false);
+  const [historyError, setHistoryError] = useState<string>('');
+  const [premiums, setPremiums] = useState<PremiumRow[]>([]);
+  const [premiumsLoading, setPremiumsLoading] = useState<boolean>(false);
+  const [premiumsError, setPremiumsError] = useState<string>('');
+  const [search, setSearch] = useState<string>('');
+  const [outliersOnly, setOutliersOnly] = useState<boolean>(false);
+  const [visible, setVisible] = useState<number>(PAGE_SIZE);
+
+  useEffect(() => {
+    setSymbol(selectedCoin);
+  }, [selectedCoin]);
+
+  // Spot and perpetual candles for the same coin over the Dashboard's range
+  useEffect(() => {
+    let cancelled = false;
+    const loadHistory = async () => {
+      setHistoryLoading(true);
+      setHistoryError('');
+      const endTime = Date.now();
+      const startTime = endTime - timeRange * DAY_MS;
+      const limit = Math.min(
+        Math.ceil((timeRange * DAY_MS) / granularityToMs(granularity)),
+        MAX_HISTORY_CANDLES
+      );
+      try {
+        const [spot, futures] = await Promise.all(
+          (['spot', 'futures'] as const).map(market =>
+            bitgetApi.getHistoricalDataByMarket(
+              market,
+              symbol,
+              granularity,
+              String(startTime),
+              String(endTime),
+              limit
+            )
+          )
+        );
+        if (cancelled) return;
+        setSpotCandles(spot);
+        setFuturesCandles(futures);
+      } catch (err) {
+        console.error(`Failed to load basis history for ${symbol}:`, err);
+        if (cancelled) return;
+        setSpotCandles([]);
+        setFuturesCandles([]);
+        setHistoryError(`No spot and perpetual history for ${symbol}`);
+      } finally {
+        if (!cancelled) setHistoryLoading(false);
+      }
+    };
+    loadHistory();
+    return () => {
+      cancelled = true;
+    };
+  }, [symbol, timeRange, granularity]);
+
+  const loadPremiums = useCallback(async () => {
+    setPremiumsLoading(true);
+    setPremiumsError('');
+    try {
+      const [spotTickers, futuresTickers] = await Promise.all([
+        bitgetApi.getAllTickers(),
+        bitgetApi.getAllFuturesTickers(),
+      ]);
+      setPremiums(buildPremiums(spotTickers, futuresTickers));
+    } catch (err) {
+      console.error('Failed to load premiums:', err);
+      setPremiumsError('Failed to load spot and futures tickers');
+    } finally {
+      setPremiumsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPremiums();
+  }, [loadPremiums]);
+
+  const points = useMemo(
+    () => alignBasis(spotCandles, futuresCandles),
+    [spotCandles, futuresCandles]
+  );
+  const stats = useMemo(() => basisStats(points), [points]);
+
+  const filtered = useMemo(() => {
+    const query = search.trim().toUpperCase();
+    return premiums.filter(
+      row =>
+        (!outliersOnly || row.outlier) && (!query || row.symbol.includes(query))
+    );
+  }, [premiums, search, outliersOnly]);
+  const outlierCount = premiums.filter(row => row.outlier).length;
+
+  useEffect(() => {
+    setVisible(PAGE_SIZE);
+  }, [search, outliersOnly]);
+
+  return (
+    <div className='dashboard-card p-6 rounded-lg'>
+      <div className='flex flex-wrap items-center justify-between gap-3 mb-4'>
+        <h2 className='text-xl font-semibold'>Spot–Perp Basis - {symbol}</h2>
+        <span className='text-xs text-muted'>
+          {`Annualized assuming the premium recurs every ${FUNDING_INTERVAL_HOURS}h funding interval`}
+        </span>
+      </div>
+
+      {historyError && (
+        <p className='text-sm text-red-600 mb-3'>{historyError}</p>
+      )}
+
+      {stats && (
+        <div className='grid grid-cols-2 md:grid-cols-5 gap-4 mb-4 text-sm'>
+          <div>
+            <p className='text-muted'>Basis</p>
+            <p className={cn('font-mono', signClass(stats.latest.basis))}>
+              {formatCurrency(stats.latest.basis)}
+            </p>
+          </div>
+          <div>
+            <p className='text-muted'>Basis %</p>
+            <p
+              className={cn('font-mono', signClass(stats.latest.basisPercent))}
+            >
+              {formatSigned(stats.latest.basisPercent)}
+            </p>
+          </div>
+          <div>
+            <p className='text-muted'>Annualized</p>
+            <p
+              className={cn(
+                'font-mono',
+                signClass(stats.latest.annualizedPercent)
+              )}
+            >
+              {formatSigned(stats.latest.annualizedPercent, 2)}
+            </p>
+          </div>
+          <div>
+            <p className='text-muted'>Average %</p>
+            <p className='font-mono'>{formatSigned(stats.averagePercent)}</p>
+          </div>
+          <div>
+            <p className='text-muted'>Range %</p>
+            <p className='font-mono'>
+              {formatSigned(stats.minPercent)} /{' '}
+              {formatSigned(stats.maxPercent)}
+            </p>
+          </div>
+        </div>
+      )}
+
+      {historyLoading ? (
+        <div className='flex items-center justify-center h-60 text-muted text-sm'>
+          Loading...
+        </div>
+      ) : (
+        <BasisChart points={points} isDarkMode={isDarkMode} />
+      )}
+
+      <div className='flex flex-wrap items-center justify-between gap-3 mt-6 mb-3'>
+        <h3 className='font-medium'>
+          Current premiums{' '}
+          <span className='text-sm text-muted'>
+            ({premiums.length} pairs, {outlierCount} outliers)
+          </span>
+        </h3>
+        <div className='flex flex-wrap items-center gap-3 text-sm'>
+          <input
+            type='text'
+            placeholder='Search symbol...'
+            value={search}
+            onChange={e => setSearch(e.target.value)}
+            className={cn(controlClass, 'w-40')}
+          />
+          <label className='flex items-center gap-2'>
+            <input
+              type='checkbox'
+              checked={outliersOnly}
+              onChange={e => setOutliersOnly(e.target.checked)}
+            />
+            Outliers only
+          </label>
+          <button
+            onClick={loadPremiums}
+            disabled={premiumsLoading}
+            className='dashboard-button-secondary flex items-center gap-2 px-3 py-1 rounded-md disabled:opacity-50 text-sm'
+          >
+            <RefreshCw
+              className={cn('w-3 h-3', premiumsLoading && 'animate-spin')}
+            />
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      {premiumsError && (
+        <p className='text-red-600 text-sm mb-3'>{premiumsError}</p>
+      )}
+
+      <div className='max-h-96 overflow-auto'>
+        <table className='w-full text-sm'>
+          <thead className='text-muted sticky top-0 bg-white dark:bg-gray-900'>
+            <tr className='border-b'>
+              <th className='py-2 px-2 text-left'>Symbol</th>
+              <th className='py-2 px-2 text-right'>Spot</th>
+              <th className='py-2 px-2 text-right'>Perp</th>
+              <th className='py-2 px-2 text-right'>Premium</th>
+              <th className='py-2 px-2 text-right'>Annualized</th>
+              <th className='py-2 px-2 text-right'>Funding</th>
+              <th className='py-2 px-2 text-right'>Perp volume</th>
+              <th
+                className='py-2 px-2 text-right'
+                title={`Robust z-score of the premium; beyond ±${OUTLIER_Z} is flagged`}
+              >
+                z
+              </th>
+            </tr>
+          </thead>
+          <tbody className='font-mono'>
+            {filtered.slice(0, visible).map(row => (
+              <tr
+                key={row.symbol}
+                onClick={() => setSymbol(row.symbol)}
+                className={cn(
+                  'cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-800',
+                  row.outlier && 'bg-yellow-50 dark:bg-yellow-900/20',
+                  row.symbol === symbol && 'bg-blue-50 dark:bg-blue-900/20'
+                )}
+              >
+                <td className='py-1 px-2 font-sans font-medium'>
+                  {row.symbol}
+                  {row.outlier && (
+                    <span className='ml-2 text-xs text-yellow-600'>
+                      outlier
+                    </span>
+                  )}
+                </td>
+                <td className='py-1 px-2 text-right'>
+                  {formatCurrency(row.spotPrice)}
+                </td>
+                <td className='py-1 px-2 text-right'>
+                  {formatCurrency(row.futuresPrice)}
+                </td>
+                <td
+                  className={cn(
+                    'py-1 px-2 text-right',
+                    signClass(row.premiumPercent)
+                  )}
+                >
+                  {formatSigned(row.premiumPercent)}
+                </td>
+                <td className='py-1 px-2 text-right'>
+                  {formatSigned(row.annualizedPercent, 1)}
+                </td>
+                <td className='py-1 px-2 text-right'>
+                  {row.fundingRate === null
+                    ? '-'
+                    : formatSigned(row.fundingRate * 100, 4)}
+                </td>
+                <td className='py-1 px-2 text-right'>
+                  {formatVolume(row.quoteVolume)}
+                </td>
+                <td className='py-1 px-2 text-right'>
+                  {row.zScore.toFixed(1)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {filtered.length === 0 && !premiumsLoading && (
+          <p className='text-center text-muted text-sm py-4'>
+            No pairs listed on both markets
+          </p>
+        )}
+      </div>
+      {filtered.length > visible && (
+        <button
+          onClick={() => setVisible(visible + PAGE_SIZE)}
+          className='mt-3 text-sm text-muted hover:underline'
+        >
+          Show more ({filtered.length - visible} remaining)
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default BasisPanel;
@@ -0,0 +1,196 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Eye, EyeOff, Plus, X } from 'lucide-react';
+import type { MarketType } from '@/services/bitgetApi';
+import {
+  addComparisonSymbol,
+  comparisonColors,
+  ComparisonConfig,
+  comparisonKey,
+  comparisonLabel,
+  ComparisonScale,
+  comparisonScales,
+} from '@/lib/comparison';
+import { cn } from '@/lib/utils';
+
+interface ComparisonPanelProps {
+  config: ComparisonConfig;
+  onChange: (config: ComparisonConfig) => void;
+  selectedCoin: string;
+  marketType: MarketType;
+  loading: boolean;
+  errors: Record<string, string>; // keyed by comparisonKey
+}
+
+const controlClass =
+  'dashboard-input p-2 rounded-md text-sm bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600';
+
+const ComparisonPanel: React.FC<ComparisonPanelProps> = ({
+  config,
+  onChange,
+  selectedCoin,
+  marketType,
+  loading,
+  errors,
+}) => {
+  const [newSymbol, setNewSymbol] = useState<string>('');
+  const [newMarket, setNewMarket] = useState<MarketType>('spot');
+
+  const addSymbol = () => {
+    const symbol = newSymbol.trim().toUpperCase();
+    if (!symbol) return;
+    onChange(addComparisonSymbol(config, { symbol, marketType: newMarket }));
+    setNewSymbol('');
+  };
+
+  // Start with the charted symbol so the comparison has a reference
+  const enable = (enabled: boolean) => {
+    const next = { ...config, enabled };
+    onChange(
+      enabled && config.symbols.length === 0
+        ? addComparisonSymbol(next, { symbol: selectedCoin, marketType })
+        : next
+    );
+  };
+
+  const updateSymbol = (index: number, hidden: boolean) => {
+    onChange({
+      ...config,
+      symbols: config.symbols.map((item, i) =>
+        i === index ? { ...item, hidden } : item
+      ),
+    });
+  };
+
+  const removeSymbol = (index: number) => {
+    onChange({
+      ...config,
+      symbols: config.symbols.filter((_, i) => i !== index),
+    });
+  };
+
+  return (
+    <div className='space-y-3 mb-4'>
+      <div className='flex flex-wrap items-center gap-2'>
+        <label className='flex items-center gap-2 text-sm'>
+          <input
+            type='checkbox'
+            checked={config.enabled}
+            onChange={e => enable(e.target.checked)}
+          />
+          Compare symbols
+        </label>
+        {config.enabled && (
+          <>
+            <select
+              value={config.scale}
+              onChange={e =>
+                onChange({
+                  ...config,
+                  scale: e.target.value as ComparisonScale,
+                })
+              }
+              className={controlClass}
+            >
+              {comparisonScales.map(scale => (
+                <option key={scale.value} value={scale.value}>
+                  {scale.label}
+                </option>
+              ))}
+            </select>
+            <input
+              type='text'
+              placeholder='Symbol, e.g. ETHUSDT'
+              value={newSymbol}
+              onChange={e => setNewSymbol(e.target.value)}
+              onKeyDown={e => e.key === 'Enter' && addSymbol()}
+              className={cn(controlClass, 'w-40')}
+            />
+            <select
+              value={newMarket}
+              onChange={e => setNewMarket(e.target.value as MarketType)}
+              className={controlClass}
+            >
+              <option value='spot'>Spot</option>
+              <option value='futures'>Futures</option>
+            </select>
+            <button
+              onClick={addSymbol}
+              disabled={!newSymbol.trim()}
+              className='dashboard-button-secondary flex items-center gap-1 px-3 py-2 rounded-md text-sm disabled:opacity-50'
+            >
+              <Plus className='w-4 h-4' />
+              Add
+            </button>
+            <button
+              onClick={() =>
+                onChange(
+                  addComparisonSymbol(config, {
+                    symbol: selectedCoin,
+                    marketType,
+                  })
+                )
+              }
+              className='dashboard-button-secondary px-3 py-2 rounded-md text-sm'
+            >
+              Add {selectedCoin}
+            </button>
+            {loading && <span className='text-xs text-muted'>Loading...</span>}
+          </>
+        )}
+      </div>
+
+      {config.enabled && config.symbols.length > 0 && (
+        <div className='flex flex-wrap gap-2'>
+          {config.symbols.map((item, index) => {
+            const error = errors[comparisonKey(item)];
+            return (
+              <div
+                key={comparisonKey(item)}
+                className={cn(
+                  'flex items-center gap-2 rounded-md border px-2 py-1 text-sm',
+                  error
+                    ? 'border-red-300 dark:border-red-700'
+                    : 'border-gray-200 dark:border-gray-700'
+                )}
+                title={error}
+              >
+                <span
+                  className='inline-block w-3 h-3 rounded-full'
+                  style={{
+                    backgroundColor:
+                      comparisonColors[index % comparisonColors.length],
+                  }}
+                />
+                <span className={cn(item.hidden && 'text-muted')}>
+                  {comparisonLabel(item)}
+                </span>
+                <button
+                  onClick={() => updateSymbol(index, !item.hidden)}
+                  className='text-gray-400 hover:text-gray-600'
+                  title={item.hidden ? 'Show' : 'Hide'}
+                >
+                  {item.hidden ? (
+                    <EyeOff className='w-4 h-4' />
+                  ) : (
+                    <Eye className='w-4 h-4' />
+                  )}
+                </button>
+                <button
+                  onClick={() => removeSymbol(index)}
+                  className='text-gray-400 hover:text-red-500'
+                  title='Remove'
+                >
+                  <X className='w-4 h-4' />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ComparisonPanel;
@@ -0,0 +1,401 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Download, Plus, X } from 'lucide-react';
+import RollingCorrelationChart from './RollingCorrelationChart';
+import type { CandleData, MarketType } from '@/services/bitgetApi';
+import { marketDataApi } from '@/services/marketDataApi';
+import { ExchangeId, exchangeLabel } from '@/lib/exchanges/types';
+import { granularityToMs, MAX_HISTORY_CANDLES } from '@/lib/granularity';
+import {
+  alignReturns,
+  analyzeBasket,
+  basketKey,
+  BENCHMARK,
+  CorrelationPeriod,
+  correlationToCsv,
+  correlationToJson,
+  correlationWindows,
+  defaultBasket,
+  loadBasket,
+  rollingCorrelation,
+  saveBasket,
+} from '@/lib/correlation';
+import { sameItem, WatchlistItem } from '@/lib/watchlists';
+import { cn } from '@/lib/utils';
+
+interface CorrelationPanelProps {
+  selectedCoin: string;
+  marketType: MarketType;
+  exchange: ExchangeId;
+  timeRange: number; // days
+  granularity: string;
+  isDarkMode: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const controlClass =
+  'dashboard-input p-2 rounded-md text-sm bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600';
+
+const shortLabel = (key: string) => {
+  const [market, symbol] = key.split(':');
+  return market === 'futures' ? `${symbol} (perp)` : symbol;
+};
+
+// Blue for positive, red for negative, stronger with magnitude
+const cellColor = (value: number | null) =>
+  value === null
+    ? undefined
+    : value >= 0
+      ? `rgba(59, 130, 246, ${(value * 0.8).toFixed(2)})`
+      : `rgba(239, 68, 68, ${(-value * 0.8).toFixed(2)})`;
+
+function downloadFile(content: string, type: string, filename: string) {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+const CorrelationPanel: React.FC<CorrelationPanelProps> = ({
+  selectedCoin,
+  marketType,
+  exchange,
+  timeRange,
+  granularity,
+  isDarkMode,
+}) => {
+  const [basket, setBasket] = useState<WatchlistItem[]>(defaultBasket);
+  const [candles, setCandles] = useState<Record<string, CandleData[]>>({});
+  const [loading, setLoading] = useState<boolean>(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [windowSize, setWindowSize] = useState<number>(30);
+  const [period, setPeriod] = useState<CorrelationPeriod>('window');
+  const [pair, setPair] = useState<[string, string] | null>(null);
+  const [newSymbol, setNewSymbol] = useState<string>('');
+  const [newMarket, setNewMarket] = useState<MarketType>('spot');
+  const basketRef = useRef(basket);
+  basketRef.current = basket;
+
+  useEffect(() => {
+    setBasket(loadBasket());
+  }, []);
+
+  const updateBasket = (next: WatchlistItem[]) => {
+    setBasket(next);
+    saveBasket(next);
+  };
+
+  const addToBasket = (item: WatchlistItem) => {
+    if (!item.symbol || basket.some(b => sameItem(b, item))) return;
+    updateBasket([...basket, item]);
+  };
+
+  // Fetch the basket plus the benchmark over the Dashboard's range
+  const basketSymbolsKey = basket.map(basketKey).join(',');
+  useEffect(() => {
+    const items = basketRef.current.some(item => sameItem(item, BENCHMARK))
+      ? basketRef.current
+      : [...basketRef.current, BENCHMARK];
+    if (basketRef.current.length === 0) {
+      setCandles({});
+      return;
+    }
+
+    let cancelled = false;
+    const loadBasketData = async () => {
+      setLoading(true);
+      const endTime = Date.now();
+      const stepMs = granularityToMs(granularity);
+      const limit = Math.min(
+        Math.ceil((timeRange * DAY_MS) / stepMs),
+        MAX_HISTORY_CANDLES
+      );
+      const loaded: Record<string, CandleData[]> = {};
+      const failed: string[] = [];
+      await Promise.all(
+        items.map(async item => {
+          try {
+            loaded[basketKey(item)] = await marketDataApi.getHistoricalData(
+              exchange,
+              item.marketType,
+              item.symbol,
+              granularity,
+              String(endTime - timeRange * DAY_MS),
+              String(endTime),
+              limit
+            );
+          } catch (err) {
+            console.error(`Failed to load ${basketKey(item)}:`, err);
+            failed.push(shortLabel(basketKey(item)));
+          }
+        })
+      );
+      if (cancelled) return;
+      setCandles(loaded);
+      setErrors(failed);
+      setLoading(false);
+    };
+    loadBasketData();
+    return () => {
+      cancelled = true;
+    };
+  }, [basketSymbolsKey, exchange, timeRange, granularity]);
+
+  const keys = useMemo(
+    () => basket.map(basketKey).filter(key => candles[key]?.length),
+    [basket, candles]
+  );
+  const aligned = useMemo(() => alignReturns(candles), [candles]);
+  const analysis = useMemo(
+    () => analyzeBasket(keys, aligned, windowSize, period),
+    [keys, aligned, windowSize, period]
+  );
+
+  // Default to the first pair so the rolling chart has something to show
+  const activePair =
+    pair && keys.includes(pair[0]) && keys.includes(pair[1])
+      ? pair
+      : keys.length > 1
+        ? ([keys[0], keys[1]] as [string, string])
+        : null;
+  const [pairA, pairB] = activePair || ['', ''];
+  const rolling = useMemo(
+    () =>
+      pairA && pairB
+        ? rollingCorrelation(aligned, pairA, pairB, windowSize)
+        : [],
+    [aligned, pairA, pairB, windowSize]
+  );
+
+  const filename = `correlation_${timeRange}days_${granularity}`;
+
+  return (
+    <div className='dashboard-card p-6 rounded-lg'>
+      <div className='flex flex-wrap items-center justify-between gap-3 mb-4'>
+        <h2 className='text-xl font-semibold'>
+          Correlation &amp; Beta - {exchangeLabel(exchange)}
+        </h2>
+        <div className='flex items-center gap-2'>
+          <button
+            onClick={() =>
+              downloadFile(
+                correlationToCsv(analysis),
+                'text/csv',
+                `${filename}.csv`
+              )
+            }
+            disabled={keys.length === 0}
+            className='dashboard-button-secondary flex items-center gap-1 px-3 py-2 rounded-md text-sm disabled:opacity-50'
+          >
+            <Download className='w-4 h-4' />
+            CSV
+          </button>
+          <button
+            onClick={() =>
+              downloadFile(
+                correlationToJson(
+                  analysis,
+                  activePair ? { pair: activePair, points: rolling } : undefined
+                ),
+                'application/json',
+                `${filename}.json`
+              )
+            }
+            disabled={keys.length === 0}
+            className='dashboard-button-secondary flex items-center gap-1 px-3 py-2 rounded-md text-sm disabled:opacity-50'
+          >
+            <Download className='w-4 h-4' />
+            JSON
+          </button>
+        </div>
+      </div>
+
+      <div className='flex flex-wrap items-center gap-2 mb-3'>
+        {basket.map(item => (
+          <span
+            key={basketKey(item)}
+            className='flex items-center gap-1 rounded-md border border-gray-200 dark:border-gray-700 px-2 py-1 text-sm'
+          >
+            {shortLabel(basketKey(item))}
+            <button
+              onClick={() =>
+                updateBasket(basket.filter(b => !sameItem(b, item)))
+              }
+              className='text-gray-400 hover:text-red-500'
+              title='Remove'
+            >
+              <X className='w-3 h-3' />
+            </button>
+          </span>
+        ))}
+        <input
+          type='text'
+          placeholder='Symbol, e.g. ADAUSDT'
+          value={newSymbol}
+          onChange={e => setNewSymbol(e.target.value)}
+          onKeyDown={e => {
+            if (e.key !== 'Enter') return;
+            addToBasket({
+              symbol: newSymbol.trim().toUpperCase(),
+              marketType: newMarket,
+            });
+            setNewSymbol('');
+          }}
+          className={cn(controlClass, 'w-40')}
+        />
+        <select
+          value={newMarket}
+          onChange={e => setNewMarket(e.target.value as MarketType)}
+          className={controlClass}
+        >
+          <option value='spot'>Spot</option>
+          <option value='futures'>Futures</option>
+        </select>
+        <button
+          onClick={() => {
+            addToBasket({
+              symbol: newSymbol.trim().toUpperCase(),
+              marketType: newMarket,
+            });
+            setNewSymbol('');
+          }}
+          disabled={!newSymbol.trim()}
+          className='dashboard-button-secondary flex items-center gap-1 px-3 py-2 rounded-md text-sm disabled:opacity-50'
+        >
+          <Plus className='w-4 h-4' />
+          Add
+        </button>
+        <button
+          onClick={() => addToBasket({ symbol: selectedCoin, marketType })}
+          className='dashboard-button-secondary px-3 py-2 rounded-md text-sm'
+        >
+          Add {selectedCoin}
+        </button>
+      </div>
+
+      <div className='flex flex-wrap items-center gap-3 mb-4 text-sm'>
+        <label className='flex items-center gap-1 text-muted'>
+          Window
+          <select
+            value={windowSize}
+            onChange={e => setWindowSize(parseInt(e.target.value))}
+            className={controlClass}
+          >
+            {correlationWindows.map(size => (
+              <option key={size} value={size}>
+                {size} candles
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className='flex items-center gap-1 text-muted'>
+          Matrix over
+          <select
+            value={period}
+            onChange={e => setPeriod(e.target.value as CorrelationPeriod)}
+            className={controlClass}
+          >
+            <option value='window'>Latest window</option>
+            <option value='full'>Full period</option>
+          </select>
+        </label>
+        <span className='text-xs text-muted'>
+          {loading
+            ? 'Loading...'
+            : analysis.from && analysis.to
+              ? `${analysis.observations} aligned returns, ${new Date(analysis.from).toLocaleString()} – ${new Date(analysis.to).toLocaleString()}`
+              : 'No overlapping data'}
+        </span>
+      </div>
+
+      {errors.length > 0 && (
+        <p className='text-sm text-red-600 mb-3'>
+          Failed to load {errors.join(', ')}
+        </p>
+      )}
+
+      {keys.length > 0 && (
+        <div className='overflow-x-auto mb-4'>
+          <table className='text-sm'>
+            <thead>
+              <tr>
+                <th />
+                {keys.map(key => (
+                  <th
+                    key={key}
+                    className='px-2 py-1 text-xs font-medium text-muted'
+                  >
+                    {shortLabel(key)}
+                  </th>
+                ))}
+                <th
+                  className='px-2 py-1 text-xs font-medium text-muted'
+                  title={`Beta of returns to ${shortLabel(analysis.benchmark)}`}
+                >
+                  β {shortLabel(analysis.benchmark)}
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {keys.map((rowKey, i) => (
+                <tr key={rowKey}>
+                  <th className='px-2 py-1 text-left text-xs font-medium text-muted whitespace-nowrap'>
+                    {shortLabel(rowKey)}
+                  </th>
+                  {analysis.matrix[i].map((value, j) => {
+                    const colKey = keys[j];
+                    const selected =
+                      activePair &&
+                      ((activePair[0] === rowKey && activePair[1] === colKey) ||
+                        (activePair[0] === colKey && activePair[1] === rowKey));
+                    return (
+                      <td
+                        key={colKey}
+                        onClick={() =>
+                          rowKey !== colKey && setPair([rowKey, colKey])
+                        }
+                        className={cn(
+                          'w-20 px-2 py-2 text-center font-mono',
+                          rowKey !== colKey && 'cursor-pointer',
+                          selected && 'ring-2 ring-inset ring-yellow-400'
+                        )}
+                        style={{ backgroundColor: cellColor(value) }}
+                        title={`${shortLabel(rowKey)} vs ${shortLabel(colKey)}`}
+                      >
+                        {value === null ? '–' : value.toFixed(2)}
+                      </td>
+                    );
+                  })}
+                  <td className='px-2 py-2 text-center font-mono'>
+                    {analysis.betas[rowKey] === null
+                      ? '–'
+                      : (analysis.betas[rowKey] as number).toFixed(2)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {activePair && (
+        <div>
+          <h3 className='font-medium mb-2'>
+            Rolling {windowSize}-candle correlation: {shortLabel(activePair[0])}{' '}
+            vs {shortLabel(activePair[1])}
+          </h3>
+          <RollingCorrelationChart points={rolling} isDarkMode={isDarkMode} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CorrelationPanel;
@@ -1,16 +1,74 @@
 'use client';
 
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, {
+  useState,
+  useEffect,
+  useRef,
+  useCallback,
+  useMemo,
+} from 'react';
 import TradingViewChart from './TradingViewChart';
-import { Download, RefreshCw, Moon, Sun, Pause, Play } from 'lucide-react';
+import IndicatorPanel from './IndicatorPanel';
+import PanePanel from './PanePanel';
+import BacktestPanel from './BacktestPanel';
+import MarketScreener from './MarketScreener';
+import OrderbookPanel from './OrderbookPanel';
+import TradesPanel from './TradesPanel';
+import WatchlistSidebar from './WatchlistSidebar';
+import AlertsPanel from './AlertsPanel';
+import AnalysisPanel from './AnalysisPanel';
+import ComparisonPanel from './ComparisonPanel';
+import CorrelationPanel from './CorrelationPanel';
+import BasisPanel from './BasisPanel';
+import ArbitragePanel from './ArbitragePanel';
+import FuturesDataPanel from './FuturesDataPanel';
+import { Download, List, RefreshCw, Moon, Sun } from 'lucide-react';
 import {
   bitgetApi,
   CandleData,
   SymbolInfo,
-  OrderbookData,
   MarketType,
+  DataSummary,
 } from '@/services/bitgetApi';
+import { marketDataApi, symbolInfoFrom } from '@/services/marketDataApi';
+import {
+  bitgetStream,
+  LiveTicker,
+  StreamStatus,
+} from '@/services/bitgetStream';
 import { cn, formatCurrency, formatPercentage } from '@/lib/utils';
+import { computeOverlay, OverlayConfig } from '@/lib/overlays';
+import { computePane, createPaneConfig, PaneConfig } from '@/lib/panes';
+import { BacktestResult, tradesToMarkers } from '@/lib/backtest';
+import type { AnalysisReport } from '@/lib/analysis';
+import type { OrderbookHeatmap } from '@/lib/orderbookHeatmap';
+import { cvdPane, Trade } from '@/lib/tradeFlow';
+import { tradePlanToChart } from '@/lib/tradePlan';
+import { granularityToMs, MAX_HISTORY_CANDLES } from '@/lib/granularity';
+import {
+  ExchangeId,
+  exchangeLabel,
+  exchangeOptions,
+} from '@/lib/exchanges/types';
+import { loadExchange, saveExchange } from '@/lib/exchanges/settings';
+import {
+  buildComparisonLines,
+  ComparisonConfig,
+  comparisonKey,
+  defaultComparison,
+  loadComparison,
+  saveComparison,
+} from '@/lib/comparison';
+import {
+  defaultFuturesOverlays,
+  emptyFuturesSeries,
+  FuturesOverlayConfig,
+  futuresOverlayLines,
+  futuresPanes,
+  FuturesSeries,
+  loadFuturesOverlays,
+  saveFuturesOverlays,
+} from '@/lib/futuresData';
 
 interface DashboardProps {
   className?: string;
@@ -54,10 +112,21 @@ const marketTypeOptions = [
   { value: 'futures' as MarketType, label: 'Futures' },
 ];
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Tags loaded candles and streamed updates so the chart can tell them apart
+const seriesKey = (
+  exchange: string,
+  marketType: string,
+  symbol: string,
+  granularity: string
+) => [exchange, marketType, symbol, granularity].join(':');
+
 const Dashboard: React.FC<DashboardProps> = ({ className }) => {
   const [coins, setCoins] = useState<SymbolInfo[]>([]);
   const [selectedCoin, setSelectedCoin] = useState<string>('BTCUSDT');
   const [marketType, setMarketType] = useState<MarketType>('spot');
+  const [exchange, setExchange] = useState<ExchangeId>('bitget');
   const [coinSearch, setCoinSearch] = useState<string>('');
   const [isCoinDropdownOpen, setIsCoinDropdownOpen] = useState<boolean>(false);
   const [isTimeRangeDropdownOpen, setIsTimeRangeDropdownOpen] =
@@ -66,11 +135,14 @@ const Dashboard: React.FC<DashboardProps> = ({ className }) => {
     useState<boolean>(false);
   const [isMarketTypeDropdownOpen, setIsMarketTypeDropdownOpen] =
     useState<boolean>(false);
+  const [isExchangeDropdownOpen, setIsExchangeDropdownOpen] =
+    useState<boolean>(false);
 
   const dropdownRef = useRef<HTMLDivElement>(null);
   const timeRangeDropdownRef = useRef<HTMLDivElement>(null);
   const granularityDropdownRef = useRef<HTMLDivElement>(null);
   const marketTypeDropdownRef = useRef<HTMLDivElement>(null);
+  const exchangeDropdownRef = useRef<HTMLDivElement>(null);
   const [historicalData, setHistoricalData] = useState<CandleData[]>([]);
   const [chartData, setChartData] = useState<ChartData[]>([]);
   const [loading, setLoading] = useState<boolean>(false);
@@ -78,23 +150,43 @@ const Dashboard: React.FC<DashboardProps> = ({ className }) => {
   const [timeRange, setTimeRange] = useState<number>(30);
   const [granularity, setGranularity] = useState<string>('1day');
   const [isDarkMode, setIsDarkMode] = useState<boolean>(true);
-  const [summary, setSummary] = useState<{
-    totalDays: number;
-    startDate: string;
-    endDate: string;
-    startPrice: number;
-    endPrice: number;
-    highestPrice: number;
-    lowestPrice: number;
-    totalVolume: number;
-    priceChange: number;
-    priceChangePercent: number;
+  const [summary, setSummary] = useState<DataSummary | null>(null);
+  // Exchange, market, symbol and granularity of historicalData
+  const [loadedSeries, setLoadedSeries] = useState<string>('');
+  const [liveCandle, setLiveCandle] = useState<{
+    dataKey: string;
+    candle: CandleData;
   } | null>(null);
-  const [orderbook, setOrderbook] = useState<OrderbookData | null>(null);
-  const [orderbookLoading, setOrderbookLoading] = useState<boolean>(false);
-  const [orderbookError, setOrderbookError] = useState<string>('');
-  const [autoRefreshOrderbook, setAutoRefreshOrderbook] =
-    useState<boolean>(true);
+  const [liveTicker, setLiveTicker] = useState<LiveTicker | null>(null);
+  const [streamStatus, setStreamStatus] = useState<StreamStatus>('idle');
+  const [overlays, setOverlays] = useState<OverlayConfig[]>([]);
+  const [panes, setPanes] = useState<PaneConfig[]>(() => [
+    createPaneConfig('volume'),
+  ]);
+  const [backtestResult, setBacktestResult] = useState<BacktestResult | null>(
+    null
+  );
+  const [planReport, setPlanReport] = useState<AnalysisReport | null>(null);
+  const [bookHeatmap, setBookHeatmap] = useState<OrderbookHeatmap | null>(null);
+  const [tradeFlow, setTradeFlow] = useState<Trade[] | null>(null);
+  const [comparison, setComparison] =
+    useState<ComparisonConfig>(defaultComparison);
+  const [comparisonCandles, setComparisonCandles] = useState<
+    Record<string, CandleData[]>
+  >({});
+  const [comparisonErrors, setComparisonErrors] = useState<
+    Record<string, string>
+  >({});
+  const [comparisonLoading, setComparisonLoading] = useState<boolean>(false);
+  const comparisonSymbolsRef = useRef(comparison.symbols);
+  comparisonSymbolsRef.current = comparison.symbols;
+  const [futuresOverlays, setFuturesOverlays] = useState<FuturesOverlayConfig>(
+    defaultFuturesOverlays
+  );
+  const [futuresSeries, setFuturesSeries] =
+    useState<FuturesSeries>(emptyFuturesSeries);
+  const [futuresLoading, setFuturesLoading] = useState<boolean>(false);
+  const [futuresError, setFuturesError] = useState<string>('');
 
   // Pagination state for coin dropdown
   const [coinPage, setCoinPage] = useState<number>(0);
@@ -103,36 +195,222 @@ const Dashboard: React.FC<DashboardProps> = ({ className }) => {
   const [quoteCurrencyFilter, setQuoteCurrencyFilter] =
     useState<string>('USDT');
   const [showPopularOnly, setShowPopularOnly] = useState<boolean>(false);
+  const [isWatchlistOpen, setIsWatchlistOpen] = useState<boolean>(false);
+
+  // Streams, trades, funding and the screener only come from Bitget
+  const isBitget = exchange === 'bitget';
+  const isFutures = isBitget && marketType === 'futures';
+  const cvdTrades = isBitget ? tradeFlow : null;
+
+  const overlayLines = useMemo(
+    () => [
+      ...overlays.flatMap(overlay => computeOverlay(overlay, historicalData)),
+      ...(isFutures ? futuresOverlayLines(futuresOverlays, futuresSeries) : []),
+    ],
+    [overlays, historicalData, isFutures, futuresOverlays, futuresSeries]
+  );
 
-  const loadOrderbook = useCallback(async () => {
-    setOrderbookLoading(true);
-    setOrderbookError('');
-    try {
-      const orderbookData = await bitgetApi.getOrderbookByMarket(
-        marketType as MarketType,
-        selectedCoin,
-        20
+  const paneData = useMemo(
+    () => [
+      ...panes.map(pane => computePane(pane, historicalData)),
+      ...(isFutures
+        ? futuresPanes(futuresOverlays, futuresSeries, historicalData)
+        : []),
+      ...(cvdTrades ? [cvdPane(cvdTrades, historicalData)] : []),
+    ],
+    [
+      panes,
+      historicalData,
+      isFutures,
+      futuresOverlays,
+      futuresSeries,
+      cvdTrades,
+    ]
+  );
+
+  const chartMarkers = useMemo(
+    () => (backtestResult ? tradesToMarkers(backtestResult.trades) : []),
+    [backtestResult]
+  );
+
+  // Only draw a trade plan on the market it was made for
+  const planOverlay = useMemo(
+    () =>
+      planReport?.plan &&
+      planReport.symbol === selectedCoin &&
+      planReport.marketType === marketType
+        ? tradePlanToChart(planReport.plan, planReport.createdAt)
+        : null,
+    [planReport, selectedCoin, marketType]
+  );
+
+  const comparisonLines = useMemo(
+    () =>
+      comparison.enabled
+        ? buildComparisonLines(comparison, comparisonCandles)
+        : [],
+    [comparison, comparisonCandles]
+  );
+  const isComparing = comparisonLines.length > 0;
+
+  const updateComparison = useCallback((config: ComparisonConfig) => {
+    setComparison(config);
+    saveComparison(config);
+  }, []);
+
+  const toggleComparisonLine = (key: string) => {
+    updateComparison({
+      ...comparison,
+      symbols: comparison.symbols.map(item =>
+        comparisonKey(item) === key ? { ...item, hidden: !item.hidden } : item
+      ),
+    });
+  };
+
+  useEffect(() => {
+    setComparison(loadComparison());
+  }, []);
+
+  // Refetch compared symbols when the set changes, not when one is hidden
+  const comparisonSymbolsKey = comparison.symbols.map(comparisonKey).join(',');
+  useEffect(() => {
+    const symbols = comparisonSymbolsRef.current;
+    if (!comparison.enabled || symbols.length === 0) {
+      setComparisonCandles({});
+      setComparisonErrors({});
+      setComparisonLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    const loadComparisonData = async () => {
+      setComparisonLoading(true);
+      const candles: Record<string, CandleData[]> = {};
+      const errors: Record<string, string> = {};
+      await Promise.all(
+        symbols.map(async item => {
+          const key = comparisonKey(item);
+          try {
+            const result = await marketDataApi.getDataForAI(
+              exchange,
+              item.marketType,
+              item.symbol,
+              timeRange,
+              granularity
+            );
+            candles[key] = result.data;
+          } catch (err) {
+            console.error(`Failed to load comparison data for ${key}:`, err);
+            errors[key] = `Failed to load ${item.symbol}`;
+          }
+        })
       );
-      setOrderbook(orderbookData);
-    } catch (err) {
-      console.error('Failed to load orderbook:', err);
-      setOrderbookError(`Failed to load orderbook for ${selectedCoin}`);
-    } finally {
-      setOrderbookLoading(false);
+      if (cancelled) return;
+      setComparisonCandles(candles);
+      setComparisonErrors(errors);
+      setComparisonLoading(false);
+    };
+    loadComparisonData();
+    return () => {
+      // The next load, if any, sets it again
+      cancelled = true;
+      setComparisonLoading(false);
+    };
+  }, [
+    comparison.enabled,
+    comparisonSymbolsKey,
+    exchange,
+    timeRange,
+    granularity,
+  ]);
+
+  const updateFuturesOverlays = (config: FuturesOverlayConfig) => {
+    setFuturesOverlays(config);
+    saveFuturesOverlays(config);
+  };
+
+  useEffect(() => {
+    setFuturesOverlays(loadFuturesOverlays());
+  }, []);
+
+  // Funding and open interest over the chart range; mark and index candles
+  // only while their overlay is shown
+  const { markPrice: showMark, indexPrice: showIndex } = futuresOverlays;
+  useEffect(() => {
+    if (!isFutures) {
+      setFuturesSeries(emptyFuturesSeries);
+      return;
     }
-  }, [selectedCoin, marketType]);
+
+    let cancelled = false;
+    const loadFuturesSeries = async () => {
+      setFuturesLoading(true);
+      const endTime = Date.now();
+      const startTime = String(endTime - timeRange * DAY_MS);
+      const limit = Math.min(
+        Math.ceil((timeRange * DAY_MS) / granularityToMs(granularity)),
+        MAX_HISTORY_CANDLES
+      );
+      const priceCandles = (priceType: 'mark' | 'index', enabled: boolean) =>
+        enabled
+          ? bitgetApi.getFuturesPriceCandles(
+              selectedCoin,
+              priceType,
+              granularity,
+              startTime,
+              String(endTime),
+              limit
+            )
+          : Promise.resolve([]);
+      const [mark, index, funding, openInterest] = await Promise.allSettled([
+        priceCandles('mark', showMark),
+        priceCandles('index', showIndex),
+        bitgetApi.getFuturesFundingHistory(
+          selectedCoin,
+          startTime,
+          String(endTime)
+        ),
+        bitgetApi.getFuturesOpenInterestHistory(
+          selectedCoin,
+          startTime,
+          String(endTime)
+        ),
+      ]);
+      if (cancelled) return;
+      setFuturesSeries({
+        mark: mark.status === 'fulfilled' ? mark.value : [],
+        index: index.status === 'fulfilled' ? index.value : [],
+        funding: funding.status === 'fulfilled' ? funding.value : [],
+        openInterest:
+          openInterest.status === 'fulfilled' ? openInterest.value.points : [],
+      });
+      const failed = [mark, index, funding, openInterest].some(
+        result => result.status === 'rejected'
+      );
+      setFuturesError(failed ? 'Some futures series failed to load' : '');
+      setFuturesLoading(false);
+    };
+    loadFuturesSeries();
+    return () => {
+      cancelled = true;
+    };
+  }, [isFutures, selectedCoin, timeRange, granularity, showMark, showIndex]);
 
   const loadHistoricalData = useCallback(async () => {
     setLoading(true);
     setError('');
     try {
-      const result = await bitgetApi.getDataForAIByMarket(
+      const result = await marketDataApi.getDataForAI(
+        exchange,
         marketType as MarketType,
         selectedCoin,
         timeRange,
         granularity
       );
       setHistoricalData(result.data);
+      setLoadedSeries(
+        seriesKey(exchange, marketType, selectedCoin, granularity)
+      );
       setSummary(result.summary);
 
       // Transform data for chart (keep original for TradingView)
@@ -151,7 +429,16 @@ const Dashboard: React.FC<DashboardProps> = ({ className }) => {
     } finally {
       setLoading(false);
     }
-  }, [selectedCoin, marketType, timeRange, granularity]);
+  }, [selectedCoin, marketType, exchange, timeRange, granularity]);
+
+  const selectExchange = (id: ExchangeId) => {
+    setExchange(id);
+    saveExchange(id);
+  };
+
+  useEffect(() => {
+    setExchange(loadExchange());
+  }, []);
 
   // Apply dark mode to document
   useEffect(() => {
@@ -197,6 +484,12 @@ const Dashboard: React.FC<DashboardProps> = ({ className }) => {
       ) {
         setIsMarketTypeDropdownOpen(false);
       }
+      if (
+        exchangeDropdownRef.current &&
+        !exchangeDropdownRef.current.contains(event.target as Node)
+      ) {
+        setIsExchangeDropdownOpen(false);
+      }
     };
 
     document.addEventListener('mousedown', handleClickOutside);
@@ -233,15 +526,23 @@ const Dashboard: React.FC<DashboardProps> = ({ className }) => {
   useEffect(() => {
     const loadCoins = async () => {
       try {
-        const coinsData = await bitgetApi.getSymbolsByMarket(
-          marketType as MarketType
-        );
-        // Filter based on quote currency and status
-        // Note: spot coins use 'online', futures coins use 'normal'
-        const validStatus = marketType === 'futures' ? 'normal' : 'online';
-        let filteredData = coinsData.filter(
-          s => s.quoteCoin === quoteCurrencyFilter && s.status === validStatus
-        );
+        let filteredData: SymbolInfo[];
+        if (exchange === 'bitget') {
+          const coinsData = await bitgetApi.getSymbolsByMarket(
+            marketType as MarketType
+          );
+          // Filter based on quote currency and status
+          // Note: spot coins use 'online', futures coins use 'normal'
+          const validStatus = marketType === 'futures' ? 'normal' : 'online';
+          filteredData = coinsData.filter(
+            s => s.quoteCoin === quoteCurrencyFilter && s.status === validStatus
+          ) as SymbolInfo[];
+        } else {
+          const symbols = await marketDataApi.getSymbols(exchange, marketType);
+          filteredData = symbols
+            .filter(s => s.quoteCoin === quoteCurrencyFilter && s.active)
+            .map(s => symbolInfoFrom(s, exchange, marketType));
+        }
 
         // Apply popular filter if enabled
         if (showPopularOnly) {
@@ -252,14 +553,14 @@ const Dashboard: React.FC<DashboardProps> = ({ className }) => {
 
         // Sort alphabetically
         filteredData.sort((a, b) => a.symbol.localeCompare(b.symbol));
-        setCoins(filteredData as SymbolInfo[]);
+        setCoins(filteredData);
       } catch (err) {
         console.error('Failed to load coins:', err);
         setError('Failed to load available coins');
       }
     };
     loadCoins();
-  }, [quoteCurrencyFilter, showPopularOnly, marketType]);
+  }, [quoteCurrencyFilter, showPopularOnly, marketType, exchange]);
 
   // Load historical data when coin or time range changes
   useEffect(() => {
@@ -268,29 +569,40 @@ const Dashboard: React.FC<DashboardProps> = ({ className }) => {
     }
   }, [selectedCoin, timeRange, granularity, loadHistoricalData]);
 
-  // Load orderbook data when coin changes
-  useEffect(() => {
-    if (selectedCoin) {
-      loadOrderbook();
-    }
-  }, [selectedCoin, loadOrderbook]);
-
-  // Auto-refresh orderbook every 30 seconds (less distracting)
+  // Stream the forming candle and ticker for the selected symbol
   useEffect(() => {
-    if (!selectedCoin || !autoRefreshOrderbook) return;
+    setLiveCandle(null);
+    setLiveTicker(null);
+    if (!selectedCoin || !isBitget) return;
 
-    const interval = setInterval(() => {
-      loadOrderbook();
-    }, 30000); // Refresh every 30 seconds
+    const dataKey = seriesKey('bitget', marketType, selectedCoin, granularity);
+    const unsubscribeCandles = bitgetStream.subscribeCandles(
+      marketType,
+      selectedCoin,
+      granularity,
+      candles => setLiveCandle({ dataKey, candle: candles[candles.length - 1] })
+    );
+    const unsubscribeTicker = bitgetStream.subscribeTicker(
+      marketType,
+      selectedCoin,
+      setLiveTicker
+    );
+    return () => {
+      unsubscribeCandles();
+      unsubscribeTicker();
+    };
+  }, [selectedCoin, marketType, granularity, isBitget]);
 
-    return () => clearInterval(interval);
-  }, [selectedCoin, autoRefreshOrderbook, loadOrderbook]);
+  useEffect(() => bitgetStream.onStatus(setStreamStatus), []);
 
   // Reset pagination when coin search changes
   useEffect(() => {
     setCoinPage(0);
   }, [coinSearch]);
 
+  // Bitget exports keep their original names
+  const exportName = `${isBitget ? '' : `${exchange}_`}${selectedCoin}_${timeRange}days_${granularity}`;
+
   const handleExportCSV = () => {
     if (historicalData.length === 0) return;
 
@@ -299,7 +611,7 @@ const Dashboard: React.FC<DashboardProps> = ({ className }) => {
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `${selectedCoin}_${timeRange}days_${granularity}.csv`;
+    a.download = `${exportName}.csv`;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
@@ -318,60 +630,13 @@ const Dashboard: React.FC<DashboardProps> = ({ className }) => {
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `${selectedCoin}_${timeRange}days_${granularity}.json`;
+    a.download = `${exportName}.json`;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
     URL.revokeObjectURL(url);
   };
 
-  const generateAIPrompt = () => {
-    if (!summary || historicalData.length === 0) return '';
-
-    const granularityLabel =
-      granularityOptions.find(option => option.value === granularity)?.label ||
-      granularity;
-
-    return `
-Act as an elite cryptocurrency research analyst at a top-tier digital asset fund.
-Your task is to analyze a cryptocurrency using both fundamental and macroeconomic perspectives. Structure your response according to the framework below.
-
-Crypto Token/Coin: ${selectedCoin}
-
-Data Summary:
-- Period: ${summary.startDate} to ${summary.endDate} (${summary.totalDays} days)
-- Data Granularity: ${granularityLabel}
-- Price Range: ${formatCurrency(summary.lowestPrice)} - ${formatCurrency(summary.highestPrice)}
-- Start Price: ${formatCurrency(summary.startPrice)}
-- End Price: ${formatCurrency(summary.endPrice)}
-- Price Change: ${formatCurrency(summary.priceChange)} (${formatPercentage(summary.priceChangePercent / 100)})
-- Total Volume: ${summary.totalVolume.toLocaleString()}
-
-Instructions:
-
-Use the following structure to deliver a clear, well-reasoned crypto research report:
-
-1. Technical analysis of the price movement
-2. Key support and resistance levels
-3. Trading recommendations (Buy, Sell, Hold) and Futures Setup
-4. Risk assessment
-5. Potential future price targets
-
-✅ Formatting Requirements
-- Use **markdown**
-- Use **bullet points** where appropriate
-- Be **concise, professional, and insight-driven**
-- Do **not** explain your process just deliver the analysis
-
-Historical data is available in the exported CSV/JSON files.`;
-  };
-
-  const copyAIPrompt = () => {
-    const prompt = generateAIPrompt();
-    navigator.clipboard.writeText(prompt);
-    alert('AI analysis prompt copied to clipboard!');
-  };
-
   const toggleDarkMode = () => {
     console.log('Toggle dark mode clicked, current state:', isDarkMode);
     setIsDarkMode(!isDarkMode);
@@ -431,6 +696,18 @@ Historical data is available in the exported CSV/JSON files.`;
         )}
       </button>
 
+      <WatchlistSidebar
+        open={isWatchlistOpen}
+        onClose={() => setIsWatchlistOpen(false)}
+        selectedCoin={selectedCoin}
+        marketType={marketType}
+        exchange={exchange}
+        onSelect={item => {
+          setMarketType(item.marketType);
+          handleCoinSelect(item.symbol);
+        }}
+      />
+
       {/* Header */}
       <div className='flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4'>
         <div>
@@ -439,18 +716,27 @@ Historical data is available in the exported CSV/JSON files.`;
             Historical data analysis for AI-powered trading insights
           </p>
         </div>
-        <button
-          onClick={loadHistoricalData}
-          disabled={loading}
-          className='dashboard-button flex items-center gap-2 px-4 py-2 rounded-lg disabled:opacity-50'
-        >
-          <RefreshCw className={cn('w-4 h-4', loading && 'animate-spin')} />
-          Refresh Data
-        </button>
+        <div className='flex items-center gap-2'>
+          <button
+            onClick={() => setIsWatchlistOpen(!isWatchlistOpen)}
+            className='dashboard-button-secondary flex items-center gap-2 px-4 py-2 rounded-lg'
+          >
+            <List className='w-4 h-4' />
+            Watchlists
+          </button>
+          <button
+            onClick={loadHistoricalData}
+            disabled={loading}
+            className='dashboard-button flex items-center gap-2 px-4 py-2 rounded-lg disabled:opacity-50'
+          >
+            <RefreshCw className={cn('w-4 h-4', loading && 'animate-spin')} />
+            Refresh Data
+          </button>
+        </div>
       </div>
 
       {/* Controls */}
-      <div className='dashboard-card grid grid-cols-1 md:grid-cols-5 gap-4 p-4 rounded-lg'>
+      <div className='dashboard-card grid grid-cols-1 md:grid-cols-6 gap-4 p-4 rounded-lg'>
         <div className='relative' ref={dropdownRef}>
           <label className='block text-sm font-medium mb-2'>Coin</label>
           <div className='relative'>
@@ -553,6 +839,53 @@ Historical data is available in the exported CSV/JSON files.`;
           </div>
         </div>
 
+        <div className='relative' ref={exchangeDropdownRef}>
+          <label className='block text-sm font-medium mb-2'>Exchange</label>
+          <div className='relative'>
+            <button
+              onClick={() => setIsExchangeDropdownOpen(!isExchangeDropdownOpen)}
+              className='dashboard-input w-full p-2 rounded-md pr-8 text-left bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600 text-gray-900 dark:text-white focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20 transition-colors'
+            >
+              {exchangeLabel(exchange)}
+              <svg
+                className={`absolute right-2 top-1/2 transform -translate-y-1/2 w-4 h-4 transition-transform ${
+                  isExchangeDropdownOpen ? 'rotate-180' : ''
+                }`}
+                fill='none'
+                stroke='currentColor'
+                viewBox='0 0 24 24'
+              >
+                <path
+                  strokeLinecap='round'
+                  strokeLinejoin='round'
+                  strokeWidth={2}
+                  d='M19 9l-7 7-7-7'
+                />
+              </svg>
+            </button>
+            {isExchangeDropdownOpen && (
+              <div className='absolute z-50 w-full mt-1 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600 rounded-md shadow-lg'>
+                {exchangeOptions.map(option => (
+                  <button
+                    key={option.value}
+                    onClick={() => {
+                      selectExchange(option.value);
+                      setIsExchangeDropdownOpen(false);
+                    }}
+                    className={cn(
+                      'w-full text-left px-3 py-2 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors',
+                      exchange === option.value &&
+                        'bg-blue-50 dark:bg-blue-900/20 text-blue-600 dark:text-blue-400'
+                    )}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
         <div className='relative' ref={marketTypeDropdownRef}>
           <label className='block text-sm font-medium mb-2'>Market Type</label>
           <div className='relative'>
@@ -786,11 +1119,71 @@ Historical data is available in the exported CSV/JSON files.`;
         </div>
       )}
 
+      {/* Coverage Notice */}
+      {summary && summary.coveragePercent < 99 && (
+        <div className='dashboard-card p-4 rounded-lg'>
+          <p className='text-sm text-yellow-600'>
+            {exchangeLabel(exchange)} returned{' '}
+            {summary.candleCount.toLocaleString()} of{' '}
+            {summary.expectedCandles.toLocaleString()} expected candles (
+            {summary.coveragePercent.toFixed(1)}%). Data covers{' '}
+            {summary.totalDays} of the {summary.requestedDays} requested days.
+          </p>
+        </div>
+      )}
+
       {/* Chart */}
       <div className='dashboard-card p-6 rounded-lg'>
-        <h2 className='text-xl font-semibold mb-4'>
-          Price Chart - {selectedCoin}
-        </h2>
+        <div className='flex flex-wrap items-baseline justify-between gap-2 mb-4'>
+          <h2 className='text-xl font-semibold'>
+            {isComparing
+              ? `Comparison - ${comparisonLines.length} symbols`
+              : `Price Chart - ${selectedCoin}`}
+          </h2>
+          {liveTicker && (
+            <div className='flex items-baseline gap-3 text-sm'>
+              <span className='text-lg font-bold font-mono'>
+                {formatCurrency(liveTicker.lastPrice)}
+              </span>
+              <span
+                className={
+                  liveTicker.change24h >= 0 ? 'text-green-600' : 'text-red-600'
+                }
+              >
+                {liveTicker.change24h >= 0 ? '+' : ''}
+                {formatPercentage(liveTicker.change24h)}
+              </span>
+              <span className='text-muted'>
+                H {formatCurrency(liveTicker.high24h)} · L{' '}
+                {formatCurrency(liveTicker.low24h)}
+              </span>
+            </div>
+          )}
+        </div>
+        <ComparisonPanel
+          config={comparison}
+          onChange={updateComparison}
+          selectedCoin={selectedCoin}
+          marketType={marketType}
+          loading={comparisonLoading}
+          errors={comparisonErrors}
+        />
+        {!isComparing && (
+          <>
+            <IndicatorPanel overlays={overlays} onChange={setOverlays} />
+            <PanePanel panes={panes} onChange={setPanes} />
+            {isFutures && (
+              <FuturesDataPanel
+                symbol={selectedCoin}
+                config={futuresOverlays}
+                onChange={updateFuturesOverlays}
+                series={futuresSeries}
+                loading={futuresLoading}
+                error={futuresError}
+              />
+            )}
+          </>
+        )}
         {loading ? (
           <div className='flex items-center justify-center h-96'>
             <div className='animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600'></div>
@@ -801,6 +1194,18 @@ Historical data is available in the exported CSV/JSON files.`;
             coin={selectedCoin}
             isDarkMode={isDarkMode}
             height={400}
+            // Single-symbol prices do not fit the rebased comparison axis
+            overlays={isComparing ? undefined : overlayLines}
+            panes={isComparing ? undefined : paneData}
+            markers={isComparing ? undefined : chartMarkers}
+            priceLevels={isComparing ? undefined : planOverlay?.levels}
+            priceZones={isComparing ? undefined : planOverlay?.zones}
+            heatmap={isComparing ? undefined : bookHeatmap}
+            comparison={comparisonLines}
+            comparisonScale={comparison.scale}
+            onToggleComparison={toggleComparisonLine}
+            dataKey={loadedSeries}
+            liveCandle={liveCandle}
           />
         ) : (
           <div className='flex items-center justify-center h-96 text-muted'>
@@ -809,157 +1214,92 @@ Historical data is available in the exported CSV/JSON files.`;
         )}
       </div>
 
+      {/* Backtest Section */}
+      <BacktestPanel
+        candles={historicalData}
+        symbol={selectedCoin}
+        marketType={marketType}
+        exchange={exchange}
+        symbolInfo={coins.find(coin => coin.symbol === selectedCoin)}
+        onResult={setBacktestResult}
+      />
+
       {/* Orderbook Section */}
-      <div className='dashboard-card p-6 rounded-lg'>
-        <div className='flex items-center justify-between mb-4'>
-          <h2 className='text-xl font-semibold'>Order Book - {selectedCoin}</h2>
-          <div className='flex items-center gap-2'>
-            <button
-              onClick={() => setAutoRefreshOrderbook(!autoRefreshOrderbook)}
-              className={cn(
-                'flex items-center gap-2 px-3 py-1 rounded-md text-sm',
-                autoRefreshOrderbook
-                  ? 'bg-transparent text-green-700 hover:bg-transparent dark:text-green-400 dark:hover:bg-transparent'
-                  : 'bg-transparent text-gray-700 hover:bg-transparent dark:text-gray-400 dark:hover:bg-transparent'
-              )}
-              title={
-                autoRefreshOrderbook
-                  ? 'Disable auto-refresh (30s)'
-                  : 'Enable auto-refresh (30s)'
-              }
-            >
-              {autoRefreshOrderbook ? (
-                <Pause className='w-3 h-3' />
-              ) : (
-                <Play className='w-3 h-3' />
-              )}
-              {autoRefreshOrderbook ? 'Auto' : 'Manual'}
-            </button>
-            <button
-              onClick={loadOrderbook}
-              disabled={orderbookLoading}
-              className='dashboard-button-secondary flex items-center gap-2 px-3 py-1 rounded-md disabled:opacity-50 text-sm'
-            >
-              <RefreshCw
-                className={cn('w-3 h-3', orderbookLoading && 'animate-spin')}
-              />
-              Refresh
-            </button>
-          </div>
-        </div>
+      <OrderbookPanel
+        selectedCoin={selectedCoin}
+        marketType={marketType}
+        exchange={exchange}
+        streamStatus={streamStatus}
+        onHeatmapChange={setBookHeatmap}
+      />
+
+      {isBitget && (
+        <TradesPanel
+          selectedCoin={selectedCoin}
+          marketType={marketType}
+          streamStatus={streamStatus}
+          onTradesChange={setTradeFlow}
+        />
+      )}
 
-        {orderbookError && (
-          <div className='dashboard-card p-3 rounded-lg mb-4'>
-            <p className='text-red-600 text-sm'>{orderbookError}</p>
-          </div>
-        )}
+      {/* Market Screener */}
+      {isBitget && (
+        <MarketScreener
+          marketType={marketType}
+          selectedCoin={selectedCoin}
+          onSelect={coin => {
+            handleCoinSelect(coin);
+            window.scrollTo({ top: 0, behavior: 'smooth' });
+          }}
+        />
+      )}
 
-        {orderbookLoading ? (
-          <div className='flex items-center justify-center h-64'>
-            <div className='animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600'></div>
-          </div>
-        ) : orderbook ? (
-          <div className='grid grid-cols-1 md:grid-cols-2 gap-6'>
-            {/* Asks (Sell Orders) */}
-            <div>
-              <h3 className='text-lg font-medium mb-3 text-red-600'>
-                Asks (Sell Orders)
-              </h3>
-              <div className='space-y-1'>
-                <div className='grid grid-cols-3 gap-2 text-sm font-medium text-muted pb-2 border-b'>
-                  <span>Price (USDT)</span>
-                  <span className='text-right'>Size</span>
-                  <span className='text-right'>Total</span>
-                </div>
-                {orderbook.asks
-                  .slice(0, 10)
-                  .reverse()
-                  .map((ask, index) => {
-                    const price = parseFloat(ask[0]);
-                    const size = parseFloat(ask[1]);
-                    const total = price * size;
-                    return (
-                      <div
-                        key={index}
-                        className='grid grid-cols-3 gap-2 text-sm py-1 hover:bg-transparent rounded px-2'
-                      >
-                        <span className='text-red-600 font-mono'>
-                          {formatCurrency(price)}
-                        </span>
-                        <span className='text-right font-mono'>
-                          {size.toFixed(4)}
-                        </span>
-                        <span className='text-right font-mono'>
-                          {formatCurrency(total)}
-                        </span>
-                      </div>
-                    );
-                  })}
-              </div>
-            </div>
+      {/* Correlation */}
+      <CorrelationPanel
+        selectedCoin={selectedCoin}
+        marketType={marketType}
+        exchange={exchange}
+        timeRange={timeRange}
+        granularity={granularity}
+        isDarkMode={isDarkMode}
+      />
+
+      {/* Spot-perp basis */}
+      {isBitget && (
+        <BasisPanel
+          selectedCoin={selectedCoin}
+          timeRange={timeRange}
+          granularity={granularity}
+          isDarkMode={isDarkMode}
+        />
+      )}
 
-            {/* Bids (Buy Orders) */}
-            <div>
-              <h3 className='text-lg font-medium mb-3 text-green-600'>
-                Bids (Buy Orders)
-              </h3>
-              <div className='space-y-1'>
-                <div className='grid grid-cols-3 gap-2 text-sm font-medium text-muted pb-2 border-b'>
-                  <span>Price (USDT)</span>
-                  <span className='text-right'>Size</span>
-                  <span className='text-right'>Total</span>
-                </div>
-                {orderbook.bids.slice(0, 10).map((bid, index) => {
-                  const price = parseFloat(bid[0]);
-                  const size = parseFloat(bid[1]);
-                  const total = price * size;
-                  return (
-                    <div
-                      key={index}
-                      className='grid grid-cols-3 gap-2 text-sm py-1 hover:bg-transparent rounded px-2'
-                    >
-                      <span className='text-green-600 font-mono'>
-                        {formatCurrency(price)}
-                      </span>
-                      <span className='text-right font-mono'>
-                        {size.toFixed(4)}
-                      </span>
-                      <span className='text-right font-mono'>
-                        {formatCurrency(total)}
-                      </span>
-                    </div>
-                  );
-                })}
-              </div>
-            </div>
-          </div>
-        ) : (
-          <div className='flex items-center justify-center h-64 text-muted'>
-            No orderbook data available
-          </div>
-        )}
-      </div>
+      {/* Cross-exchange prices */}
+      <ArbitragePanel selectedCoin={selectedCoin} />
+
+      {/* Alerts */}
+      <AlertsPanel
+        selectedCoin={selectedCoin}
+        marketType={marketType}
+        exchange={exchange}
+      />
 
       {/* AI Analysis Section */}
       {summary && (
-        <div className='dashboard-card p-6 rounded-lg'>
-          <h2 className='text-xl font-semibold mb-4'>AI Analysis Prompt</h2>
-          <p className='text-muted mb-4'>
-            Use this prompt with ChatGPT, Claude, or other AI models along with
-            the exported data:
-          </p>
-          <div className='dashboard-card p-4 rounded-lg mb-4'>
-            <pre className='whitespace-pre-wrap text-sm'>
-              {generateAIPrompt()}
-            </pre>
-          </div>
-          <button
-            onClick={copyAIPrompt}
-            className='dashboard-button px-4 py-2 rounded-lg'
-          >
-            Copy AI Prompt
-          </button>
-        </div>
+        <AnalysisPanel
+          symbol={selectedCoin}
+          exchange={exchange}
+          marketType={marketType}
+          granularity={granularity}
+          granularityLabel={
+            granularityOptions.find(option => option.value === granularity)
+              ?.label || granularity
+          }
+          timeRange={timeRange}
+          summary={summary}
+          candles={historicalData}
+          onPlanReportChange={setPlanReport}
+        />
       )}
     </div>
   );
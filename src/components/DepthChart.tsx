@@ -0,0 +1,200 @@
+'use client';
+
+import React, { useMemo, useRef, useState } from 'react';
+import type { DepthLevel } from '@/lib/orderbook';
+import { formatCurrency } from '@/lib/utils';
+
+interface DepthChartProps {
+  bids: DepthLevel[]; // best first
+  asks: DepthLevel[]; // best first
+  mid: number | null;
+  height?: number;
+}
+
+interface HoverPoint {
+  x: number; // fraction of the width
+  price: number;
+  level: DepthLevel | null;
+  side: 'bid' | 'ask';
+}
+
+// viewBox units; the SVG stretches to the container width
+const WIDTH = 1000;
+
+const formatSize = (value: number) =>
+  new Intl.NumberFormat('en-US', {
+    notation: 'compact',
+    maximumFractionDigits: 2,
+  }).format(value);
+
+// Cumulative bid and ask size on a price axis centered on the mid
+const DepthChart: React.FC<DepthChartProps> = ({
+  bids,
+  asks,
+  mid,
+  height = 220,
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [hover, setHover] = useState<HoverPoint | null>(null);
+
+  const layout = useMemo(() => {
+    if (mid === null || bids.length === 0 || asks.length === 0) return null;
+    const range = Math.max(
+      mid - bids[bids.length - 1].price,
+      asks[asks.length - 1].price - mid
+    );
+    const minPrice = mid - range;
+    const maxPrice = mid + range;
+    const maxTotal = Math.max(
+      bids[bids.length - 1].total,
+      asks[asks.length - 1].total
+    );
+    const x = (price: number) =>
+      range > 0 ? ((price - minPrice) / (maxPrice - minPrice)) * WIDTH : 0;
+    const y = (total: number) =>
+      maxTotal > 0 ? height - (total / maxTotal) * (height - 4) : height;
+
+    // Step outward from the best price, holding each total until the next level
+    const stepPath = (levels: DepthLevel[], edge: number) => {
+      let d = `M ${x(levels[0].price)} ${height}`;
+      levels.forEach((level, i) => {
+        d += ` L ${x(level.price)} ${y(i > 0 ? levels[i - 1].total : 0)}`;
+        d += ` L ${x(level.price)} ${y(level.total)}`;
+      });
+      d += ` L ${x(edge)} ${y(levels[levels.length - 1].total)}`;
+      return `${d} L ${x(edge)} ${height} Z`;
+    };
+
+    return {
+      minPrice,
+      maxPrice,
+      maxTotal,
+      bidPath: stepPath(bids, minPrice),
+      askPath: stepPath(asks, maxPrice),
+      midX: x(mid),
+    };
+  }, [bids, asks, mid, height]);
+
+  if (!layout || mid === null) {
+    return (
+      <div
+        className='flex items-center justify-center text-sm text-muted'
+        style={{ height }}
+      >
+        Not enough orderbook levels for a depth chart
+      </div>
+    );
+  }
+
+  const handleMove = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return;
+    const fraction = Math.min(
+      1,
+      Math.max(0, (e.clientX - rect.left) / rect.width)
+    );
+    const price =
+      layout.minPrice + fraction * (layout.maxPrice - layout.minPrice);
+    const side = price < mid ? 'bid' : 'ask';
+    // Deepest level the cumulative line has reached at this price
+    const levels = side === 'bid' ? bids : asks;
+    const reached = levels.filter(level =>
+      side === 'bid' ? level.price >= price : level.price <= price
+    );
+    setHover({
+      x: fraction,
+      price,
+      side,
+      level: reached[reached.length - 1] || null,
+    });
+  };
+
+  return (
+    <div>
+      <div
+        ref={containerRef}
+        className='relative w-full'
+        style={{ height }}
+        onMouseMove={handleMove}
+        onMouseLeave={() => setHover(null)}
+      >
+        <svg
+          viewBox={`0 0 ${WIDTH} ${height}`}
+          preserveAspectRatio='none'
+          className='w-full h-full'
+        >
+          <path
+            d={layout.bidPath}
+            fill='rgba(16, 185, 129, 0.25)'
+            stroke='#10b981'
+            strokeWidth={1.5}
+            vectorEffect='non-scaling-stroke'
+          />
+          <path
+            d={layout.askPath}
+            fill='rgba(239, 68, 68, 0.25)'
+            stroke='#ef4444'
+            strokeWidth={1.5}
+            vectorEffect='non-scaling-stroke'
+          />
+          <line
+            x1={layout.midX}
+            x2={layout.midX}
+            y1={0}
+            y2={height}
+            stroke='#9ca3af'
+            strokeDasharray='4 4'
+            vectorEffect='non-scaling-stroke'
+          />
+          {hover && (
+            <line
+              x1={hover.x * WIDTH}
+              x2={hover.x * WIDTH}
+              y1={0}
+              y2={height}
+              stroke='#6b7280'
+              vectorEffect='non-scaling-stroke'
+            />
+          )}
+        </svg>
+        <span className='absolute top-1 left-1 text-xs text-muted'>
+          {formatSize(layout.maxTotal)}
+        </span>
+        {hover && (
+          <div
+            className='absolute top-1 dashboard-card rounded-md px-2 py-1 text-xs font-mono pointer-events-none whitespace-nowrap'
+            style={
+              hover.x < 0.5
+                ? { left: `calc(${hover.x * 100}% + 8px)` }
+                : { right: `calc(${(1 - hover.x) * 100}% + 8px)` }
+            }
+          >
+            <div>{formatCurrency(hover.price)}</div>
+            <div className='text-muted'>
+              {(((hover.price - mid) / mid) * 100).toFixed(2)}% from mid
+            </div>
+            {hover.level && (
+              <>
+                <div
+                  className={
+                    hover.side === 'bid' ? 'text-green-600' : 'text-red-600'
+                  }
+                >
+                  {formatSize(hover.level.total)} cumulative
+                </div>
+                <div>{formatCurrency(hover.level.notional)}</div>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+      <div className='flex justify-between text-xs text-muted font-mono mt-1'>
+        <span>{formatCurrency(layout.minPrice)}</span>
+        <span>{formatCurrency(mid)}</span>
+        <span>{formatCurrency(layout.maxPrice)}</span>
+      </div>
+    </div>
+  );
+};
+
+export default DepthChart;
@@ -0,0 +1,129 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import type { AnalysisReportSummary } from '@/lib/analysis';
+import {
+  AccuracyGrouping,
+  accuracyGroupings,
+  summarizeAccuracy,
+} from '@/lib/forecastAccuracy';
+import { cn } from '@/lib/utils';
+
+interface ForecastAccuracyProps {
+  reports: AnalysisReportSummary[];
+}
+
+const share = (count: number, total: number) =>
+  total > 0 ? `${Math.round((count / total) * 100)}%` : '–';
+
+const ForecastAccuracy: React.FC<ForecastAccuracyProps> = ({ reports }) => {
+  const [grouping, setGrouping] = useState<AccuracyGrouping>('model');
+
+  const stats = useMemo(
+    () => summarizeAccuracy(reports, grouping),
+    [reports, grouping]
+  );
+
+  return (
+    <div className='mt-4'>
+      <div className='flex flex-wrap items-center justify-between gap-2 mb-2'>
+        <h3 className='font-medium'>Forecast Accuracy</h3>
+        <label className='flex items-center gap-1 text-sm text-muted'>
+          By
+          <select
+            value={grouping}
+            onChange={e => setGrouping(e.target.value as AccuracyGrouping)}
+            className='dashboard-input px-2 py-1 rounded-md border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-800 text-sm'
+          >
+            {accuracyGroupings.map(option => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      {stats.length === 0 ? (
+        <p className='text-sm text-muted'>
+          No trade plans yet. Turn on &quot;Request trade plan&quot; to track
+          how forecasts play out.
+        </p>
+      ) : (
+        <div className='overflow-x-auto'>
+          <table className='w-full text-sm'>
+            <thead className='text-muted'>
+              <tr className='border-b'>
+                <th className='text-left py-1'>Group</th>
+                <th className='text-right py-1'>Plans</th>
+                <th className='text-right py-1'>Scored</th>
+                <th
+                  className='text-right py-1'
+                  title='Bias matched the price move over the horizon'
+                >
+                  Direction
+                </th>
+                <th
+                  className='text-right py-1'
+                  title='A take-profit traded before the stop-loss'
+                >
+                  Target first
+                </th>
+                <th
+                  className='text-right py-1'
+                  title='The stop-loss traded before any take-profit'
+                >
+                  Stop first
+                </th>
+                <th className='text-right py-1'>No entry</th>
+                <th
+                  className='text-right py-1'
+                  title='Average result of entered setups in units of risk'
+                >
+                  Avg R
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {stats.map(row => (
+                <tr
+                  key={row.key}
+                  className='border-b border-gray-100 dark:border-gray-800'
+                >
+                  <td className='py-1'>{row.key}</td>
+                  <td className='text-right py-1'>{row.plans}</td>
+                  <td className='text-right py-1'>{row.scored}</td>
+                  <td className='text-right py-1'>
+                    {share(row.directionalHits, row.directionalTotal)}
+                  </td>
+                  <td className='text-right py-1'>
+                    {share(row.targetFirst, row.entered)}
+                  </td>
+                  <td className='text-right py-1'>
+                    {share(row.stopFirst, row.entered)}
+                  </td>
+                  <td className='text-right py-1'>
+                    {share(row.noEntry, row.scored)}
+                  </td>
+                  <td
+                    className={cn(
+                      'text-right py-1',
+                      row.averageR !== null &&
+                        (row.averageR >= 0 ? 'text-green-600' : 'text-red-600')
+                    )}
+                  >
+                    {row.averageR !== null ? row.averageR.toFixed(2) : '–'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className='text-xs text-muted mt-1'>
+            Plans are scored automatically once their horizon has passed.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ForecastAccuracy;
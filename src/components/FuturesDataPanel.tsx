@@ -0,0 +1,229 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { RefreshCw } from 'lucide-react';
+import {
+  bitgetApi,
+  CurrentFundingData,
+  FuturesTickerData,
+} from '@/services/bitgetApi';
+import {
+  FuturesOverlayConfig,
+  futuresOverlayOptions,
+  FuturesSeries,
+  fundingStats,
+  openInterestChange,
+} from '@/lib/futuresData';
+import { cn, formatCurrency } from '@/lib/utils';
+
+interface FuturesDataPanelProps {
+  symbol: string;
+  config: FuturesOverlayConfig;
+  onChange: (config: FuturesOverlayConfig) => void;
+  series: FuturesSeries;
+  loading: boolean;
+  error: string;
+}
+
+const REFRESH_MS = 30000;
+
+const formatRate = (rate: number) =>
+  `${rate >= 0 ? '+' : ''}${(rate * 100).toFixed(4)}%`;
+
+const formatSigned = (value: number, digits = 2) =>
+  `${value >= 0 ? '+' : ''}${value.toFixed(digits)}%`;
+
+const signClass = (value: number) =>
+  value >= 0 ? 'text-green-600' : 'text-red-600';
+
+const formatAmount = (value: number) =>
+  new Intl.NumberFormat('en-US', {
+    notation: 'compact',
+    maximumFractionDigits: 2,
+  }).format(value);
+
+const formatCountdown = (ms: number) => {
+  const minutes = Math.max(0, Math.floor(ms / 60000));
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+const parsePrice = (value?: string) => {
+  const parsed = parseFloat(value || '');
+  return isNaN(parsed) ? null : parsed;
+};
+
+const FuturesDataPanel: React.FC<FuturesDataPanelProps> = ({
+  symbol,
+  config,
+  onChange,
+  series,
+  loading,
+  error,
+}) => {
+  const [ticker, setTicker] = useState<FuturesTickerData | null>(null);
+  const [funding, setFunding] = useState<CurrentFundingData | null>(null);
+  const [snapshotError, setSnapshotError] = useState<string>('');
+  const [refreshing, setRefreshing] = useState<boolean>(false);
+
+  const loadSnapshot = useCallback(async () => {
+    setRefreshing(true);
+    const [tickerResult, fundingResult] = await Promise.allSettled([
+      bitgetApi.getFuturesTicker(symbol),
+      bitgetApi.getFuturesCurrentFunding(symbol),
+    ]);
+    setTicker(tickerResult.status === 'fulfilled' ? tickerResult.value : null);
+    setFunding(
+      fundingResult.status === 'fulfilled' ? fundingResult.value : null
+    );
+    setSnapshotError(
+      tickerResult.status === 'rejected' || fundingResult.status === 'rejected'
+        ? `Some futures data for ${symbol} is unavailable`
+        : ''
+    );
+    setRefreshing(false);
+  }, [symbol]);
+
+  useEffect(() => {
+    loadSnapshot();
+    const interval = setInterval(loadSnapshot, REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [loadSnapshot]);
+
+  const stats = useMemo(
+    () => fundingStats(series.funding, funding?.intervalHours),
+    [series.funding, funding?.intervalHours]
+  );
+  const oiChange = useMemo(
+    () => openInterestChange(series.openInterest),
+    [series.openInterest]
+  );
+
+  const markPrice = parsePrice(ticker?.markPrice);
+  const indexPrice = parsePrice(ticker?.indexPrice);
+  const openInterest = parsePrice(ticker?.holdingAmount);
+  const premium =
+    markPrice !== null && indexPrice
+      ? (markPrice / indexPrice - 1) * 100
+      : null;
+
+  return (
+    <div className='space-y-3 mb-4'>
+      <div className='flex flex-wrap items-center gap-4 text-sm'>
+        {futuresOverlayOptions.map(option => (
+          <label key={option.key} className='flex items-center gap-2'>
+            <input
+              type='checkbox'
+              checked={config[option.key]}
+              onChange={e =>
+                onChange({ ...config, [option.key]: e.target.checked })
+              }
+            />
+            {option.label}
+          </label>
+        ))}
+        {loading && <span className='text-xs text-muted'>Loading...</span>}
+        {error && <span className='text-xs text-red-600'>{error}</span>}
+        <button
+          onClick={loadSnapshot}
+          disabled={refreshing}
+          className='dashboard-button-secondary flex items-center gap-2 px-3 py-1 rounded-md disabled:opacity-50 text-sm ml-auto'
+        >
+          <RefreshCw className={cn('w-3 h-3', refreshing && 'animate-spin')} />
+          Refresh
+        </button>
+      </div>
+
+      <div className='grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-4 text-sm'>
+        <div>
+          <p className='text-muted'>Funding rate</p>
+          <p
+            className={cn('font-mono', funding && signClass(funding.rate))}
+            title={
+              funding && funding.minRate !== null && funding.maxRate !== null
+                ? `Capped between ${formatRate(funding.minRate)} and ${formatRate(funding.maxRate)}`
+                : undefined
+            }
+          >
+            {funding ? formatRate(funding.rate) : '-'}
+          </p>
+        </div>
+        <div>
+          <p className='text-muted'>Next funding</p>
+          <p className='font-mono'>
+            {funding?.nextFundingTime
+              ? formatCountdown(funding.nextFundingTime - Date.now())
+              : '-'}
+            {funding && (
+              <span className='text-xs text-muted'>
+                {' '}
+                / {funding.intervalHours}h
+              </span>
+            )}
+          </p>
+        </div>
+        <div>
+          <p className='text-muted'>Avg funding (range)</p>
+          <p
+            className={cn('font-mono', stats && signClass(stats.averageRate))}
+            title={
+              stats
+                ? `${stats.settlements} settlements, ${(stats.positiveShare * 100).toFixed(0)}% paid by longs, ${formatSigned(stats.cumulativePercent, 3)} cumulative`
+                : undefined
+            }
+          >
+            {stats
+              ? `${formatRate(stats.averageRate)} (${formatSigned(stats.annualizedPercent, 1)} APR)`
+              : '-'}
+          </p>
+        </div>
+        <div>
+          <p className='text-muted'>Mark price</p>
+          <p className='font-mono'>
+            {markPrice !== null ? formatCurrency(markPrice) : '-'}
+          </p>
+        </div>
+        <div>
+          <p className='text-muted'>Index price</p>
+          <p className='font-mono'>
+            {indexPrice !== null ? formatCurrency(indexPrice) : '-'}
+          </p>
+        </div>
+        <div>
+          <p className='text-muted'>Mark vs index</p>
+          <p
+            className={cn('font-mono', premium !== null && signClass(premium))}
+          >
+            {premium !== null ? formatSigned(premium, 3) : '-'}
+          </p>
+        </div>
+        <div>
+          <p className='text-muted'>Open interest</p>
+          <p className='font-mono'>
+            {openInterest !== null ? formatAmount(openInterest) : '-'}
+            {openInterest !== null && markPrice !== null && (
+              <span className='text-xs text-muted'>
+                {' '}
+                (${formatAmount(openInterest * markPrice)})
+              </span>
+            )}
+          </p>
+          {oiChange !== null && (
+            <p className={cn('text-xs font-mono', signClass(oiChange))}>
+              {formatSigned(oiChange)} over {series.openInterest.length} samples
+            </p>
+          )}
+        </div>
+      </div>
+
+      {snapshotError && <p className='text-xs text-red-600'>{snapshotError}</p>}
+      {config.openInterest && series.openInterest.length < 2 && (
+        <p className='text-xs text-muted'>
+          Bitget only reports current open interest; the server records a sample
+          every few minutes, so the pane fills in over time.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default FuturesDataPanel;
@@ -0,0 +1,135 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import {
+  createOverlayConfig,
+  getOverlayDefinition,
+  OverlayConfig,
+  overlayDefinitions,
+  OverlayParam,
+  OverlayType,
+} from '@/lib/overlays';
+
+interface IndicatorPanelProps {
+  overlays: OverlayConfig[];
+  onChange: (overlays: OverlayConfig[]) => void;
+}
+
+const IndicatorPanel: React.FC<IndicatorPanelProps> = ({
+  overlays,
+  onChange,
+}) => {
+  const [newType, setNewType] = useState<OverlayType>('sma');
+
+  const addOverlay = () => {
+    onChange([...overlays, createOverlayConfig(newType)]);
+  };
+
+  const removeOverlay = (id: string) => {
+    onChange(overlays.filter(overlay => overlay.id !== id));
+  };
+
+  const updateOverlay = (id: string, changes: Partial<OverlayConfig>) => {
+    onChange(
+      overlays.map(overlay =>
+        overlay.id === id ? { ...overlay, ...changes } : overlay
+      )
+    );
+  };
+
+  const updateParam = (
+    overlay: OverlayConfig,
+    param: OverlayParam,
+    value: string
+  ) => {
+    const parsed = parseFloat(value);
+    if (isNaN(parsed)) return;
+    const clamped = Math.min(param.max, Math.max(param.min, parsed));
+    updateOverlay(overlay.id, {
+      params: {
+        ...overlay.params,
+        // Periods are candle counts, so keep whole-number params whole
+        [param.key]: param.step >= 1 ? Math.round(clamped) : clamped,
+      },
+    });
+  };
+
+  return (
+    <div className='space-y-3 mb-4'>
+      <div className='flex items-center gap-2'>
+        <select
+          value={newType}
+          onChange={e => setNewType(e.target.value as OverlayType)}
+          className='dashboard-input p-2 rounded-md text-sm bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600'
+        >
+          {overlayDefinitions.map(definition => (
+            <option key={definition.type} value={definition.type}>
+              {definition.label}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={addOverlay}
+          className='dashboard-button-secondary flex items-center gap-1 px-3 py-2 rounded-md text-sm'
+        >
+          <Plus className='w-4 h-4' />
+          Add Indicator
+        </button>
+      </div>
+
+      {overlays.length > 0 && (
+        <div className='flex flex-wrap gap-3'>
+          {overlays.map(overlay => {
+            const definition = getOverlayDefinition(overlay.type);
+            return (
+              <div
+                key={overlay.id}
+                className='flex flex-wrap items-center gap-2 px-3 py-2 rounded-md border border-gray-200 dark:border-gray-600 text-sm'
+              >
+                <input
+                  type='color'
+                  value={overlay.color}
+                  onChange={e =>
+                    updateOverlay(overlay.id, { color: e.target.value })
+                  }
+                  className='w-5 h-5 p-0 border-0 bg-transparent cursor-pointer'
+                  title='Line color'
+                />
+                <span className='font-medium'>{definition.label}</span>
+                {definition.params.map(param => (
+                  <label
+                    key={param.key}
+                    className='flex items-center gap-1 text-xs text-muted'
+                  >
+                    {param.label}
+                    <input
+                      type='number'
+                      value={overlay.params[param.key]}
+                      min={param.min}
+                      max={param.max}
+                      step={param.step}
+                      onChange={e =>
+                        updateParam(overlay, param, e.target.value)
+                      }
+                      className='dashboard-input w-16 px-1 py-0.5 rounded border border-gray-200 dark:border-gray-600'
+                    />
+                  </label>
+                ))}
+                <button
+                  onClick={() => removeOverlay(overlay.id)}
+                  className='text-gray-400 hover:text-red-500'
+                  title='Remove indicator'
+                >
+                  <X className='w-4 h-4' />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default IndicatorPanel;
@@ -0,0 +1,368 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, RefreshCw, Save, Trash2 } from 'lucide-react';
+import { bitgetApi, MarketType } from '@/services/bitgetApi';
+import {
+  applyScreen,
+  builtInPresets,
+  ColumnRange,
+  createPreset,
+  emptyFilters,
+  loadSavedPresets,
+  NumericColumn,
+  savePresets,
+  ScreenerColumn,
+  screenerColumns,
+  ScreenerFilters,
+  ScreenerRow,
+  ScreenerSort,
+  ScreenPreset,
+  toScreenerRow,
+} from '@/lib/screener';
+import { cn, formatCurrency, formatPercentage } from '@/lib/utils';
+
+interface MarketScreenerProps {
+  marketType: MarketType;
+  selectedCoin: string;
+  onSelect: (symbol: string) => void;
+}
+
+const PAGE_SIZE = 100;
+
+const rangeInputClass =
+  'dashboard-input w-full min-w-0 px-1 py-0.5 rounded border border-gray-200 dark:border-gray-600 text-xs font-normal';
+
+const formatVolume = (value: number) =>
+  new Intl.NumberFormat('en-US', {
+    notation: 'compact',
+    maximumFractionDigits: 2,
+  }).format(value);
+
+const MarketScreener: React.FC<MarketScreenerProps> = ({
+  marketType,
+  selectedCoin,
+  onSelect,
+}) => {
+  const [rows, setRows] = useState<ScreenerRow[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string>('');
+  const [filters, setFilters] = useState<ScreenerFilters>(emptyFilters);
+  const [sort, setSort] = useState<ScreenerSort>(builtInPresets[0].sort);
+  const [savedPresets, setSavedPresets] = useState<ScreenPreset[]>([]);
+  const [activePreset, setActivePreset] = useState<string>(
+    builtInPresets[0].id
+  );
+  const [presetName, setPresetName] = useState<string>('');
+  const [visible, setVisible] = useState<number>(PAGE_SIZE);
+
+  const presets = useMemo(
+    () => [...builtInPresets, ...savedPresets],
+    [savedPresets]
+  );
+
+  useEffect(() => {
+    setSavedPresets(loadSavedPresets());
+  }, []);
+
+  const loadTickers = useCallback(async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const tickers = await bitgetApi.getTickersByMarket(marketType);
+      setRows(
+        tickers
+          .map(toScreenerRow)
+          .filter((row): row is ScreenerRow => row !== null)
+      );
+    } catch (err) {
+      console.error('Failed to load tickers:', err);
+      setError('Failed to load market tickers');
+    } finally {
+      setLoading(false);
+    }
+  }, [marketType]);
+
+  useEffect(() => {
+    loadTickers();
+  }, [loadTickers]);
+
+  const screened = useMemo(
+    () => applyScreen(rows, filters, sort),
+    [rows, filters, sort]
+  );
+
+  useEffect(() => {
+    setVisible(PAGE_SIZE);
+  }, [filters, sort]);
+
+  const updateFilters = (changes: Partial<ScreenerFilters>) => {
+    setFilters({ ...filters, ...changes });
+    setActivePreset('');
+  };
+
+  const updateRange = (
+    column: NumericColumn,
+    bound: keyof ColumnRange,
+    value: string
+  ) => {
+    const parsed = parseFloat(value);
+    const range = {
+      ...filters.ranges[column],
+      [bound]: isNaN(parsed) ? undefined : parsed,
+    };
+    updateFilters({ ranges: { ...filters.ranges, [column]: range } });
+  };
+
+  const toggleSort = (column: ScreenerColumn) => {
+    setSort(
+      sort.column === column
+        ? { column, direction: sort.direction === 'asc' ? 'desc' : 'asc' }
+        : { column, direction: column === 'symbol' ? 'asc' : 'desc' }
+    );
+    setActivePreset('');
+  };
+
+  const applyPreset = (id: string) => {
+    const preset = presets.find(p => p.id === id);
+    if (!preset) return;
+    setFilters(preset.filters);
+    setSort(preset.sort);
+    setActivePreset(preset.id);
+  };
+
+  const handleSavePreset = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    const preset = createPreset(name, filters, sort);
+    const next = [...savedPresets, preset];
+    setSavedPresets(next);
+    savePresets(next);
+    setActivePreset(preset.id);
+    setPresetName('');
+  };
+
+  const handleDeletePreset = () => {
+    const next = savedPresets.filter(p => p.id !== activePreset);
+    setSavedPresets(next);
+    savePresets(next);
+    setActivePreset('');
+  };
+
+  const renderCell = (row: ScreenerRow, column: ScreenerColumn) => {
+    switch (column) {
+      case 'symbol':
+        return <span className='font-medium font-sans'>{row.symbol}</span>;
+      case 'change24h':
+        return (
+          <span
+            className={row.change24h >= 0 ? 'text-green-600' : 'text-red-600'}
+          >
+            {row.change24h >= 0 ? '+' : ''}
+            {formatPercentage(row.change24h)}
+          </span>
+        );
+      case 'quoteVolume':
+        return formatVolume(row.quoteVolume);
+      case 'spreadBps':
+        return row.spreadBps !== null ? row.spreadBps.toFixed(2) : '-';
+      default:
+        return isNaN(row[column]) ? '-' : formatCurrency(row[column]);
+    }
+  };
+
+  const isSavedPreset = savedPresets.some(p => p.id === activePreset);
+
+  return (
+    <div className='dashboard-card p-6 rounded-lg'>
+      <div className='flex flex-wrap items-center justify-between gap-3 mb-4'>
+        <h2 className='text-xl font-semibold'>
+          Market Screener - {marketType === 'futures' ? 'Futures' : 'Spot'}
+        </h2>
+        <button
+          onClick={loadTickers}
+          disabled={loading}
+          className='dashboard-button-secondary flex items-center gap-2 px-3 py-1 rounded-md disabled:opacity-50 text-sm'
+        >
+          <RefreshCw className={cn('w-3 h-3', loading && 'animate-spin')} />
+          Refresh
+        </button>
+      </div>
+
+      <div className='flex flex-wrap items-center gap-3 mb-4 text-sm'>
+        <input
+          type='text'
+          placeholder='Search symbol...'
+          value={filters.search}
+          onChange={e => updateFilters({ search: e.target.value })}
+          className='dashboard-input px-3 py-2 rounded-md border border-gray-200 dark:border-gray-600'
+        />
+        <select
+          value={filters.quote}
+          onChange={e => updateFilters({ quote: e.target.value })}
+          className='dashboard-input p-2 rounded-md bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600'
+        >
+          <option value=''>Any quote</option>
+          <option value='USDT'>USDT</option>
+          <option value='USDC'>USDC</option>
+          <option value='BTC'>BTC</option>
+          <option value='ETH'>ETH</option>
+        </select>
+        <select
+          value={activePreset}
+          onChange={e => applyPreset(e.target.value)}
+          className='dashboard-input p-2 rounded-md bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600'
+        >
+          <option value=''>Custom screen</option>
+          {presets.map(preset => (
+            <option key={preset.id} value={preset.id}>
+              {preset.name}
+            </option>
+          ))}
+        </select>
+        {isSavedPreset && (
+          <button
+            onClick={handleDeletePreset}
+            className='text-gray-400 hover:text-red-500'
+            title='Delete preset'
+          >
+            <Trash2 className='w-4 h-4' />
+          </button>
+        )}
+        <input
+          type='text'
+          placeholder='Preset name'
+          value={presetName}
+          onChange={e => setPresetName(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && handleSavePreset()}
+          className='dashboard-input w-36 px-3 py-2 rounded-md border border-gray-200 dark:border-gray-600'
+        />
+        <button
+          onClick={handleSavePreset}
+          disabled={!presetName.trim()}
+          className='dashboard-button-secondary flex items-center gap-1 px-3 py-2 rounded-md disabled:opacity-50'
+        >
+          <Save className='w-4 h-4' />
+          Save
+        </button>
+        <button
+          onClick={() => {
+            setFilters(emptyFilters);
+            setActivePreset('');
+          }}
+          className='text-muted hover:underline'
+        >
+          Clear filters
+        </button>
+      </div>
+
+      {error && <p className='text-red-600 text-sm mb-4'>{error}</p>}
+
+      <div className='max-h-[32rem] overflow-auto'>
+        <table className='w-full text-sm'>
+          <thead className='text-muted sticky top-0 bg-white dark:bg-gray-900'>
+            <tr className='border-b'>
+              {screenerColumns.map(column => (
+                <th
+                  key={column.key}
+                  className={cn(
+                    'py-2 px-2 cursor-pointer select-none whitespace-nowrap',
+                    column.key === 'symbol' ? 'text-left' : 'text-right'
+                  )}
+                  onClick={() => toggleSort(column.key)}
+                >
+                  <span className='inline-flex items-center gap-1'>
+                    {column.label}
+                    {sort.column === column.key &&
+                      (sort.direction === 'asc' ? (
+                        <ArrowUp className='w-3 h-3' />
+                      ) : (
+                        <ArrowDown className='w-3 h-3' />
+                      ))}
+                  </span>
+                </th>
+              ))}
+            </tr>
+            <tr className='border-b'>
+              {screenerColumns.map(column =>
+                column.key === 'symbol' ? (
+                  <th key={column.key} className='py-1 px-2 text-left'>
+                    <span className='text-xs font-normal'>
+                      {screened.length} of {rows.length}
+                    </span>
+                  </th>
+                ) : (
+                  <th key={column.key} className='py-1 px-2'>
+                    <div className='flex gap-1'>
+                      {(['min', 'max'] as const).map(bound => (
+                        <input
+                          key={bound}
+                          type='number'
+                          placeholder={bound}
+                          value={
+                            filters.ranges[column.key as NumericColumn]?.[
+                              bound
+                            ] ?? ''
+                          }
+                          onChange={e =>
+                            updateRange(
+                              column.key as NumericColumn,
+                              bound,
+                              e.target.value
+                            )
+                          }
+                          className={rangeInputClass}
+                        />
+                      ))}
+                    </div>
+                  </th>
+                )
+              )}
+            </tr>
+          </thead>
+          <tbody className='font-mono'>
+            {screened.slice(0, visible).map(row => (
+              <tr
+                key={row.symbol}
+                onClick={() => onSelect(row.symbol)}
+                className={cn(
+                  'cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-800',
+                  row.symbol === selectedCoin &&
+                    'bg-blue-50 dark:bg-blue-900/30'
+                )}
+              >
+                {screenerColumns.map(column => (
+                  <td
+                    key={column.key}
+                    className={cn(
+                      'py-1 px-2 whitespace-nowrap',
+                      column.key !== 'symbol' && 'text-right'
+                    )}
+                  >
+                    {renderCell(row, column.key)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {!loading && screened.length === 0 && (
+          <div className='flex items-center justify-center h-24 text-muted'>
+            No symbols match the current filters
+          </div>
+        )}
+      </div>
+
+      {screened.length > visible && (
+        <button
+          onClick={() => setVisible(visible + PAGE_SIZE)}
+          className='dashboard-button-secondary mt-3 px-3 py-1 rounded-md text-sm'
+        >
+          Show more ({screened.length - visible} remaining)
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default MarketScreener;
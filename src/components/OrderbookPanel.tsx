@@ -0,0 +1,536 @@
+'use client';
+
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+import { Pause, Play, RefreshCw, Trash2 } from 'lucide-react';
+import DepthChart from './DepthChart';
+import { MarketType, OrderbookData } from '@/services/bitgetApi';
+import { marketDataApi } from '@/services/marketDataApi';
+import { bitgetStream, StreamStatus } from '@/services/bitgetStream';
+import {
+  bandOptions,
+  BookLevel,
+  bookMetrics,
+  cumulativeDepth,
+  defaultOrderbookSettings,
+  depthOptions,
+  groupLevels,
+  loadOrderbookSettings,
+  maxDepth,
+  OrderbookSettings,
+  parseLevels,
+  saveOrderbookSettings,
+  SlippageEstimate,
+  STREAM_DEPTH,
+  tickOptions,
+} from '@/lib/orderbook';
+import {
+  appendSnapshot,
+  BookSnapshot,
+  clearBookHistory,
+  loadBookHistory,
+  saveBookHistory,
+  snapshotToOrderbook,
+  toSnapshot,
+} from '@/lib/orderbookHistory';
+import type { OrderbookHeatmap } from '@/lib/orderbookHeatmap';
+import type { ExchangeId } from '@/lib/exchanges/types';
+import { cn, formatCurrency } from '@/lib/utils';
+
+interface OrderbookPanelProps {
+  selectedCoin: string;
+  marketType: MarketType;
+  exchange?: ExchangeId;
+  streamStatus: StreamStatus;
+  onHeatmapChange?: (heatmap: OrderbookHeatmap | null) => void;
+}
+
+const POLL_MS = 3000;
+const SAVE_INTERVAL_MS = 30000;
+const VISIBLE_ROWS = 10;
+
+const controlClass =
+  'dashboard-input p-2 rounded-md text-sm bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600';
+
+const formatBps = (value: number | null) =>
+  value === null ? '-' : `${value.toFixed(2)} bps`;
+
+const formatNotional = (value: number) =>
+  new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    notation: 'compact',
+    maximumFractionDigits: 2,
+  }).format(value);
+
+const describeSlippage = (estimate: SlippageEstimate) =>
+  estimate.averagePrice === null
+    ? '-'
+    : `${formatCurrency(estimate.averagePrice)} (${formatBps(estimate.slippageBps)})`;
+
+const OrderbookPanel: React.FC<OrderbookPanelProps> = ({
+  selectedCoin,
+  marketType,
+  exchange = 'bitget',
+  streamStatus,
+  onHeatmapChange,
+}) => {
+  const [orderbook, setOrderbook] = useState<OrderbookData | null>(null);
+  const [snapshots, setSnapshots] = useState<BookSnapshot[]>([]);
+  const [replayAt, setReplayAt] = useState<number | null>(null);
+  // Latest recording, kept outside state so saves see it without re-running
+  const historyRef = useRef<BookSnapshot[]>([]);
+  const dirtyRef = useRef<boolean>(false);
+  // Only the latest orderbook request may update the panel
+  const requestRef = useRef<number>(0);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string>('');
+  const [live, setLive] = useState<boolean>(true);
+  const [settings, setSettings] = useState<OrderbookSettings>(
+    defaultOrderbookSettings
+  );
+
+  useEffect(() => {
+    setSettings(loadOrderbookSettings());
+  }, []);
+
+  const updateSettings = (changes: Partial<OrderbookSettings>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    saveOrderbookSettings(next);
+  };
+
+  const depth = Math.min(settings.depth, maxDepth[marketType]);
+  // Only Bitget books stream; other exchanges are always polled
+  const streamed = exchange === 'bitget' && depth <= STREAM_DEPTH;
+
+  const loadOrderbook = useCallback(
+    async (showLoading: boolean = true) => {
+      const request = ++requestRef.current;
+      if (showLoading) setLoading(true);
+      setError('');
+      try {
+        const next = await marketDataApi.getOrderbook(
+          exchange,
+          marketType,
+          selectedCoin,
+          depth
+        );
+        // A poll for the previous symbol or depth must not be recorded here
+        if (request !== requestRef.current) return;
+        setOrderbook(next);
+      } catch (err) {
+        if (request !== requestRef.current) return;
+        console.error('Failed to load orderbook:', err);
+        setError(`Failed to load orderbook for ${selectedCoin}`);
+      } finally {
+        if (request === requestRef.current) setLoading(false);
+      }
+    },
+    [selectedCoin, marketType, exchange, depth]
+  );
+
+  useEffect(() => {
+    if (selectedCoin) loadOrderbook();
+  }, [selectedCoin, loadOrderbook]);
+
+  // Keep the orderbook live from the depth stream, or by polling when more
+  // levels are requested than the stream carries
+  useEffect(() => {
+    if (!selectedCoin || !live) return;
+    if (!streamed) {
+      const interval = setInterval(() => loadOrderbook(false), POLL_MS);
+      return () => clearInterval(interval);
+    }
+
+    return bitgetStream.subscribeDepth(marketType, selectedCoin, book => {
+      setOrderbook(book);
+      setError('');
+    });
+  }, [selectedCoin, marketType, live, streamed, loadOrderbook]);
+
+  // Load this book's recording and save it back every so often, when
+  // switching symbols and when the page closes
+  useEffect(() => {
+    const history = loadBookHistory(marketType, selectedCoin, exchange);
+    historyRef.current = history;
+    dirtyRef.current = false;
+    setSnapshots(history);
+    setReplayAt(null);
+    setOrderbook(null);
+
+    const flush = () => {
+      if (!dirtyRef.current) return;
+      saveBookHistory(marketType, selectedCoin, historyRef.current, exchange);
+      dirtyRef.current = false;
+    };
+    const interval = setInterval(flush, SAVE_INTERVAL_MS);
+    window.addEventListener('beforeunload', flush);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('beforeunload', flush);
+      flush();
+    };
+  }, [marketType, selectedCoin, exchange]);
+
+  const replayIndex =
+    replayAt === null
+      ? -1
+      : snapshots.findIndex(snapshot => snapshot.timestamp === replayAt);
+  const replayed = replayIndex >= 0 ? snapshots[replayIndex] : null;
+  // While replaying, everything below shows the recorded book instead
+  const book = useMemo(
+    () => (replayed ? snapshotToOrderbook(replayed) : orderbook),
+    [replayed, orderbook]
+  );
+
+  const metrics = useMemo(
+    () =>
+      book ? bookMetrics(book, settings.bandPercent, settings.orderSize) : null,
+    [book, settings.bandPercent, settings.orderSize]
+  );
+  const ticks = useMemo(
+    () => tickOptions(metrics?.mid ?? null),
+    [metrics?.mid]
+  );
+  // A tick saved for another symbol may be meaningless here
+  const tick = ticks.includes(settings.tick) ? settings.tick : 0;
+
+  const { bids, asks } = useMemo(() => {
+    const sorted = (raw: [string, string][], side: 'bid' | 'ask') =>
+      parseLevels(raw).sort((a: BookLevel, b: BookLevel) =>
+        side === 'bid' ? b.price - a.price : a.price - b.price
+      );
+    return {
+      bids: book ? groupLevels(sorted(book.bids, 'bid'), tick, 'bid') : [],
+      asks: book ? groupLevels(sorted(book.asks, 'ask'), tick, 'ask') : [],
+    };
+  }, [book, tick]);
+  const bidDepth = useMemo(() => cumulativeDepth(bids), [bids]);
+  const askDepth = useMemo(() => cumulativeDepth(asks), [asks]);
+
+  // Live books keep recording in the background, even during a replay
+  useEffect(() => {
+    if (!orderbook || !settings.record) return;
+    const next = appendSnapshot(
+      historyRef.current,
+      toSnapshot(orderbook, tick)
+    );
+    if (next === historyRef.current) return;
+    historyRef.current = next;
+    dirtyRef.current = true;
+    setSnapshots(next);
+  }, [orderbook, settings.record, tick]);
+
+  useEffect(() => {
+    onHeatmapChange?.(
+      settings.heatmap && snapshots.length > 0
+        ? { snapshots, cursor: replayed ? replayed.timestamp : null }
+        : null
+    );
+  }, [snapshots, replayed, settings.heatmap, onHeatmapChange]);
+
+  const clearHistory = () => {
+    clearBookHistory(marketType, selectedCoin, exchange);
+    historyRef.current = [];
+    dirtyRef.current = false;
+    setSnapshots([]);
+    setReplayAt(null);
+  };
+
+  const renderRows = (levels: BookLevel[], side: 'bid' | 'ask') =>
+    levels.map((level, index) => (
+      <div
+        key={index}
+        className='grid grid-cols-3 gap-2 text-sm py-1 hover:bg-transparent rounded px-2'
+      >
+        <span
+          className={cn(
+            'font-mono',
+            side === 'bid' ? 'text-green-600' : 'text-red-600'
+          )}
+        >
+          {formatCurrency(level.price)}
+        </span>
+        <span className='text-right font-mono'>{level.size.toFixed(4)}</span>
+        <span className='text-right font-mono'>
+          {formatCurrency(level.price * level.size)}
+        </span>
+      </div>
+    ));
+
+  return (
+    <div className='dashboard-card p-6 rounded-lg'>
+      <div className='flex items-center justify-between mb-4'>
+        <h2 className='text-xl font-semibold'>Order Book - {selectedCoin}</h2>
+        <div className='flex items-center gap-2'>
+          {replayed && (
+            <span className='text-xs text-yellow-600'>
+              Replaying {new Date(replayed.timestamp).toLocaleTimeString()}
+            </span>
+          )}
+          {live && streamed && streamStatus !== 'open' && (
+            <span className='text-xs text-yellow-600'>
+              {streamStatus === 'reconnecting'
+                ? 'Reconnecting...'
+                : 'Connecting...'}
+            </span>
+          )}
+          <button
+            onClick={() => setLive(!live)}
+            className={cn(
+              'flex items-center gap-2 px-3 py-1 rounded-md text-sm',
+              live
+                ? 'bg-transparent text-green-700 hover:bg-transparent dark:text-green-400 dark:hover:bg-transparent'
+                : 'bg-transparent text-gray-700 hover:bg-transparent dark:text-gray-400 dark:hover:bg-transparent'
+            )}
+            title={live ? 'Pause live updates' : 'Resume live updates'}
+          >
+            {live ? (
+              <Pause className='w-3 h-3' />
+            ) : (
+              <Play className='w-3 h-3' />
+            )}
+            {live ? (streamed ? 'Live' : 'Polling') : 'Paused'}
+          </button>
+          <button
+            onClick={() => loadOrderbook()}
+            disabled={loading}
+            className='dashboard-button-secondary flex items-center gap-2 px-3 py-1 rounded-md disabled:opacity-50 text-sm'
+          >
+            <RefreshCw className={cn('w-3 h-3', loading && 'animate-spin')} />
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      <div className='flex flex-wrap items-center gap-3 mb-4 text-sm'>
+        <label className='flex items-center gap-1 text-muted'>
+          Depth
+          <select
+            value={depth}
+            onChange={e => updateSettings({ depth: parseInt(e.target.value) })}
+            className={controlClass}
+          >
+            {depthOptions
+              .filter(option => option <= maxDepth[marketType])
+              .map(option => (
+                <option key={option} value={option}>
+                  {option} levels
+                </option>
+              ))}
+          </select>
+        </label>
+        <label className='flex items-center gap-1 text-muted'>
+          Group
+          <select
+            value={tick}
+            onChange={e => updateSettings({ tick: parseFloat(e.target.value) })}
+            className={controlClass}
+          >
+            <option value={0}>None</option>
+            {ticks.map(option => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className='flex items-center gap-1 text-muted'>
+          Imbalance within
+          <select
+            value={settings.bandPercent}
+            onChange={e =>
+              updateSettings({ bandPercent: parseFloat(e.target.value) })
+            }
+            className={controlClass}
+          >
+            {bandOptions.map(option => (
+              <option key={option} value={option}>
+                ±{option}%
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className='flex items-center gap-1 text-muted'>
+          Order size (USDT)
+          <input
+            type='number'
+            min={0}
+            value={settings.orderSize}
+            onChange={e =>
+              updateSettings({ orderSize: parseFloat(e.target.value) || 0 })
+            }
+            className={cn(controlClass, 'w-32')}
+          />
+        </label>
+      </div>
+
+      <div className='flex flex-wrap items-center gap-3 mb-4 text-sm'>
+        <label className='flex items-center gap-2'>
+          <input
+            type='checkbox'
+            checked={settings.record}
+            onChange={e => updateSettings({ record: e.target.checked })}
+          />
+          Record
+        </label>
+        <label className='flex items-center gap-2'>
+          <input
+            type='checkbox'
+            checked={settings.heatmap}
+            onChange={e => updateSettings({ heatmap: e.target.checked })}
+          />
+          Heatmap on chart
+        </label>
+        <label className='flex flex-1 items-center gap-2 min-w-[12rem] text-muted'>
+          Replay
+          <input
+            type='range'
+            min={0}
+            max={Math.max(0, snapshots.length - 1)}
+            value={replayIndex >= 0 ? replayIndex : snapshots.length - 1}
+            disabled={snapshots.length < 2}
+            onChange={e =>
+              setReplayAt(
+                snapshots[parseInt(e.target.value)]?.timestamp ?? null
+              )
+            }
+            className='flex-1'
+          />
+        </label>
+        <span className='text-xs text-muted'>
+          {snapshots.length > 0
+            ? `${snapshots.length} snapshots since ${new Date(snapshots[0].timestamp).toLocaleTimeString()}`
+            : 'No snapshots recorded'}
+        </span>
+        <button
+          onClick={() => setReplayAt(null)}
+          disabled={!replayed}
+          className='dashboard-button-secondary px-3 py-1 rounded-md disabled:opacity-50 text-sm'
+        >
+          Live
+        </button>
+        <button
+          onClick={clearHistory}
+          disabled={snapshots.length === 0}
+          className='dashboard-button-secondary flex items-center gap-2 px-3 py-1 rounded-md disabled:opacity-50 text-sm'
+          title='Delete the recorded snapshots for this symbol'
+        >
+          <Trash2 className='w-3 h-3' />
+          Clear
+        </button>
+      </div>
+
+      {error && (
+        <div className='dashboard-card p-3 rounded-lg mb-4'>
+          <p className='text-red-600 text-sm'>{error}</p>
+        </div>
+      )}
+
+      {loading ? (
+        <div className='flex items-center justify-center h-64'>
+          <div className='animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600'></div>
+        </div>
+      ) : book && metrics ? (
+        <>
+          <div className='grid grid-cols-2 md:grid-cols-5 gap-4 mb-4 text-sm'>
+            <div>
+              <p className='text-muted'>Spread</p>
+              <p className='font-mono'>
+                {metrics.spread !== null ? formatCurrency(metrics.spread) : '-'}{' '}
+                <span className='text-xs text-muted'>
+                  {formatBps(metrics.spreadBps)}
+                </span>
+              </p>
+            </div>
+            <div>
+              <p className='text-muted'>Imbalance ±{metrics.bandPercent}%</p>
+              <p
+                className={cn(
+                  'font-mono',
+                  metrics.imbalance !== null &&
+                    (metrics.imbalance >= 0 ? 'text-green-600' : 'text-red-600')
+                )}
+                title='(bids - asks) / (bids + asks), by quote value'
+              >
+                {metrics.imbalance !== null
+                  ? `${metrics.imbalance >= 0 ? '+' : ''}${(metrics.imbalance * 100).toFixed(1)}%`
+                  : '-'}
+              </p>
+            </div>
+            <div>
+              <p className='text-muted'>Bids / asks ±{metrics.bandPercent}%</p>
+              <p className='font-mono'>
+                {formatNotional(metrics.bidNotional)} /{' '}
+                {formatNotional(metrics.askNotional)}
+              </p>
+            </div>
+            {[metrics.buy, metrics.sell].map(estimate => (
+              <div key={estimate.side}>
+                <p className='text-muted'>
+                  {estimate.side === 'buy' ? 'Market buy' : 'Market sell'}{' '}
+                  {formatNotional(estimate.orderSize)}
+                </p>
+                <p className='font-mono'>{describeSlippage(estimate)}</p>
+                {!estimate.complete && estimate.orderSize > 0 && (
+                  <p className='text-xs text-yellow-600'>
+                    Only {formatNotional(estimate.filledSize)} in the loaded
+                    book
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <div className='mb-6'>
+            <DepthChart bids={bidDepth} asks={askDepth} mid={metrics.mid} />
+          </div>
+
+          <div className='grid grid-cols-1 md:grid-cols-2 gap-6'>
+            {/* Asks (Sell Orders) */}
+            <div>
+              <h3 className='text-lg font-medium mb-3 text-red-600'>
+                Asks (Sell Orders)
+              </h3>
+              <div className='space-y-1'>
+                <div className='grid grid-cols-3 gap-2 text-sm font-medium text-muted pb-2 border-b'>
+                  <span>Price (USDT)</span>
+                  <span className='text-right'>Size</span>
+                  <span className='text-right'>Total</span>
+                </div>
+                {renderRows(asks.slice(0, VISIBLE_ROWS).reverse(), 'ask')}
+              </div>
+            </div>
+
+            {/* Bids (Buy Orders) */}
+            <div>
+              <h3 className='text-lg font-medium mb-3 text-green-600'>
+                Bids (Buy Orders)
+              </h3>
+              <div className='space-y-1'>
+                <div className='grid grid-cols-3 gap-2 text-sm font-medium text-muted pb-2 border-b'>
+                  <span>Price (USDT)</span>
+                  <span className='text-right'>Size</span>
+                  <span className='text-right'>Total</span>
+                </div>
+                {renderRows(bids.slice(0, VISIBLE_ROWS), 'bid')}
+              </div>
+            </div>
+          </div>
+        </>
+      ) : (
+        <div className='flex items-center justify-center h-64 text-muted'>
+          No orderbook data available
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OrderbookPanel;
@@ -0,0 +1,161 @@
+'use client';
+
+import React, { useState } from 'react';
+import { ArrowDown, ArrowUp, Plus, X } from 'lucide-react';
+import type { OverlayParam } from '@/lib/overlays';
+import {
+  createPaneConfig,
+  getPaneDefinition,
+  MAX_PANE_HEIGHT,
+  MIN_PANE_HEIGHT,
+  PaneConfig,
+  paneDefinitions,
+  PaneType,
+} from '@/lib/panes';
+
+interface PanePanelProps {
+  panes: PaneConfig[];
+  onChange: (panes: PaneConfig[]) => void;
+}
+
+const PanePanel: React.FC<PanePanelProps> = ({ panes, onChange }) => {
+  const [newType, setNewType] = useState<PaneType>('rsi');
+
+  const addPane = () => {
+    onChange([...panes, createPaneConfig(newType)]);
+  };
+
+  const removePane = (id: string) => {
+    onChange(panes.filter(pane => pane.id !== id));
+  };
+
+  const movePane = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= panes.length) return;
+    const reordered = [...panes];
+    [reordered[index], reordered[target]] = [
+      reordered[target],
+      reordered[index],
+    ];
+    onChange(reordered);
+  };
+
+  const updatePane = (id: string, changes: Partial<PaneConfig>) => {
+    onChange(
+      panes.map(pane => (pane.id === id ? { ...pane, ...changes } : pane))
+    );
+  };
+
+  const updateParam = (
+    pane: PaneConfig,
+    param: OverlayParam,
+    value: string
+  ) => {
+    const parsed = parseInt(value);
+    if (isNaN(parsed)) return;
+    updatePane(pane.id, {
+      params: {
+        ...pane.params,
+        [param.key]: Math.min(param.max, Math.max(param.min, parsed)),
+      },
+    });
+  };
+
+  return (
+    <div className='space-y-3 mb-4'>
+      <div className='flex items-center gap-2'>
+        <select
+          value={newType}
+          onChange={e => setNewType(e.target.value as PaneType)}
+          className='dashboard-input p-2 rounded-md text-sm bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600'
+        >
+          {paneDefinitions.map(definition => (
+            <option key={definition.type} value={definition.type}>
+              {definition.label}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={addPane}
+          className='dashboard-button-secondary flex items-center gap-1 px-3 py-2 rounded-md text-sm'
+        >
+          <Plus className='w-4 h-4' />
+          Add Pane
+        </button>
+      </div>
+
+      {panes.length > 0 && (
+        <div className='space-y-2'>
+          {panes.map((pane, index) => {
+            const definition = getPaneDefinition(pane.type);
+            return (
+              <div
+                key={pane.id}
+                className='flex flex-wrap items-center gap-3 px-3 py-2 rounded-md border border-gray-200 dark:border-gray-600 text-sm'
+              >
+                <span className='font-medium w-24'>{definition.label}</span>
+                {definition.params.map(param => (
+                  <label
+                    key={param.key}
+                    className='flex items-center gap-1 text-xs text-muted'
+                  >
+                    {param.label}
+                    <input
+                      type='number'
+                      value={pane.params[param.key]}
+                      min={param.min}
+                      max={param.max}
+                      step={param.step}
+                      onChange={e => updateParam(pane, param, e.target.value)}
+                      className='dashboard-input w-14 px-1 py-0.5 rounded border border-gray-200 dark:border-gray-600'
+                    />
+                  </label>
+                ))}
+                <label className='flex items-center gap-1 text-xs text-muted'>
+                  Height
+                  <input
+                    type='range'
+                    min={MIN_PANE_HEIGHT}
+                    max={MAX_PANE_HEIGHT}
+                    step={10}
+                    value={pane.height}
+                    onChange={e =>
+                      updatePane(pane.id, { height: parseInt(e.target.value) })
+                    }
+                  />
+                </label>
+                <div className='flex items-center gap-1 ml-auto'>
+                  <button
+                    onClick={() => movePane(index, -1)}
+                    disabled={index === 0}
+                    className='text-gray-400 hover:text-gray-600 disabled:opacity-30'
+                    title='Move up'
+                  >
+                    <ArrowUp className='w-4 h-4' />
+                  </button>
+                  <button
+                    onClick={() => movePane(index, 1)}
+                    disabled={index === panes.length - 1}
+                    className='text-gray-400 hover:text-gray-600 disabled:opacity-30'
+                    title='Move down'
+                  >
+                    <ArrowDown className='w-4 h-4' />
+                  </button>
+                  <button
+                    onClick={() => removePane(pane.id)}
+                    className='text-gray-400 hover:text-red-500'
+                    title='Remove pane'
+                  >
+                    <X className='w-4 h-4' />
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PanePanel;
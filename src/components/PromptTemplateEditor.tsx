@@ -0,0 +1,206 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { History, Save, Trash2, X } from 'lucide-react';
+import {
+  currentVersion,
+  PromptContext,
+  PromptTemplate,
+  renderTemplate,
+  templateVariables,
+} from '@/lib/promptTemplates';
+import { cn } from '@/lib/utils';
+
+interface PromptTemplateEditorProps {
+  template: PromptTemplate;
+  context: PromptContext | null;
+  onSaveVersion: (body: string, note?: string) => void;
+  onSaveAsNew: (name: string, body: string) => void;
+  onDelete: () => void;
+  onClose: () => void;
+}
+
+const inputClass =
+  'dashboard-input px-2 py-1 rounded-md border border-gray-200 dark:border-gray-600 text-sm';
+
+const PromptTemplateEditor: React.FC<PromptTemplateEditorProps> = ({
+  template,
+  context,
+  onSaveVersion,
+  onSaveAsNew,
+  onDelete,
+  onClose,
+}) => {
+  const [draft, setDraft] = useState<string>(currentVersion(template).body);
+  const [note, setNote] = useState<string>('');
+  const [newName, setNewName] = useState<string>('');
+  const [showHistory, setShowHistory] = useState<boolean>(false);
+
+  // Start from the latest version whenever another template is opened
+  useEffect(() => {
+    setDraft(currentVersion(template).body);
+    setNote('');
+    setNewName('');
+  }, [template]);
+
+  const preview = useMemo(
+    () => (context ? renderTemplate(draft, context) : null),
+    [draft, context]
+  );
+  const isDirty = draft !== currentVersion(template).body;
+
+  return (
+    <div className='rounded-lg border border-gray-200 dark:border-gray-700 p-4 mb-4 space-y-3'>
+      <div className='flex items-center justify-between'>
+        <h3 className='font-medium'>
+          Edit template: {template.name}
+          {template.builtIn ? (
+            <span className='ml-2 text-xs text-muted'>
+              built-in, save a copy to keep changes
+            </span>
+          ) : (
+            <span className='ml-2 text-xs text-muted'>
+              v{currentVersion(template).version}
+            </span>
+          )}
+        </h3>
+        <button
+          onClick={onClose}
+          className='text-gray-400 hover:text-gray-600'
+          title='Close editor'
+        >
+          <X className='w-4 h-4' />
+        </button>
+      </div>
+
+      <div className='grid grid-cols-1 lg:grid-cols-2 gap-4'>
+        <div className='space-y-2'>
+          <textarea
+            value={draft}
+            onChange={e => setDraft(e.target.value)}
+            rows={18}
+            spellCheck={false}
+            className={cn(inputClass, 'w-full font-mono text-xs')}
+          />
+          <div className='flex flex-wrap items-center gap-2'>
+            {!template.builtIn && (
+              <>
+                <input
+                  type='text'
+                  placeholder='Version note (optional)'
+                  value={note}
+                  onChange={e => setNote(e.target.value)}
+                  className={cn(inputClass, 'flex-1 min-w-32')}
+                />
+                <button
+                  onClick={() => {
+                    onSaveVersion(draft, note.trim() || undefined);
+                    setNote('');
+                  }}
+                  disabled={!isDirty}
+                  className='dashboard-button flex items-center gap-1 px-3 py-1 rounded-md text-sm disabled:opacity-50'
+                >
+                  <Save className='w-4 h-4' />
+                  Save v{currentVersion(template).version + 1}
+                </button>
+              </>
+            )}
+          </div>
+          <div className='flex flex-wrap items-center gap-2'>
+            <input
+              type='text'
+              placeholder='New template name'
+              value={newName}
+              onChange={e => setNewName(e.target.value)}
+              className={cn(inputClass, 'flex-1 min-w-32')}
+            />
+            <button
+              onClick={() => onSaveAsNew(newName.trim(), draft)}
+              disabled={!newName.trim()}
+              className='dashboard-button-secondary px-3 py-1 rounded-md text-sm disabled:opacity-50'
+            >
+              Save as new template
+            </button>
+            {!template.builtIn && (
+              <button
+                onClick={onDelete}
+                className='text-gray-400 hover:text-red-500'
+                title='Delete template'
+              >
+                <Trash2 className='w-4 h-4' />
+              </button>
+            )}
+          </div>
+
+          {!template.builtIn && template.versions.length > 1 && (
+            <div>
+              <button
+                onClick={() => setShowHistory(!showHistory)}
+                className='flex items-center gap-1 text-sm text-muted hover:underline'
+              >
+                <History className='w-3 h-3' />
+                {template.versions.length} versions
+              </button>
+              {showHistory && (
+                <div className='mt-1 space-y-1'>
+                  {[...template.versions].reverse().map(version => (
+                    <div
+                      key={version.version}
+                      className='flex items-center gap-2 text-xs'
+                    >
+                      <span className='font-mono'>v{version.version}</span>
+                      <span className='text-muted'>
+                        {new Date(version.savedAt).toLocaleString()}
+                      </span>
+                      <span className='truncate flex-1'>{version.note}</span>
+                      <button
+                        onClick={() => setDraft(version.body)}
+                        className='text-blue-600 hover:underline'
+                      >
+                        Load
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          <details className='text-xs'>
+            <summary className='cursor-pointer text-muted'>
+              Available placeholders
+            </summary>
+            <ul className='mt-1 space-y-1'>
+              {templateVariables.map(variable => (
+                <li key={variable.name}>
+                  <code>{`{{${variable.name}}}`}</code>{' '}
+                  <span className='text-muted'>{variable.description}</span>
+                </li>
+              ))}
+            </ul>
+          </details>
+        </div>
+
+        <div>
+          <div className='text-sm font-medium mb-1'>Preview</div>
+          {preview ? (
+            <>
+              {preview.missing.length > 0 && (
+                <p className='text-xs text-yellow-600 mb-1'>
+                  Unresolved: {preview.missing.join(', ')}
+                </p>
+              )}
+              <pre className='whitespace-pre-wrap text-xs max-h-96 overflow-y-auto rounded-md border border-gray-200 dark:border-gray-700 p-2'>
+                {preview.text}
+              </pre>
+            </>
+          ) : (
+            <p className='text-sm text-muted'>Load market data to preview</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PromptTemplateEditor;
@@ -0,0 +1,102 @@
+'use client';
+
+import React, { useEffect, useRef } from 'react';
+import {
+  ColorType,
+  createChart,
+  LineSeries,
+  LineStyle,
+  Time,
+} from 'lightweight-charts';
+import type { IndicatorPoint } from '@/lib/indicators';
+
+interface RollingCorrelationChartProps {
+  points: IndicatorPoint[];
+  isDarkMode?: boolean;
+  height?: number;
+}
+
+// Rolling correlation of one pair, on a fixed -1..1 scale
+const RollingCorrelationChart: React.FC<RollingCorrelationChartProps> = ({
+  points,
+  isDarkMode = true,
+  height = 200,
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || points.length === 0) return;
+
+    const gridColor = isDarkMode ? '#374151' : '#e5e7eb';
+    const chart = createChart(container, {
+      layout: {
+        background: {
+          type: ColorType.Solid,
+          color: isDarkMode ? '#222831' : '#ffffff',
+        },
+        textColor: isDarkMode ? '#e5e7eb' : '#374151',
+        fontSize: 11,
+      },
+      grid: {
+        vertLines: { color: gridColor, style: 1 },
+        horzLines: { color: gridColor, style: 1 },
+      },
+      rightPriceScale: { borderColor: isDarkMode ? '#4b5563' : '#d1d5db' },
+      timeScale: {
+        borderColor: isDarkMode ? '#4b5563' : '#d1d5db',
+        timeVisible: true,
+        secondsVisible: false,
+      },
+      width: container.clientWidth,
+      height,
+    });
+
+    const series = chart.addSeries(LineSeries, {
+      color: '#3b82f6',
+      lineWidth: 2,
+      priceLineVisible: false,
+      priceFormat: { type: 'price', precision: 2, minMove: 0.01 },
+      autoscaleInfoProvider: () => ({
+        priceRange: { minValue: -1, maxValue: 1 },
+      }),
+    });
+    series.setData(
+      points.map(point => ({
+        time: (point.timestamp / 1000) as Time,
+        value: point.value,
+      }))
+    );
+    series.createPriceLine({
+      price: 0,
+      color: isDarkMode ? '#6b7280' : '#9ca3af',
+      lineWidth: 1,
+      lineStyle: LineStyle.Dotted,
+      axisLabelVisible: false,
+      title: '',
+    });
+    chart.timeScale().fitContent();
+
+    const handleResize = () =>
+      chart.applyOptions({ width: container.clientWidth });
+    window.addEventListener('resize', handleResize);
+
+    return () => {
+      window.removeEventListener('resize', handleResize);
+      chart.remove();
+    };
+  }, [points, isDarkMode, height]);
+
+  return points.length > 0 ? (
+    <div ref={containerRef} className='w-full' style={{ height }} />
+  ) : (
+    <div
+      className='flex items-center justify-center text-sm text-muted'
+      style={{ height }}
+    >
+      Not enough overlapping candles for this window
+    </div>
+  );
+};
+
+export default RollingCorrelationChart;
@@ -0,0 +1,67 @@
+'use client';
+
+import React from 'react';
+
+interface SparklineProps {
+  values: number[];
+  width?: number;
+  height?: number;
+  color?: string;
+  fill?: boolean;
+  className?: string;
+}
+
+// Lightweight SVG line for small inline charts where a full chart is overkill
+const Sparkline: React.FC<SparklineProps> = ({
+  values,
+  width = 100,
+  height = 30,
+  color = '#3b82f6',
+  fill = false,
+  className,
+}) => {
+  if (values.length < 2) {
+    return <svg width={width} height={height} className={className} />;
+  }
+
+  // Keep at most ~2 points per pixel so long equity curves stay cheap
+  const stride = Math.max(1, Math.floor(values.length / (width * 2)));
+  const sampled = values.filter(
+    (_, i) => i % stride === 0 || i === values.length - 1
+  );
+  const min = sampled.reduce((m, v) => Math.min(m, v), Infinity);
+  const max = sampled.reduce((m, v) => Math.max(m, v), -Infinity);
+  const range = max - min || 1;
+  const points = sampled.map((value, i) => {
+    const x = (i / (sampled.length - 1)) * width;
+    const y = height - ((value - min) / range) * (height - 2) - 1;
+    return `${x.toFixed(2)},${y.toFixed(2)}`;
+  });
+
+  return (
+    <svg
+      width={width}
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+      preserveAspectRatio='none'
+      className={className}
+    >
+      {fill && (
+        <polygon
+          points={`0,${height} ${points.join(' ')} ${width},${height}`}
+          fill={color}
+          fillOpacity={0.15}
+        />
+      )}
+      <polyline
+        points={points.join(' ')}
+        fill='none'
+        stroke={color}
+        strokeWidth={1.5}
+        vectorEffect='non-scaling-stroke'
+      />
+    </svg>
+  );
+};
+
+export default Sparkline;
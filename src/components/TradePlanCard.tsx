@@ -0,0 +1,219 @@
+'use client';
+
+import React from 'react';
+import { LineChart, Target } from 'lucide-react';
+import type { AnalysisReport } from '@/lib/analysis';
+import type { PlanOutcome } from '@/lib/tradePlan';
+import { cn, formatCurrency } from '@/lib/utils';
+
+interface TradePlanCardProps {
+  report: AnalysisReport;
+  showOnChart: boolean;
+  onToggleChart: (show: boolean) => void;
+  onScore: () => void;
+  scoring: boolean;
+}
+
+const outcomeClass: Record<PlanOutcome, string> = {
+  pending: 'text-muted',
+  'no-entry': 'text-muted',
+  open: 'text-blue-600',
+  stopped: 'text-red-600',
+  target: 'text-green-600',
+  expired: 'text-yellow-600',
+};
+
+const biasClass = {
+  bullish: 'text-green-600',
+  bearish: 'text-red-600',
+  neutral: 'text-muted',
+};
+
+const signed = (value: number, digits = 2) =>
+  `${value >= 0 ? '+' : ''}${value.toFixed(digits)}`;
+
+const prices = (values: number[]) =>
+  values.length > 0 ? values.map(v => formatCurrency(v)).join(', ') : 'none';
+
+const TradePlanCard: React.FC<TradePlanCardProps> = ({
+  report,
+  showOnChart,
+  onToggleChart,
+  onScore,
+  scoring,
+}) => {
+  const { plan, planErrors, score } = report;
+
+  if (!plan) {
+    return planErrors && planErrors.length > 0 ? (
+      <p className='text-xs text-yellow-600 mb-4'>
+        Trade plan could not be read: {planErrors.join('; ')}
+      </p>
+    ) : null;
+  }
+
+  const setup = plan.setup;
+  const entryMid = setup ? (setup.entryLow + setup.entryHigh) / 2 : 0;
+  const rewardRisk = setup
+    ? Math.abs(setup.takeProfits[setup.takeProfits.length - 1] - entryMid) /
+      Math.abs(entryMid - setup.stopLoss)
+    : 0;
+
+  return (
+    <div className='rounded-lg border border-gray-200 dark:border-gray-700 p-4 mb-4 text-sm space-y-3'>
+      <div className='flex flex-wrap items-center justify-between gap-2'>
+        <h3 className='font-medium'>
+          Trade plan · <span className={biasClass[plan.bias]}>{plan.bias}</span>
+          <span className='ml-2 text-xs text-muted'>
+            {plan.horizonHours}h horizon
+            {plan.confidence !== undefined &&
+              ` · ${Math.round(plan.confidence * 100)}% confidence`}
+          </span>
+        </h3>
+        <div className='flex items-center gap-3'>
+          <label className='flex items-center gap-1 text-xs'>
+            <input
+              type='checkbox'
+              checked={showOnChart}
+              onChange={e => onToggleChart(e.target.checked)}
+            />
+            <LineChart className='w-3 h-3' />
+            Show on chart
+          </label>
+          <button
+            onClick={onScore}
+            disabled={scoring}
+            className='dashboard-button-secondary flex items-center gap-1 px-3 py-1 rounded-md text-xs disabled:opacity-50'
+          >
+            <Target className='w-3 h-3' />
+            {scoring ? 'Scoring...' : score ? 'Rescore' : 'Score'}
+          </button>
+        </div>
+      </div>
+
+      <div className='grid grid-cols-1 md:grid-cols-2 gap-3'>
+        <div className='space-y-1'>
+          {setup ? (
+            <>
+              <div>
+                <span className='text-muted'>Setup:</span>{' '}
+                <span
+                  className={
+                    setup.direction === 'long'
+                      ? 'text-green-600'
+                      : 'text-red-600'
+                  }
+                >
+                  {setup.direction}
+                </span>
+                {setup.leverage && ` ${setup.leverage}x`}
+              </div>
+              <div>
+                <span className='text-muted'>Entry:</span>{' '}
+                {formatCurrency(setup.entryLow)} –{' '}
+                {formatCurrency(setup.entryHigh)}
+              </div>
+              <div>
+                <span className='text-muted'>Stop-loss:</span>{' '}
+                {formatCurrency(setup.stopLoss)}
+              </div>
+              <div>
+                <span className='text-muted'>Take-profit:</span>{' '}
+                {prices(setup.takeProfits)}
+              </div>
+              <div>
+                <span className='text-muted'>Reward/risk:</span>{' '}
+                {rewardRisk.toFixed(2)}
+              </div>
+            </>
+          ) : (
+            <div className='text-muted'>No trade setup</div>
+          )}
+          <div>
+            <span className='text-muted'>Supports:</span>{' '}
+            {prices(plan.supports)}
+          </div>
+          <div>
+            <span className='text-muted'>Resistances:</span>{' '}
+            {prices(plan.resistances)}
+          </div>
+        </div>
+
+        <div className='space-y-1'>
+          {score ? (
+            <>
+              <div>
+                <span className='text-muted'>Outcome:</span>{' '}
+                {score.outcome ? (
+                  <span className={outcomeClass[score.outcome]}>
+                    {score.outcome}
+                  </span>
+                ) : (
+                  'no setup'
+                )}
+                {!score.complete && (
+                  <span className='text-xs text-muted'>
+                    {score.partialData
+                      ? ' (provisional, candles missing)'
+                      : ' (horizon running)'}
+                  </span>
+                )}
+              </div>
+              {score.rMultiple !== null && (
+                <div>
+                  <span className='text-muted'>Result:</span>{' '}
+                  <span
+                    className={
+                      score.rMultiple >= 0 ? 'text-green-600' : 'text-red-600'
+                    }
+                  >
+                    {signed(score.rMultiple)}R
+                  </span>
+                  {setup &&
+                    ` · ${score.targetsHit}/${setup.takeProfits.length} targets`}
+                </div>
+              )}
+              {score.maxFavorablePercent !== null &&
+                score.maxAdversePercent !== null && (
+                  <div>
+                    <span className='text-muted'>Max favorable/adverse:</span>{' '}
+                    {signed(score.maxFavorablePercent)}% /{' '}
+                    {signed(score.maxAdversePercent)}%
+                  </div>
+                )}
+              <div>
+                <span className='text-muted'>Price change:</span>{' '}
+                {signed(score.priceChangePercent)}%
+                {score.biasCorrect !== null && (
+                  <span
+                    className={cn(
+                      'ml-1',
+                      score.biasCorrect ? 'text-green-600' : 'text-red-600'
+                    )}
+                  >
+                    (bias {score.biasCorrect ? 'right' : 'wrong'})
+                  </span>
+                )}
+              </div>
+              <div>
+                <span className='text-muted'>Levels held:</span>{' '}
+                {`supports ${score.supportsHeld}/${score.supportsHeld + score.supportsBroken}, resistances ${score.resistancesHeld}/${score.resistancesHeld + score.resistancesBroken}`}
+              </div>
+              <div className='text-xs text-muted'>
+                Scored {new Date(score.scoredAt).toLocaleString()} against
+                prices until {new Date(score.evaluatedUntil).toLocaleString()}
+              </div>
+            </>
+          ) : (
+            <div className='text-muted'>
+              Not scored yet. Scoring compares the plan with prices since{' '}
+              {new Date(report.createdAt).toLocaleString()}.
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TradePlanCard;
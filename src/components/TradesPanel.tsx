@@ -0,0 +1,394 @@
+'use client';
+
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+import { Pause, Play, RefreshCw } from 'lucide-react';
+import { bitgetApi, MarketType } from '@/services/bitgetApi';
+import { bitgetStream, StreamStatus } from '@/services/bitgetStream';
+import {
+  aggressorVolume,
+  defaultTradeFlowSettings,
+  isLargeTrade,
+  loadTradeFlowSettings,
+  mergeTrades,
+  parseTrades,
+  saveTradeFlowSettings,
+  Trade,
+  TradeFlowSettings,
+  tradesInWindow,
+  windowOptions,
+} from '@/lib/tradeFlow';
+import { cn, formatCurrency } from '@/lib/utils';
+
+interface TradesPanelProps {
+  selectedCoin: string;
+  marketType: MarketType;
+  streamStatus: StreamStatus;
+  onTradesChange?: (trades: Trade[] | null) => void;
+}
+
+// Streamed fills are batched so a busy tape re-renders once per flush
+const FLUSH_MS = 1000;
+const TAPE_ROWS = 50;
+const restLimit = { spot: 500, futures: 100 };
+
+const controlClass =
+  'dashboard-input p-2 rounded-md text-sm bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600';
+
+const formatNotional = (value: number) =>
+  new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    notation: 'compact',
+    maximumFractionDigits: 2,
+  }).format(value);
+
+const formatSize = (value: number) =>
+  new Intl.NumberFormat('en-US', {
+    notation: 'compact',
+    maximumFractionDigits: 4,
+  }).format(value);
+
+const TradesPanel: React.FC<TradesPanelProps> = ({
+  selectedCoin,
+  marketType,
+  streamStatus,
+  onTradesChange,
+}) => {
+  const [trades, setTrades] = useState<Trade[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string>('');
+  const [live, setLive] = useState<boolean>(true);
+  const [settings, setSettings] = useState<TradeFlowSettings>(
+    defaultTradeFlowSettings
+  );
+  const pendingRef = useRef<Trade[]>([]);
+  // Symbol the tape currently belongs to, so late responses are dropped
+  const tapeKeyRef = useRef<string>('');
+
+  useEffect(() => {
+    setSettings(loadTradeFlowSettings());
+  }, []);
+
+  const updateSettings = (changes: Partial<TradeFlowSettings>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    saveTradeFlowSettings(next);
+  };
+
+  const loadTrades = useCallback(async () => {
+    const key = `${marketType}:${selectedCoin}`;
+    setLoading(true);
+    setError('');
+    try {
+      const raw = await bitgetApi.getRecentTradesByMarket(
+        marketType,
+        selectedCoin,
+        restLimit[marketType]
+      );
+      if (tapeKeyRef.current !== key) return;
+      setTrades(current => mergeTrades(current, parseTrades(raw)));
+    } catch (err) {
+      console.error('Failed to load trades:', err);
+      setError(`Failed to load trades for ${selectedCoin}`);
+    } finally {
+      setLoading(false);
+    }
+  }, [selectedCoin, marketType]);
+
+  // A different symbol starts a fresh tape
+  useEffect(() => {
+    tapeKeyRef.current = `${marketType}:${selectedCoin}`;
+    setTrades([]);
+    pendingRef.current = [];
+    if (selectedCoin) loadTrades();
+  }, [selectedCoin, marketType, loadTrades]);
+
+  useEffect(() => {
+    if (!selectedCoin || !live) return;
+    const unsubscribe = bitgetStream.subscribeTrades(
+      marketType,
+      selectedCoin,
+      raw => {
+        pendingRef.current.push(...parseTrades(raw));
+      }
+    );
+    const interval = setInterval(() => {
+      const pending = pendingRef.current;
+      if (pending.length === 0) return;
+      pendingRef.current = [];
+      setTrades(current => mergeTrades(current, pending));
+    }, FLUSH_MS);
+
+    return () => {
+      unsubscribe();
+      clearInterval(interval);
+      pendingRef.current = [];
+    };
+  }, [selectedCoin, marketType, live]);
+
+  useEffect(() => {
+    onTradesChange?.(settings.cvdPane && trades.length > 0 ? trades : null);
+  }, [trades, settings.cvdPane, onTradesChange]);
+
+  const windowTrades = useMemo(
+    () => tradesInWindow(trades, settings.windowMinutes),
+    [trades, settings.windowMinutes]
+  );
+  const volume = useMemo(
+    () => aggressorVolume(windowTrades, settings.largeTradeSize),
+    [windowTrades, settings.largeTradeSize]
+  );
+  const tape = useMemo(
+    () =>
+      (settings.largeOnly
+        ? trades.filter(trade => isLargeTrade(trade, settings.largeTradeSize))
+        : trades
+      ).slice(0, TAPE_ROWS),
+    [trades, settings.largeOnly, settings.largeTradeSize]
+  );
+
+  const oldest = trades[trades.length - 1];
+  const buyPercent = volume.buyShare !== null ? volume.buyShare * 100 : null;
+
+  return (
+    <div className='dashboard-card p-6 rounded-lg'>
+      <div className='flex items-center justify-between mb-4'>
+        <h2 className='text-xl font-semibold'>Trades - {selectedCoin}</h2>
+        <div className='flex items-center gap-2'>
+          {live && streamStatus !== 'open' && (
+            <span className='text-xs text-yellow-600'>
+              {streamStatus === 'reconnecting'
+                ? 'Reconnecting...'
+                : 'Connecting...'}
+            </span>
+          )}
+          <button
+            onClick={() => setLive(!live)}
+            className={cn(
+              'flex items-center gap-2 px-3 py-1 rounded-md text-sm',
+              live
+                ? 'bg-transparent text-green-700 hover:bg-transparent dark:text-green-400 dark:hover:bg-transparent'
+                : 'bg-transparent text-gray-700 hover:bg-transparent dark:text-gray-400 dark:hover:bg-transparent'
+            )}
+            title={live ? 'Pause live trades' : 'Resume live trades'}
+          >
+            {live ? (
+              <Pause className='w-3 h-3' />
+            ) : (
+              <Play className='w-3 h-3' />
+            )}
+            {live ? 'Live' : 'Paused'}
+          </button>
+          <button
+            onClick={loadTrades}
+            disabled={loading}
+            className='dashboard-button-secondary flex items-center gap-2 px-3 py-1 rounded-md disabled:opacity-50 text-sm'
+          >
+            <RefreshCw className={cn('w-3 h-3', loading && 'animate-spin')} />
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      <div className='flex flex-wrap items-center gap-3 mb-4 text-sm'>
+        <label className='flex items-center gap-1 text-muted'>
+          Window
+          <select
+            value={settings.windowMinutes}
+            onChange={e =>
+              updateSettings({ windowMinutes: parseInt(e.target.value) })
+            }
+            className={controlClass}
+          >
+            {windowOptions.map(option => (
+              <option key={option} value={option}>
+                {option > 0
+                  ? option < 60
+                    ? `${option}m`
+                    : `${option / 60}h`
+                  : 'All loaded'}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className='flex items-center gap-1 text-muted'>
+          Large trade from (USDT)
+          <input
+            type='number'
+            min={0}
+            value={settings.largeTradeSize}
+            onChange={e =>
+              updateSettings({
+                largeTradeSize: parseFloat(e.target.value) || 0,
+              })
+            }
+            className={cn(controlClass, 'w-32')}
+          />
+        </label>
+        <label className='flex items-center gap-2'>
+          <input
+            type='checkbox'
+            checked={settings.largeOnly}
+            onChange={e => updateSettings({ largeOnly: e.target.checked })}
+          />
+          Large trades only
+        </label>
+        <label className='flex items-center gap-2'>
+          <input
+            type='checkbox'
+            checked={settings.cvdPane}
+            onChange={e => updateSettings({ cvdPane: e.target.checked })}
+          />
+          CVD pane on chart
+        </label>
+      </div>
+
+      {error && (
+        <div className='dashboard-card p-3 rounded-lg mb-4'>
+          <p className='text-red-600 text-sm'>{error}</p>
+        </div>
+      )}
+
+      <div className='grid grid-cols-2 md:grid-cols-5 gap-4 mb-4 text-sm'>
+        <div>
+          <p className='text-muted'>Taker buys</p>
+          <p className='font-mono text-green-600'>
+            {formatSize(volume.buyVolume)}{' '}
+            <span className='text-xs text-muted'>
+              {formatNotional(volume.buyNotional)}
+            </span>
+          </p>
+        </div>
+        <div>
+          <p className='text-muted'>Taker sells</p>
+          <p className='font-mono text-red-600'>
+            {formatSize(volume.sellVolume)}{' '}
+            <span className='text-xs text-muted'>
+              {formatNotional(volume.sellNotional)}
+            </span>
+          </p>
+        </div>
+        <div>
+          <p className='text-muted'>Volume delta</p>
+          <p
+            className={cn(
+              'font-mono',
+              volume.delta >= 0 ? 'text-green-600' : 'text-red-600'
+            )}
+          >
+            {volume.delta >= 0 ? '+' : '-'}
+            {formatSize(Math.abs(volume.delta))}
+          </p>
+        </div>
+        <div>
+          <p className='text-muted'>Large trades</p>
+          <p className='font-mono'>
+            <span className='text-green-600'>{volume.largeBuys}</span> /{' '}
+            <span className='text-red-600'>{volume.largeSells}</span>
+          </p>
+        </div>
+        <div>
+          <p className='text-muted'>Trades</p>
+          <p className='font-mono'>
+            {volume.trades}
+            {oldest && (
+              <span className='text-xs text-muted'>
+                {' '}
+                since {new Date(oldest.timestamp).toLocaleTimeString()}
+              </span>
+            )}
+          </p>
+        </div>
+      </div>
+
+      <div className='mb-6'>
+        <div className='flex justify-between text-xs text-muted mb-1'>
+          <span>
+            Buy {buyPercent !== null ? `${buyPercent.toFixed(1)}%` : '-'}
+          </span>
+          <span>
+            Sell{' '}
+            {buyPercent !== null ? `${(100 - buyPercent).toFixed(1)}%` : '-'}
+          </span>
+        </div>
+        <div className='flex h-2 rounded-full overflow-hidden bg-gray-200 dark:bg-gray-700'>
+          {buyPercent !== null && (
+            <>
+              <div
+                className='bg-green-500'
+                style={{ width: `${buyPercent}%` }}
+              />
+              <div
+                className='bg-red-500'
+                style={{ width: `${100 - buyPercent}%` }}
+              />
+            </>
+          )}
+        </div>
+      </div>
+
+      {loading && trades.length === 0 ? (
+        <div className='flex items-center justify-center h-64'>
+          <div className='animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600'></div>
+        </div>
+      ) : tape.length > 0 ? (
+        <div className='space-y-1'>
+          <div className='grid grid-cols-4 gap-2 text-sm font-medium text-muted pb-2 border-b px-2'>
+            <span>Time</span>
+            <span className='text-right'>Price (USDT)</span>
+            <span className='text-right'>Size</span>
+            <span className='text-right'>Value</span>
+          </div>
+          <div className='max-h-96 overflow-y-auto'>
+            {tape.map(trade => {
+              const large = isLargeTrade(trade, settings.largeTradeSize);
+              return (
+                <div
+                  key={trade.id}
+                  className={cn(
+                    'grid grid-cols-4 gap-2 text-sm py-1 rounded px-2 font-mono',
+                    large && 'font-semibold',
+                    large &&
+                      (trade.side === 'buy'
+                        ? 'bg-green-50 dark:bg-green-900/20'
+                        : 'bg-red-50 dark:bg-red-900/20')
+                  )}
+                >
+                  <span className='text-muted'>
+                    {new Date(trade.timestamp).toLocaleTimeString()}
+                  </span>
+                  <span
+                    className={cn(
+                      'text-right',
+                      trade.side === 'buy' ? 'text-green-600' : 'text-red-600'
+                    )}
+                  >
+                    {formatCurrency(trade.price)}
+                  </span>
+                  <span className='text-right'>{trade.size.toFixed(4)}</span>
+                  <span className='text-right'>
+                    {formatNotional(trade.notional)}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ) : (
+        <div className='flex items-center justify-center h-32 text-muted'>
+          {settings.largeOnly && trades.length > 0
+            ? 'No large trades among the loaded trades'
+            : 'No trades available'}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TradesPanel;
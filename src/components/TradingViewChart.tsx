@@ -4,14 +4,34 @@ import React, { useEffect, useRef, useState } from 'react';
 import {
   createChart,
   IChartApi,
-  ISeriesApi,
   CandlestickData,
-  HistogramData,
   ColorType,
   Time,
   CandlestickSeries,
   HistogramSeries,
+  LineSeries,
+  LineStyle,
+  LineData,
+  HistogramData,
+  ISeriesApi,
+  SeriesType,
+  MouseEventParams,
+  createSeriesMarkers,
 } from 'lightweight-charts';
+import type { OverlayLine } from '@/lib/overlays';
+import type { PaneData } from '@/lib/panes';
+import { ChartMarker, sortMarkers } from '@/lib/chartMarkers';
+import { PriceLevel, PriceZone, PriceZonesPrimitive } from '@/lib/priceZones';
+import {
+  OrderbookHeatmap,
+  OrderbookHeatmapPrimitive,
+} from '@/lib/orderbookHeatmap';
+import {
+  ComparisonLine,
+  ComparisonScale,
+  formatComparisonValue,
+} from '@/lib/comparison';
+import { cn } from '@/lib/utils';
 
 interface CandleData {
   timestamp: number;
@@ -28,24 +48,69 @@ interface TradingViewChartProps {
   coin?: string;
   isDarkMode?: boolean;
   height?: number;
+  overlays?: OverlayLine[];
+  panes?: PaneData[];
+  markers?: ChartMarker[];
+  priceLevels?: PriceLevel[]; // horizontal lines, e.g. an AI trade plan
+  priceZones?: PriceZone[]; // shaded price ranges behind the candles
+  heatmap?: OrderbookHeatmap | null; // recorded orderbook liquidity
+  // Rebased symbols drawn instead of the candles when not empty
+  comparison?: ComparisonLine[];
+  comparisonScale?: ComparisonScale;
+  onToggleComparison?: (key: string) => void;
+  // Identifies the loaded series; live candles tagged with another key are
+  // left over from the previous symbol or granularity and are ignored
+  dataKey?: string;
+  liveCandle?: LiveCandle | null; // forming candle from the stream
+}
+
+interface LiveCandle {
+  dataKey: string;
+  candle: CandleData;
 }
 
+const noOverlays: OverlayLine[] = [];
+const noPanes: PaneData[] = [];
+const noMarkers: ChartMarker[] = [];
+const noLevels: PriceLevel[] = [];
+const noZones: PriceZone[] = [];
+const noComparison: ComparisonLine[] = [];
+
+const levelStyles = {
+  solid: LineStyle.Solid,
+  dashed: LineStyle.Dashed,
+  dotted: LineStyle.Dotted,
+};
+
 const TradingViewChart: React.FC<TradingViewChartProps> = ({
   data,
   coin,
   isDarkMode = true,
   height = 400,
+  overlays = noOverlays,
+  panes = noPanes,
+  markers = noMarkers,
+  priceLevels = noLevels,
+  priceZones = noZones,
+  heatmap = null,
+  comparison = noComparison,
+  comparisonScale = 'percent',
+  onToggleComparison,
+  dataKey,
+  liveCandle = null,
 }) => {
   const chartContainerRef = useRef<HTMLDivElement>(null);
   const chartRef = useRef<IChartApi | null>(null);
   const candlestickSeriesRef = useRef<ISeriesApi<'Candlestick'> | null>(null);
-  const volumeSeriesRef = useRef<ISeriesApi<'Histogram'> | null>(null);
+  const lastBarTimeRef = useRef<number>(0);
+  const comparingRef = useRef<boolean>(false);
   const [isLoading, setIsLoading] = useState(true);
+  // Comparison values under the crosshair, keyed by line
+  const [readout, setReadout] = useState<Record<string, number> | null>(null);
 
   // Transform data for TradingView format
   const transformData = (chartData: CandleData[]) => {
     const candlestickData: CandlestickData[] = [];
-    const volumeData: HistogramData[] = [];
 
     chartData.forEach(item => {
       const timestamp = (item.timestamp / 1000) as Time; // Convert to Unix timestamp in seconds
@@ -57,18 +122,14 @@ const TradingViewChart: React.FC<TradingViewChartProps> = ({
         low: item.low,
         close: item.close,
       });
-
-      volumeData.push({
-        time: timestamp,
-        value: item.volume,
-        color: item.close >= item.open ? '#26a69a' : '#ef5350',
-      });
     });
 
-    return { candlestickData, volumeData };
+    return { candlestickData };
   };
 
   useEffect(() => {
+    // A new data set starts a new series
+    lastBarTimeRef.current = 0;
     if (!chartContainerRef.current || data.length === 0) return;
 
     // Create chart
@@ -111,7 +172,7 @@ const TradingViewChart: React.FC<TradingViewChartProps> = ({
         textColor: isDarkMode ? '#e5e7eb' : '#374151',
         scaleMargins: {
           top: 0.1,
-          bottom: 0.2,
+          bottom: 0.1,
         },
       },
       timeScale: {
@@ -166,35 +227,10 @@ const TradingViewChart: React.FC<TradingViewChartProps> = ({
       },
     });
 
-    // Add volume series
-    const volumeSeries = chart.addSeries(HistogramSeries, {
-      color: isDarkMode ? '#6b7280' : '#9ca3af',
-      priceFormat: {
-        type: 'volume',
-      },
-      priceScaleId: 'volume',
-    });
-
-    // Configure volume scale
-    chart.priceScale('volume').applyOptions({
-      scaleMargins: {
-        top: 0.7,
-        bottom: 0,
-      },
-    });
-
-    // Configure volume price scale
-    chart.priceScale('volume').applyOptions({
-      scaleMargins: {
-        top: 0.8,
-        bottom: 0,
-      },
-    });
-
     // Transform and set data
-    const { candlestickData, volumeData } = transformData(data);
+    const { candlestickData } = transformData(data);
     candlestickSeries.setData(candlestickData);
-    volumeSeries.setData(volumeData);
+    lastBarTimeRef.current = data[data.length - 1].timestamp;
 
     // Fit content
     chart.timeScale().fitContent();
@@ -202,7 +238,6 @@ const TradingViewChart: React.FC<TradingViewChartProps> = ({
     // Store references
     chartRef.current = chart;
     candlestickSeriesRef.current = candlestickSeries;
-    volumeSeriesRef.current = volumeSeries;
 
     // Create tooltip element
     const tooltip = document.createElement('div');
@@ -224,7 +259,13 @@ const TradingViewChart: React.FC<TradingViewChartProps> = ({
 
     // Add crosshair move handler for tooltip
     chart.subscribeCrosshairMove(param => {
-      if (!param.point || !param.time || !candlestickSeries) {
+      // Comparison mode shows its own readout in the legend
+      if (
+        comparingRef.current ||
+        !param.point ||
+        !param.time ||
+        !candlestickSeries
+      ) {
         tooltip.style.display = 'none';
         return;
       }
@@ -299,10 +340,287 @@ const TradingViewChart: React.FC<TradingViewChartProps> = ({
       }
       if (chart) {
         chart.remove();
+        chartRef.current = null;
       }
     };
   }, [data, isDarkMode, height]);
 
+  // Apply the streamed candle without rebuilding the chart
+  useEffect(() => {
+    const candlestickSeries = candlestickSeriesRef.current;
+    if (!candlestickSeries || !chartRef.current || !liveCandle) return;
+    if (liveCandle.dataKey !== dataKey) return;
+    const { candle } = liveCandle;
+    // Updates may only touch the last bar or append a newer one
+    if (candle.timestamp < lastBarTimeRef.current) return;
+
+    candlestickSeries.update({
+      time: (candle.timestamp / 1000) as Time,
+      open: candle.open,
+      high: candle.high,
+      low: candle.low,
+      close: candle.close,
+    });
+    lastBarTimeRef.current = candle.timestamp;
+  }, [liveCandle, dataKey, data, isDarkMode, height]);
+
+  // Draw indicator overlays on the price pane
+  useEffect(() => {
+    const chart = chartRef.current;
+    if (!chart || overlays.length === 0) return;
+
+    const overlaySeries = overlays.map(overlay => {
+      const series = chart.addSeries(LineSeries, {
+        color: overlay.color,
+        lineWidth: 2,
+        lineStyle:
+          overlay.style === 'dashed' ? LineStyle.Dashed : LineStyle.Solid,
+        lineVisible: overlay.style !== 'dots',
+        pointMarkersVisible: overlay.style === 'dots',
+        pointMarkersRadius: 2,
+        priceLineVisible: false,
+        lastValueVisible: false,
+        crosshairMarkerVisible: false,
+      });
+      series.setData(
+        overlay.points.map(point => {
+          const lineData: LineData = {
+            time: (point.timestamp / 1000) as Time,
+            value: point.value,
+          };
+          if (point.color) lineData.color = point.color;
+          return lineData;
+        })
+      );
+      return series;
+    });
+
+    return () => {
+      // The chart may already have been recreated, taking its series with it
+      if (chartRef.current !== chart) return;
+      overlaySeries.forEach(series => chart.removeSeries(series));
+    };
+  }, [overlays, data, isDarkMode, height]);
+
+  // Draw trade and event markers on the candles
+  useEffect(() => {
+    const candlestickSeries = candlestickSeriesRef.current;
+    if (!chartRef.current || !candlestickSeries || markers.length === 0) {
+      return;
+    }
+
+    const chart = chartRef.current;
+    const seriesMarkers = createSeriesMarkers(
+      candlestickSeries,
+      sortMarkers(markers).map(marker => ({
+        time: (marker.timestamp / 1000) as Time,
+        position: marker.position,
+        shape: marker.shape,
+        color: marker.color,
+        text: marker.text,
+      }))
+    );
+
+    return () => {
+      if (chartRef.current !== chart) return;
+      seriesMarkers.detach();
+    };
+  }, [markers, data, isDarkMode, height]);
+
+  // Draw price levels as lines and zones as shaded bands on the candles
+  useEffect(() => {
+    const candlestickSeries = candlestickSeriesRef.current;
+    const chart = chartRef.current;
+    if (!chart || !candlestickSeries) return;
+    if (priceLevels.length === 0 && priceZones.length === 0) return;
+
+    const priceLines = priceLevels.map(level =>
+      candlestickSeries.createPriceLine({
+        price: level.price,
+        color: level.color,
+        lineWidth: 1,
+        lineStyle: levelStyles[level.style || 'solid'],
+        axisLabelVisible: true,
+        title: level.title,
+      })
+    );
+    const zones = new PriceZonesPrimitive(priceZones);
+    candlestickSeries.attachPrimitive(zones);
+
+    return () => {
+      if (chartRef.current !== chart) return;
+      priceLines.forEach(line => candlestickSeries.removePriceLine(line));
+      candlestickSeries.detachPrimitive(zones);
+    };
+  }, [priceLevels, priceZones, data, isDarkMode, height]);
+
+  // Shade recorded orderbook liquidity behind the candles
+  useEffect(() => {
+    const candlestickSeries = candlestickSeriesRef.current;
+    const chart = chartRef.current;
+    if (!chart || !candlestickSeries || !heatmap) return;
+    if (heatmap.snapshots.length === 0) return;
+
+    const primitive = new OrderbookHeatmapPrimitive(heatmap);
+    candlestickSeries.attachPrimitive(primitive);
+
+    return () => {
+      if (chartRef.current !== chart) return;
+      candlestickSeries.detachPrimitive(primitive);
+    };
+  }, [heatmap, data, isDarkMode, height]);
+
+  // Replace the candles with rebased comparison lines on a shared axis
+  useEffect(() => {
+    const candlestickSeries = candlestickSeriesRef.current;
+    const chart = chartRef.current;
+    comparingRef.current = comparison.length > 0;
+    if (!chart || !candlestickSeries || comparison.length === 0) return;
+
+    candlestickSeries.applyOptions({ visible: false });
+    const lines = comparison
+      .filter(line => line.visible && line.points.length > 0)
+      .map(line => {
+        const series = chart.addSeries(LineSeries, {
+          color: line.color,
+          lineWidth: 2,
+          title: line.label,
+          priceLineVisible: false,
+          priceFormat: {
+            type: 'custom',
+            formatter: (value: number) =>
+              formatComparisonValue(value, comparisonScale),
+            minMove: 0.0001,
+          },
+        });
+        series.setData(
+          line.points.map(point => ({
+            time: (point.timestamp / 1000) as Time,
+            value: point.value,
+          }))
+        );
+        return { key: line.key, series };
+      });
+    lines[0]?.series.createPriceLine({
+      price: 0,
+      color: isDarkMode ? '#6b7280' : '#9ca3af',
+      lineWidth: 1,
+      lineStyle: LineStyle.Dotted,
+      axisLabelVisible: false,
+      title: '',
+    });
+
+    const handleCrosshair = (param: MouseEventParams<Time>) => {
+      if (!param.time) {
+        setReadout(null);
+        return;
+      }
+      const values: Record<string, number> = {};
+      lines.forEach(({ key, series }) => {
+        const point = param.seriesData.get(series) as LineData | undefined;
+        if (point && 'value' in point) values[key] = point.value;
+      });
+      setReadout(values);
+    };
+    chart.subscribeCrosshairMove(handleCrosshair);
+
+    return () => {
+      setReadout(null);
+      if (chartRef.current !== chart) return;
+      chart.unsubscribeCrosshairMove(handleCrosshair);
+      lines.forEach(({ series }) => chart.removeSeries(series));
+      candlestickSeries.applyOptions({ visible: true });
+    };
+  }, [comparison, comparisonScale, data, isDarkMode, height]);
+
+  // Draw volume and oscillators in their own panes below the price pane.
+  // They share the time scale and crosshair with the candles.
+  const panesHeight = panes.reduce((sum, pane) => sum + pane.height, 0);
+
+  useEffect(() => {
+    const chart = chartRef.current;
+    if (!chart) return;
+
+    chart.applyOptions({ height: height + panesHeight });
+    if (panes.length === 0) return;
+
+    const paneSeries: ISeriesApi<SeriesType>[] = [];
+    panes.forEach((pane, index) => {
+      const paneIndex = index + 1;
+      pane.series.forEach((item, seriesIndex) => {
+        const priceFormat = item.volumeFormat
+          ? { type: 'volume' as const }
+          : { type: 'price' as const, precision: 2, minMove: 0.01 };
+        const series =
+          item.kind === 'histogram'
+            ? chart.addSeries(
+                HistogramSeries,
+                {
+                  color: item.color,
+                  priceFormat,
+                  priceLineVisible: false,
+                  lastValueVisible: false,
+                },
+                paneIndex
+              )
+            : chart.addSeries(
+                LineSeries,
+                {
+                  color: item.color,
+                  lineWidth: 1,
+                  priceFormat,
+                  priceLineVisible: false,
+                  crosshairMarkerVisible: false,
+                },
+                paneIndex
+              );
+
+        series.setData(
+          item.points.map(point => {
+            const pointData: LineData | HistogramData = {
+              time: (point.timestamp / 1000) as Time,
+              value: point.value,
+            };
+            if (point.color) pointData.color = point.color;
+            return pointData;
+          })
+        );
+
+        if (seriesIndex === 0) {
+          pane.levels.forEach(level =>
+            series.createPriceLine({
+              price: level,
+              color: isDarkMode ? '#6b7280' : '#9ca3af',
+              lineWidth: 1,
+              lineStyle: LineStyle.Dotted,
+              axisLabelVisible: false,
+              title: '',
+            })
+          );
+        }
+        paneSeries.push(series);
+      });
+    });
+
+    // Stretch factors are relative, so pixel heights keep the ratios right
+    const chartPanes = chart.panes();
+    chartPanes[0]?.setStretchFactor(height);
+    panes.forEach((pane, index) =>
+      chartPanes[index + 1]?.setStretchFactor(pane.height)
+    );
+
+    return () => {
+      if (chartRef.current !== chart) return;
+      // Removing the last series of a pane removes the pane as well
+      paneSeries.reverse().forEach(series => chart.removeSeries(series));
+    };
+  }, [panes, data, isDarkMode, height, panesHeight]);
+
+  const overlayLegend = overlays.filter(
+    (overlay, index) =>
+      overlays.findIndex(o => o.label === overlay.label) === index
+  );
+
   // Update theme when dark mode changes
   useEffect(() => {
     if (chartRef.current) {
@@ -339,10 +657,54 @@ const TradingViewChart: React.FC<TradingViewChartProps> = ({
           <div className='animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600'></div>
         </div>
       )}
+      {comparison.length > 0 ? (
+        <div className='absolute top-2 left-2 z-10 flex flex-wrap gap-3 text-xs'>
+          {comparison.map(line => {
+            const last = line.points[line.points.length - 1];
+            const value = readout ? readout[line.key] : last?.value;
+            return (
+              <button
+                key={line.key}
+                onClick={() => onToggleComparison?.(line.key)}
+                className={cn(
+                  'flex items-center gap-1',
+                  !line.visible && 'opacity-40 line-through'
+                )}
+                title={line.visible ? 'Hide' : 'Show'}
+              >
+                <span
+                  className='inline-block w-3 h-0.5'
+                  style={{ backgroundColor: line.color }}
+                />
+                {line.label}
+                {line.visible && value !== undefined && (
+                  <span className='font-mono'>
+                    {formatComparisonValue(value, comparisonScale)}
+                  </span>
+                )}
+              </button>
+            );
+          })}
+        </div>
+      ) : (
+        overlayLegend.length > 0 && (
+          <div className='absolute top-2 left-2 z-10 flex flex-wrap gap-3 text-xs pointer-events-none'>
+            {overlayLegend.map(overlay => (
+              <span key={overlay.key} className='flex items-center gap-1'>
+                <span
+                  className='inline-block w-3 h-0.5'
+                  style={{ backgroundColor: overlay.color }}
+                />
+                {overlay.label}
+              </span>
+            ))}
+          </div>
+        )
+      )}
       <div
         ref={chartContainerRef}
         className='w-full'
-        style={{ height: `${height}px` }}
+        style={{ height: `${height + panesHeight}px` }}
       />
     </div>
   );
@@ -0,0 +1,479 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  ArrowDown,
+  ArrowUp,
+  Download,
+  Plus,
+  Trash2,
+  Upload,
+  X,
+} from 'lucide-react';
+import Sparkline from './Sparkline';
+import type { MarketType } from '@/services/bitgetApi';
+import { bitgetStream, LiveTicker } from '@/services/bitgetStream';
+import { marketDataApi } from '@/services/marketDataApi';
+import { ExchangeId, exchangeLabel, MarketTicker } from '@/lib/exchanges/types';
+import {
+  addItem,
+  createWatchlist,
+  exportWatchlists,
+  loadWatchlists,
+  moveItem,
+  parseWatchlistImport,
+  removeItem,
+  saveWatchlists,
+  Watchlist,
+  WatchlistItem,
+} from '@/lib/watchlists';
+import { cn, formatCurrency, formatPercentage } from '@/lib/utils';
+
+interface WatchlistSidebarProps {
+  open: boolean;
+  onClose: () => void;
+  selectedCoin: string;
+  marketType: MarketType;
+  exchange: ExchangeId;
+  onSelect: (item: WatchlistItem) => void;
+}
+
+const itemKey = (item: WatchlistItem) => `${item.marketType}:${item.symbol}`;
+
+const parseItemKey = (key: string): WatchlistItem => {
+  const [marketType, symbol] = key.split(':');
+  return { marketType: marketType as MarketType, symbol };
+};
+
+// Other exchanges have no stream here, so their tickers are polled
+const TICKER_POLL_MS = 15000;
+
+const liveTickerFrom = (ticker: MarketTicker): LiveTicker => ({
+  symbol: ticker.symbol,
+  lastPrice: ticker.lastPrice,
+  high24h: ticker.high24h ?? 0,
+  low24h: ticker.low24h ?? 0,
+  change24h: ticker.change24h ?? 0,
+  bidPrice: ticker.bidPrice ?? 0,
+  askPrice: ticker.askPrice ?? 0,
+  baseVolume: ticker.baseVolume ?? 0,
+  quoteVolume: ticker.quoteVolume ?? 0,
+  timestamp: ticker.timestamp,
+});
+
+const inputClass =
+  'dashboard-input px-2 py-1 rounded-md border border-gray-200 dark:border-gray-600 text-sm';
+
+const WatchlistSidebar: React.FC<WatchlistSidebarProps> = ({
+  open,
+  onClose,
+  selectedCoin,
+  marketType,
+  exchange,
+  onSelect,
+}) => {
+  const [lists, setLists] = useState<Watchlist[]>([]);
+  const [activeId, setActiveId] = useState<string>('');
+  const [newListName, setNewListName] = useState<string>('');
+  const [newSymbol, setNewSymbol] = useState<string>('');
+  const [newMarket, setNewMarket] = useState<MarketType>('spot');
+  const [tickers, setTickers] = useState<Record<string, LiveTicker>>({});
+  const [sparklines, setSparklines] = useState<Record<string, number[]>>({});
+  const [message, setMessage] = useState<string>('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const stored = loadWatchlists();
+    setLists(stored);
+    setActiveId(stored[0]?.id || '');
+  }, []);
+
+  const active = lists.find(list => list.id === activeId) || lists[0];
+  // Order-independent so reordering does not resubscribe or refetch
+  const watchedKeys = Array.from(new Set((active?.items || []).map(itemKey)))
+    .sort()
+    .join(',');
+
+  const updateLists = (next: Watchlist[]) => {
+    setLists(next);
+    saveWatchlists(next);
+  };
+
+  const updateActive = (list: Watchlist) => {
+    updateLists(lists.map(l => (l.id === list.id ? list : l)));
+  };
+
+  // Prices from the previous exchange must not linger
+  useEffect(() => {
+    setTickers({});
+  }, [exchange]);
+
+  // Live prices for the visible list while the sidebar is open
+  useEffect(() => {
+    if (!open || !watchedKeys || exchange !== 'bitget') return;
+    const unsubscribes = watchedKeys.split(',').map(key => {
+      const item = parseItemKey(key);
+      return bitgetStream.subscribeTicker(
+        item.marketType,
+        item.symbol,
+        ticker => setTickers(prev => ({ ...prev, [key]: ticker }))
+      );
+    });
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+  }, [open, watchedKeys, exchange]);
+
+  useEffect(() => {
+    if (!open || !watchedKeys || exchange === 'bitget') return;
+    const items = watchedKeys.split(',').map(parseItemKey);
+    const markets = Array.from(new Set(items.map(item => item.marketType)));
+
+    let cancelled = false;
+    const poll = async () => {
+      const lists = await Promise.all(
+        markets.map(market =>
+          marketDataApi
+            .getTickers(exchange, market)
+            .catch((): MarketTicker[] => [])
+        )
+      );
+      if (cancelled) return;
+      const byMarket: Partial<Record<MarketType, MarketTicker[]>> = {};
+      markets.forEach((market, i) => (byMarket[market] = lists[i]));
+      const next: Record<string, LiveTicker> = {};
+      items.forEach(item => {
+        const ticker = byMarket[item.marketType]?.find(
+          t => t.symbol === item.symbol
+        );
+        if (ticker) next[itemKey(item)] = liveTickerFrom(ticker);
+      });
+      setTickers(next);
+    };
+    poll();
+    const interval = setInterval(poll, TICKER_POLL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [open, watchedKeys, exchange]);
+
+  // Last 24 hourly closes per symbol and exchange, fetched once each
+  useEffect(() => {
+    if (!open || !watchedKeys) return;
+    const missing = watchedKeys
+      .split(',')
+      .filter(key => !(`${exchange}:${key}` in sparklines))
+      .map(parseItemKey);
+    if (missing.length === 0) return;
+
+    let cancelled = false;
+    Promise.all(
+      missing.map(async item => {
+        try {
+          const candles = await marketDataApi.getHistoricalData(
+            exchange,
+            item.marketType,
+            item.symbol,
+            '1h',
+            undefined,
+            undefined,
+            24
+          );
+          return [
+            `${exchange}:${itemKey(item)}`,
+            candles.map(c => c.close),
+          ] as const;
+        } catch {
+          return [`${exchange}:${itemKey(item)}`, []] as const;
+        }
+      })
+    ).then(results => {
+      if (cancelled) return;
+      setSparklines(prev => ({ ...prev, ...Object.fromEntries(results) }));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, watchedKeys, exchange, sparklines]);
+
+  const handleCreateList = () => {
+    const name = newListName.trim();
+    if (!name) return;
+    const list = createWatchlist(name);
+    updateLists([...lists, list]);
+    setActiveId(list.id);
+    setNewListName('');
+  };
+
+  const handleDeleteList = () => {
+    if (!active) return;
+    const next = lists.filter(list => list.id !== active.id);
+    updateLists(next);
+    setActiveId(next[0]?.id || '');
+  };
+
+  const handleAdd = (item: WatchlistItem) => {
+    if (!active || !item.symbol) return;
+    updateActive(addItem(active, item));
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportWatchlists(lists)], {
+      type: 'application/json',
+    });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'watchlists.json';
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const imported = parseWatchlistImport(await file.text());
+      updateLists([...lists, ...imported]);
+      setActiveId(imported[0].id);
+      setMessage(`Imported ${imported.length} watchlist(s)`);
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : 'Import failed');
+    }
+  };
+
+  if (!open) return null;
+
+  return (
+    <aside className='dashboard-card fixed left-0 top-0 z-40 h-full w-80 overflow-y-auto p-4 shadow-lg space-y-4'>
+      <div className='flex items-center justify-between'>
+        <div>
+          <h2 className='text-lg font-semibold'>Watchlists</h2>
+          <p className='text-xs text-muted'>
+            Prices from {exchangeLabel(exchange)}
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          className='text-gray-400 hover:text-gray-600'
+          title='Close'
+        >
+          <X className='w-5 h-5' />
+        </button>
+      </div>
+
+      <div className='flex items-center gap-2'>
+        <select
+          value={active?.id || ''}
+          onChange={e => setActiveId(e.target.value)}
+          className={cn(inputClass, 'flex-1 bg-white dark:bg-gray-800 min-w-0')}
+        >
+          {lists.map(list => (
+            <option key={list.id} value={list.id}>
+              {list.name} ({list.items.length})
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={handleDeleteList}
+          disabled={!active}
+          className='text-gray-400 hover:text-red-500 disabled:opacity-30'
+          title='Delete watchlist'
+        >
+          <Trash2 className='w-4 h-4' />
+        </button>
+        <button
+          onClick={handleExport}
+          className='text-gray-400 hover:text-gray-600'
+          title='Export as JSON'
+        >
+          <Download className='w-4 h-4' />
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className='text-gray-400 hover:text-gray-600'
+          title='Import JSON'
+        >
+          <Upload className='w-4 h-4' />
+        </button>
+        <input
+          ref={fileInputRef}
+          type='file'
+          accept='application/json,.json'
+          className='hidden'
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) handleImport(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      <div className='flex items-center gap-2'>
+        <input
+          type='text'
+          placeholder='New watchlist'
+          value={newListName}
+          onChange={e => setNewListName(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && handleCreateList()}
+          className={cn(inputClass, 'flex-1 min-w-0')}
+        />
+        <button
+          onClick={handleCreateList}
+          disabled={!newListName.trim()}
+          className='dashboard-button-secondary flex items-center gap-1 px-2 py-1 rounded-md text-sm disabled:opacity-50'
+        >
+          <Plus className='w-4 h-4' />
+          Create
+        </button>
+      </div>
+
+      {message && <p className='text-xs text-muted'>{message}</p>}
+
+      {active && (
+        <>
+          <div className='space-y-2'>
+            <button
+              onClick={() => handleAdd({ symbol: selectedCoin, marketType })}
+              className='dashboard-button w-full flex items-center justify-center gap-1 px-2 py-1 rounded-md text-sm'
+            >
+              <Plus className='w-4 h-4' />
+              Add {selectedCoin} ({marketType})
+            </button>
+            <div className='flex items-center gap-2'>
+              <input
+                type='text'
+                placeholder='Symbol, e.g. SOLUSDT'
+                value={newSymbol}
+                onChange={e => setNewSymbol(e.target.value)}
+                onKeyDown={e => {
+                  if (e.key !== 'Enter') return;
+                  handleAdd({
+                    symbol: newSymbol.trim().toUpperCase(),
+                    marketType: newMarket,
+                  });
+                  setNewSymbol('');
+                }}
+                className={cn(inputClass, 'flex-1 min-w-0')}
+              />
+              <select
+                value={newMarket}
+                onChange={e => setNewMarket(e.target.value as MarketType)}
+                className={cn(inputClass, 'bg-white dark:bg-gray-800')}
+              >
+                <option value='spot'>Spot</option>
+                <option value='futures'>Futures</option>
+              </select>
+              <button
+                onClick={() => {
+                  handleAdd({
+                    symbol: newSymbol.trim().toUpperCase(),
+                    marketType: newMarket,
+                  });
+                  setNewSymbol('');
+                }}
+                disabled={!newSymbol.trim()}
+                className='text-gray-400 hover:text-gray-600 disabled:opacity-30'
+                title='Add symbol'
+              >
+                <Plus className='w-4 h-4' />
+              </button>
+            </div>
+          </div>
+
+          <div className='space-y-1'>
+            {active.items.length === 0 && (
+              <p className='text-sm text-muted'>This watchlist is empty</p>
+            )}
+            {active.items.map((item, index) => {
+              const key = itemKey(item);
+              const ticker = tickers[key];
+              const closes = sparklines[`${exchange}:${key}`] || [];
+              const trendUp =
+                closes.length > 1 && closes[closes.length - 1] >= closes[0];
+              const isSelected =
+                item.symbol === selectedCoin && item.marketType === marketType;
+
+              return (
+                <div
+                  key={key}
+                  className={cn(
+                    'group flex items-center gap-2 rounded-md px-2 py-1 cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-800',
+                    isSelected && 'bg-blue-50 dark:bg-blue-900/30'
+                  )}
+                  onClick={() => onSelect(item)}
+                >
+                  <div className='min-w-0 flex-1'>
+                    <div className='flex items-center gap-1'>
+                      <span className='font-medium text-sm truncate'>
+                        {item.symbol}
+                      </span>
+                      <span className='text-[10px] uppercase text-muted'>
+                        {item.marketType === 'futures' ? 'Perp' : 'Spot'}
+                      </span>
+                    </div>
+                    <div className='flex items-center gap-2 text-xs font-mono'>
+                      <span>
+                        {ticker ? formatCurrency(ticker.lastPrice) : '-'}
+                      </span>
+                      {ticker && (
+                        <span
+                          className={
+                            ticker.change24h >= 0
+                              ? 'text-green-600'
+                              : 'text-red-600'
+                          }
+                        >
+                          {ticker.change24h >= 0 ? '+' : ''}
+                          {formatPercentage(ticker.change24h)}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                  <Sparkline
+                    values={closes}
+                    width={64}
+                    height={24}
+                    color={trendUp ? '#10b981' : '#ef4444'}
+                  />
+                  <div
+                    className='flex flex-col opacity-0 group-hover:opacity-100'
+                    onClick={e => e.stopPropagation()}
+                  >
+                    <button
+                      onClick={() => updateActive(moveItem(active, index, -1))}
+                      disabled={index === 0}
+                      className='text-gray-400 hover:text-gray-600 disabled:opacity-30'
+                      title='Move up'
+                    >
+                      <ArrowUp className='w-3 h-3' />
+                    </button>
+                    <button
+                      onClick={() => updateActive(moveItem(active, index, 1))}
+                      disabled={index === active.items.length - 1}
+                      className='text-gray-400 hover:text-gray-600 disabled:opacity-30'
+                      title='Move down'
+                    >
+                      <ArrowDown className='w-3 h-3' />
+                    </button>
+                  </div>
+                  <button
+                    onClick={e => {
+                      e.stopPropagation();
+                      updateActive(removeItem(active, item));
+                    }}
+                    className='text-gray-400 hover:text-red-500 opacity-0 group-hover:opacity-100'
+                    title='Remove'
+                  >
+                    <X className='w-4 h-4' />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </aside>
+  );
+};
+
+export default WatchlistSidebar;
@@ -0,0 +1,29 @@
+// Runs once when the Next.js server starts
+export async function register() {
+  // Evaluate alerts in the background so they fire with no browser tab open
+  if (
+    process.env.NEXT_RUNTIME === 'nodejs' &&
+    process.env.ALERTS_EVALUATOR !== 'off'
+  ) {
+    const { startAlertScheduler } = await import('@/lib/alertEvaluator');
+    startAlertScheduler();
+  }
+  // Score AI trade plans once their horizon has passed
+  if (
+    process.env.NEXT_RUNTIME === 'nodejs' &&
+    process.env.REPORT_SCORING !== 'off'
+  ) {
+    const { startReportScoringScheduler } = await import('@/lib/reportScoring');
+    startReportScoringScheduler();
+  }
+  // Bitget only reports current open interest, so keep sampling it
+  if (
+    process.env.NEXT_RUNTIME === 'nodejs' &&
+    process.env.OPEN_INTEREST_RECORDER !== 'off'
+  ) {
+    const { startOpenInterestScheduler } = await import(
+      '@/lib/openInterestStore'
+    );
+    startOpenInterestScheduler();
+  }
+}
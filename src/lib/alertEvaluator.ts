@@ -0,0 +1,248 @@
+// Server-side alert evaluation. Runs on a timer inside the Next.js server
+// (started from src/instrumentation.ts) so alerts fire with no tab open, and
+// on demand via POST /api/alerts/evaluate for external schedulers.
+
+import type { MarketType } from '@/services/bitgetApi';
+import {
+  AlertEvent,
+  AlertRule,
+  conditionMet,
+  describeAlert,
+  isCoolingDown,
+  WebhookStatus,
+} from '@/lib/alerts';
+import { readAlertStore, updateAlertStore } from '@/lib/alertStore';
+import { getCandlesWithCache } from '@/lib/candleCache';
+import { fetchBitgetJson } from '@/lib/upstream';
+import { ema, rsi, sma } from '@/lib/indicators';
+import { assertPublicWebhookUrl } from '@/lib/webhookTarget';
+
+const DEFAULT_INTERVAL_MS = 60000;
+
+// Map UI granularity values to Bitget granularities per market
+function mapGranularity(marketType: MarketType, granularity: string): string {
+  const futuresMap: { [key: string]: string } = {
+    '1min': '1m',
+    '5min': '5m',
+    '15min': '15m',
+    '1h': '1H',
+    '4h': '4H',
+    '1day': '1D',
+  };
+  return marketType === 'futures'
+    ? futuresMap[granularity] || '1H'
+    : granularity;
+}
+
+interface TickerSnapshot {
+  lastPrice: number;
+  change24h: number; // percent
+}
+
+async function fetchTicker(
+  marketType: MarketType,
+  symbol: string
+): Promise<TickerSnapshot> {
+  const { data } = await fetchBitgetJson<
+    { lastPr: string; change24h: string }[]
+  >(
+    marketType === 'futures'
+      ? '/api/v2/mix/market/ticker'
+      : '/api/v2/spot/market/tickers',
+    marketType === 'futures'
+      ? { symbol, productType: 'usdt-futures' }
+      : { symbol }
+  );
+  const ticker = Array.isArray(data) ? data[0] : null;
+  if (!ticker) throw new Error(`No ticker for ${symbol}`);
+  return {
+    lastPrice: parseFloat(ticker.lastPr),
+    change24h: parseFloat(ticker.change24h) * 100,
+  };
+}
+
+async function indicatorValue(alert: AlertRule): Promise<number> {
+  const period = alert.period || 14;
+  const { candles } = await getCandlesWithCache({
+    market: alert.marketType,
+    symbol: alert.symbol,
+    granularity: mapGranularity(alert.marketType, alert.granularity || '1h'),
+    // Extra history lets RSI and EMA smoothing settle
+    limit: period * 4 + 100,
+  });
+  const closes = candles.map(row => parseFloat(row[4]));
+  const values =
+    alert.metric === 'rsi'
+      ? rsi(closes, period)
+      : alert.metric === 'ema'
+        ? ema(closes, period)
+        : sma(closes, period);
+  const latest = values[values.length - 1];
+  if (latest === null || latest === undefined) {
+    throw new Error(`Not enough candles for ${alert.metric}(${period})`);
+  }
+  return latest;
+}
+
+async function deliverWebhook(
+  url: string,
+  alert: AlertRule,
+  event: AlertEvent
+): Promise<{ status: WebhookStatus; error?: string }> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), 10000);
+  try {
+    // Checked again here: the host may have been re-pointed since saving
+    await assertPublicWebhookUrl(url);
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      // `text` is understood by Slack-style incoming webhooks
+      body: JSON.stringify({ text: event.message, event, alert }),
+      signal: controller.signal,
+      // A redirect could lead anywhere, including a private address
+      redirect: 'manual',
+    });
+    if (!response.ok) {
+      return { status: 'failed', error: `HTTP ${response.status}` };
+    }
+    return { status: 'sent' };
+  } catch (error) {
+    return {
+      status: 'failed',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+// Check every enabled alert once and return the events that fired
+export async function evaluateAlerts(
+  now: number = Date.now()
+): Promise<AlertEvent[]> {
+  const { alerts } = await readAlertStore();
+  const enabled = alerts.filter(alert => alert.enabled);
+  if (enabled.length === 0) return [];
+
+  // Fetch outside the store lock; one ticker request per symbol per run
+  const tickers = new Map<string, Promise<TickerSnapshot>>();
+  const readings = await Promise.all(
+    enabled.map(async alert => {
+      try {
+        let value: number;
+        if (alert.metric === 'price' || alert.metric === 'change24h') {
+          const key = `${alert.marketType}:${alert.symbol}`;
+          if (!tickers.has(key)) {
+            tickers.set(key, fetchTicker(alert.marketType, alert.symbol));
+          }
+          const ticker = await tickers.get(key)!;
+          value =
+            alert.metric === 'price' ? ticker.lastPrice : ticker.change24h;
+        } else {
+          value = await indicatorValue(alert);
+        }
+        if (!Number.isFinite(value)) throw new Error('No value available');
+        return { id: alert.id, value, error: undefined };
+      } catch (error) {
+        return {
+          id: alert.id,
+          value: null,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        };
+      }
+    })
+  );
+
+  const fired = await updateAlertStore(data => {
+    const events: { alert: AlertRule; event: AlertEvent }[] = [];
+    for (const reading of readings) {
+      // The alert may have been edited or deleted while data was fetched
+      const alert = data.alerts.find(a => a.id === reading.id);
+      if (!alert || !alert.enabled) continue;
+
+      alert.state.lastCheckedAt = now;
+      if (reading.value === null) {
+        alert.state.lastError = reading.error;
+        continue;
+      }
+      delete alert.state.lastError;
+
+      const previous = alert.state.lastValue;
+      alert.state.lastValue = reading.value;
+      if (
+        !conditionMet(alert.operator, alert.threshold, reading.value, previous)
+      ) {
+        continue;
+      }
+      if (isCoolingDown(alert, now)) continue;
+
+      alert.state.lastTriggeredAt = now;
+      alert.state.triggerCount++;
+      if (alert.trigger === 'once') alert.enabled = false;
+
+      events.push({
+        alert: { ...alert, state: { ...alert.state } },
+        event: {
+          id: `event-${now}-${Math.random().toString(36).slice(2, 7)}`,
+          alertId: alert.id,
+          symbol: alert.symbol,
+          marketType: alert.marketType,
+          message: `${describeAlert(alert)} (now ${Number(reading.value.toFixed(6))})`,
+          value: reading.value,
+          threshold: alert.threshold,
+          triggeredAt: now,
+          webhook: 'skipped',
+        },
+      });
+    }
+    return events;
+  });
+
+  if (fired.length === 0) return [];
+
+  // Deliver webhooks after the state is saved so a slow endpoint cannot
+  // cause an alert to fire twice
+  await Promise.all(
+    fired.map(async ({ alert, event }) => {
+      if (!alert.webhookUrl) return;
+      const result = await deliverWebhook(alert.webhookUrl, alert, event);
+      event.webhook = result.status;
+      event.webhookError = result.error;
+    })
+  );
+
+  const events = fired.map(({ event }) => event);
+  await updateAlertStore(data => {
+    data.events = [...events, ...data.events];
+  });
+  return events;
+}
+
+const schedulerState = globalThis as typeof globalThis & {
+  alertScheduler?: ReturnType<typeof setInterval>;
+};
+
+// Start the background evaluation loop once per server process
+export function startAlertScheduler(
+  intervalMs: number = parseInt(process.env.ALERTS_INTERVAL_MS || '') ||
+    DEFAULT_INTERVAL_MS
+): void {
+  if (schedulerState.alertScheduler) return;
+
+  let running = false;
+  schedulerState.alertScheduler = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      const events = await evaluateAlerts();
+      if (events.length > 0) {
+        console.log(`Alerts fired: ${events.map(e => e.message).join('; ')}`);
+      }
+    } catch (error) {
+      console.error('Alert evaluation failed:', error);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+}
@@ -0,0 +1,65 @@
+// File-based store for alert rules and their trigger log. All access goes
+// through updateAlertStore/readAlertStore, which serialize against each other
+// so the background evaluator and API edits never overwrite one another.
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { AlertEvent, AlertRule } from '@/lib/alerts';
+
+export interface AlertStoreData {
+  alerts: AlertRule[];
+  events: AlertEvent[]; // newest first
+}
+
+const MAX_EVENTS = 500;
+
+const STORE_FILE =
+  process.env.ALERTS_FILE ||
+  path.join(process.cwd(), '.cache', 'alerts', 'alerts.json');
+
+let queue: Promise<unknown> = Promise.resolve();
+
+function enqueue<T>(task: () => Promise<T>): Promise<T> {
+  const run = queue.then(task, task);
+  queue = run.catch(() => undefined);
+  return run;
+}
+
+async function load(): Promise<AlertStoreData> {
+  try {
+    const data = JSON.parse(await fs.readFile(STORE_FILE, 'utf8'));
+    return {
+      alerts: Array.isArray(data.alerts) ? data.alerts : [],
+      events: Array.isArray(data.events) ? data.events : [],
+    };
+  } catch {
+    return { alerts: [], events: [] };
+  }
+}
+
+async function save(data: AlertStoreData): Promise<void> {
+  await fs.mkdir(path.dirname(STORE_FILE), { recursive: true });
+  // Write to a temp file first so a crash never leaves half a JSON file
+  const tmpFile = `${STORE_FILE}.${process.pid}.tmp`;
+  await fs.writeFile(
+    tmpFile,
+    JSON.stringify({ ...data, events: data.events.slice(0, MAX_EVENTS) })
+  );
+  await fs.rename(tmpFile, STORE_FILE);
+}
+
+export function readAlertStore(): Promise<AlertStoreData> {
+  return enqueue(load);
+}
+
+// Apply a change and persist it; the updater may mutate the data in place
+export function updateAlertStore<T>(
+  updater: (data: AlertStoreData) => T | Promise<T>
+): Promise<T> {
+  return enqueue(async () => {
+    const data = await load();
+    const result = await updater(data);
+    await save(data);
+    return result;
+  });
+}
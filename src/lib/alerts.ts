@@ -0,0 +1,193 @@
+// Alert rules and the pure logic for deciding when they fire. Shared by the
+// server-side evaluator and the alerts panel.
+
+import type { MarketType } from '@/services/bitgetApi';
+
+export type AlertMetric = 'price' | 'change24h' | 'rsi' | 'sma' | 'ema';
+
+export type AlertOperator =
+  | '>'
+  | '<'
+  | 'crossesAbove'
+  | 'crossesBelow'
+  | 'crosses';
+
+export type AlertTrigger = 'once' | 'recurring';
+
+export interface AlertState {
+  lastValue: number | null;
+  lastCheckedAt: number | null;
+  lastTriggeredAt: number | null;
+  triggerCount: number;
+  lastError?: string;
+}
+
+export interface AlertRule {
+  id: string;
+  symbol: string;
+  marketType: MarketType;
+  metric: AlertMetric;
+  period?: number; // indicator metrics only
+  granularity?: string; // UI granularity for indicator metrics, e.g. '1h'
+  operator: AlertOperator;
+  threshold: number; // change24h is in percent
+  trigger: AlertTrigger;
+  cooldownMinutes: number;
+  webhookUrl?: string;
+  enabled: boolean;
+  createdAt: number;
+  state: AlertState;
+}
+
+export type AlertInput = Omit<AlertRule, 'id' | 'createdAt' | 'state'>;
+
+export type WebhookStatus = 'sent' | 'failed' | 'skipped';
+
+export interface AlertEvent {
+  id: string;
+  alertId: string;
+  symbol: string;
+  marketType: MarketType;
+  message: string;
+  value: number;
+  threshold: number;
+  triggeredAt: number;
+  webhook: WebhookStatus;
+  webhookError?: string;
+}
+
+export const alertMetrics: {
+  value: AlertMetric;
+  label: string;
+  indicator: boolean;
+  defaultPeriod?: number;
+}[] = [
+  { value: 'price', label: 'Price', indicator: false },
+  { value: 'change24h', label: '24h Change %', indicator: false },
+  { value: 'rsi', label: 'RSI', indicator: true, defaultPeriod: 14 },
+  { value: 'sma', label: 'SMA', indicator: true, defaultPeriod: 20 },
+  { value: 'ema', label: 'EMA', indicator: true, defaultPeriod: 20 },
+];
+
+export const alertOperators: { value: AlertOperator; label: string }[] = [
+  { value: '>', label: 'is above' },
+  { value: '<', label: 'is below' },
+  { value: 'crossesAbove', label: 'crosses above' },
+  { value: 'crossesBelow', label: 'crosses below' },
+  { value: 'crosses', label: 'crosses' },
+];
+
+export const alertGranularities = ['1min', '5min', '15min', '1h', '4h', '1day'];
+
+export class AlertValidationError extends Error {}
+
+export function isIndicatorMetric(metric: AlertMetric): boolean {
+  return alertMetrics.find(m => m.value === metric)?.indicator ?? false;
+}
+
+export function describeAlert(alert: AlertInput): string {
+  const metric = alertMetrics.find(m => m.value === alert.metric);
+  const operator = alertOperators.find(o => o.value === alert.operator);
+  const subject = isIndicatorMetric(alert.metric)
+    ? `${metric?.label}(${alert.period}) on ${alert.granularity}`
+    : metric?.label;
+  const threshold =
+    alert.metric === 'change24h' ? `${alert.threshold}%` : alert.threshold;
+  return `${alert.symbol} ${alert.marketType} ${subject} ${operator?.label} ${threshold}`;
+}
+
+// Crossings compare against the value seen on the previous check, so the
+// first check after creating an alert can never count as a cross
+export function conditionMet(
+  operator: AlertOperator,
+  threshold: number,
+  value: number,
+  previous: number | null
+): boolean {
+  switch (operator) {
+    case '>':
+      return value > threshold;
+    case '<':
+      return value < threshold;
+    case 'crossesAbove':
+      return previous !== null && previous <= threshold && value > threshold;
+    case 'crossesBelow':
+      return previous !== null && previous >= threshold && value < threshold;
+    case 'crosses':
+      return (
+        previous !== null &&
+        ((previous <= threshold && value > threshold) ||
+          (previous >= threshold && value < threshold))
+      );
+    default:
+      return false;
+  }
+}
+
+export function isCoolingDown(alert: AlertRule, now: number): boolean {
+  const last = alert.state.lastTriggeredAt;
+  return last !== null && now - last < alert.cooldownMinutes * 60 * 1000;
+}
+
+export function validateAlertInput(input: Partial<AlertInput>): AlertInput {
+  const symbol = (input.symbol || '').trim().toUpperCase();
+  if (!/^[A-Z0-9_]+$/.test(symbol)) {
+    throw new AlertValidationError('A valid symbol is required');
+  }
+  const metric = alertMetrics.find(m => m.value === input.metric);
+  if (!metric) throw new AlertValidationError('Unknown metric');
+  if (!alertOperators.some(o => o.value === input.operator)) {
+    throw new AlertValidationError('Unknown operator');
+  }
+  const threshold = Number(input.threshold);
+  if (!Number.isFinite(threshold)) {
+    throw new AlertValidationError('Threshold must be a number');
+  }
+
+  let period: number | undefined;
+  let granularity: string | undefined;
+  if (metric.indicator) {
+    period = Math.round(Number(input.period ?? metric.defaultPeriod));
+    if (!Number.isFinite(period) || period < 1 || period > 500) {
+      throw new AlertValidationError('Period must be between 1 and 500');
+    }
+    granularity = input.granularity || '1h';
+    if (!alertGranularities.includes(granularity)) {
+      throw new AlertValidationError('Unsupported granularity');
+    }
+  }
+
+  const webhookUrl = input.webhookUrl?.trim() || undefined;
+  // The server also checks that the host is public before saving
+  if (webhookUrl && !/^https:\/\//i.test(webhookUrl)) {
+    throw new AlertValidationError('Webhook URL must start with https://');
+  }
+
+  return {
+    symbol,
+    marketType: input.marketType === 'futures' ? 'futures' : 'spot',
+    metric: metric.value,
+    period,
+    granularity,
+    operator: input.operator as AlertOperator,
+    threshold,
+    trigger: input.trigger === 'once' ? 'once' : 'recurring',
+    cooldownMinutes: Math.max(0, Number(input.cooldownMinutes) || 0),
+    webhookUrl,
+    enabled: input.enabled ?? true,
+  };
+}
+
+export function createAlert(input: AlertInput, now: number): AlertRule {
+  return {
+    ...input,
+    id: `alert-${now}-${Math.random().toString(36).slice(2, 7)}`,
+    createdAt: now,
+    state: {
+      lastValue: null,
+      lastCheckedAt: null,
+      lastTriggeredAt: null,
+      triggerCount: 0,
+    },
+  };
+}
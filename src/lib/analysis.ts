@@ -0,0 +1,110 @@
+// Types shared by the analysis route, its report store and the analysis
+// panel, plus assembly of the messages sent to the model.
+
+import type { CandleData, DataSummary, MarketType } from '@/services/bitgetApi';
+import type { ExchangeId } from '@/lib/exchanges/types';
+import type { LLMMessage, LLMProvider } from '@/lib/llm';
+import type { DataEncoding } from '@/lib/promptData';
+import type { PlanScore, TradePlan } from '@/lib/tradePlan';
+
+export interface AnalysisTemplateRef {
+  id: string;
+  name: string;
+  version: number;
+}
+
+// How candle history was inlined into the prompt
+export interface AnalysisDataRef {
+  encoding: DataEncoding;
+  rows: number;
+  sourceRows: number;
+  tokens: number;
+}
+
+export interface AnalysisRequest {
+  symbol: string;
+  exchange?: ExchangeId; // defaults to Bitget
+  marketType: MarketType;
+  granularity: string;
+  timeRange: number; // days
+  prompt: string; // rendered template plus any inlined data block
+  summary: DataSummary;
+  candles: CandleData[];
+  template?: AnalysisTemplateRef;
+  data?: AnalysisDataRef;
+  structuredOutput?: boolean; // the prompt asks for a JSON trade plan
+}
+
+export type AnalysisStatus = 'complete' | 'error' | 'cancelled';
+
+// What report listings return; the full report adds inputs and output
+export interface AnalysisReportSummary {
+  id: string;
+  createdAt: number;
+  symbol: string;
+  exchange?: ExchangeId; // where the candles came from; Bitget when missing
+  marketType: MarketType;
+  granularity: string;
+  provider: LLMProvider;
+  model: string;
+  template?: AnalysisTemplateRef;
+  status: AnalysisStatus;
+  error?: string;
+  durationMs: number;
+  plan?: TradePlan; // parsed from the output when structuredOutput was set
+  score?: PlanScore;
+}
+
+export interface AnalysisReport extends AnalysisReportSummary {
+  timeRange: number;
+  data?: AnalysisDataRef;
+  inputs: {
+    prompt: string;
+    summary: DataSummary;
+    candles: CandleData[];
+  };
+  messages: LLMMessage[]; // exactly what was sent to the provider
+  output: string;
+  planErrors?: string[];
+}
+
+export interface AnalysisProviderInfo {
+  provider: LLMProvider;
+  model: string;
+  maxTokens: number;
+}
+
+export const ANALYSIS_SYSTEM_PROMPT =
+  'You are a cryptocurrency market analyst. Base your answer on the data provided and reply in markdown.';
+
+export function buildAnalysisMessages(request: AnalysisRequest): LLMMessage[] {
+  return [
+    { role: 'system', content: ANALYSIS_SYSTEM_PROMPT },
+    { role: 'user', content: request.prompt.trim() },
+  ];
+}
+
+// When a report's trade plan stops being valid, or null without a plan
+export const planHorizonEnd = (report: AnalysisReportSummary) =>
+  report.plan
+    ? report.createdAt + report.plan.horizonHours * 60 * 60 * 1000
+    : null;
+
+export function toReportSummary(report: AnalysisReport): AnalysisReportSummary {
+  return {
+    id: report.id,
+    createdAt: report.createdAt,
+    symbol: report.symbol,
+    exchange: report.exchange,
+    marketType: report.marketType,
+    granularity: report.granularity,
+    provider: report.provider,
+    model: report.model,
+    template: report.template,
+    status: report.status,
+    error: report.error,
+    durationMs: report.durationMs,
+    plan: report.plan,
+    score: report.score,
+  };
+}
@@ -0,0 +1,144 @@
+// Cross-exchange view of one asset: a composite price weighted by each
+// venue's 24h quote volume and the spread between every pair of venues after
+// paying the taker fee on both legs.
+
+import type { MarketType } from '@/services/bitgetApi';
+import {
+  defaultFees,
+  ExchangeId,
+  exchangeLabel,
+  VenueQuote,
+} from '@/lib/exchanges/types';
+import { readStored, writeStored } from '@/lib/storage';
+
+export interface ArbitrageSettings {
+  thresholdBps: number; // net spread worth flagging
+  includeFutures: boolean;
+  fees: { [venue: string]: number }; // taker fee overrides by venueKey
+}
+
+const SETTINGS_KEY = 'coinai.arbitrageSettings';
+
+export const defaultArbitrageSettings: ArbitrageSettings = {
+  thresholdBps: 10,
+  includeFutures: true,
+  fees: {},
+};
+
+export function loadArbitrageSettings(): ArbitrageSettings {
+  const stored = readStored<Partial<ArbitrageSettings>>(SETTINGS_KEY, {});
+  return { ...defaultArbitrageSettings, ...stored };
+}
+
+export function saveArbitrageSettings(settings: ArbitrageSettings): void {
+  writeStored(SETTINGS_KEY, settings);
+}
+
+export const venueKey = (quote: {
+  exchange: ExchangeId;
+  marketType: MarketType;
+}) => `${quote.exchange}:${quote.marketType}`;
+
+export const venueLabel = (quote: {
+  exchange: ExchangeId;
+  marketType: MarketType;
+}) =>
+  `${exchangeLabel(quote.exchange)} ${quote.marketType === 'futures' ? 'Perp' : 'Spot'}`;
+
+export const takerFee = (quote: VenueQuote, settings: ArbitrageSettings) =>
+  settings.fees[venueKey(quote)] ??
+  defaultFees[quote.exchange][quote.marketType].taker;
+
+export interface CompositePrice {
+  price: number;
+  quoteVolume: number; // 24h, summed over the weighted venues
+  venues: number;
+}
+
+// Venues without a quote volume carry no weight
+export function compositePrice(quotes: VenueQuote[]): CompositePrice | null {
+  let weighted = 0;
+  let quoteVolume = 0;
+  let venues = 0;
+  quotes.forEach(quote => {
+    if (!quote.quoteVolume || quote.quoteVolume <= 0) return;
+    weighted += quote.lastPrice * quote.quoteVolume;
+    quoteVolume += quote.quoteVolume;
+    venues++;
+  });
+  return quoteVolume > 0
+    ? { price: weighted / quoteVolume, quoteVolume, venues }
+    : null;
+}
+
+export interface VenueRow {
+  quote: VenueQuote;
+  weight: number; // share of the composite's volume, fraction
+  deviationBps: number | null; // last price vs the composite
+  fee: number;
+}
+
+export function venueRows(
+  quotes: VenueQuote[],
+  composite: CompositePrice | null,
+  settings: ArbitrageSettings
+): VenueRow[] {
+  return quotes
+    .map(quote => ({
+      quote,
+      weight:
+        composite && quote.quoteVolume && quote.quoteVolume > 0
+          ? quote.quoteVolume / composite.quoteVolume
+          : 0,
+      deviationBps: composite
+        ? (quote.lastPrice / composite.price - 1) * 10000
+        : null,
+      fee: takerFee(quote, settings),
+    }))
+    .sort((a, b) => b.weight - a.weight);
+}
+
+export interface SpreadRow {
+  buy: VenueQuote;
+  sell: VenueQuote;
+  buyPrice: number; // best ask, or last price when the venue has no book
+  sellPrice: number; // best bid, or last price
+  usesLastPrice: boolean;
+  grossBps: number;
+  feesBps: number;
+  netBps: number;
+  flagged: boolean; // net spread at or above the threshold
+}
+
+// Buy on one venue at its ask and sell on another at its bid, for every
+// ordered pair, best net spread first
+export function arbitrageSpreads(
+  quotes: VenueQuote[],
+  settings: ArbitrageSettings
+): SpreadRow[] {
+  const rows: SpreadRow[] = [];
+  quotes.forEach(buy => {
+    quotes.forEach(sell => {
+      if (buy === sell) return;
+      const buyPrice = buy.askPrice || buy.lastPrice;
+      const sellPrice = sell.bidPrice || sell.lastPrice;
+      if (!(buyPrice > 0) || !(sellPrice > 0)) return;
+      const grossBps = (sellPrice / buyPrice - 1) * 10000;
+      const feesBps =
+        (takerFee(buy, settings) + takerFee(sell, settings)) * 10000;
+      const netBps = grossBps - feesBps;
+      rows.push({
+        buy,
+        sell,
+        buyPrice,
+        sellPrice,
+        usesLastPrice: !buy.askPrice || !sell.bidPrice,
+        grossBps,
+        feesBps,
+        netBps,
+        flagged: netBps >= settings.thresholdBps,
+      });
+    });
+  });
+  return rows.sort((a, b) => b.netBps - a.netBps);
+}
@@ -0,0 +1,768 @@
+import type { CandleData, FundingRateData } from '@/services/bitgetApi';
+import type { ChartMarker } from '@/lib/chartMarkers';
+import {
+  atr,
+  bollingerBands,
+  closes,
+  ema,
+  IndicatorValues,
+  macd,
+  parabolicSar,
+  rsi,
+  sma,
+  stochastic,
+  supertrend,
+  vwap,
+  wma,
+} from '@/lib/indicators';
+
+export type StrategySeriesType =
+  | 'close'
+  | 'open'
+  | 'high'
+  | 'low'
+  | 'volume'
+  | 'sma'
+  | 'ema'
+  | 'wma'
+  | 'rsi'
+  | 'macd'
+  | 'macdSignal'
+  | 'macdHistogram'
+  | 'bbUpper'
+  | 'bbMiddle'
+  | 'bbLower'
+  | 'vwap'
+  | 'atr'
+  | 'stochK'
+  | 'stochD'
+  | 'supertrend'
+  | 'psar';
+
+export interface SeriesSpec {
+  type: StrategySeriesType;
+  period?: number;
+}
+
+export type Operand =
+  | { kind: 'series'; series: SeriesSpec }
+  | { kind: 'value'; value: number };
+
+export type ConditionOperator = '>' | '<' | 'crossesAbove' | 'crossesBelow';
+
+export interface Condition {
+  left: Operand;
+  operator: ConditionOperator;
+  right: Operand;
+}
+
+export interface StrategyRule {
+  match: 'all' | 'any';
+  conditions: Condition[];
+}
+
+export type TradeDirection = 'long' | 'short';
+
+export interface Strategy {
+  name: string;
+  direction: TradeDirection;
+  entry: StrategyRule;
+  exit: StrategyRule;
+  stopLossPercent?: number;
+  takeProfitPercent?: number;
+}
+
+export type PositionSizing =
+  | { mode: 'percentEquity'; value: number } // 0-100
+  | { mode: 'fixedQuote'; value: number }; // quote currency per trade
+
+export type MarginMode = 'isolated' | 'cross';
+
+// Perpetual futures settings; without them the engine trades unleveraged spot
+export interface FuturesSettings {
+  leverage: number;
+  marginMode: MarginMode;
+  maintenanceMarginRate: number; // fraction of notional, e.g. 0.004
+  fundingRates: FundingRateData[];
+}
+
+export interface BacktestConfig {
+  initialCapital: number;
+  feeRate: number; // fraction per side, e.g. 0.001
+  slippageBps: number;
+  sizing: PositionSizing; // margin committed per trade when trading futures
+  futures?: FuturesSettings;
+}
+
+export type ExitReason =
+  | 'signal'
+  | 'stopLoss'
+  | 'takeProfit'
+  | 'liquidation'
+  | 'endOfData';
+
+export interface BacktestTrade {
+  direction: TradeDirection;
+  entryTime: number;
+  exitTime: number;
+  entryPrice: number;
+  exitPrice: number;
+  quantity: number;
+  fees: number;
+  funding: number; // paid (positive) or received (negative) while open
+  pnl: number; // net of fees and funding
+  returnPercent: number; // on committed margin
+  barsHeld: number;
+  exitReason: ExitReason;
+  leverage: number;
+  liquidationPrice: number | null; // at entry
+}
+
+export interface EquityPoint {
+  timestamp: number;
+  equity: number;
+  drawdown: number; // fraction below running peak
+}
+
+export interface BacktestMetrics {
+  initialCapital: number;
+  finalEquity: number;
+  totalReturn: number; // fraction
+  cagr: number;
+  sharpe: number;
+  sortino: number;
+  maxDrawdown: number;
+  winRate: number;
+  profitFactor: number;
+  totalTrades: number;
+  averageTrade: number;
+  totalFees: number;
+  totalFunding: number;
+  liquidations: number;
+  exposure: number; // fraction of bars in the market
+}
+
+export interface BacktestResult {
+  trades: BacktestTrade[];
+  equity: EquityPoint[];
+  metrics: BacktestMetrics;
+}
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+export const seriesOptions: {
+  type: StrategySeriesType;
+  label: string;
+  hasPeriod: boolean;
+  defaultPeriod?: number;
+}[] = [
+  { type: 'close', label: 'Close', hasPeriod: false },
+  { type: 'open', label: 'Open', hasPeriod: false },
+  { type: 'high', label: 'High', hasPeriod: false },
+  { type: 'low', label: 'Low', hasPeriod: false },
+  { type: 'volume', label: 'Volume', hasPeriod: false },
+  { type: 'sma', label: 'SMA', hasPeriod: true, defaultPeriod: 20 },
+  { type: 'ema', label: 'EMA', hasPeriod: true, defaultPeriod: 20 },
+  { type: 'wma', label: 'WMA', hasPeriod: true, defaultPeriod: 20 },
+  { type: 'rsi', label: 'RSI', hasPeriod: true, defaultPeriod: 14 },
+  { type: 'macd', label: 'MACD', hasPeriod: false },
+  { type: 'macdSignal', label: 'MACD Signal', hasPeriod: false },
+  { type: 'macdHistogram', label: 'MACD Histogram', hasPeriod: false },
+  { type: 'bbUpper', label: 'BB Upper', hasPeriod: true, defaultPeriod: 20 },
+  { type: 'bbMiddle', label: 'BB Middle', hasPeriod: true, defaultPeriod: 20 },
+  { type: 'bbLower', label: 'BB Lower', hasPeriod: true, defaultPeriod: 20 },
+  { type: 'vwap', label: 'VWAP', hasPeriod: false },
+  { type: 'atr', label: 'ATR', hasPeriod: true, defaultPeriod: 14 },
+  { type: 'stochK', label: 'Stoch %K', hasPeriod: true, defaultPeriod: 14 },
+  { type: 'stochD', label: 'Stoch %D', hasPeriod: true, defaultPeriod: 14 },
+  {
+    type: 'supertrend',
+    label: 'Supertrend',
+    hasPeriod: true,
+    defaultPeriod: 10,
+  },
+  { type: 'psar', label: 'Parabolic SAR', hasPeriod: false },
+];
+
+const series = (type: StrategySeriesType, period?: number): Operand => ({
+  kind: 'series',
+  series: { type, period },
+});
+const value = (v: number): Operand => ({ kind: 'value', value: v });
+
+export const strategyPresets: Strategy[] = [
+  {
+    name: 'SMA Crossover (20/50)',
+    direction: 'long',
+    entry: {
+      match: 'all',
+      conditions: [
+        {
+          left: series('sma', 20),
+          operator: 'crossesAbove',
+          right: series('sma', 50),
+        },
+      ],
+    },
+    exit: {
+      match: 'all',
+      conditions: [
+        {
+          left: series('sma', 20),
+          operator: 'crossesBelow',
+          right: series('sma', 50),
+        },
+      ],
+    },
+  },
+  {
+    name: 'RSI Mean Reversion',
+    direction: 'long',
+    entry: {
+      match: 'all',
+      conditions: [
+        { left: series('rsi', 14), operator: 'crossesAbove', right: value(30) },
+      ],
+    },
+    exit: {
+      match: 'any',
+      conditions: [
+        { left: series('rsi', 14), operator: 'crossesAbove', right: value(70) },
+      ],
+    },
+    stopLossPercent: 5,
+  },
+  {
+    name: 'MACD Signal Cross',
+    direction: 'long',
+    entry: {
+      match: 'all',
+      conditions: [
+        {
+          left: series('macd'),
+          operator: 'crossesAbove',
+          right: series('macdSignal'),
+        },
+      ],
+    },
+    exit: {
+      match: 'all',
+      conditions: [
+        {
+          left: series('macd'),
+          operator: 'crossesBelow',
+          right: series('macdSignal'),
+        },
+      ],
+    },
+  },
+  {
+    name: 'Bollinger Breakout',
+    direction: 'long',
+    entry: {
+      match: 'all',
+      conditions: [
+        {
+          left: series('close'),
+          operator: 'crossesAbove',
+          right: series('bbUpper', 20),
+        },
+      ],
+    },
+    exit: {
+      match: 'all',
+      conditions: [
+        {
+          left: series('close'),
+          operator: 'crossesBelow',
+          right: series('bbMiddle', 20),
+        },
+      ],
+    },
+    stopLossPercent: 4,
+    takeProfitPercent: 12,
+  },
+];
+
+export const defaultBacktestConfig: BacktestConfig = {
+  initialCapital: 10000,
+  feeRate: 0.001,
+  slippageBps: 5,
+  sizing: { mode: 'percentEquity', value: 100 },
+};
+
+export const defaultFuturesSettings: FuturesSettings = {
+  leverage: 5,
+  marginMode: 'isolated',
+  maintenanceMarginRate: 0.004,
+  fundingRates: [],
+};
+
+function computeSeries(
+  candles: CandleData[],
+  spec: SeriesSpec
+): IndicatorValues {
+  const values = closes(candles);
+  const period = Math.max(1, Math.round(spec.period || 14));
+  switch (spec.type) {
+    case 'close':
+      return values;
+    case 'open':
+      return candles.map(c => c.open);
+    case 'high':
+      return candles.map(c => c.high);
+    case 'low':
+      return candles.map(c => c.low);
+    case 'volume':
+      return candles.map(c => c.volume);
+    case 'sma':
+      return sma(values, period);
+    case 'ema':
+      return ema(values, period);
+    case 'wma':
+      return wma(values, period);
+    case 'rsi':
+      return rsi(values, period);
+    case 'macd':
+      return macd(values).macd;
+    case 'macdSignal':
+      return macd(values).signal;
+    case 'macdHistogram':
+      return macd(values).histogram;
+    case 'bbUpper':
+      return bollingerBands(values, period).upper;
+    case 'bbMiddle':
+      return bollingerBands(values, period).middle;
+    case 'bbLower':
+      return bollingerBands(values, period).lower;
+    case 'vwap':
+      return vwap(candles);
+    case 'atr':
+      return atr(candles, period);
+    case 'stochK':
+      return stochastic(candles, period).k;
+    case 'stochD':
+      return stochastic(candles, period).d;
+    case 'supertrend':
+      return supertrend(candles, period).value;
+    case 'psar':
+      return parabolicSar(candles).value;
+    default:
+      return values.map(() => null);
+  }
+}
+
+// Precomputes every series a strategy references so rules are cheap to test
+function createEvaluator(candles: CandleData[], strategy: Strategy) {
+  const cache = new Map<string, IndicatorValues>();
+  const resolve = (operand: Operand, index: number): number | null => {
+    if (operand.kind === 'value') return operand.value;
+    const key = `${operand.series.type}:${operand.series.period ?? ''}`;
+    let values = cache.get(key);
+    if (!values) {
+      values = computeSeries(candles, operand.series);
+      cache.set(key, values);
+    }
+    return index >= 0 ? values[index] : null;
+  };
+
+  const test = (condition: Condition, index: number): boolean => {
+    const left = resolve(condition.left, index);
+    const right = resolve(condition.right, index);
+    if (left === null || right === null) return false;
+
+    switch (condition.operator) {
+      case '>':
+        return left > right;
+      case '<':
+        return left < right;
+      case 'crossesAbove':
+      case 'crossesBelow': {
+        const prevLeft = resolve(condition.left, index - 1);
+        const prevRight = resolve(condition.right, index - 1);
+        if (prevLeft === null || prevRight === null) return false;
+        return condition.operator === 'crossesAbove'
+          ? prevLeft <= prevRight && left > right
+          : prevLeft >= prevRight && left < right;
+      }
+      default:
+        return false;
+    }
+  };
+
+  const matches = (rule: StrategyRule, index: number) => {
+    if (rule.conditions.length === 0) return false;
+    return rule.match === 'all'
+      ? rule.conditions.every(c => test(c, index))
+      : rule.conditions.some(c => test(c, index));
+  };
+
+  return {
+    entry: (index: number) => matches(strategy.entry, index),
+    exit: (index: number) => matches(strategy.exit, index),
+  };
+}
+
+interface OpenPosition {
+  direction: TradeDirection;
+  entryIndex: number;
+  entryPrice: number;
+  quantity: number;
+  margin: number; // isolated margin, reduced by funding paid
+  entryFee: number;
+  funding: number;
+  cashBefore: number;
+  liquidationPrice: number | null;
+}
+
+// Price at which margin plus unrealized PnL falls to the maintenance
+// requirement. For isolated positions `margin` is the position margin, for
+// cross it is the whole wallet balance backing the position.
+export function liquidationPrice(
+  direction: TradeDirection,
+  entryPrice: number,
+  quantity: number,
+  margin: number,
+  maintenanceMarginRate: number
+): number {
+  if (quantity <= 0) return direction === 'long' ? 0 : Infinity;
+  const price =
+    direction === 'long'
+      ? (quantity * entryPrice - margin) /
+        (quantity * (1 - maintenanceMarginRate))
+      : (quantity * entryPrice + margin) /
+        (quantity * (1 + maintenanceMarginRate));
+  return Math.max(0, price);
+}
+
+export function periodsPerYear(candles: CandleData[]): number {
+  if (candles.length < 2) return 365;
+  const step =
+    (candles[candles.length - 1].timestamp - candles[0].timestamp) /
+    (candles.length - 1);
+  return step > 0 ? YEAR_MS / step : 365;
+}
+
+export function computeMetrics(
+  equity: EquityPoint[],
+  trades: BacktestTrade[],
+  initialCapital: number,
+  barsPerYear: number,
+  barsInMarket: number
+): BacktestMetrics {
+  const finalEquity =
+    equity.length > 0 ? equity[equity.length - 1].equity : initialCapital;
+  const returns: number[] = [];
+  for (let i = 1; i < equity.length; i++) {
+    const prev = equity[i - 1].equity;
+    returns.push(prev > 0 ? equity[i].equity / prev - 1 : 0);
+  }
+
+  const mean =
+    returns.length > 0
+      ? returns.reduce((s, r) => s + r, 0) / returns.length
+      : 0;
+  const variance =
+    returns.length > 1
+      ? returns.reduce((s, r) => s + (r - mean) ** 2, 0) / (returns.length - 1)
+      : 0;
+  const downside =
+    returns.length > 0
+      ? returns.reduce((s, r) => s + Math.min(r, 0) ** 2, 0) / returns.length
+      : 0;
+  const annualization = Math.sqrt(barsPerYear);
+
+  const years = equity.length / barsPerYear;
+  const growth = finalEquity / initialCapital;
+  const wins = trades.filter(t => t.pnl > 0);
+  const grossProfit = wins.reduce((s, t) => s + t.pnl, 0);
+  const grossLoss = trades
+    .filter(t => t.pnl < 0)
+    .reduce((s, t) => s - t.pnl, 0);
+
+  return {
+    initialCapital,
+    finalEquity,
+    totalReturn: growth - 1,
+    cagr: years > 0 && growth > 0 ? growth ** (1 / years) - 1 : -1,
+    sharpe: variance > 0 ? (mean / Math.sqrt(variance)) * annualization : 0,
+    sortino: downside > 0 ? (mean / Math.sqrt(downside)) * annualization : 0,
+    maxDrawdown: equity.reduce((max, p) => Math.max(max, p.drawdown), 0),
+    winRate: trades.length > 0 ? wins.length / trades.length : 0,
+    profitFactor:
+      grossLoss > 0 ? grossProfit / grossLoss : grossProfit > 0 ? Infinity : 0,
+    totalTrades: trades.length,
+    averageTrade:
+      trades.length > 0
+        ? trades.reduce((s, t) => s + t.pnl, 0) / trades.length
+        : 0,
+    totalFees: trades.reduce((s, t) => s + t.fees, 0),
+    totalFunding: trades.reduce((s, t) => s + t.funding, 0),
+    liquidations: trades.filter(t => t.exitReason === 'liquidation').length,
+    exposure: equity.length > 0 ? barsInMarket / equity.length : 0,
+  };
+}
+
+// Signals are evaluated on each candle close and filled at the next open, so
+// a rule never trades on information from the candle it fills in. With
+// futures settings, positions are leveraged, pay or receive funding at each
+// funding time they are open through and can be liquidated intrabar.
+export function runBacktest(
+  candles: CandleData[],
+  strategy: Strategy,
+  config: BacktestConfig
+): BacktestResult {
+  const evaluator = createEvaluator(candles, strategy);
+  const slippage = config.slippageBps / 10000;
+  const futures = config.futures;
+  const leverage = futures ? Math.max(1, futures.leverage) : 1;
+  const fundingRates = futures
+    ? [...futures.fundingRates].sort((a, b) => a.timestamp - b.timestamp)
+    : [];
+  const trades: BacktestTrade[] = [];
+  const equity: EquityPoint[] = [];
+
+  let cash = config.initialCapital;
+  let position: OpenPosition | null = null;
+  let pendingEntry = false;
+  let pendingExit = false;
+  let peak = config.initialCapital;
+  let barsInMarket = 0;
+  let fundingIndex = 0;
+
+  const unrealized = (price: number) =>
+    position
+      ? (position.direction === 'long' ? 1 : -1) *
+        position.quantity *
+        (price - position.entryPrice)
+      : 0;
+
+  const currentLiquidationPrice = (open: OpenPosition): number | null =>
+    futures
+      ? liquidationPrice(
+          open.direction,
+          open.entryPrice,
+          open.quantity,
+          futures.marginMode === 'isolated' ? open.margin : cash,
+          futures.maintenanceMarginRate
+        )
+      : null;
+
+  const recordTrade = (
+    index: number,
+    exitPrice: number,
+    exitFee: number,
+    reason: ExitReason
+  ) => {
+    if (!position) return;
+    const pnl = cash - position.cashBefore;
+    trades.push({
+      direction: position.direction,
+      entryTime: candles[position.entryIndex].timestamp,
+      exitTime: candles[index].timestamp,
+      entryPrice: position.entryPrice,
+      exitPrice,
+      quantity: position.quantity,
+      fees: position.entryFee + exitFee,
+      funding: position.funding,
+      pnl,
+      returnPercent:
+        (pnl / ((position.quantity * position.entryPrice) / leverage)) * 100,
+      barsHeld: index - position.entryIndex,
+      exitReason: reason,
+      leverage,
+      liquidationPrice: position.liquidationPrice,
+    });
+    position = null;
+  };
+
+  const closePosition = (index: number, price: number, reason: ExitReason) => {
+    if (!position) return;
+    const sign = position.direction === 'long' ? 1 : -1;
+    // Slippage always works against the trader
+    const fillPrice = price * (1 - sign * slippage);
+    const exitFee = position.quantity * fillPrice * config.feeRate;
+    cash += sign * position.quantity * (fillPrice - position.entryPrice);
+    cash -= exitFee;
+    recordTrade(index, fillPrice, exitFee, reason);
+  };
+
+  // The maintenance margin left at the liquidation price is forfeited, so an
+  // isolated position loses its whole margin and a cross account what backed it
+  const liquidate = (index: number, price: number) => {
+    if (!position || !futures) return;
+    if (futures.marginMode === 'isolated') {
+      cash -= position.margin;
+    } else {
+      const maintenance =
+        position.quantity * price * futures.maintenanceMarginRate;
+      cash = Math.max(0, cash + unrealized(price) - maintenance);
+    }
+    recordTrade(index, price, 0, 'liquidation');
+  };
+
+  const openPosition = (index: number, price: number) => {
+    const sign = strategy.direction === 'long' ? 1 : -1;
+    const fillPrice = price * (1 + sign * slippage);
+    const budget =
+      config.sizing.mode === 'percentEquity'
+        ? cash * (Math.min(100, Math.max(0, config.sizing.value)) / 100)
+        : Math.min(cash, config.sizing.value);
+    // Leave room for the entry fee, charged on the leveraged notional
+    const margin = budget / (1 + config.feeRate * leverage);
+    const notional = margin * leverage;
+    if (notional <= 0 || fillPrice <= 0) return;
+
+    const entryFee = notional * config.feeRate;
+    const cashBefore = cash;
+    cash -= entryFee;
+    const opened: OpenPosition = {
+      direction: strategy.direction,
+      entryIndex: index,
+      entryPrice: fillPrice,
+      quantity: notional / fillPrice,
+      margin,
+      entryFee,
+      funding: 0,
+      cashBefore,
+      liquidationPrice: null,
+    };
+    opened.liquidationPrice = currentLiquidationPrice(opened);
+    position = opened;
+  };
+
+  // Longs pay shorts when the rate is positive; the candle open stands in for
+  // the mark price at the funding time
+  const settleFunding = (index: number) => {
+    const timestamp = candles[index].timestamp;
+    while (
+      fundingIndex < fundingRates.length &&
+      fundingRates[fundingIndex].timestamp <= timestamp
+    ) {
+      const { rate } = fundingRates[fundingIndex++];
+      if (!position) continue;
+      const sign = position.direction === 'long' ? 1 : -1;
+      const payment = sign * position.quantity * candles[index].open * rate;
+      cash -= payment;
+      position.funding += payment;
+      if (futures?.marginMode === 'isolated') position.margin -= payment;
+    }
+  };
+
+  for (let i = 0; i < candles.length; i++) {
+    const candle = candles[i];
+
+    if (futures) settleFunding(i);
+    if (pendingExit && position) closePosition(i, candle.open, 'signal');
+    if (pendingEntry && !position) openPosition(i, candle.open);
+    pendingEntry = false;
+    pendingExit = false;
+
+    // Intrabar stops; when both levels are inside the candle assume the stop
+    // was hit first. A stop closer than the liquidation price fires before it.
+    if (position) {
+      const open: OpenPosition = position;
+      const isLong = open.direction === 'long';
+      const stop = strategy.stopLossPercent
+        ? open.entryPrice *
+          (1 - ((isLong ? 1 : -1) * strategy.stopLossPercent) / 100)
+        : null;
+      const target = strategy.takeProfitPercent
+        ? open.entryPrice *
+          (1 + ((isLong ? 1 : -1) * strategy.takeProfitPercent) / 100)
+        : null;
+      const liquidation = currentLiquidationPrice(open);
+      const stopFirst =
+        stop !== null &&
+        (liquidation === null ||
+          (isLong ? stop > liquidation : stop < liquidation));
+
+      if (
+        stop !== null &&
+        stopFirst &&
+        (isLong ? candle.low <= stop : candle.high >= stop)
+      ) {
+        const gapped = isLong ? candle.open < stop : candle.open > stop;
+        closePosition(i, gapped ? candle.open : stop, 'stopLoss');
+      } else if (
+        liquidation !== null &&
+        (isLong ? candle.low <= liquidation : candle.high >= liquidation)
+      ) {
+        liquidate(i, liquidation);
+      } else if (
+        target !== null &&
+        (isLong ? candle.high >= target : candle.low <= target)
+      ) {
+        const gapped = isLong ? candle.open > target : candle.open < target;
+        closePosition(i, gapped ? candle.open : target, 'takeProfit');
+      }
+    }
+
+    if (position) barsInMarket++;
+
+    if (i === candles.length - 1 && position) {
+      closePosition(i, candle.close, 'endOfData');
+    } else if (position) {
+      pendingExit = evaluator.exit(i);
+    } else if (cash > 0) {
+      pendingEntry = evaluator.entry(i);
+    }
+
+    const value = cash + unrealized(candle.close);
+    peak = Math.max(peak, value);
+    equity.push({
+      timestamp: candle.timestamp,
+      equity: value,
+      drawdown: peak > 0 ? (peak - value) / peak : 0,
+    });
+  }
+
+  return {
+    trades,
+    equity,
+    metrics: computeMetrics(
+      equity,
+      trades,
+      config.initialCapital,
+      periodsPerYear(candles),
+      barsInMarket
+    ),
+  };
+}
+
+export function tradesToMarkers(trades: BacktestTrade[]): ChartMarker[] {
+  return trades.flatMap(trade => {
+    const isLong = trade.direction === 'long';
+    const entry: ChartMarker = {
+      timestamp: trade.entryTime,
+      position: isLong ? 'belowBar' : 'aboveBar',
+      shape: isLong ? 'arrowUp' : 'arrowDown',
+      color: '#3b82f6',
+      text: isLong ? 'Buy' : 'Sell',
+    };
+    const exit: ChartMarker = {
+      timestamp: trade.exitTime,
+      position: isLong ? 'aboveBar' : 'belowBar',
+      shape: isLong ? 'arrowDown' : 'arrowUp',
+      color: trade.pnl >= 0 ? '#10b981' : '#ef4444',
+      text:
+        trade.exitReason === 'stopLoss'
+          ? 'SL'
+          : trade.exitReason === 'takeProfit'
+            ? 'TP'
+            : 'Exit',
+    };
+    if (trade.exitReason === 'liquidation') {
+      return [
+        entry,
+        {
+          ...exit,
+          shape: 'square' as const,
+          color: '#dc2626',
+          text: 'Liquidated',
+        },
+      ];
+    }
+    return [entry, exit];
+  });
+}
@@ -0,0 +1,136 @@
+// Spot–perpetual basis: candle-by-candle history for one coin and current
+// premiums across every pair listed on both markets.
+
+import type {
+  CandleData,
+  FuturesTickerData,
+  TickerData,
+} from '@/services/bitgetApi';
+import { toScreenerRow } from '@/lib/screener';
+
+// Perpetuals have no expiry; the premium is annualized as if earned once per
+// funding interval, the horizon over which funding pulls it back to spot
+export const FUNDING_INTERVAL_HOURS = 8;
+const INTERVALS_PER_YEAR = (365 * 24) / FUNDING_INTERVAL_HOURS;
+
+// Robust z-score beyond which a premium is flagged
+export const OUTLIER_Z = 3;
+
+export interface BasisPoint {
+  timestamp: number;
+  spot: number;
+  futures: number;
+  basis: number; // futures - spot, in quote currency
+  basisPercent: number;
+  annualizedPercent: number;
+}
+
+export interface BasisStats {
+  latest: BasisPoint;
+  averagePercent: number;
+  minPercent: number;
+  maxPercent: number;
+}
+
+export interface PremiumRow {
+  symbol: string;
+  spotPrice: number;
+  futuresPrice: number;
+  premiumPercent: number;
+  annualizedPercent: number;
+  fundingRate: number | null; // per interval, fraction
+  quoteVolume: number; // futures 24h
+  zScore: number;
+  outlier: boolean;
+}
+
+export const annualize = (percent: number) => percent * INTERVALS_PER_YEAR;
+
+// Pair spot and perpetual closes on matching candle times
+export function alignBasis(
+  spot: CandleData[],
+  futures: CandleData[]
+): BasisPoint[] {
+  const futuresByTime = new Map(futures.map(c => [c.timestamp, c.close]));
+  return spot.flatMap(candle => {
+    const futuresClose = futuresByTime.get(candle.timestamp);
+    if (futuresClose === undefined || !(candle.close > 0)) return [];
+    const basis = futuresClose - candle.close;
+    const basisPercent = (basis / candle.close) * 100;
+    return [
+      {
+        timestamp: candle.timestamp,
+        spot: candle.close,
+        futures: futuresClose,
+        basis,
+        basisPercent,
+        annualizedPercent: annualize(basisPercent),
+      },
+    ];
+  });
+}
+
+export function basisStats(points: BasisPoint[]): BasisStats | null {
+  if (points.length === 0) return null;
+  const percents = points.map(p => p.basisPercent);
+  return {
+    latest: points[points.length - 1],
+    averagePercent: percents.reduce((sum, p) => sum + p, 0) / percents.length,
+    minPercent: Math.min(...percents),
+    maxPercent: Math.max(...percents),
+  };
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+// Premiums for symbols quoted on both markets, largest deviation first.
+// Outliers use a median/MAD z-score so a few extreme pairs do not hide
+// each other.
+export function buildPremiums(
+  spotTickers: TickerData[],
+  futuresTickers: FuturesTickerData[]
+): PremiumRow[] {
+  const spotPrices = new Map<string, number>();
+  spotTickers.forEach(ticker => {
+    const row = toScreenerRow(ticker);
+    if (row && row.lastPrice > 0) spotPrices.set(row.symbol, row.lastPrice);
+  });
+
+  const rows = futuresTickers.flatMap(ticker => {
+    const futures = toScreenerRow(ticker);
+    const spotPrice = futures ? spotPrices.get(futures.symbol) : undefined;
+    if (!futures || !spotPrice || !(futures.lastPrice > 0)) return [];
+    const premiumPercent = (futures.lastPrice / spotPrice - 1) * 100;
+    const fundingRate = parseFloat(ticker.fundingRate || '');
+    return [
+      {
+        symbol: futures.symbol,
+        spotPrice,
+        futuresPrice: futures.lastPrice,
+        premiumPercent,
+        annualizedPercent: annualize(premiumPercent),
+        fundingRate: isNaN(fundingRate) ? null : fundingRate,
+        quoteVolume: futures.quoteVolume,
+        zScore: 0,
+        outlier: false,
+      },
+    ];
+  });
+  if (rows.length === 0) return rows;
+
+  const premiums = rows.map(row => row.premiumPercent);
+  const center = median(premiums);
+  // 1.4826 scales the MAD to a standard deviation for normal data
+  const spread = median(premiums.map(p => Math.abs(p - center))) * 1.4826;
+  rows.forEach(row => {
+    row.zScore = spread > 0 ? (row.premiumPercent - center) / spread : 0;
+    row.outlier = Math.abs(row.zScore) > OUTLIER_Z;
+  });
+  return rows.sort(
+    (a, b) => Math.abs(b.premiumPercent) - Math.abs(a.premiumPercent)
+  );
+}
@@ -0,0 +1,304 @@
+// File-based store of closed candles keyed by exchange, market, symbol,
+// granularity and price type.
+// Candle routes read from it first and only ask the exchange for the missing
+// ranges.
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { CandleData } from '@/services/bitgetApi';
+import {
+  CandleCoverage,
+  CandleHistoryRequest,
+  fetchCandleHistory,
+  RawCandle,
+} from '@/lib/candleHistory';
+import { granularityToMs, MAX_HISTORY_CANDLES } from '@/lib/granularity';
+import {
+  ExchangeId,
+  exchangeLabel,
+  getExchangeProvider,
+} from '@/lib/exchanges';
+
+// Bitget is paged with its own granularities (and mark/index price types);
+// other exchanges go through their provider with the UI granularity, e.g. 1h
+export interface CandleCacheRequest extends CandleHistoryRequest {
+  exchange?: ExchangeId; // defaults to Bitget
+}
+
+export type CandleSource = 'cache' | 'network' | 'mixed';
+
+export interface CandleCacheInfo {
+  source: CandleSource;
+  stale: boolean; // true when the exchange was unreachable and cache was served
+  cachedCandles: number;
+  fetchedRanges: [number, number][];
+}
+
+export interface CachedCandleResult {
+  candles: RawCandle[];
+  coverage: CandleCoverage;
+  cache: CandleCacheInfo;
+}
+
+interface CacheEntry {
+  candles: RawCandle[]; // sorted by timestamp, closed candles only
+  ranges: [number, number][]; // merged time ranges already fetched
+  updatedAt: number;
+}
+
+const CACHE_DIR =
+  process.env.CANDLE_CACHE_DIR || path.join(process.cwd(), '.cache', 'candles');
+
+const memoryCache = new Map<string, CacheEntry>();
+
+// Writes to one cache file run one at a time so concurrent requests for the
+// same series cannot overwrite each other's merged candles
+const writeQueues = new Map<string, Promise<unknown>>();
+
+function enqueue<T>(file: string, task: () => Promise<T>): Promise<T> {
+  const run = (writeQueues.get(file) ?? Promise.resolve()).then(task, task);
+  const settled = run.catch(() => undefined);
+  writeQueues.set(file, settled);
+  settled.then(() => {
+    if (writeQueues.get(file) === settled) writeQueues.delete(file);
+  });
+  return run;
+}
+
+// Bitget files keep their original location; other exchanges get a directory
+function cacheFile(request: CandleCacheRequest): string {
+  const safe = (value: string) => value.replace(/[^A-Za-z0-9_-]/g, '_');
+  return path.join(
+    CACHE_DIR,
+    ...(request.exchange && request.exchange !== 'bitget'
+      ? [request.exchange]
+      : []),
+    request.market,
+    safe(request.symbol),
+    request.priceType
+      ? `${safe(request.granularity)}.${request.priceType}.json`
+      : `${safe(request.granularity)}.json`
+  );
+}
+
+async function readEntry(file: string): Promise<CacheEntry> {
+  const memo = memoryCache.get(file);
+  if (memo) return memo;
+
+  try {
+    const entry = JSON.parse(await fs.readFile(file, 'utf8')) as CacheEntry;
+    memoryCache.set(file, entry);
+    return entry;
+  } catch {
+    return { candles: [], ranges: [], updatedAt: 0 };
+  }
+}
+
+async function writeEntry(file: string, entry: CacheEntry): Promise<void> {
+  memoryCache.set(file, entry);
+  try {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    // Write to a temp file first so a crash never leaves half a JSON file
+    const tmpFile = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(tmpFile, JSON.stringify(entry));
+    await fs.rename(tmpFile, file);
+  } catch (error) {
+    console.error(`Failed to persist candle cache ${file}:`, error);
+  }
+}
+
+function mergeRanges(ranges: [number, number][]): [number, number][] {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+  const merged: [number, number][] = [];
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1] + 1) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([range[0], range[1]]);
+    }
+  }
+  return merged;
+}
+
+// Parts of [start, end] not yet covered, ignoring slivers shorter than a candle
+function missingRanges(
+  covered: [number, number][],
+  start: number,
+  end: number,
+  stepMs: number
+): [number, number][] {
+  const gaps: [number, number][] = [];
+  let cursor = start;
+  for (const [from, to] of covered) {
+    if (to < cursor) continue;
+    if (from > end) break;
+    if (from > cursor) gaps.push([cursor, from - 1]);
+    cursor = Math.max(cursor, to + 1);
+  }
+  if (cursor <= end) gaps.push([cursor, end]);
+  return gaps.filter(([from, to]) => to - from >= stepMs);
+}
+
+function mergeCandles(existing: RawCandle[], incoming: RawCandle[]) {
+  const byTimestamp = new Map<number, RawCandle>();
+  for (const row of existing) byTimestamp.set(parseInt(row[0]), row);
+  for (const row of incoming) byTimestamp.set(parseInt(row[0]), row);
+  return Array.from(byTimestamp.entries())
+    .sort((a, b) => a[0] - b[0])
+    .map(([, row]) => row);
+}
+
+const toRawCandle = (candle: CandleData): RawCandle => [
+  candle.timestamp.toString(),
+  candle.open.toString(),
+  candle.high.toString(),
+  candle.low.toString(),
+  candle.close.toString(),
+  candle.volume.toString(),
+  candle.quoteVolume.toString(),
+];
+
+// One gap's candles, and where the part the exchange answered for begins
+async function fetchGap(
+  request: CandleCacheRequest,
+  from: number,
+  to: number,
+  stepMs: number
+): Promise<{ candles: RawCandle[]; pages: number; coveredFrom: number }> {
+  const limit = Math.ceil((to - from) / stepMs) + 1;
+  if (!request.exchange || request.exchange === 'bitget') {
+    const result = await fetchCandleHistory({
+      ...request,
+      startTime: from,
+      endTime: to,
+      limit,
+    });
+    return {
+      candles: result.candles,
+      pages: result.coverage.pages,
+      coveredFrom:
+        result.coverage.complete || result.coverage.exhausted
+          ? from
+          : (result.coverage.firstCandle ?? to + 1),
+    };
+  }
+
+  const candles = await getExchangeProvider(request.exchange).getCandles(
+    request.market,
+    request.symbol,
+    { granularity: request.granularity, startTime: from, endTime: to, limit }
+  );
+  const first = candles.length > 0 ? candles[0].timestamp : null;
+  return {
+    candles: candles.map(toRawCandle),
+    pages: 1,
+    // Paging stops quietly on a failed page, so a late first candle means the
+    // older part is unknown rather than empty
+    coveredFrom: first === null ? to + 1 : first - from < stepMs ? from : first,
+  };
+}
+
+// Serve candles for a range, fetching only gaps from the exchange and falling
+// back to whatever is cached when it cannot be reached
+export async function getCandlesWithCache(
+  request: CandleCacheRequest
+): Promise<CachedCandleResult> {
+  const stepMs = granularityToMs(request.granularity);
+  const limit = Math.max(1, Math.min(request.limit, MAX_HISTORY_CANDLES));
+  const endTime = request.endTime ?? Date.now();
+  const startTime = request.startTime ?? endTime - limit * stepMs;
+  // Anything opening after this point may still change, so it is never stored
+  const closedBefore = Math.floor(Date.now() / stepMs) * stepMs - stepMs;
+
+  const file = cacheFile(request);
+  const entry = await readEntry(file);
+  const gaps = missingRanges(entry.ranges, startTime, endTime, stepMs);
+
+  const fetched: RawCandle[] = [];
+  const fetchedRanges: [number, number][] = [];
+  let pages = 0;
+  let stale = false;
+
+  for (const [from, to] of gaps) {
+    try {
+      const result = await fetchGap(request, from, to, stepMs);
+      pages += result.pages;
+      fetched.push(...result.candles);
+
+      // Only remember the part of the range the exchange actually answered for
+      const coveredTo = Math.min(to, closedBefore);
+      if (result.coveredFrom <= coveredTo)
+        fetchedRanges.push([result.coveredFrom, coveredTo]);
+    } catch (error) {
+      console.warn(
+        `${exchangeLabel(request.exchange ?? 'bitget')} unreachable for ${request.symbol}, serving cached candles:`,
+        error
+      );
+      stale = true;
+      break;
+    }
+  }
+
+  if (fetchedRanges.length > 0) {
+    const closed = fetched.filter(row => parseInt(row[0]) <= closedBefore);
+    await enqueue(file, async () => {
+      // Merge into the latest entry, which another request may have written
+      // while this one was fetching
+      const latest = await readEntry(file);
+      await writeEntry(file, {
+        candles: mergeCandles(latest.candles, closed),
+        ranges: mergeRanges([...latest.ranges, ...fetchedRanges]),
+        updatedAt: Date.now(),
+      });
+    });
+  }
+
+  const inRange = (row: RawCandle) => {
+    const ts = parseInt(row[0]);
+    return ts >= startTime && ts <= endTime;
+  };
+  const cached = entry.candles.filter(inRange);
+  const candles = mergeCandles(cached, fetched.filter(inRange)).slice(-limit);
+
+  if (candles.length === 0 && stale) {
+    throw new Error(`No cached candles available for ${request.symbol}`);
+  }
+
+  const firstCandle = candles.length > 0 ? parseInt(candles[0][0]) : null;
+  const lastCandle =
+    candles.length > 0 ? parseInt(candles[candles.length - 1][0]) : null;
+
+  return {
+    candles,
+    coverage: {
+      startTime,
+      endTime,
+      firstCandle,
+      lastCandle,
+      candles: candles.length,
+      pages,
+      complete:
+        !stale &&
+        (candles.length >= limit ||
+          missingRanges(
+            mergeRanges([...entry.ranges, ...fetchedRanges]),
+            startTime,
+            Math.min(endTime, closedBefore),
+            stepMs
+          ).length === 0),
+      exhausted: false,
+    },
+    cache: {
+      source:
+        fetched.length === 0
+          ? 'cache'
+          : cached.length > 0
+            ? 'mixed'
+            : 'network',
+      stale,
+      cachedCandles: cached.length,
+      fetchedRanges,
+    },
+  };
+}
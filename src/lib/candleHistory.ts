@@ -0,0 +1,199 @@
+// Server-side helper that walks Bitget candle endpoints backwards in pages so
+// callers can request ranges larger than the single-request cap.
+
+import type { FetchJson } from '@/lib/exchanges/types';
+import { granularityToMs, MAX_HISTORY_CANDLES } from '@/lib/granularity';
+import { fetchUpstreamJson, UpstreamError } from '@/lib/upstream';
+
+export type CandleMarket = 'spot' | 'futures';
+
+// Futures only: candles of the mark or index price instead of trades
+export type CandlePriceType = 'mark' | 'index';
+
+// Raw Bitget candle row: [ts, open, high, low, close, baseVol, quoteVol, ...]
+export type RawCandle = string[];
+
+export interface CandleCoverage {
+  startTime: number;
+  endTime: number;
+  firstCandle: number | null;
+  lastCandle: number | null;
+  candles: number;
+  pages: number;
+  complete: boolean;
+  exhausted: boolean; // Bitget has no older candles for this symbol
+}
+
+export interface CandleHistoryRequest {
+  market: CandleMarket;
+  symbol: string;
+  granularity: string; // Bitget granularity for the given market
+  priceType?: CandlePriceType;
+  startTime?: number; // ms
+  endTime?: number; // ms
+  limit: number;
+}
+
+export interface CandleHistoryResult {
+  candles: RawCandle[];
+  coverage: CandleCoverage;
+}
+
+export const CANDLE_PAGE_LIMIT = 1000; // /market/candles max
+export const HISTORY_PAGE_LIMIT = 200; // /market/history-candles max
+const MAX_PAGES = 120;
+
+function buildPageUrl(
+  request: CandleHistoryRequest,
+  history: boolean,
+  endTime: number,
+  startTime: number | undefined
+): string {
+  const params = new URLSearchParams({
+    symbol: request.symbol,
+    granularity: request.granularity,
+    limit: (history ? HISTORY_PAGE_LIMIT : CANDLE_PAGE_LIMIT).toString(),
+    endTime: endTime.toString(),
+  });
+
+  // history-candles only accepts endTime
+  if (!history && startTime !== undefined) {
+    params.append('startTime', startTime.toString());
+  }
+
+  if (request.market === 'futures') {
+    params.append('productType', 'usdt-futures');
+    if (request.priceType) {
+      // Recent mark/index candles share /candles; history has its own paths
+      if (!history) params.append('kLineType', request.priceType.toUpperCase());
+      const endpoint = history
+        ? `history-${request.priceType}-candles`
+        : 'candles';
+      return `https://api.bitget.com/api/v2/mix/market/${endpoint}?${params}`;
+    }
+    return `https://api.bitget.com/api/v2/mix/market/${history ? 'history-candles' : 'candles'}?${params}`;
+  }
+
+  return `https://api.bitget.com/api/v2/spot/market/${history ? 'history-candles' : 'candles'}?${params}`;
+}
+
+// Candle pages can be slow to come back for long histories
+const fetchBitgetJson: FetchJson = url =>
+  fetchUpstreamJson(url, { timeoutMs: 15000 });
+
+async function fetchPage(
+  url: string,
+  fetchJson: FetchJson
+): Promise<RawCandle[]> {
+  const data = (await fetchJson(url)) as {
+    code?: string;
+    msg?: string;
+    data?: unknown;
+  };
+  if (data.code && data.code !== '00000') {
+    throw new UpstreamError(
+      `Bitget API error: ${data.msg || 'Unknown error'}`,
+      'API_ERROR',
+      { upstreamCode: data.code }
+    );
+  }
+  return Array.isArray(data.data) ? data.data : [];
+}
+
+// Fetch candles between startTime and endTime, newest page first, switching to
+// the history endpoint once the recent endpoint stops returning data.
+export async function fetchCandleHistory(
+  request: CandleHistoryRequest,
+  fetchJson: FetchJson = fetchBitgetJson
+): Promise<CandleHistoryResult> {
+  const stepMs = granularityToMs(request.granularity);
+  const limit = Math.max(1, Math.min(request.limit, MAX_HISTORY_CANDLES));
+  const endTime = request.endTime ?? Date.now();
+  const startTime = request.startTime ?? endTime - limit * stepMs;
+
+  const byTimestamp = new Map<number, RawCandle>();
+  let cursor = endTime;
+  let useHistory = false;
+  let pages = 0;
+  let reachedStart = false;
+  let exhausted = false;
+
+  while (pages < MAX_PAGES && byTimestamp.size < limit) {
+    let page: RawCandle[];
+    try {
+      page = await fetchPage(
+        buildPageUrl(request, useHistory, cursor, startTime),
+        fetchJson
+      );
+      pages++;
+    } catch (error) {
+      pages++;
+      if (!useHistory) {
+        console.warn(
+          `Recent candles failed for ${request.symbol}, trying history endpoint:`,
+          error
+        );
+        useHistory = true;
+        continue;
+      }
+      // Keep what we already have if a later page fails
+      if (byTimestamp.size === 0) throw error;
+      console.error(`Stopping pagination for ${request.symbol}:`, error);
+      break;
+    }
+
+    if (page.length === 0) {
+      if (!useHistory) {
+        useHistory = true;
+        continue;
+      }
+      exhausted = true;
+      break;
+    }
+
+    let earliest = cursor;
+    for (const row of page) {
+      const ts = parseInt(row[0]);
+      if (isNaN(ts)) continue;
+      earliest = Math.min(earliest, ts);
+      if (ts >= startTime && ts <= endTime) {
+        byTimestamp.set(ts, row);
+      }
+    }
+
+    // No whole candle can open between startTime and the earliest one seen
+    if (earliest - startTime < stepMs) {
+      reachedStart = true;
+      break;
+    }
+    // Guard against endpoints that ignore endTime
+    if (earliest >= cursor) break;
+    cursor = earliest - 1;
+  }
+
+  const candles = Array.from(byTimestamp.entries())
+    .sort((a, b) => a[0] - b[0])
+    .slice(-limit)
+    .map(([, row]) => row);
+
+  const firstCandle = candles.length > 0 ? parseInt(candles[0][0]) : null;
+  const lastCandle =
+    candles.length > 0 ? parseInt(candles[candles.length - 1][0]) : null;
+
+  return {
+    candles,
+    coverage: {
+      startTime,
+      endTime,
+      firstCandle,
+      lastCandle,
+      candles: candles.length,
+      pages,
+      complete:
+        candles.length >= limit ||
+        reachedStart ||
+        (firstCandle !== null && firstCandle - startTime < stepMs),
+      exhausted,
+    },
+  };
+}
@@ -0,0 +1,13 @@
+// Markers drawn on the candlestick series, e.g. backtest entries and exits
+export interface ChartMarker {
+  timestamp: number;
+  position: 'aboveBar' | 'belowBar' | 'inBar';
+  shape: 'arrowUp' | 'arrowDown' | 'circle' | 'square';
+  color: string;
+  text?: string;
+}
+
+// lightweight-charts requires markers in ascending time order
+export function sortMarkers(markers: ChartMarker[]): ChartMarker[] {
+  return [...markers].sort((a, b) => a.timestamp - b.timestamp);
+}
@@ -0,0 +1,143 @@
+// Multi-symbol comparison: closes rebased to a common start as percent change
+// or log return, so symbols with very different prices share one axis.
+
+import type { CandleData } from '@/services/bitgetApi';
+import type { IndicatorPoint } from '@/lib/indicators';
+import { readStored, writeStored } from '@/lib/storage';
+import { sameItem, WatchlistItem } from '@/lib/watchlists';
+
+export type ComparisonScale = 'percent' | 'log';
+
+export interface ComparisonSymbol extends WatchlistItem {
+  hidden?: boolean;
+}
+
+export interface ComparisonConfig {
+  enabled: boolean;
+  scale: ComparisonScale;
+  symbols: ComparisonSymbol[];
+}
+
+// One drawable comparison series
+export interface ComparisonLine {
+  key: string;
+  label: string;
+  color: string;
+  visible: boolean;
+  points: IndicatorPoint[];
+}
+
+const COMPARISON_KEY = 'coinai.comparison';
+
+export const comparisonScales: { value: ComparisonScale; label: string }[] = [
+  { value: 'percent', label: '% change' },
+  { value: 'log', label: 'Log return' },
+];
+
+export const comparisonColors = [
+  '#3b82f6',
+  '#f59e0b',
+  '#10b981',
+  '#ef4444',
+  '#8b5cf6',
+  '#ec4899',
+  '#14b8a6',
+  '#f97316',
+];
+
+export const defaultComparison: ComparisonConfig = {
+  enabled: false,
+  scale: 'percent',
+  symbols: [],
+};
+
+export const comparisonKey = (item: WatchlistItem) =>
+  `${item.marketType}:${item.symbol}`;
+
+export const comparisonLabel = (item: WatchlistItem) =>
+  item.marketType === 'futures' ? `${item.symbol} (perp)` : item.symbol;
+
+export function loadComparison(): ComparisonConfig {
+  const stored = readStored<Partial<ComparisonConfig>>(COMPARISON_KEY, {});
+  return {
+    enabled: stored.enabled === true,
+    scale: stored.scale === 'log' ? 'log' : 'percent',
+    symbols: Array.isArray(stored.symbols)
+      ? stored.symbols.filter(
+          item =>
+            item &&
+            typeof item.symbol === 'string' &&
+            (item.marketType === 'spot' || item.marketType === 'futures')
+        )
+      : [],
+  };
+}
+
+export function saveComparison(config: ComparisonConfig): void {
+  writeStored(COMPARISON_KEY, config);
+}
+
+export function addComparisonSymbol(
+  config: ComparisonConfig,
+  item: WatchlistItem
+): ComparisonConfig {
+  if (config.symbols.some(s => sameItem(s, item))) return config;
+  return { ...config, symbols: [...config.symbols, item] };
+}
+
+export function formatComparisonValue(
+  value: number,
+  scale: ComparisonScale
+): string {
+  const sign = value >= 0 ? '+' : '';
+  return scale === 'percent'
+    ? `${sign}${value.toFixed(2)}%`
+    : `${sign}${value.toFixed(4)}`;
+}
+
+// Express closes relative to the first close at or after startTime
+export function rebase(
+  candles: CandleData[],
+  startTime: number,
+  scale: ComparisonScale
+): IndicatorPoint[] {
+  const series = candles.filter(c => c.timestamp >= startTime && c.close > 0);
+  if (series.length === 0) return [];
+  const base = series[0].close;
+  return series.map(c => ({
+    timestamp: c.timestamp,
+    value:
+      scale === 'percent'
+        ? (c.close / base - 1) * 100
+        : Math.log(c.close / base),
+  }));
+}
+
+// Rebase every symbol to the latest first candle among them, so all lines
+// start from zero at the same time
+export function buildComparisonLines(
+  config: ComparisonConfig,
+  candlesByKey: Record<string, CandleData[]>
+): ComparisonLine[] {
+  const loaded = config.symbols.filter(
+    item => (candlesByKey[comparisonKey(item)] || []).length > 0
+  );
+  if (loaded.length === 0) return [];
+  const startTime = Math.max(
+    ...loaded.map(item => candlesByKey[comparisonKey(item)][0].timestamp)
+  );
+
+  return config.symbols.flatMap((item, index) => {
+    const candles = candlesByKey[comparisonKey(item)];
+    if (!candles || candles.length === 0) return [];
+    return [
+      {
+        key: comparisonKey(item),
+        label: comparisonLabel(item),
+        color: comparisonColors[index % comparisonColors.length],
+        visible: !item.hidden,
+        points: rebase(candles, startTime, config.scale),
+      },
+    ];
+  });
+}
@@ -0,0 +1,206 @@
+// Return correlations and beta across a basket of symbols. Candles are
+// aligned on the timestamps every symbol has, then turned into log returns.
+
+import type { CandleData } from '@/services/bitgetApi';
+import type { IndicatorPoint } from '@/lib/indicators';
+import { readStored, writeStored } from '@/lib/storage';
+import type { WatchlistItem } from '@/lib/watchlists';
+
+export type CorrelationPeriod = 'window' | 'full';
+
+export interface AlignedReturns {
+  timestamps: number[]; // close time of each return
+  returns: Record<string, number[]>; // by basket key, same length as timestamps
+}
+
+export interface CorrelationAnalysis {
+  keys: string[];
+  window: number;
+  period: CorrelationPeriod;
+  observations: number; // returns used for the matrix
+  from: number | null;
+  to: number | null;
+  matrix: (number | null)[][]; // keys x keys
+  betas: Record<string, number | null>; // to the benchmark
+  benchmark: string;
+}
+
+const BASKET_KEY = 'coinai.correlationBasket';
+
+export const BENCHMARK: WatchlistItem = {
+  symbol: 'BTCUSDT',
+  marketType: 'spot',
+};
+
+export const defaultBasket: WatchlistItem[] = [
+  { symbol: 'BTCUSDT', marketType: 'spot' },
+  { symbol: 'ETHUSDT', marketType: 'spot' },
+  { symbol: 'SOLUSDT', marketType: 'spot' },
+  { symbol: 'XRPUSDT', marketType: 'spot' },
+];
+
+export const correlationWindows = [20, 30, 50, 100];
+
+export const basketKey = (item: WatchlistItem) =>
+  `${item.marketType}:${item.symbol}`;
+
+export function loadBasket(): WatchlistItem[] {
+  const stored = readStored<WatchlistItem[] | null>(BASKET_KEY, null);
+  return Array.isArray(stored)
+    ? stored.filter(
+        item =>
+          item &&
+          typeof item.symbol === 'string' &&
+          (item.marketType === 'spot' || item.marketType === 'futures')
+      )
+    : defaultBasket;
+}
+
+export function saveBasket(basket: WatchlistItem[]): void {
+  writeStored(BASKET_KEY, basket);
+}
+
+// Log returns on the timestamps present in every series
+export function alignReturns(
+  candlesByKey: Record<string, CandleData[]>
+): AlignedReturns {
+  const keys = Object.keys(candlesByKey);
+  if (keys.length === 0) return { timestamps: [], returns: {} };
+
+  const closesByKey = keys.map(
+    key => new Map(candlesByKey[key].map(c => [c.timestamp, c.close]))
+  );
+  const shared = candlesByKey[keys[0]]
+    .map(c => c.timestamp)
+    .filter(ts => closesByKey.every(closes => (closes.get(ts) ?? 0) > 0))
+    .sort((a, b) => a - b);
+
+  const returns: Record<string, number[]> = {};
+  keys.forEach((key, k) => {
+    const closes = shared.map(ts => closesByKey[k].get(ts) as number);
+    returns[key] = closes
+      .slice(1)
+      .map((close, i) => Math.log(close / closes[i]));
+  });
+  return { timestamps: shared.slice(1), returns };
+}
+
+const mean = (values: number[]) =>
+  values.reduce((sum, v) => sum + v, 0) / values.length;
+
+function covariance(a: number[], b: number[]): number {
+  const meanA = mean(a);
+  const meanB = mean(b);
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += (a[i] - meanA) * (b[i] - meanB);
+  return sum / (a.length - 1);
+}
+
+// Pearson correlation; null when either side is flat or too short
+export function correlation(a: number[], b: number[]): number | null {
+  if (a.length < 3 || a.length !== b.length) return null;
+  const denominator = Math.sqrt(covariance(a, a) * covariance(b, b));
+  if (!(denominator > 0)) return null;
+  return Math.max(-1, Math.min(1, covariance(a, b) / denominator));
+}
+
+// Sensitivity of asset returns to benchmark returns
+export function beta(asset: number[], benchmark: number[]): number | null {
+  if (asset.length < 3 || asset.length !== benchmark.length) return null;
+  const variance = covariance(benchmark, benchmark);
+  return variance > 0 ? covariance(asset, benchmark) / variance : null;
+}
+
+export function rollingCorrelation(
+  aligned: AlignedReturns,
+  keyA: string,
+  keyB: string,
+  window: number
+): IndicatorPoint[] {
+  const a = aligned.returns[keyA];
+  const b = aligned.returns[keyB];
+  if (!a || !b) return [];
+  const points: IndicatorPoint[] = [];
+  for (let end = window; end <= a.length; end++) {
+    const value = correlation(
+      a.slice(end - window, end),
+      b.slice(end - window, end)
+    );
+    if (value !== null) {
+      points.push({ timestamp: aligned.timestamps[end - 1], value });
+    }
+  }
+  return points;
+}
+
+// Matrix over the latest window or the full period, plus beta to the
+// benchmark over the same returns
+export function analyzeBasket(
+  keys: string[],
+  aligned: AlignedReturns,
+  window: number,
+  period: CorrelationPeriod,
+  benchmark: string = basketKey(BENCHMARK)
+): CorrelationAnalysis {
+  const total = aligned.timestamps.length;
+  const start = period === 'window' ? Math.max(0, total - window) : 0;
+  const slice = (key: string) => (aligned.returns[key] || []).slice(start);
+  const benchmarkReturns = slice(benchmark);
+
+  return {
+    keys,
+    window,
+    period,
+    observations: total - start,
+    from: total > start ? aligned.timestamps[start] : null,
+    to: total > 0 ? aligned.timestamps[total - 1] : null,
+    matrix: keys.map(a =>
+      keys.map(b => (a === b ? 1 : correlation(slice(a), slice(b))))
+    ),
+    betas: Object.fromEntries(
+      keys.map(key => [key, beta(slice(key), benchmarkReturns)])
+    ),
+    benchmark,
+  };
+}
+
+const formatValue = (value: number | null) =>
+  value === null ? '' : value.toFixed(4);
+
+export function correlationToCsv(analysis: CorrelationAnalysis): string {
+  return [
+    ['symbol', ...analysis.keys, `beta_${analysis.benchmark}`].join(','),
+    ...analysis.keys.map((key, i) =>
+      [
+        key,
+        ...analysis.matrix[i].map(formatValue),
+        formatValue(analysis.betas[key]),
+      ].join(',')
+    ),
+  ].join('\n');
+}
+
+export function correlationToJson(
+  analysis: CorrelationAnalysis,
+  rolling?: { pair: [string, string]; points: IndicatorPoint[] }
+): string {
+  return JSON.stringify(
+    {
+      ...analysis,
+      from: analysis.from ? new Date(analysis.from).toISOString() : null,
+      to: analysis.to ? new Date(analysis.to).toISOString() : null,
+      rolling: rolling
+        ? {
+            pair: rolling.pair,
+            window: analysis.window,
+            points: rolling.points.map(point => ({
+              timestamp: new Date(point.timestamp).toISOString(),
+              value: point.value,
+            })),
+          }
+        : undefined,
+    },
+    null,
+    2
+  );
+}
@@ -0,0 +1,158 @@
+// Binance spot and USDT-margined perpetual market data. Symbols match the
+// normalized form; perpetuals live on the separate fapi host.
+
+import type { CandleData, MarketType } from '@/services/bitgetApi';
+import { UpstreamError } from '@/lib/upstream';
+import {
+  fetchJson as defaultFetchJson,
+  nativeGranularity,
+  pageCandles,
+  toLevels,
+  toNumber,
+} from './common';
+import type { ExchangeProvider, FetchJson } from './types';
+
+const BASE_URLS: Record<MarketType, string> = {
+  spot: 'https://api.binance.com/api/v3',
+  futures: 'https://fapi.binance.com/fapi/v1',
+};
+
+const granularities: { [key: string]: string } = {
+  '1min': '1m',
+  '5min': '5m',
+  '15min': '15m',
+  '1h': '1h',
+  '4h': '4h',
+  '1day': '1d',
+  '1week': '1w',
+  '1month': '1M',
+};
+
+const KLINE_LIMIT = 1000;
+// Perpetual depth only accepts these sizes
+const FUTURES_DEPTHS = [5, 10, 20, 50, 100, 500, 1000];
+
+export function createBinanceProvider(
+  fetchJson: FetchJson = defaultFetchJson
+): ExchangeProvider {
+  const request = async <T>(
+    market: MarketType,
+    path: string,
+    params: { [key: string]: string } = {}
+  ): Promise<T> => {
+    const query = new URLSearchParams(params).toString();
+    const data = (await fetchJson(
+      `${BASE_URLS[market]}${path}${query ? `?${query}` : ''}`
+    )) as T & { code?: number; msg?: string };
+    // Errors come back as { code: negative number, msg }
+    if (
+      data &&
+      !Array.isArray(data) &&
+      typeof data.code === 'number' &&
+      data.code < 0
+    ) {
+      throw new UpstreamError(
+        `Binance API error: ${data.msg || data.code}`,
+        'API_ERROR',
+        { upstreamCode: String(data.code) }
+      );
+    }
+    return data;
+  };
+
+  return {
+    id: 'binance',
+    label: 'Binance',
+    granularities: Object.keys(granularities),
+
+    async getSymbols(market) {
+      const info = await request<{
+        symbols?: {
+          symbol: string;
+          status: string;
+          baseAsset: string;
+          quoteAsset: string;
+          contractType?: string;
+        }[];
+      }>(market, '/exchangeInfo');
+      return (info.symbols || [])
+        .filter(row => market === 'spot' || row.contractType === 'PERPETUAL')
+        .map(row => ({
+          symbol: row.symbol,
+          exchangeSymbol: row.symbol,
+          baseCoin: row.baseAsset,
+          quoteCoin: row.quoteAsset,
+          active: row.status === 'TRADING',
+        }));
+    },
+
+    async getTickers(market) {
+      const rows = await request<{ [key: string]: string | number }[]>(
+        market,
+        '/ticker/24hr'
+      );
+      return (Array.isArray(rows) ? rows : []).map(row => {
+        const change = toNumber(row.priceChangePercent);
+        return {
+          symbol: String(row.symbol),
+          lastPrice: toNumber(row.lastPrice) ?? 0,
+          open24h: toNumber(row.openPrice),
+          high24h: toNumber(row.highPrice),
+          low24h: toNumber(row.lowPrice),
+          change24h: change !== null ? change / 100 : null,
+          baseVolume: toNumber(row.volume),
+          quoteVolume: toNumber(row.quoteVolume),
+          // Perpetual 24h tickers carry no book prices
+          bidPrice: toNumber(row.bidPrice),
+          askPrice: toNumber(row.askPrice),
+          timestamp: toNumber(row.closeTime) ?? Date.now(),
+        };
+      });
+    },
+
+    async getCandles(market, symbol, query) {
+      const interval = nativeGranularity(
+        granularities,
+        query.granularity,
+        'Binance'
+      );
+      return pageCandles(query, KLINE_LIMIT, async endTime => {
+        // [openTime, open, high, low, close, volume, closeTime, quoteVolume, ...]
+        const rows = await request<(string | number)[][]>(market, '/klines', {
+          symbol,
+          interval,
+          endTime: endTime.toString(),
+          limit: KLINE_LIMIT.toString(),
+        });
+        return (Array.isArray(rows) ? rows : []).map(
+          (row): CandleData => ({
+            timestamp: Number(row[0]),
+            open: parseFloat(String(row[1])),
+            high: parseFloat(String(row[2])),
+            low: parseFloat(String(row[3])),
+            close: parseFloat(String(row[4])),
+            volume: parseFloat(String(row[5])),
+            quoteVolume: parseFloat(String(row[7])),
+          })
+        );
+      });
+    },
+
+    async getOrderbook(market, symbol, limit) {
+      const depth =
+        market === 'futures'
+          ? FUTURES_DEPTHS.find(size => size >= limit) || 1000
+          : Math.min(limit, 5000);
+      const book = await request<{
+        bids?: unknown;
+        asks?: unknown;
+        E?: number; // perpetuals only
+      }>(market, '/depth', { symbol, limit: depth.toString() });
+      return {
+        asks: toLevels(book.asks).slice(0, limit),
+        bids: toLevels(book.bids).slice(0, limit),
+        ts: (book.E || Date.now()).toString(),
+      };
+    },
+  };
+}
@@ -0,0 +1,171 @@
+// Bitget v2 public market data. Symbols already use the normalized form;
+// candles go through the same paging helper as the /api/bitget routes.
+
+import type { MarketType } from '@/services/bitgetApi';
+import { fetchCandleHistory } from '@/lib/candleHistory';
+import { UpstreamError } from '@/lib/upstream';
+import {
+  fetchJson as defaultFetchJson,
+  nativeGranularity,
+  toLevels,
+  toNumber,
+} from './common';
+import type { ExchangeProvider, FetchJson } from './types';
+
+const BASE_URL = 'https://api.bitget.com/api/v2';
+
+const granularities: Record<MarketType, { [key: string]: string }> = {
+  spot: {
+    '1min': '1min',
+    '5min': '5min',
+    '15min': '15min',
+    '1h': '1h',
+    '4h': '4h',
+    '1day': '1day',
+    '1week': '1week',
+    '1month': '1M',
+  },
+  futures: {
+    '1min': '1m',
+    '5min': '5m',
+    '15min': '15m',
+    '1h': '1H',
+    '4h': '4H',
+    '1day': '1D',
+    '1week': '1W',
+    '1month': '1M',
+  },
+};
+
+export function createBitgetProvider(
+  fetchJson: FetchJson = defaultFetchJson
+): ExchangeProvider {
+  const request = async <T>(
+    path: string,
+    params: { [key: string]: string } = {}
+  ): Promise<T> => {
+    const query = new URLSearchParams(params).toString();
+    const data = (await fetchJson(
+      `${BASE_URL}${path}${query ? `?${query}` : ''}`
+    )) as { code?: string; msg?: string; data?: T };
+    if (data.code && data.code !== '00000') {
+      throw new UpstreamError(
+        `Bitget API error: ${data.msg || 'Unknown error'}`,
+        'API_ERROR',
+        { upstreamCode: data.code }
+      );
+    }
+    return data.data as T;
+  };
+  const futuresParams = { productType: 'usdt-futures' };
+
+  return {
+    id: 'bitget',
+    label: 'Bitget',
+    granularities: Object.keys(granularities.spot),
+
+    async getSymbols(market) {
+      if (market === 'futures') {
+        const rows = await request<
+          {
+            symbol: string;
+            baseCoin: string;
+            quoteCoin: string;
+            symbolStatus: string;
+          }[]
+        >('/mix/market/contracts', futuresParams);
+        return (rows || []).map(row => ({
+          symbol: row.symbol,
+          exchangeSymbol: row.symbol,
+          baseCoin: row.baseCoin,
+          quoteCoin: row.quoteCoin,
+          active: row.symbolStatus === 'normal',
+        }));
+      }
+      const rows = await request<
+        {
+          symbol: string;
+          baseCoin: string;
+          quoteCoin: string;
+          status: string;
+        }[]
+      >('/spot/public/symbols');
+      return (rows || []).map(row => ({
+        symbol: row.symbol,
+        exchangeSymbol: row.symbol,
+        baseCoin: row.baseCoin,
+        quoteCoin: row.quoteCoin,
+        active: row.status === 'online',
+      }));
+    },
+
+    async getTickers(market) {
+      const rows = await request<{ [key: string]: string }[]>(
+        market === 'futures' ? '/mix/market/tickers' : '/spot/market/tickers',
+        market === 'futures' ? futuresParams : {}
+      );
+      return (rows || []).map(row => ({
+        symbol: row.symbol,
+        lastPrice: toNumber(row.lastPr) ?? 0,
+        open24h: toNumber(row.open24h ?? row.open),
+        high24h: toNumber(row.high24h),
+        low24h: toNumber(row.low24h),
+        change24h: toNumber(row.change24h),
+        baseVolume: toNumber(row.baseVolume),
+        quoteVolume: toNumber(row.quoteVolume),
+        bidPrice: toNumber(row.bidPr),
+        askPrice: toNumber(row.askPr),
+        timestamp: parseInt(row.ts) || Date.now(),
+      }));
+    },
+
+    async getCandles(market, symbol, query) {
+      const { candles } = await fetchCandleHistory(
+        {
+          market,
+          symbol,
+          granularity: nativeGranularity(
+            granularities[market],
+            query.granularity,
+            'Bitget'
+          ),
+          startTime: query.startTime,
+          endTime: query.endTime,
+          limit: query.limit,
+        },
+        fetchJson
+      );
+      return candles.map(row => ({
+        timestamp: parseInt(row[0]),
+        open: parseFloat(row[1]),
+        high: parseFloat(row[2]),
+        low: parseFloat(row[3]),
+        close: parseFloat(row[4]),
+        volume: parseFloat(row[5]),
+        quoteVolume: parseFloat(row[6]),
+      }));
+    },
+
+    async getOrderbook(market, symbol, limit) {
+      const book = await request<{
+        asks: unknown;
+        bids: unknown;
+        ts: string;
+      }>(
+        market === 'futures'
+          ? '/mix/market/orderbook'
+          : '/spot/market/orderbook',
+        {
+          symbol,
+          limit: Math.min(limit, market === 'futures' ? 100 : 500).toString(),
+          ...(market === 'futures' ? futuresParams : {}),
+        }
+      );
+      return {
+        asks: toLevels(book?.asks),
+        bids: toLevels(book?.bids),
+        ts: book?.ts || Date.now().toString(),
+      };
+    },
+  };
+}
@@ -0,0 +1,168 @@
+// Bybit v5 market data. Spot and USDT perpetuals share endpoints and differ
+// only by category; symbols match the normalized form.
+
+import type { CandleData, MarketType } from '@/services/bitgetApi';
+import { UpstreamError } from '@/lib/upstream';
+import {
+  fetchJson as defaultFetchJson,
+  nativeGranularity,
+  pageCandles,
+  toLevels,
+  toNumber,
+} from './common';
+import type { ExchangeProvider, FetchJson } from './types';
+
+const BASE_URL = 'https://api.bybit.com/v5';
+
+const granularities: { [key: string]: string } = {
+  '1min': '1',
+  '5min': '5',
+  '15min': '15',
+  '1h': '60',
+  '4h': '240',
+  '1day': 'D',
+  '1week': 'W',
+  '1month': 'M',
+};
+
+const KLINE_LIMIT = 1000;
+const bookLimit = { spot: 200, futures: 500 };
+const MAX_INSTRUMENT_PAGES = 10;
+
+const category = (market: MarketType) =>
+  market === 'futures' ? 'linear' : 'spot';
+
+export function createBybitProvider(
+  fetchJson: FetchJson = defaultFetchJson
+): ExchangeProvider {
+  const request = async <T>(
+    path: string,
+    params: { [key: string]: string }
+  ): Promise<T> => {
+    const query = new URLSearchParams(params).toString();
+    const data = (await fetchJson(`${BASE_URL}${path}?${query}`)) as {
+      retCode?: number;
+      retMsg?: string;
+      result?: T;
+    };
+    if (data.retCode !== 0) {
+      throw new UpstreamError(
+        `Bybit API error: ${data.retMsg || data.retCode}`,
+        'API_ERROR',
+        { upstreamCode: String(data.retCode) }
+      );
+    }
+    return data.result as T;
+  };
+
+  return {
+    id: 'bybit',
+    label: 'Bybit',
+    granularities: Object.keys(granularities),
+
+    async getSymbols(market) {
+      type Instrument = {
+        symbol: string;
+        baseCoin: string;
+        quoteCoin: string;
+        status: string;
+        contractType?: string;
+      };
+      // Linear instruments are paged with a cursor
+      const rows: Instrument[] = [];
+      let cursor = '';
+      for (let page = 0; page < MAX_INSTRUMENT_PAGES; page++) {
+        const result = await request<{
+          list?: Instrument[];
+          nextPageCursor?: string;
+        }>('/market/instruments-info', {
+          category: category(market),
+          limit: '1000',
+          ...(cursor ? { cursor } : {}),
+        });
+        rows.push(...(result?.list || []));
+        cursor = result?.nextPageCursor || '';
+        if (!cursor) break;
+      }
+      return rows
+        .filter(
+          row =>
+            market === 'spot' ||
+            (row.contractType === 'LinearPerpetual' && row.quoteCoin === 'USDT')
+        )
+        .map(row => ({
+          symbol: row.symbol,
+          exchangeSymbol: row.symbol,
+          baseCoin: row.baseCoin,
+          quoteCoin: row.quoteCoin,
+          active: row.status === 'Trading',
+        }));
+    },
+
+    async getTickers(market) {
+      const result = await request<{ list?: { [key: string]: string }[] }>(
+        '/market/tickers',
+        { category: category(market) }
+      );
+      const now = Date.now();
+      return (result?.list || []).map(row => ({
+        symbol: row.symbol,
+        lastPrice: toNumber(row.lastPrice) ?? 0,
+        open24h: toNumber(row.prevPrice24h),
+        high24h: toNumber(row.highPrice24h),
+        low24h: toNumber(row.lowPrice24h),
+        change24h: toNumber(row.price24hPcnt), // already a fraction
+        baseVolume: toNumber(row.volume24h),
+        quoteVolume: toNumber(row.turnover24h),
+        bidPrice: toNumber(row.bid1Price),
+        askPrice: toNumber(row.ask1Price),
+        timestamp: now,
+      }));
+    },
+
+    async getCandles(market, symbol, query) {
+      const interval = nativeGranularity(
+        granularities,
+        query.granularity,
+        'Bybit'
+      );
+      return pageCandles(query, KLINE_LIMIT, async endTime => {
+        // [startTime, open, high, low, close, volume, turnover], newest first
+        const result = await request<{ list?: string[][] }>('/market/kline', {
+          category: category(market),
+          symbol,
+          interval,
+          end: endTime.toString(),
+          limit: KLINE_LIMIT.toString(),
+        });
+        return (result?.list || []).map(
+          (row): CandleData => ({
+            timestamp: parseInt(row[0]),
+            open: parseFloat(row[1]),
+            high: parseFloat(row[2]),
+            low: parseFloat(row[3]),
+            close: parseFloat(row[4]),
+            volume: parseFloat(row[5]),
+            quoteVolume: parseFloat(row[6]),
+          })
+        );
+      });
+    },
+
+    async getOrderbook(market, symbol, limit) {
+      const book = await request<{ a?: unknown; b?: unknown; ts?: number }>(
+        '/market/orderbook',
+        {
+          category: category(market),
+          symbol,
+          limit: Math.min(limit, bookLimit[market]).toString(),
+        }
+      );
+      return {
+        asks: toLevels(book?.a),
+        bids: toLevels(book?.b),
+        ts: (book?.ts || Date.now()).toString(),
+      };
+    },
+  };
+}
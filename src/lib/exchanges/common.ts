@@ -0,0 +1,123 @@
+// Helpers shared by the exchange providers: the default JSON fetcher,
+// symbol and granularity normalization and backwards candle paging.
+
+import type { CandleData } from '@/services/bitgetApi';
+import { granularityToMs, MAX_HISTORY_CANDLES } from '@/lib/granularity';
+import { fetchUpstreamJson } from '@/lib/upstream';
+import { CandleQuery, ExchangeRequestError, FetchJson } from './types';
+
+// Quote coins recognized when splitting a normalized symbol, longest first so
+// FDUSD wins over USD
+const QUOTE_COINS = [
+  'FDUSD',
+  'USDT',
+  'USDC',
+  'BUSD',
+  'TUSD',
+  'USD',
+  'EUR',
+  'BTC',
+  'ETH',
+];
+
+export const fetchJson: FetchJson = url =>
+  fetchUpstreamJson(url, { timeoutMs: 15000 });
+
+export function splitSymbol(symbol: string): {
+  baseCoin: string;
+  quoteCoin: string;
+} {
+  const upper = symbol.toUpperCase();
+  const quoteCoin = QUOTE_COINS.find(
+    quote => upper.endsWith(quote) && upper.length > quote.length
+  );
+  if (!quoteCoin) {
+    throw new ExchangeRequestError(`Unrecognized symbol ${symbol}`);
+  }
+  return { baseCoin: upper.slice(0, -quoteCoin.length), quoteCoin };
+}
+
+export function nativeGranularity(
+  granularities: { [key: string]: string },
+  granularity: string,
+  exchange: string
+): string {
+  const native = granularities[granularity];
+  if (!native) {
+    throw new ExchangeRequestError(
+      `${exchange} does not serve ${granularity} candles`
+    );
+  }
+  return native;
+}
+
+// Parse a numeric field, keeping missing values distinguishable from zero
+export function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const num = typeof value === 'number' ? value : parseFloat(String(value));
+  return Number.isFinite(num) ? num : null;
+}
+
+// Price levels as [price, size] strings, scaling sizes that are quoted in
+// contracts into the base coin
+export function toLevels(
+  rows: unknown,
+  sizeMultiplier: number = 1
+): [string, string][] {
+  if (!Array.isArray(rows)) return [];
+  return rows.map((row: unknown[]) => [
+    String(row[0]),
+    sizeMultiplier === 1
+      ? String(row[1])
+      : String(parseFloat(String(row[1])) * sizeMultiplier),
+  ]);
+}
+
+// Walk an exchange's candle endpoint backwards from endTime. fetchPage gets
+// the newest open time wanted and returns whatever candles the exchange sends
+// up to it, in any order. pageSize is the fewest candles a full page holds.
+export async function pageCandles(
+  query: CandleQuery,
+  pageSize: number,
+  fetchPage: (endTime: number) => Promise<CandleData[]>
+): Promise<CandleData[]> {
+  // Enough pages for the largest request, plus one for a partial newest page
+  const maxPages = Math.ceil(MAX_HISTORY_CANDLES / pageSize) + 1;
+  const stepMs = granularityToMs(query.granularity);
+  const limit = Math.max(1, Math.min(query.limit, MAX_HISTORY_CANDLES));
+  const endTime = query.endTime ?? Date.now();
+  const startTime = query.startTime ?? endTime - limit * stepMs;
+
+  const byTimestamp = new Map<number, CandleData>();
+  let cursor = endTime;
+  for (let page = 0; page < maxPages && byTimestamp.size < limit; page++) {
+    let candles: CandleData[];
+    try {
+      candles = await fetchPage(cursor);
+    } catch (error) {
+      // Keep what we already have if a later page fails
+      if (byTimestamp.size === 0) throw error;
+      console.error('Stopping candle pagination:', error);
+      break;
+    }
+    if (candles.length === 0) break;
+
+    let earliest = cursor;
+    candles.forEach(candle => {
+      earliest = Math.min(earliest, candle.timestamp);
+      if (candle.timestamp >= startTime && candle.timestamp <= endTime) {
+        byTimestamp.set(candle.timestamp, candle);
+      }
+    });
+
+    // No whole candle can open between startTime and the earliest one seen
+    if (earliest - startTime < stepMs) break;
+    // Guard against endpoints that ignore the end time
+    if (earliest >= cursor) break;
+    cursor = earliest - 1;
+  }
+
+  return Array.from(byTimestamp.values())
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .slice(-limit);
+}
@@ -0,0 +1,60 @@
+// Registry of exchange providers. Server code asks for a provider by id;
+// tests and scripts can build one around their own fetcher instead.
+
+import { createBinanceProvider } from './binance';
+import { createBitgetProvider } from './bitget';
+import { createBybitProvider } from './bybit';
+import { createOkxProvider } from './okx';
+import type { MarketType } from '@/services/bitgetApi';
+import {
+  ExchangeId,
+  ExchangeProvider,
+  ExchangeRequestError,
+  FetchJson,
+  isExchangeId,
+} from './types';
+
+export * from './types';
+
+const factories: Record<
+  ExchangeId,
+  (fetchJson?: FetchJson) => ExchangeProvider
+> = {
+  bitget: createBitgetProvider,
+  binance: createBinanceProvider,
+  okx: createOkxProvider,
+  bybit: createBybitProvider,
+};
+
+const providers = new Map<ExchangeId, ExchangeProvider>();
+
+export function createExchangeProvider(
+  id: ExchangeId,
+  fetchJson?: FetchJson
+): ExchangeProvider {
+  return factories[id](fetchJson);
+}
+
+// Shared instance using the network
+export function getExchangeProvider(id: ExchangeId): ExchangeProvider {
+  let provider = providers.get(id);
+  if (!provider) {
+    provider = createExchangeProvider(id);
+    providers.set(id, provider);
+  }
+  return provider;
+}
+
+// Route input helpers; both throw ExchangeRequestError for a 400 response
+export function providerFor(id: string): ExchangeProvider {
+  if (!isExchangeId(id)) {
+    throw new ExchangeRequestError(`Unknown exchange ${id}`);
+  }
+  return getExchangeProvider(id);
+}
+
+export function parseMarket(value: string | null): MarketType {
+  if (!value || value === 'spot') return 'spot';
+  if (value === 'futures') return 'futures';
+  throw new ExchangeRequestError('market must be spot or futures');
+}
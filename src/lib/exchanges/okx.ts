@@ -0,0 +1,218 @@
+// OKX v5 market data. Instruments are named BTC-USDT (spot) and
+// BTC-USDT-SWAP (perpetual); perpetual sizes are quoted in contracts and
+// converted to the base coin with the contract value.
+
+import type { CandleData, MarketType } from '@/services/bitgetApi';
+import { UpstreamError } from '@/lib/upstream';
+import {
+  fetchJson as defaultFetchJson,
+  nativeGranularity,
+  pageCandles,
+  splitSymbol,
+  toLevels,
+  toNumber,
+} from './common';
+import type { ExchangeProvider, FetchJson } from './types';
+
+const BASE_URL = 'https://www.okx.com/api/v5';
+
+// UTC-aligned bars so daily and longer candles line up with other exchanges
+const granularities: { [key: string]: string } = {
+  '1min': '1m',
+  '5min': '5m',
+  '15min': '15m',
+  '1h': '1H',
+  '4h': '4H',
+  '1day': '1Dutc',
+  '1week': '1Wutc',
+  '1month': '1Mutc',
+};
+
+const CANDLE_LIMIT = 300; // /market/candles
+const HISTORY_LIMIT = 100; // /market/history-candles
+const BOOK_LIMIT = 400;
+
+const instType = (market: MarketType) =>
+  market === 'futures' ? 'SWAP' : 'SPOT';
+
+export function toOkxInstrument(market: MarketType, symbol: string): string {
+  const { baseCoin, quoteCoin } = splitSymbol(symbol);
+  return `${baseCoin}-${quoteCoin}${market === 'futures' ? '-SWAP' : ''}`;
+}
+
+interface OkxInstrument {
+  instId: string;
+  baseCcy?: string;
+  quoteCcy?: string;
+  settleCcy?: string;
+  ctType?: string; // linear or inverse, swaps only
+  ctVal?: string; // base coin per contract, swaps only
+  state: string;
+}
+
+export function createOkxProvider(
+  fetchJson: FetchJson = defaultFetchJson
+): ExchangeProvider {
+  // Contract values rarely change; keep them for the provider's lifetime
+  const contractValues = new Map<string, number>();
+
+  const request = async <T>(
+    path: string,
+    params: { [key: string]: string } = {}
+  ): Promise<T> => {
+    const query = new URLSearchParams(params).toString();
+    const data = (await fetchJson(
+      `${BASE_URL}${path}${query ? `?${query}` : ''}`
+    )) as { code?: string; msg?: string; data?: T };
+    if (data.code !== '0') {
+      throw new UpstreamError(
+        `OKX API error: ${data.msg || data.code}`,
+        'API_ERROR',
+        { upstreamCode: data.code }
+      );
+    }
+    return data.data as T;
+  };
+
+  const getInstruments = async (market: MarketType) => {
+    const rows = await request<OkxInstrument[]>('/public/instruments', {
+      instType: instType(market),
+    });
+    // Only USDT-margined linear swaps match the other exchanges' perpetuals
+    return (rows || []).filter(
+      row =>
+        market === 'spot' ||
+        (row.ctType === 'linear' && row.settleCcy === 'USDT')
+    );
+  };
+
+  const contractValue = async (instId: string) => {
+    const cached = contractValues.get(instId);
+    if (cached !== undefined) return cached;
+    const rows = await request<OkxInstrument[]>('/public/instruments', {
+      instType: 'SWAP',
+      instId,
+    });
+    const value = toNumber(rows?.[0]?.ctVal) ?? 1;
+    contractValues.set(instId, value);
+    return value;
+  };
+
+  const toSymbol = (instId: string) =>
+    instId.replace(/-SWAP$/, '').replace('-', '');
+
+  return {
+    id: 'okx',
+    label: 'OKX',
+    granularities: Object.keys(granularities),
+
+    async getSymbols(market) {
+      const rows = await getInstruments(market);
+      return rows.map(row => {
+        // Swaps leave baseCcy/quoteCcy empty; the id carries both
+        const [base, quote] = row.instId.split('-');
+        if (row.ctVal) contractValues.set(row.instId, parseFloat(row.ctVal));
+        return {
+          symbol: toSymbol(row.instId),
+          exchangeSymbol: row.instId,
+          baseCoin: row.baseCcy || base,
+          quoteCoin: row.quoteCcy || quote,
+          active: row.state === 'live',
+        };
+      });
+    },
+
+    async getTickers(market) {
+      const rows = await request<{ [key: string]: string }[]>(
+        '/market/tickers',
+        { instType: instType(market) }
+      );
+      return (rows || [])
+        .filter(row => market === 'spot' || row.instId.endsWith('-USDT-SWAP'))
+        .map(row => {
+          const last = toNumber(row.last) ?? 0;
+          const open = toNumber(row.open24h);
+          // Spot vol24h is in the base coin and volCcy24h in the quote coin;
+          // swap vol24h counts contracts and volCcy24h the base coin
+          const baseVolume =
+            market === 'futures'
+              ? toNumber(row.volCcy24h)
+              : toNumber(row.vol24h);
+          const quoteVolume =
+            market === 'futures'
+              ? baseVolume !== null
+                ? baseVolume * last
+                : null
+              : toNumber(row.volCcy24h);
+          return {
+            symbol: toSymbol(row.instId),
+            lastPrice: last,
+            open24h: open,
+            high24h: toNumber(row.high24h),
+            low24h: toNumber(row.low24h),
+            change24h: open ? last / open - 1 : null,
+            baseVolume,
+            quoteVolume,
+            bidPrice: toNumber(row.bidPx),
+            askPrice: toNumber(row.askPx),
+            timestamp: parseInt(row.ts) || Date.now(),
+          };
+        });
+    },
+
+    async getCandles(market, symbol, query) {
+      const instId = toOkxInstrument(market, symbol);
+      const bar = nativeGranularity(granularities, query.granularity, 'OKX');
+      let useHistory = false;
+      // Paging may fall back to the smaller history pages
+      return pageCandles(query, HISTORY_LIMIT, async endTime => {
+        const fetchRows = (history: boolean) =>
+          request<string[][]>(
+            history ? '/market/history-candles' : '/market/candles',
+            {
+              instId,
+              bar,
+              // "after" returns candles strictly older than the timestamp
+              after: (endTime + 1).toString(),
+              limit: (history ? HISTORY_LIMIT : CANDLE_LIMIT).toString(),
+            }
+          );
+        // The recent endpoint only reaches back ~1440 candles
+        let rows = useHistory ? [] : await fetchRows(false);
+        if (!rows || rows.length === 0) {
+          useHistory = true;
+          rows = await fetchRows(true);
+        }
+        // [ts, open, high, low, close, vol, volCcy, volCcyQuote, confirm]
+        return (rows || []).map(
+          (row): CandleData => ({
+            timestamp: parseInt(row[0]),
+            open: parseFloat(row[1]),
+            high: parseFloat(row[2]),
+            low: parseFloat(row[3]),
+            close: parseFloat(row[4]),
+            volume: parseFloat(market === 'futures' ? row[6] : row[5]),
+            quoteVolume: parseFloat(row[7]),
+          })
+        );
+      });
+    },
+
+    async getOrderbook(market, symbol, limit) {
+      const instId = toOkxInstrument(market, symbol);
+      const [books, multiplier] = await Promise.all([
+        request<{ asks: unknown; bids: unknown; ts: string }[]>(
+          '/market/books',
+          { instId, sz: Math.min(limit, BOOK_LIMIT).toString() }
+        ),
+        market === 'futures' ? contractValue(instId) : Promise.resolve(1),
+      ]);
+      const book = books?.[0];
+      return {
+        asks: toLevels(book?.asks, multiplier),
+        bids: toLevels(book?.bids, multiplier),
+        ts: book?.ts || Date.now().toString(),
+      };
+    },
+  };
+}
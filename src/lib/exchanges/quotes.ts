@@ -0,0 +1,66 @@
+// One symbol's ticker on every exchange and market. Whole-market ticker lists
+// are the only ticker call every exchange offers, so each list is kept
+// briefly and shared by every symbol requested in that time.
+
+import type { MarketType } from '@/services/bitgetApi';
+import { getExchangeProvider } from './index';
+import {
+  ExchangeId,
+  exchangeOptions,
+  MarketTicker,
+  VenueQuote,
+  VenueQuotesResult,
+} from './types';
+
+const TICKER_TTL_MS = 10 * 1000;
+
+const tickerCache = new Map<
+  string,
+  { fetchedAt: number; tickers: MarketTicker[] }
+>();
+
+async function cachedTickers(
+  exchange: ExchangeId,
+  marketType: MarketType
+): Promise<MarketTicker[]> {
+  const key = `${exchange}:${marketType}`;
+  const cached = tickerCache.get(key);
+  if (cached && Date.now() - cached.fetchedAt < TICKER_TTL_MS) {
+    return cached.tickers;
+  }
+  const tickers = await getExchangeProvider(exchange).getTickers(marketType);
+  tickerCache.set(key, { fetchedAt: Date.now(), tickers });
+  return tickers;
+}
+
+export async function getVenueQuotes(
+  symbol: string,
+  markets: MarketType[]
+): Promise<VenueQuotesResult> {
+  const venues = exchangeOptions.flatMap(({ value }) =>
+    markets.map(marketType => ({ exchange: value, marketType }))
+  );
+  const results = await Promise.allSettled(
+    venues.map(venue => cachedTickers(venue.exchange, venue.marketType))
+  );
+
+  const quotes: VenueQuote[] = [];
+  const failed: string[] = [];
+  results.forEach((result, i) => {
+    const { exchange, marketType } = venues[i];
+    if (result.status === 'rejected') {
+      console.error(
+        `Failed to fetch ${exchange} ${marketType} tickers:`,
+        result.reason
+      );
+      failed.push(`${exchange}:${marketType}`);
+      return;
+    }
+    const ticker = result.value.find(t => t.symbol === symbol);
+    // Not every pair is listed everywhere
+    if (ticker && ticker.lastPrice > 0) {
+      quotes.push({ ...ticker, exchange, marketType });
+    }
+  });
+  return { quotes, failed };
+}
@@ -0,0 +1,15 @@
+// The exchange the dashboard reads market data from, kept in the browser
+
+import { readStored, writeStored } from '@/lib/storage';
+import { ExchangeId, isExchangeId } from './types';
+
+const EXCHANGE_KEY = 'coinai.exchange';
+
+export function loadExchange(): ExchangeId {
+  const stored = readStored<string>(EXCHANGE_KEY, 'bitget');
+  return isExchangeId(stored) ? stored : 'bitget';
+}
+
+export function saveExchange(exchange: ExchangeId): void {
+  writeStored(EXCHANGE_KEY, exchange);
+}
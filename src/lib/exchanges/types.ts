@@ -0,0 +1,115 @@
+// Exchange-neutral market data shapes. Every provider returns symbols in the
+// dashboard's form (base + quote, e.g. BTCUSDT, for spot and USDT perpetuals
+// alike), candles as CandleData and orderbook sizes in the base coin, so the
+// rest of the app does not care which exchange the data came from.
+
+import type {
+  CandleData,
+  MarketType,
+  OrderbookData,
+} from '@/services/bitgetApi';
+
+export type ExchangeId = 'bitget' | 'binance' | 'okx' | 'bybit';
+
+export const exchangeOptions: { value: ExchangeId; label: string }[] = [
+  { value: 'bitget', label: 'Bitget' },
+  { value: 'binance', label: 'Binance' },
+  { value: 'okx', label: 'OKX' },
+  { value: 'bybit', label: 'Bybit' },
+];
+
+export const isExchangeId = (value: unknown): value is ExchangeId =>
+  exchangeOptions.some(option => option.value === value);
+
+export const exchangeLabel = (id: ExchangeId) =>
+  exchangeOptions.find(option => option.value === id)?.label || id;
+
+export interface FeeRates {
+  taker: number; // fraction
+  maker: number;
+}
+
+// Public base-tier fees, for when the symbol list carries no account rates
+export const defaultFees: Record<ExchangeId, Record<MarketType, FeeRates>> = {
+  bitget: {
+    spot: { taker: 0.001, maker: 0.001 },
+    futures: { taker: 0.0006, maker: 0.0002 },
+  },
+  binance: {
+    spot: { taker: 0.001, maker: 0.001 },
+    futures: { taker: 0.0005, maker: 0.0002 },
+  },
+  okx: {
+    spot: { taker: 0.001, maker: 0.0008 },
+    futures: { taker: 0.0005, maker: 0.0002 },
+  },
+  bybit: {
+    spot: { taker: 0.001, maker: 0.001 },
+    futures: { taker: 0.00055, maker: 0.0002 },
+  },
+};
+
+export interface MarketSymbol {
+  symbol: string; // normalized, e.g. BTCUSDT
+  exchangeSymbol: string; // as the exchange names it, e.g. BTC-USDT-SWAP
+  baseCoin: string;
+  quoteCoin: string;
+  active: boolean; // currently trading
+}
+
+export interface MarketTicker {
+  symbol: string; // normalized
+  lastPrice: number;
+  open24h: number | null;
+  high24h: number | null;
+  low24h: number | null;
+  change24h: number | null; // fraction, e.g. 0.0123
+  baseVolume: number | null;
+  quoteVolume: number | null;
+  bidPrice: number | null;
+  askPrice: number | null;
+  timestamp: number;
+}
+
+// One exchange and market's ticker for a symbol, for cross-exchange views
+export interface VenueQuote extends MarketTicker {
+  exchange: ExchangeId;
+  marketType: MarketType;
+}
+
+export interface VenueQuotesResult {
+  quotes: VenueQuote[];
+  failed: string[]; // exchange:market pairs that could not be fetched
+}
+
+export interface CandleQuery {
+  granularity: string; // UI value, e.g. 1h or 1day
+  startTime?: number; // ms
+  endTime?: number; // ms
+  limit: number;
+}
+
+// Fetches a URL and returns the parsed JSON body. Providers take one so they
+// can run against recorded fixtures instead of the network.
+export type FetchJson = (url: string) => Promise<unknown>;
+
+export interface ExchangeProvider {
+  id: ExchangeId;
+  label: string;
+  granularities: string[]; // UI granularity values this exchange serves
+  getSymbols(market: MarketType): Promise<MarketSymbol[]>;
+  getTickers(market: MarketType): Promise<MarketTicker[]>;
+  getCandles(
+    market: MarketType,
+    symbol: string,
+    query: CandleQuery
+  ): Promise<CandleData[]>; // oldest first
+  getOrderbook(
+    market: MarketType,
+    symbol: string,
+    limit: number
+  ): Promise<OrderbookData>;
+}
+
+// Bad input from the caller rather than an upstream failure
+export class ExchangeRequestError extends Error {}
@@ -0,0 +1,111 @@
+// Forecast accuracy across saved analysis reports, grouped by model, prompt
+// template or symbol. Only final scores (horizon passed) are counted.
+
+import type { AnalysisReportSummary } from '@/lib/analysis';
+import { exchangeLabel } from '@/lib/exchanges/types';
+import type { PlanScore } from '@/lib/tradePlan';
+
+export type AccuracyGrouping = 'model' | 'template' | 'symbol';
+
+export interface AccuracyStats {
+  key: string;
+  plans: number; // reports with a parsed trade plan
+  scored: number; // plans with a final score
+  directionalHits: number;
+  directionalTotal: number; // scored plans with a bullish or bearish bias
+  entered: number; // scored setups whose entry zone was reached
+  targetFirst: number; // a take-profit traded before the stop
+  stopFirst: number;
+  noEntry: number;
+  averageR: number | null; // over entered setups
+}
+
+export const accuracyGroupings: { value: AccuracyGrouping; label: string }[] = [
+  { value: 'model', label: 'Model' },
+  { value: 'template', label: 'Prompt template' },
+  { value: 'symbol', label: 'Symbol' },
+];
+
+// Which of the take-profits or the stop traded first, if either did
+export function firstHit(score: PlanScore): 'target' | 'stop' | null {
+  // Scoring stops at the stop, so any target counted came before it
+  if (score.targetsHit > 0) return 'target';
+  return score.outcome === 'stopped' ? 'stop' : null;
+}
+
+function groupKey(
+  report: AnalysisReportSummary,
+  grouping: AccuracyGrouping
+): string {
+  switch (grouping) {
+    case 'template':
+      return report.template
+        ? `${report.template.name} v${report.template.version}`
+        : 'No template';
+    case 'symbol':
+      return report.exchange && report.exchange !== 'bitget'
+        ? `${report.symbol} (${exchangeLabel(report.exchange)} ${report.marketType})`
+        : `${report.symbol} (${report.marketType})`;
+    default:
+      return `${report.provider} · ${report.model}`;
+  }
+}
+
+function emptyStats(key: string): AccuracyStats {
+  return {
+    key,
+    plans: 0,
+    scored: 0,
+    directionalHits: 0,
+    directionalTotal: 0,
+    entered: 0,
+    targetFirst: 0,
+    stopFirst: 0,
+    noEntry: 0,
+    averageR: null,
+  };
+}
+
+// Groups sorted by the number of scored plans, most first
+export function summarizeAccuracy(
+  reports: AnalysisReportSummary[],
+  grouping: AccuracyGrouping
+): AccuracyStats[] {
+  const groups = new Map<string, AccuracyStats>();
+  const rTotals = new Map<string, number>();
+
+  for (const report of reports) {
+    if (!report.plan) continue;
+    const key = groupKey(report, grouping);
+    const stats = groups.get(key) || emptyStats(key);
+    groups.set(key, stats);
+    stats.plans++;
+
+    const score = report.score;
+    if (!score?.complete) continue;
+    stats.scored++;
+    if (score.biasCorrect !== null) {
+      stats.directionalTotal++;
+      if (score.biasCorrect) stats.directionalHits++;
+    }
+    if (score.outcome === 'no-entry') stats.noEntry++;
+    if (score.entryPrice !== undefined) {
+      stats.entered++;
+      if (score.rMultiple !== null) {
+        rTotals.set(key, (rTotals.get(key) || 0) + score.rMultiple);
+      }
+    }
+    const hit = firstHit(score);
+    if (hit === 'target') stats.targetFirst++;
+    if (hit === 'stop') stats.stopFirst++;
+  }
+
+  groups.forEach((stats, key) => {
+    if (stats.entered > 0 && rTotals.has(key)) {
+      stats.averageR = (rTotals.get(key) as number) / stats.entered;
+    }
+  });
+  return Array.from(groups.values()).sort(
+    (a, b) => b.scored - a.scored || b.plans - a.plans
+  );
+}
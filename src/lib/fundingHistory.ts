@@ -0,0 +1,87 @@
+// Server-side helper that pages through Bitget's funding rate history, which
+// is served newest first in pages of at most 100 settlements.
+
+import { fetchBitgetJson } from '@/lib/upstream';
+
+const FUNDING_PAGE_SIZE = 100;
+const MAX_FUNDING_PAGES = 40;
+
+// Raw Bitget settlement row
+export interface RawFundingRate {
+  symbol: string;
+  fundingRate: string;
+  fundingTime: string;
+}
+
+export interface FundingHistoryRequest {
+  symbol: string;
+  startTime?: number; // ms
+  endTime?: number; // ms
+}
+
+export interface FundingHistoryResult {
+  rates: RawFundingRate[]; // ascending by fundingTime
+  pages: number;
+  complete: boolean; // reached startTime or the start of the symbol's history
+}
+
+async function fetchPage(
+  symbol: string,
+  pageNo: number
+): Promise<RawFundingRate[]> {
+  const { data } = await fetchBitgetJson<RawFundingRate[]>(
+    '/api/v2/mix/market/history-fund-rate',
+    {
+      symbol,
+      productType: 'usdt-futures',
+      pageSize: FUNDING_PAGE_SIZE.toString(),
+      pageNo: pageNo.toString(),
+    },
+    { timeoutMs: 15000 }
+  );
+  return Array.isArray(data) ? data : [];
+}
+
+// Fetch funding settlements between startTime and endTime. Without a
+// startTime only the most recent page is returned.
+export async function fetchFundingHistory(
+  request: FundingHistoryRequest
+): Promise<FundingHistoryResult> {
+  const endTime = request.endTime ?? Date.now();
+  const byTime = new Map<number, RawFundingRate>();
+  let pages = 0;
+  let complete = false;
+
+  while (pages < MAX_FUNDING_PAGES) {
+    const page = await fetchPage(request.symbol, pages + 1);
+    pages++;
+
+    for (const rate of page) {
+      const time = parseInt(rate.fundingTime);
+      if (isNaN(time) || time > endTime) continue;
+      if (request.startTime !== undefined && time < request.startTime) continue;
+      byTime.set(time, rate);
+    }
+
+    const oldest = page.reduce(
+      (min, rate) => Math.min(min, parseInt(rate.fundingTime)),
+      Infinity
+    );
+    if (page.length < FUNDING_PAGE_SIZE) {
+      complete = true;
+      break;
+    }
+    if (request.startTime === undefined || oldest <= request.startTime) {
+      complete = request.startTime !== undefined;
+      break;
+    }
+  }
+
+  return {
+    rates: Array.from(byTime.entries())
+      .sort((a, b) => a[0] - b[0])
+      .map(([, rate]) => rate),
+    pages,
+    complete,
+  };
+}
@@ -0,0 +1,202 @@
+// Futures-only chart data: mark and index price overlays plus funding rate
+// and open interest panes, and the summary figures shown next to them.
+
+import type {
+  CandleData,
+  FundingRateData,
+  OpenInterestPoint,
+} from '@/services/bitgetApi';
+import { candleBucket, DEFAULT_PANE_HEIGHT, PaneData } from '@/lib/panes';
+import type { OverlayLine } from '@/lib/overlays';
+import { readStored, writeStored } from '@/lib/storage';
+
+export interface FuturesOverlayConfig {
+  markPrice: boolean;
+  indexPrice: boolean;
+  funding: boolean; // pane
+  openInterest: boolean; // pane
+}
+
+export interface FuturesSeries {
+  mark: CandleData[];
+  index: CandleData[];
+  funding: FundingRateData[];
+  openInterest: OpenInterestPoint[];
+}
+
+export interface FundingStats {
+  settlements: number;
+  averageRate: number;
+  annualizedPercent: number; // average rate held for a year
+  cumulativePercent: number; // sum over the range, paid by longs
+  positiveShare: number; // fraction of settlements paid by longs
+}
+
+const OVERLAYS_KEY = 'coinai.futuresOverlays';
+
+export const defaultFuturesOverlays: FuturesOverlayConfig = {
+  markPrice: false,
+  indexPrice: false,
+  funding: false,
+  openInterest: false,
+};
+
+export const emptyFuturesSeries: FuturesSeries = {
+  mark: [],
+  index: [],
+  funding: [],
+  openInterest: [],
+};
+
+export const futuresOverlayOptions: {
+  key: keyof FuturesOverlayConfig;
+  label: string;
+}[] = [
+  { key: 'markPrice', label: 'Mark price' },
+  { key: 'indexPrice', label: 'Index price' },
+  { key: 'funding', label: 'Funding pane' },
+  { key: 'openInterest', label: 'Open interest pane' },
+];
+
+export function loadFuturesOverlays(): FuturesOverlayConfig {
+  const stored = readStored<Partial<FuturesOverlayConfig>>(OVERLAYS_KEY, {});
+  return { ...defaultFuturesOverlays, ...stored };
+}
+
+export function saveFuturesOverlays(config: FuturesOverlayConfig): void {
+  writeStored(OVERLAYS_KEY, config);
+}
+
+const closePoints = (candles: CandleData[]) =>
+  candles.map(candle => ({ timestamp: candle.timestamp, value: candle.close }));
+
+export function futuresOverlayLines(
+  config: FuturesOverlayConfig,
+  series: FuturesSeries
+): OverlayLine[] {
+  const lines: OverlayLine[] = [];
+  if (config.markPrice && series.mark.length > 0) {
+    lines.push({
+      key: 'futures-mark',
+      label: 'Mark',
+      color: '#f97316',
+      points: closePoints(series.mark),
+      style: 'dashed',
+    });
+  }
+  if (config.indexPrice && series.index.length > 0) {
+    lines.push({
+      key: 'futures-index',
+      label: 'Index',
+      color: '#a855f7',
+      points: closePoints(series.index),
+      style: 'line',
+    });
+  }
+  return lines;
+}
+
+// Group samples by the candle they fall in, the way the CVD pane buckets
+// trades: older samples are dropped, later ones count towards the last candle
+function bucketByCandle<T extends { timestamp: number }>(
+  samples: T[],
+  candles: CandleData[]
+): Map<number, T[]> {
+  const buckets = new Map<number, T[]>();
+  [...samples]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .forEach(sample => {
+      const bucket = candleBucket(candles, sample.timestamp);
+      if (bucket === null) return;
+      const inBucket = buckets.get(bucket);
+      if (inBucket) inBucket.push(sample);
+      else buckets.set(bucket, [sample]);
+    });
+  // Sorted samples fill the buckets oldest first
+  return buckets;
+}
+
+// Funding is summed per candle (what a position held through it paid) and
+// open interest is the last sample in each candle
+export function futuresPanes(
+  config: FuturesOverlayConfig,
+  series: FuturesSeries,
+  candles: CandleData[]
+): PaneData[] {
+  const panes: PaneData[] = [];
+  if (config.funding) {
+    const funding = Array.from(
+      bucketByCandle(series.funding, candles),
+      ([timestamp, rates]) => ({
+        timestamp,
+        rate: rates.reduce((sum, rate) => sum + rate.rate, 0),
+      })
+    );
+    panes.push({
+      id: 'futures-funding',
+      label: 'Funding (bps)',
+      height: DEFAULT_PANE_HEIGHT,
+      series: [
+        {
+          key: 'funding',
+          label: 'Funding',
+          kind: 'histogram',
+          color: '#10b981',
+          points: funding.map(rate => ({
+            timestamp: rate.timestamp,
+            value: rate.rate * 10000,
+            color: rate.rate >= 0 ? '#10b981' : '#ef4444',
+          })),
+        },
+      ],
+      levels: [0],
+    });
+  }
+  if (config.openInterest) {
+    panes.push({
+      id: 'futures-open-interest',
+      label: 'Open interest',
+      height: DEFAULT_PANE_HEIGHT,
+      series: [
+        {
+          key: 'open-interest',
+          label: 'Open interest',
+          kind: 'line',
+          color: '#3b82f6',
+          points: Array.from(
+            bucketByCandle(series.openInterest, candles),
+            ([timestamp, points]) => ({
+              timestamp,
+              value: points[points.length - 1].size,
+            })
+          ),
+          volumeFormat: true,
+        },
+      ],
+      levels: [],
+    });
+  }
+  return panes;
+}
+
+export function fundingStats(
+  rates: FundingRateData[],
+  intervalHours: number = 8
+): FundingStats | null {
+  if (rates.length === 0) return null;
+  const total = rates.reduce((sum, rate) => sum + rate.rate, 0);
+  const averageRate = total / rates.length;
+  return {
+    settlements: rates.length,
+    averageRate,
+    annualizedPercent: averageRate * ((365 * 24) / intervalHours) * 100,
+    cumulativePercent: total * 100,
+    positiveShare: rates.filter(rate => rate.rate > 0).length / rates.length,
+  };
+}
+
+// Percent change between the first and last recorded sample
+export function openInterestChange(points: OpenInterestPoint[]): number | null {
+  if (points.length < 2 || !(points[0].size > 0)) return null;
+  return (points[points.length - 1].size / points[0].size - 1) * 100;
+}
@@ -0,0 +1,51 @@
+// Server-side helpers for Bitget's USDT-perpetual market snapshots: the
+// current funding rate and open interest.
+
+import { fetchBitgetJson } from '@/lib/upstream';
+
+// Raw Bitget current funding row
+export interface RawCurrentFunding {
+  symbol: string;
+  fundingRate: string;
+  fundingRateInterval?: string; // hours
+  nextUpdate?: string; // ms
+  minFundingRate?: string;
+  maxFundingRate?: string;
+}
+
+export interface OpenInterestSample {
+  timestamp: number; // ms
+  size: number; // open contracts in base coin
+}
+
+async function fetchBitget<T>(path: string, symbol: string): Promise<T> {
+  const { data } = await fetchBitgetJson<T>(`/api/v2/mix/market/${path}`, {
+    symbol,
+    productType: 'usdt-futures',
+  });
+  return data;
+}
+
+export async function fetchCurrentFunding(
+  symbol: string
+): Promise<RawCurrentFunding> {
+  const rows = await fetchBitget<RawCurrentFunding[]>(
+    'current-fund-rate',
+    symbol
+  );
+  const row = Array.isArray(rows) ? rows[0] : undefined;
+  if (!row) throw new Error(`No funding rate for ${symbol}`);
+  return row;
+}
+
+export async function fetchOpenInterest(
+  symbol: string
+): Promise<OpenInterestSample> {
+  const data = await fetchBitget<{
+    openInterestList?: { symbol: string; size: string }[];
+    ts?: string;
+  }>('open-interest', symbol);
+  const size = parseFloat(data?.openInterestList?.[0]?.size ?? '');
+  if (isNaN(size)) throw new Error(`No open interest for ${symbol}`);
+  return { timestamp: parseInt(data.ts ?? '') || Date.now(), size };
+}
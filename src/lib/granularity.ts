@@ -0,0 +1,50 @@
+// Candle timing helpers shared by the browser services and the server. Keep
+// this module free of imports so client bundles never pull in server code.
+
+export const MAX_HISTORY_CANDLES = 50000;
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+// Candle duration in ms for UI, spot and futures granularity values
+const granularityMs: { [key: string]: number } = {
+  '1min': MINUTE_MS,
+  '1m': MINUTE_MS,
+  '3min': 3 * MINUTE_MS,
+  '3m': 3 * MINUTE_MS,
+  '5min': 5 * MINUTE_MS,
+  '5m': 5 * MINUTE_MS,
+  '15min': 15 * MINUTE_MS,
+  '15m': 15 * MINUTE_MS,
+  '30min': 30 * MINUTE_MS,
+  '30m': 30 * MINUTE_MS,
+  '1h': HOUR_MS,
+  '1H': HOUR_MS,
+  '4h': 4 * HOUR_MS,
+  '4H': 4 * HOUR_MS,
+  '6h': 6 * HOUR_MS,
+  '6H': 6 * HOUR_MS,
+  '12h': 12 * HOUR_MS,
+  '12H': 12 * HOUR_MS,
+  '1day': DAY_MS,
+  '1D': DAY_MS,
+  '3day': 3 * DAY_MS,
+  '3D': 3 * DAY_MS,
+  '1week': 7 * DAY_MS,
+  '1W': 7 * DAY_MS,
+  '1month': 30 * DAY_MS,
+  '1M': 30 * DAY_MS,
+};
+
+export function granularityToMs(granularity: string): number {
+  return granularityMs[granularity] || DAY_MS;
+}
+
+// Accept both second and millisecond timestamps, always return milliseconds
+export function toMilliseconds(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const num = parseInt(value);
+  if (isNaN(num)) return undefined;
+  return num > 9999999999 ? num : num * 1000;
+}
@@ -0,0 +1,418 @@
+import type { CandleData } from '@/services/bitgetApi';
+
+// Series values are aligned with the input array; null until enough history
+export type IndicatorValues = (number | null)[];
+
+export interface IndicatorPoint {
+  timestamp: number;
+  value: number;
+  color?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function closes(candles: CandleData[]): number[] {
+  return candles.map(c => c.close);
+}
+
+// Simple moving average
+export function sma(values: number[], period: number): IndicatorValues {
+  const result: IndicatorValues = new Array(values.length).fill(null);
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) {
+    sum += values[i];
+    if (i >= period) sum -= values[i - period];
+    if (i >= period - 1) result[i] = sum / period;
+  }
+  return result;
+}
+
+// Exponential moving average, seeded with the SMA of the first period
+export function ema(values: number[], period: number): IndicatorValues {
+  const result: IndicatorValues = new Array(values.length).fill(null);
+  if (values.length < period) return result;
+  const k = 2 / (period + 1);
+  let prev = values.slice(0, period).reduce((sum, v) => sum + v, 0) / period;
+  result[period - 1] = prev;
+  for (let i = period; i < values.length; i++) {
+    prev = values[i] * k + prev * (1 - k);
+    result[i] = prev;
+  }
+  return result;
+}
+
+// Linearly weighted moving average
+export function wma(values: number[], period: number): IndicatorValues {
+  const result: IndicatorValues = new Array(values.length).fill(null);
+  const weightSum = (period * (period + 1)) / 2;
+  for (let i = period - 1; i < values.length; i++) {
+    let sum = 0;
+    for (let j = 0; j < period; j++) {
+      sum += values[i - j] * (period - j);
+    }
+    result[i] = sum / weightSum;
+  }
+  return result;
+}
+
+// Wilder's smoothing (RMA), used by ATR and RSI
+export function rma(values: number[], period: number): IndicatorValues {
+  const result: IndicatorValues = new Array(values.length).fill(null);
+  if (values.length < period) return result;
+  let prev = values.slice(0, period).reduce((sum, v) => sum + v, 0) / period;
+  result[period - 1] = prev;
+  for (let i = period; i < values.length; i++) {
+    prev = (prev * (period - 1) + values[i]) / period;
+    result[i] = prev;
+  }
+  return result;
+}
+
+export function standardDeviation(
+  values: number[],
+  period: number
+): IndicatorValues {
+  const means = sma(values, period);
+  return means.map((mean, i) => {
+    if (mean === null) return null;
+    let variance = 0;
+    for (let j = i - period + 1; j <= i; j++) {
+      variance += (values[j] - mean) ** 2;
+    }
+    return Math.sqrt(variance / period);
+  });
+}
+
+export function bollingerBands(
+  values: number[],
+  period: number = 20,
+  multiplier: number = 2
+): { upper: IndicatorValues; middle: IndicatorValues; lower: IndicatorValues } {
+  const middle = sma(values, period);
+  const deviation = standardDeviation(values, period);
+  return {
+    upper: middle.map((m, i) =>
+      m === null ? null : m + multiplier * (deviation[i] as number)
+    ),
+    middle,
+    lower: middle.map((m, i) =>
+      m === null ? null : m - multiplier * (deviation[i] as number)
+    ),
+  };
+}
+
+// Volume-weighted average price. Intraday candles reset at each UTC day,
+// daily and slower candles accumulate over the whole range.
+export function vwap(candles: CandleData[]): IndicatorValues {
+  const intraday =
+    candles.length > 1 && candles[1].timestamp - candles[0].timestamp < DAY_MS;
+  let cumulativePV = 0;
+  let cumulativeVolume = 0;
+  let session = -1;
+
+  return candles.map(c => {
+    const day = Math.floor(c.timestamp / DAY_MS);
+    if (intraday && day !== session) {
+      session = day;
+      cumulativePV = 0;
+      cumulativeVolume = 0;
+    }
+    const typical = (c.high + c.low + c.close) / 3;
+    cumulativePV += typical * c.volume;
+    cumulativeVolume += c.volume;
+    return cumulativeVolume > 0 ? cumulativePV / cumulativeVolume : null;
+  });
+}
+
+export function trueRange(candles: CandleData[]): number[] {
+  return candles.map((c, i) => {
+    if (i === 0) return c.high - c.low;
+    const prevClose = candles[i - 1].close;
+    return Math.max(
+      c.high - c.low,
+      Math.abs(c.high - prevClose),
+      Math.abs(c.low - prevClose)
+    );
+  });
+}
+
+// Average true range (Wilder)
+export function atr(candles: CandleData[], period: number = 14) {
+  return rma(trueRange(candles), period);
+}
+
+function midpoint(candles: CandleData[], end: number, period: number) {
+  if (end < period - 1) return null;
+  let high = -Infinity;
+  let low = Infinity;
+  for (let i = end - period + 1; i <= end; i++) {
+    high = Math.max(high, candles[i].high);
+    low = Math.min(low, candles[i].low);
+  }
+  return (high + low) / 2;
+}
+
+// Ichimoku Kinko Hyo. Leading spans are shifted forward and the lagging span
+// backwards by `displacement` candles, so points carry their own timestamps.
+export function ichimoku(
+  candles: CandleData[],
+  conversionPeriod: number = 9,
+  basePeriod: number = 26,
+  spanBPeriod: number = 52,
+  displacement: number = 26
+): {
+  conversion: IndicatorPoint[];
+  base: IndicatorPoint[];
+  spanA: IndicatorPoint[];
+  spanB: IndicatorPoint[];
+  lagging: IndicatorPoint[];
+} {
+  const step =
+    candles.length > 1
+      ? candles[candles.length - 1].timestamp -
+        candles[candles.length - 2].timestamp
+      : DAY_MS;
+  const timeAt = (index: number) =>
+    index < candles.length
+      ? candles[index].timestamp
+      : candles[candles.length - 1].timestamp +
+        (index - candles.length + 1) * step;
+
+  const conversion: IndicatorPoint[] = [];
+  const base: IndicatorPoint[] = [];
+  const spanA: IndicatorPoint[] = [];
+  const spanB: IndicatorPoint[] = [];
+  const lagging: IndicatorPoint[] = [];
+
+  candles.forEach((c, i) => {
+    const tenkan = midpoint(candles, i, conversionPeriod);
+    const kijun = midpoint(candles, i, basePeriod);
+    const senkouB = midpoint(candles, i, spanBPeriod);
+
+    if (tenkan !== null)
+      conversion.push({ timestamp: c.timestamp, value: tenkan });
+    if (kijun !== null) base.push({ timestamp: c.timestamp, value: kijun });
+    if (tenkan !== null && kijun !== null) {
+      spanA.push({
+        timestamp: timeAt(i + displacement),
+        value: (tenkan + kijun) / 2,
+      });
+    }
+    if (senkouB !== null) {
+      spanB.push({ timestamp: timeAt(i + displacement), value: senkouB });
+    }
+    if (i >= displacement) {
+      lagging.push({
+        timestamp: candles[i - displacement].timestamp,
+        value: c.close,
+      });
+    }
+  });
+
+  return { conversion, base, spanA, spanB, lagging };
+}
+
+// Supertrend: ATR bands around hl2 that flip when price closes through them
+export function supertrend(
+  candles: CandleData[],
+  period: number = 10,
+  multiplier: number = 3
+): { value: IndicatorValues; direction: (1 | -1 | null)[] } {
+  const atrValues = atr(candles, period);
+  const value: IndicatorValues = new Array(candles.length).fill(null);
+  const direction: (1 | -1 | null)[] = new Array(candles.length).fill(null);
+
+  let upper = 0;
+  let lower = 0;
+  let trend: 1 | -1 = 1;
+
+  for (let i = 0; i < candles.length; i++) {
+    const range = atrValues[i];
+    if (range === null) continue;
+    const c = candles[i];
+    const hl2 = (c.high + c.low) / 2;
+    const basicUpper = hl2 + multiplier * range;
+    const basicLower = hl2 - multiplier * range;
+
+    if (value[i - 1] === null || i === 0) {
+      upper = basicUpper;
+      lower = basicLower;
+      trend = c.close >= hl2 ? 1 : -1;
+    } else {
+      const prevClose = candles[i - 1].close;
+      upper = basicUpper < upper || prevClose > upper ? basicUpper : upper;
+      lower = basicLower > lower || prevClose < lower ? basicLower : lower;
+      if (trend === 1 && c.close < lower) trend = -1;
+      else if (trend === -1 && c.close > upper) trend = 1;
+    }
+
+    value[i] = trend === 1 ? lower : upper;
+    direction[i] = trend;
+  }
+
+  return { value, direction };
+}
+
+// Parabolic stop and reverse
+export function parabolicSar(
+  candles: CandleData[],
+  step: number = 0.02,
+  maxStep: number = 0.2
+): { value: IndicatorValues; direction: (1 | -1 | null)[] } {
+  const value: IndicatorValues = new Array(candles.length).fill(null);
+  const direction: (1 | -1 | null)[] = new Array(candles.length).fill(null);
+  if (candles.length < 2) return { value, direction };
+
+  let rising = candles[1].close >= candles[0].close;
+  let sar = rising ? candles[0].low : candles[0].high;
+  let extreme = rising ? candles[0].high : candles[0].low;
+  let acceleration = step;
+
+  for (let i = 1; i < candles.length; i++) {
+    const c = candles[i];
+    const prev = candles[i - 1];
+    sar = sar + acceleration * (extreme - sar);
+
+    if (rising) {
+      sar = Math.min(sar, prev.low, i > 1 ? candles[i - 2].low : prev.low);
+      if (c.low < sar) {
+        rising = false;
+        sar = extreme;
+        extreme = c.low;
+        acceleration = step;
+      } else if (c.high > extreme) {
+        extreme = c.high;
+        acceleration = Math.min(acceleration + step, maxStep);
+      }
+    } else {
+      sar = Math.max(sar, prev.high, i > 1 ? candles[i - 2].high : prev.high);
+      if (c.high > sar) {
+        rising = true;
+        sar = extreme;
+        extreme = c.high;
+        acceleration = step;
+      } else if (c.low < extreme) {
+        extreme = c.low;
+        acceleration = Math.min(acceleration + step, maxStep);
+      }
+    }
+
+    value[i] = sar;
+    direction[i] = rising ? 1 : -1;
+  }
+
+  return { value, direction };
+}
+
+// Pair aligned values with candle timestamps, dropping the warm-up nulls
+export function toPoints(
+  candles: CandleData[],
+  values: IndicatorValues
+): IndicatorPoint[] {
+  const points: IndicatorPoint[] = [];
+  values.forEach((value, i) => {
+    if (value !== null && Number.isFinite(value)) {
+      points.push({ timestamp: candles[i].timestamp, value });
+    }
+  });
+  return points;
+}
+
+// Run a smoother over a series that starts with warm-up nulls
+function smoothFromFirst(
+  values: IndicatorValues,
+  period: number,
+  smoother: (values: number[], period: number) => IndicatorValues
+): IndicatorValues {
+  const first = values.findIndex(v => v !== null);
+  if (first === -1) return values.map(() => null);
+  const smoothed = smoother(values.slice(first) as number[], period);
+  return [...new Array(first).fill(null), ...smoothed];
+}
+
+// Relative strength index (Wilder)
+export function rsi(values: number[], period: number = 14): IndicatorValues {
+  const result: IndicatorValues = new Array(values.length).fill(null);
+  if (values.length <= period) return result;
+
+  let avgGain = 0;
+  let avgLoss = 0;
+  for (let i = 1; i <= period; i++) {
+    const change = values[i] - values[i - 1];
+    avgGain += Math.max(change, 0);
+    avgLoss += Math.max(-change, 0);
+  }
+  avgGain /= period;
+  avgLoss /= period;
+
+  const toRsi = () =>
+    avgLoss === 0 ? 100 : 100 - 100 / (1 + avgGain / avgLoss);
+  result[period] = toRsi();
+
+  for (let i = period + 1; i < values.length; i++) {
+    const change = values[i] - values[i - 1];
+    avgGain = (avgGain * (period - 1) + Math.max(change, 0)) / period;
+    avgLoss = (avgLoss * (period - 1) + Math.max(-change, 0)) / period;
+    result[i] = toRsi();
+  }
+  return result;
+}
+
+export function macd(
+  values: number[],
+  fastPeriod: number = 12,
+  slowPeriod: number = 26,
+  signalPeriod: number = 9
+): {
+  macd: IndicatorValues;
+  signal: IndicatorValues;
+  histogram: IndicatorValues;
+} {
+  const fast = ema(values, fastPeriod);
+  const slow = ema(values, slowPeriod);
+  const line = fast.map((f, i) =>
+    f === null || slow[i] === null ? null : f - (slow[i] as number)
+  );
+  const signal = smoothFromFirst(line, signalPeriod, ema);
+  return {
+    macd: line,
+    signal,
+    histogram: line.map((m, i) =>
+      m === null || signal[i] === null ? null : m - (signal[i] as number)
+    ),
+  };
+}
+
+// Slow stochastic oscillator: %K smoothed by kSmoothing, %D an SMA of %K
+export function stochastic(
+  candles: CandleData[],
+  kPeriod: number = 14,
+  kSmoothing: number = 3,
+  dPeriod: number = 3
+): { k: IndicatorValues; d: IndicatorValues } {
+  const raw: IndicatorValues = candles.map((c, i) => {
+    if (i < kPeriod - 1) return null;
+    let high = -Infinity;
+    let low = Infinity;
+    for (let j = i - kPeriod + 1; j <= i; j++) {
+      high = Math.max(high, candles[j].high);
+      low = Math.min(low, candles[j].low);
+    }
+    return high === low ? 50 : ((c.close - low) / (high - low)) * 100;
+  });
+  const k = smoothFromFirst(raw, kSmoothing, sma);
+  return { k, d: smoothFromFirst(k, dPeriod, sma) };
+}
+
+// On-balance volume
+export function obv(candles: CandleData[]): IndicatorValues {
+  let total = 0;
+  return candles.map((c, i) => {
+    if (i > 0) {
+      const prevClose = candles[i - 1].close;
+      if (c.close > prevClose) total += c.volume;
+      else if (c.close < prevClose) total -= c.volume;
+    }
+    return total;
+  });
+}
@@ -0,0 +1,233 @@
+// Streaming chat completions from a configurable LLM provider. Server-side
+// only: API keys come from the environment and never reach the browser.
+
+export type LLMProvider = 'openai' | 'anthropic' | 'ollama';
+
+export interface LLMConfig {
+  provider: LLMProvider;
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  maxTokens: number;
+}
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export class LLMError extends Error {
+  constructor(
+    message: string,
+    public status?: number
+  ) {
+    super(message);
+  }
+}
+
+const defaultBaseUrls: Record<LLMProvider, string> = {
+  openai: 'https://api.openai.com/v1',
+  anthropic: 'https://api.anthropic.com',
+  ollama: 'http://localhost:11434',
+};
+
+const defaultModels: Record<LLMProvider, string> = {
+  openai: 'gpt-4o-mini',
+  anthropic: 'claude-sonnet-4-5',
+  ollama: 'llama3.1',
+};
+
+// Read provider settings from LLM_* environment variables; null when no
+// provider is configured
+export function getLLMConfig(): LLMConfig | null {
+  const provider = process.env.LLM_PROVIDER as LLMProvider | undefined;
+  if (!provider || !(provider in defaultBaseUrls)) return null;
+  return {
+    provider,
+    baseUrl: (process.env.LLM_BASE_URL || defaultBaseUrls[provider]).replace(
+      /\/+$/,
+      ''
+    ),
+    model: process.env.LLM_MODEL || defaultModels[provider],
+    apiKey: process.env.LLM_API_KEY || undefined,
+    maxTokens: parseInt(process.env.LLM_MAX_TOKENS || '') || 4096,
+  };
+}
+
+// Split a byte stream into lines, tolerating chunks that end mid-line
+async function* readLines(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      for (const line of lines) yield line.replace(/\r$/, '');
+    }
+    buffer += decoder.decode();
+    if (buffer) yield buffer;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// Yield the JSON payload of each server-sent `data:` line
+async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<unknown> {
+  for await (const line of readLines(body)) {
+    if (!line.startsWith('data:')) continue;
+    const data = line.slice(5).trim();
+    if (!data || data === '[DONE]') continue;
+    try {
+      yield JSON.parse(data);
+    } catch {
+      // Ignore keep-alive comments and malformed lines
+    }
+  }
+}
+
+async function* openAIDeltas(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<string> {
+  for await (const event of readServerSentEvents(body)) {
+    const chunk = event as {
+      choices?: { delta?: { content?: string } }[];
+      error?: { message?: string };
+    };
+    if (chunk.error) throw new LLMError(chunk.error.message || 'Stream error');
+    const text = chunk.choices?.[0]?.delta?.content;
+    if (text) yield text;
+  }
+}
+
+async function* anthropicDeltas(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<string> {
+  for await (const event of readServerSentEvents(body)) {
+    const chunk = event as {
+      type?: string;
+      delta?: { type?: string; text?: string };
+      error?: { message?: string };
+    };
+    if (chunk.type === 'error') {
+      throw new LLMError(chunk.error?.message || 'Stream error');
+    }
+    if (chunk.type === 'content_block_delta' && chunk.delta?.text) {
+      yield chunk.delta.text;
+    }
+  }
+}
+
+// Ollama streams newline-delimited JSON rather than server-sent events
+async function* ollamaDeltas(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<string> {
+  for await (const line of readLines(body)) {
+    if (!line.trim()) continue;
+    const chunk = JSON.parse(line) as {
+      message?: { content?: string };
+      error?: string;
+    };
+    if (chunk.error) throw new LLMError(chunk.error);
+    if (chunk.message?.content) yield chunk.message.content;
+  }
+}
+
+function buildRequest(
+  config: LLMConfig,
+  messages: LLMMessage[]
+): { url: string; headers: Record<string, string>; body: unknown } {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  };
+
+  switch (config.provider) {
+    case 'anthropic': {
+      if (config.apiKey) headers['x-api-key'] = config.apiKey;
+      headers['anthropic-version'] = '2023-06-01';
+      // Anthropic takes the system prompt as a separate field
+      const system = messages
+        .filter(m => m.role === 'system')
+        .map(m => m.content)
+        .join('\n\n');
+      return {
+        url: `${config.baseUrl}/v1/messages`,
+        headers,
+        body: {
+          model: config.model,
+          max_tokens: config.maxTokens,
+          stream: true,
+          ...(system ? { system } : {}),
+          messages: messages.filter(m => m.role !== 'system'),
+        },
+      };
+    }
+    case 'ollama':
+      return {
+        url: `${config.baseUrl}/api/chat`,
+        headers,
+        body: { model: config.model, stream: true, messages },
+      };
+    default:
+      if (config.apiKey) headers.Authorization = `Bearer ${config.apiKey}`;
+      return {
+        url: `${config.baseUrl}/chat/completions`,
+        headers,
+        body: {
+          model: config.model,
+          max_tokens: config.maxTokens,
+          stream: true,
+          messages,
+        },
+      };
+  }
+}
+
+// Send the conversation and resolve once the provider accepts it, so HTTP
+// errors surface before any text is streamed
+export async function openCompletionStream(
+  config: LLMConfig,
+  messages: LLMMessage[],
+  signal?: AbortSignal
+): Promise<AsyncGenerator<string>> {
+  const { url, headers, body } = buildRequest(config, messages);
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    throw new LLMError(
+      `Could not reach ${config.provider} at ${config.baseUrl}`,
+      502
+    );
+  }
+
+  if (!response.ok || !response.body) {
+    const detail = await response.text().catch(() => '');
+    throw new LLMError(
+      `${config.provider} returned HTTP ${response.status}${detail ? `: ${detail.slice(0, 300)}` : ''}`,
+      502
+    );
+  }
+
+  switch (config.provider) {
+    case 'anthropic':
+      return anthropicDeltas(response.body);
+    case 'ollama':
+      return ollamaDeltas(response.body);
+    default:
+      return openAIDeltas(response.body);
+  }
+}
@@ -0,0 +1,132 @@
+// File-based open interest history. Bitget only reports the current open
+// interest, so samples are recorded here: on every request for a symbol and
+// on a background interval for every symbol recorded so far.
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { fetchOpenInterest, OpenInterestSample } from '@/lib/futuresMarket';
+
+const STORE_DIR =
+  process.env.OPEN_INTEREST_DIR ||
+  path.join(process.cwd(), '.cache', 'open-interest');
+
+const MIN_SAMPLE_GAP_MS = 60 * 1000;
+const MAX_SAMPLES = 30000; // about 100 days at the default interval
+const DEFAULT_INTERVAL_MS = 5 * 60 * 1000;
+const DEFAULT_SYMBOLS = 'BTCUSDT,ETHUSDT';
+
+let queue: Promise<unknown> = Promise.resolve();
+
+function enqueue<T>(task: () => Promise<T>): Promise<T> {
+  const run = queue.then(task, task);
+  queue = run.catch(() => undefined);
+  return run;
+}
+
+const storeFile = (symbol: string) =>
+  path.join(STORE_DIR, `${symbol.replace(/[^A-Za-z0-9_-]/g, '_')}.json`);
+
+async function load(symbol: string): Promise<OpenInterestSample[]> {
+  try {
+    const data = JSON.parse(await fs.readFile(storeFile(symbol), 'utf8'));
+    return Array.isArray(data.samples) ? data.samples : [];
+  } catch {
+    return [];
+  }
+}
+
+async function save(
+  symbol: string,
+  samples: OpenInterestSample[]
+): Promise<void> {
+  const file = storeFile(symbol);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  // Write to a temp file first so a crash never leaves half a JSON file
+  const tmpFile = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(
+    tmpFile,
+    JSON.stringify({ symbol, samples: samples.slice(-MAX_SAMPLES) })
+  );
+  await fs.rename(tmpFile, file);
+}
+
+// Fetch the current open interest and append it unless the last sample is
+// too recent; returns the latest sample either way
+export function recordOpenInterest(
+  symbol: string
+): Promise<OpenInterestSample> {
+  return enqueue(async () => {
+    const samples = await load(symbol);
+    const last = samples[samples.length - 1];
+    if (last && Date.now() - last.timestamp < MIN_SAMPLE_GAP_MS) return last;
+
+    const sample = await fetchOpenInterest(symbol);
+    if (!last || sample.timestamp > last.timestamp) {
+      samples.push(sample);
+      await save(symbol, samples);
+    }
+    return sample;
+  });
+}
+
+export function readOpenInterest(
+  symbol: string,
+  startTime?: number,
+  endTime?: number
+): Promise<OpenInterestSample[]> {
+  return enqueue(async () =>
+    (await load(symbol)).filter(
+      sample =>
+        (startTime === undefined || sample.timestamp >= startTime) &&
+        (endTime === undefined || sample.timestamp <= endTime)
+    )
+  );
+}
+
+async function recordedSymbols(): Promise<string[]> {
+  try {
+    const files = await fs.readdir(STORE_DIR);
+    return files
+      .filter(file => file.endsWith('.json'))
+      .map(file => file.slice(0, -'.json'.length));
+  } catch {
+    return [];
+  }
+}
+
+const schedulerState = globalThis as typeof globalThis & {
+  openInterestScheduler?: ReturnType<typeof setInterval>;
+};
+
+export function startOpenInterestScheduler(
+  intervalMs: number = parseInt(process.env.OPEN_INTEREST_INTERVAL_MS || '') ||
+    DEFAULT_INTERVAL_MS
+): void {
+  if (schedulerState.openInterestScheduler) return;
+
+  const configured = (process.env.OPEN_INTEREST_SYMBOLS || DEFAULT_SYMBOLS)
+    .split(',')
+    .map(symbol => symbol.trim().toUpperCase())
+    .filter(Boolean);
+
+  let running = false;
+  const sampleAll = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const symbols = new Set([...configured, ...(await recordedSymbols())]);
+      for (const symbol of symbols) {
+        try {
+          await recordOpenInterest(symbol);
+        } catch (error) {
+          console.error(`Open interest sample failed for ${symbol}:`, error);
+        }
+      }
+    } finally {
+      running = false;
+    }
+  };
+
+  sampleAll();
+  schedulerState.openInterestScheduler = setInterval(sampleAll, intervalMs);
+}
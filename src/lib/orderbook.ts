@@ -0,0 +1,212 @@
+// Orderbook math: tick grouping, cumulative depth and liquidity metrics
+// (spread, imbalance near the mid and slippage for a market order).
+
+import type { OrderbookData } from '@/services/bitgetApi';
+import { readStored, writeStored } from '@/lib/storage';
+
+export type BookSide = 'bid' | 'ask';
+
+export interface BookLevel {
+  price: number;
+  size: number; // base coin
+}
+
+export interface DepthLevel extends BookLevel {
+  total: number; // cumulative base size from the best price
+  notional: number; // cumulative quote value from the best price
+}
+
+export interface SlippageEstimate {
+  side: 'buy' | 'sell';
+  orderSize: number; // quote
+  filledSize: number; // quote actually available
+  averagePrice: number | null;
+  worstPrice: number | null;
+  slippageBps: number | null; // average price vs mid
+  levels: number;
+  complete: boolean; // the visible book covers the whole order
+}
+
+export interface BookMetrics {
+  bestBid: number | null;
+  bestAsk: number | null;
+  mid: number | null;
+  spread: number | null;
+  spreadBps: number | null;
+  bandPercent: number;
+  bidNotional: number; // within the band below the mid
+  askNotional: number; // within the band above the mid
+  imbalance: number | null; // -1 all asks .. +1 all bids
+  buy: SlippageEstimate;
+  sell: SlippageEstimate;
+}
+
+export interface OrderbookSettings {
+  depth: number; // levels per side requested
+  tick: number; // 0 keeps raw price levels
+  bandPercent: number;
+  orderSize: number; // quote
+  record: boolean; // keep snapshots for the heatmap and replay
+  heatmap: boolean; // draw the recorded snapshots on the price chart
+}
+
+const SETTINGS_KEY = 'coinai.orderbookSettings';
+
+// The depth stream only carries 15 levels; deeper books are polled over REST
+export const STREAM_DEPTH = 15;
+export const depthOptions = [15, 50, 100, 200, 500];
+export const maxDepth = { spot: 500, futures: 100 };
+export const bandOptions = [0.1, 0.25, 0.5, 1, 2, 5];
+
+export const defaultOrderbookSettings: OrderbookSettings = {
+  depth: STREAM_DEPTH,
+  tick: 0,
+  bandPercent: 1,
+  orderSize: 10000,
+  record: true,
+  heatmap: true,
+};
+
+export function loadOrderbookSettings(): OrderbookSettings {
+  const stored = readStored<Partial<OrderbookSettings>>(SETTINGS_KEY, {});
+  return { ...defaultOrderbookSettings, ...stored };
+}
+
+export function saveOrderbookSettings(settings: OrderbookSettings): void {
+  writeStored(SETTINGS_KEY, settings);
+}
+
+export function parseLevels(raw: [string, string][]): BookLevel[] {
+  return raw
+    .map(([price, size]) => ({
+      price: parseFloat(price),
+      size: parseFloat(size),
+    }))
+    .filter(level => level.price > 0 && level.size > 0);
+}
+
+// Tick sizes from the fifth significant digit of the price up, e.g. 0.1 to
+// 100 for a price in the tens of thousands
+export function tickOptions(price: number | null): number[] {
+  if (!price || !(price > 0)) return [];
+  const base = Math.pow(10, Math.floor(Math.log10(price)) - 5);
+  return [1, 5, 10, 50, 100, 1000].map(step =>
+    parseFloat((base * step).toPrecision(6))
+  );
+}
+
+// Merge levels into tick buckets, rounding bids down and asks up so a bucket
+// never claims a better price than its orders
+export function groupLevels(
+  levels: BookLevel[],
+  tick: number,
+  side: BookSide
+): BookLevel[] {
+  if (!(tick > 0)) return levels;
+  const buckets = new Map<number, number>();
+  levels.forEach(level => {
+    const steps = level.price / tick;
+    const bucket =
+      (side === 'bid' ? Math.floor(steps + 1e-9) : Math.ceil(steps - 1e-9)) *
+      tick;
+    const key = parseFloat(bucket.toPrecision(12));
+    buckets.set(key, (buckets.get(key) || 0) + level.size);
+  });
+  return Array.from(buckets.entries())
+    .map(([price, size]) => ({ price, size }))
+    .sort((a, b) => (side === 'bid' ? b.price - a.price : a.price - b.price));
+}
+
+// Running totals outward from the best price
+export function cumulativeDepth(levels: BookLevel[]): DepthLevel[] {
+  let total = 0;
+  let notional = 0;
+  return levels.map(level => {
+    total += level.size;
+    notional += level.size * level.price;
+    return { ...level, total, notional };
+  });
+}
+
+// Walk the opposite side with a quote-sized market order
+export function estimateSlippage(
+  levels: BookLevel[],
+  side: 'buy' | 'sell',
+  orderSize: number,
+  mid: number | null
+): SlippageEstimate {
+  let remaining = orderSize;
+  let filledBase = 0;
+  let filledQuote = 0;
+  let worstPrice: number | null = null;
+  let used = 0;
+  for (const level of levels) {
+    if (remaining <= 0) break;
+    const quote = Math.min(remaining, level.size * level.price);
+    filledQuote += quote;
+    filledBase += quote / level.price;
+    remaining -= quote;
+    worstPrice = level.price;
+    used++;
+  }
+
+  const averagePrice = filledBase > 0 ? filledQuote / filledBase : null;
+  return {
+    side,
+    orderSize,
+    filledSize: filledQuote,
+    averagePrice,
+    worstPrice,
+    slippageBps:
+      averagePrice !== null && mid
+        ? (Math.abs(averagePrice - mid) / mid) * 10000
+        : null,
+    levels: used,
+    complete: remaining <= 1e-9,
+  };
+}
+
+export function bookMetrics(
+  book: OrderbookData,
+  bandPercent: number,
+  orderSize: number
+): BookMetrics {
+  const bids = parseLevels(book.bids).sort((a, b) => b.price - a.price);
+  const asks = parseLevels(book.asks).sort((a, b) => a.price - b.price);
+  const bestBid = bids[0]?.price ?? null;
+  const bestAsk = asks[0]?.price ?? null;
+  const mid =
+    bestBid !== null && bestAsk !== null ? (bestBid + bestAsk) / 2 : null;
+  const spread =
+    bestBid !== null && bestAsk !== null ? bestAsk - bestBid : null;
+
+  const notionalWithin = (
+    levels: BookLevel[],
+    inside: (p: number) => boolean
+  ) =>
+    levels
+      .filter(level => inside(level.price))
+      .reduce((sum, level) => sum + level.size * level.price, 0);
+  const band = mid !== null ? (mid * bandPercent) / 100 : 0;
+  const bidNotional =
+    mid !== null ? notionalWithin(bids, p => p >= mid - band) : 0;
+  const askNotional =
+    mid !== null ? notionalWithin(asks, p => p <= mid + band) : 0;
+
+  return {
+    bestBid,
+    bestAsk,
+    mid,
+    spread,
+    spreadBps: spread !== null && mid ? (spread / mid) * 10000 : null,
+    bandPercent,
+    bidNotional,
+    askNotional,
+    imbalance:
+      bidNotional + askNotional > 0
+        ? (bidNotional - askNotional) / (bidNotional + askNotional)
+        : null,
+    buy: estimateSlippage(asks, 'buy', orderSize, mid),
+    sell: estimateSlippage(bids, 'sell', orderSize, mid),
+  };
+}
@@ -0,0 +1,183 @@
+// Liquidity heatmap drawn behind the candles from recorded orderbook
+// snapshots: one column per snapshot, one cell per price level, brighter for
+// larger resting size. Snapshots fall between candle times, so columns are
+// placed on the logical (bar index) axis rather than by exact time.
+
+import type {
+  IPrimitivePaneRenderer,
+  IPrimitivePaneView,
+  ISeriesPrimitive,
+  Logical,
+  SeriesAttachedParameter,
+  Time,
+} from 'lightweight-charts';
+import { BookSnapshot, RECORD_INTERVAL_MS } from '@/lib/orderbookHistory';
+
+export interface OrderbookHeatmap {
+  snapshots: BookSnapshot[];
+  cursor: number | null; // ms of the replayed snapshot, null when live
+}
+
+type DrawTarget = Parameters<IPrimitivePaneRenderer['draw']>[0];
+
+interface HeatCell {
+  x: number;
+  width: number;
+  top: number;
+  height: number;
+  color: string;
+}
+
+interface HeatmapFrame {
+  cells: HeatCell[];
+  cursorX: number | null;
+}
+
+class HeatmapRenderer implements IPrimitivePaneRenderer {
+  constructor(private frame: HeatmapFrame) {}
+
+  draw(target: DrawTarget) {
+    target.useBitmapCoordinateSpace(
+      ({ context, bitmapSize, horizontalPixelRatio, verticalPixelRatio }) => {
+        this.frame.cells.forEach(cell => {
+          context.fillStyle = cell.color;
+          context.fillRect(
+            Math.round(cell.x * horizontalPixelRatio),
+            Math.round(cell.top * verticalPixelRatio),
+            Math.max(1, Math.round(cell.width * horizontalPixelRatio)),
+            Math.max(1, Math.round(cell.height * verticalPixelRatio))
+          );
+        });
+        if (this.frame.cursorX !== null) {
+          context.fillStyle = 'rgba(234, 179, 8, 0.9)';
+          context.fillRect(
+            Math.round(this.frame.cursorX * horizontalPixelRatio),
+            0,
+            Math.max(1, Math.round(horizontalPixelRatio)),
+            bitmapSize.height
+          );
+        }
+      }
+    );
+  }
+}
+
+// Smallest gap between neighbouring levels, used as the cell height
+function levelStep(snapshot: BookSnapshot): number {
+  let step = Infinity;
+  [snapshot.bids, snapshot.asks].forEach(levels => {
+    for (let i = 1; i < levels.length; i++) {
+      const gap = Math.abs(levels[i][0] - levels[i - 1][0]);
+      if (gap > 0) step = Math.min(step, gap);
+    }
+  });
+  return isFinite(step) ? step : 0;
+}
+
+// A high percentile rather than the maximum so one wall does not wash out
+// every other level
+function intensityScale(snapshots: BookSnapshot[]): number {
+  const sizes = snapshots
+    .flatMap(snapshot => [...snapshot.bids, ...snapshot.asks])
+    .map(([, size]) => size)
+    .sort((a, b) => a - b);
+  if (sizes.length === 0) return 1;
+  return sizes[Math.floor((sizes.length - 1) * 0.95)] || 1;
+}
+
+export class OrderbookHeatmapPrimitive implements ISeriesPrimitive<Time> {
+  private params: SeriesAttachedParameter<Time> | null = null;
+  private views: IPrimitivePaneView[];
+  private scale: number;
+
+  constructor(private heatmap: OrderbookHeatmap) {
+    this.scale = intensityScale(heatmap.snapshots);
+    this.views = [
+      {
+        zOrder: () => 'bottom',
+        renderer: () => new HeatmapRenderer(this.frame()),
+      },
+    ];
+  }
+
+  attached(params: SeriesAttachedParameter<Time>) {
+    this.params = params;
+  }
+
+  detached() {
+    this.params = null;
+  }
+
+  paneViews() {
+    return this.views;
+  }
+
+  // Pixel x of a time in ms, interpolated between the bars around it
+  private timeToX(ms: number, times: number[]): number | null {
+    if (!this.params || times.length === 0) return null;
+    const seconds = ms / 1000;
+    let index = times.length - 1;
+    while (index > 0 && times[index] > seconds) index--;
+    const next = times[index + 1];
+    const previous = times[index - 1];
+    const step =
+      next !== undefined
+        ? next - times[index]
+        : previous !== undefined
+          ? times[index] - previous
+          : 1;
+    // Bars are centered on their logical index and open at its left edge
+    const logical = index - 0.5 + (seconds - times[index]) / (step || 1);
+    return this.params.chart
+      .timeScale()
+      .logicalToCoordinate(logical as Logical);
+  }
+
+  private frame(): HeatmapFrame {
+    if (!this.params) return { cells: [], cursorX: null };
+    const series = this.params.series;
+    const times = series.data().map(item => item.time as number);
+    const { snapshots, cursor } = this.heatmap;
+    // While replaying, show the book up to the replayed moment only
+    const visible =
+      cursor === null
+        ? snapshots
+        : snapshots.filter(snapshot => snapshot.timestamp <= cursor);
+
+    const cells: HeatCell[] = [];
+    visible.forEach((snapshot, i) => {
+      const x = this.timeToX(snapshot.timestamp, times);
+      // Stop at the next snapshot, but leave gaps where recording paused
+      const nextTime = Math.min(
+        visible[i + 1]?.timestamp ?? Infinity,
+        snapshot.timestamp + 2 * RECORD_INTERVAL_MS
+      );
+      const nextX = this.timeToX(nextTime, times);
+      if (x === null || nextX === null) return;
+      const half = levelStep(snapshot) / 2;
+
+      const addCells = (levels: [number, number][], rgb: string) =>
+        levels.forEach(([price, size]) => {
+          const top = series.priceToCoordinate(price + half);
+          const bottom = series.priceToCoordinate(price - half);
+          if (top === null || bottom === null) return;
+          const alpha = Math.min(1, size / this.scale) * 0.75;
+          if (alpha < 0.03) return;
+          cells.push({
+            x,
+            width: nextX - x,
+            top: Math.min(top, bottom),
+            height: Math.abs(bottom - top),
+            color: `rgba(${rgb}, ${alpha.toFixed(3)})`,
+          });
+        });
+      addCells(snapshot.bids, '16, 185, 129');
+      addCells(snapshot.asks, '239, 68, 68');
+    });
+
+    return {
+      cells,
+      cursorX: cursor === null ? null : this.timeToX(cursor, times),
+    };
+  }
+}
@@ -0,0 +1,124 @@
+// Recorded orderbook snapshots for the liquidity heatmap and replay. Each
+// book is thinned to one snapshot every few seconds, keeps its top levels and
+// is stored in the browser per exchange and symbol, with only the most recent
+// books kept and each trimmed to a size budget so localStorage stays within
+// quota.
+
+import type { MarketType, OrderbookData } from '@/services/bitgetApi';
+import type { ExchangeId } from '@/lib/exchanges/types';
+import { BookLevel, groupLevels, parseLevels } from '@/lib/orderbook';
+import { readStored, removeStored, writeStored } from '@/lib/storage';
+
+export interface BookSnapshot {
+  timestamp: number;
+  bids: [number, number][]; // [price, size], best first
+  asks: [number, number][];
+}
+
+export const RECORD_INTERVAL_MS = 5000;
+export const RECORD_LEVELS = 40; // per side
+export const MAX_SNAPSHOTS = 720; // an hour at the record interval
+const MAX_STORED_BOOKS = 3;
+// Characters of JSON per stored book; the three together stay well under the
+// roughly 5M characters browsers allow per origin
+const MAX_BOOK_CHARS = 500_000;
+
+const INDEX_KEY = 'coinai.orderbookHistory';
+// Bitget books keep the keys they were recorded under before other exchanges
+const bookKey = (
+  marketType: MarketType,
+  symbol: string,
+  exchange: ExchangeId
+) =>
+  `${INDEX_KEY}.${exchange === 'bitget' ? '' : `${exchange}:`}${marketType}:${symbol}`;
+
+export function loadBookHistory(
+  marketType: MarketType,
+  symbol: string,
+  exchange: ExchangeId = 'bitget'
+): BookSnapshot[] {
+  const stored = readStored<BookSnapshot[]>(
+    bookKey(marketType, symbol, exchange),
+    []
+  );
+  return Array.isArray(stored) ? stored : [];
+}
+
+// Drop the oldest snapshots until the history fits the stored size budget.
+// Snapshots are close in size, so one measurement is enough to find the cut.
+function trimToStoredSize(snapshots: BookSnapshot[]): BookSnapshot[] {
+  const size = JSON.stringify(snapshots).length;
+  if (size <= MAX_BOOK_CHARS) return snapshots;
+  const keep = Math.floor((snapshots.length * MAX_BOOK_CHARS) / size);
+  return keep > 0 ? snapshots.slice(-keep) : [];
+}
+
+// Save one symbol's history and drop the least recently saved beyond the cap
+export function saveBookHistory(
+  marketType: MarketType,
+  symbol: string,
+  snapshots: BookSnapshot[],
+  exchange: ExchangeId = 'bitget'
+): void {
+  const key = bookKey(marketType, symbol, exchange);
+  const index = readStored<string[]>(INDEX_KEY, []).filter(k => k !== key);
+  const kept = [key, ...index];
+  kept.slice(MAX_STORED_BOOKS).forEach(removeStored);
+  writeStored(INDEX_KEY, kept.slice(0, MAX_STORED_BOOKS));
+  writeStored(key, trimToStoredSize(snapshots));
+}
+
+export function clearBookHistory(
+  marketType: MarketType,
+  symbol: string,
+  exchange: ExchangeId = 'bitget'
+) {
+  const key = bookKey(marketType, symbol, exchange);
+  removeStored(key);
+  writeStored(
+    INDEX_KEY,
+    readStored<string[]>(INDEX_KEY, []).filter(k => k !== key)
+  );
+}
+
+const toPairs = (levels: BookLevel[]): [number, number][] =>
+  levels.slice(0, RECORD_LEVELS).map(level => [level.price, level.size]);
+
+// Snapshot at the panel's tick grouping so wide books still fit the cap
+export function toSnapshot(
+  book: OrderbookData,
+  tick: number,
+  timestamp: number = parseInt(book.ts) || Date.now()
+): BookSnapshot {
+  const bids = parseLevels(book.bids).sort((a, b) => b.price - a.price);
+  const asks = parseLevels(book.asks).sort((a, b) => a.price - b.price);
+  return {
+    timestamp,
+    bids: toPairs(groupLevels(bids, tick, 'bid')),
+    asks: toPairs(groupLevels(asks, tick, 'ask')),
+  };
+}
+
+// Append unless the last snapshot is more recent than the record interval
+export function appendSnapshot(
+  snapshots: BookSnapshot[],
+  snapshot: BookSnapshot
+): BookSnapshot[] {
+  const last = snapshots[snapshots.length - 1];
+  if (last && snapshot.timestamp - last.timestamp < RECORD_INTERVAL_MS) {
+    return snapshots;
+  }
+  return [...snapshots, snapshot].slice(-MAX_SNAPSHOTS);
+}
+
+export function snapshotToOrderbook(snapshot: BookSnapshot): OrderbookData {
+  const toRaw = (levels: [number, number][]) =>
+    levels.map(
+      ([price, size]) => [String(price), String(size)] as [string, string]
+    );
+  return {
+    bids: toRaw(snapshot.bids),
+    asks: toRaw(snapshot.asks),
+    ts: String(snapshot.timestamp),
+  };
+}
@@ -0,0 +1,278 @@
+import type { CandleData } from '@/services/bitgetApi';
+import {
+  bollingerBands,
+  closes,
+  ema,
+  ichimoku,
+  IndicatorPoint,
+  parabolicSar,
+  sma,
+  supertrend,
+  toPoints,
+  vwap,
+  wma,
+} from '@/lib/indicators';
+
+export type OverlayType =
+  | 'sma'
+  | 'ema'
+  | 'wma'
+  | 'bollinger'
+  | 'vwap'
+  | 'ichimoku'
+  | 'supertrend'
+  | 'psar';
+
+export interface OverlayParam {
+  key: string;
+  label: string;
+  defaultValue: number;
+  min: number;
+  max: number;
+  step: number;
+}
+
+export interface OverlayDefinition {
+  type: OverlayType;
+  label: string;
+  color: string;
+  params: OverlayParam[];
+}
+
+export interface OverlayConfig {
+  id: string;
+  type: OverlayType;
+  color: string;
+  params: { [key: string]: number };
+}
+
+// One drawable series on the price pane
+export interface OverlayLine {
+  key: string;
+  label: string;
+  color: string;
+  points: IndicatorPoint[];
+  style: 'line' | 'dashed' | 'dots';
+}
+
+const periodParam = (defaultValue: number): OverlayParam => ({
+  key: 'period',
+  label: 'Period',
+  defaultValue,
+  min: 1,
+  max: 500,
+  step: 1,
+});
+
+export const overlayDefinitions: OverlayDefinition[] = [
+  { type: 'sma', label: 'SMA', color: '#f59e0b', params: [periodParam(20)] },
+  { type: 'ema', label: 'EMA', color: '#3b82f6', params: [periodParam(21)] },
+  { type: 'wma', label: 'WMA', color: '#a855f7', params: [periodParam(20)] },
+  {
+    type: 'bollinger',
+    label: 'Bollinger Bands',
+    color: '#06b6d4',
+    params: [
+      periodParam(20),
+      {
+        key: 'multiplier',
+        label: 'Std Dev',
+        defaultValue: 2,
+        min: 0.5,
+        max: 5,
+        step: 0.1,
+      },
+    ],
+  },
+  { type: 'vwap', label: 'VWAP', color: '#ec4899', params: [] },
+  {
+    type: 'ichimoku',
+    label: 'Ichimoku Cloud',
+    color: '#22c55e',
+    params: [
+      {
+        key: 'conversion',
+        label: 'Conversion',
+        defaultValue: 9,
+        min: 1,
+        max: 200,
+        step: 1,
+      },
+      {
+        key: 'base',
+        label: 'Base',
+        defaultValue: 26,
+        min: 1,
+        max: 200,
+        step: 1,
+      },
+      {
+        key: 'spanB',
+        label: 'Span B',
+        defaultValue: 52,
+        min: 1,
+        max: 400,
+        step: 1,
+      },
+      {
+        key: 'displacement',
+        label: 'Displacement',
+        defaultValue: 26,
+        min: 0,
+        max: 200,
+        step: 1,
+      },
+    ],
+  },
+  {
+    type: 'supertrend',
+    label: 'Supertrend',
+    color: '#10b981',
+    params: [
+      periodParam(10),
+      {
+        key: 'multiplier',
+        label: 'Multiplier',
+        defaultValue: 3,
+        min: 0.5,
+        max: 10,
+        step: 0.1,
+      },
+    ],
+  },
+  {
+    type: 'psar',
+    label: 'Parabolic SAR',
+    color: '#eab308',
+    params: [
+      {
+        key: 'step',
+        label: 'Step',
+        defaultValue: 0.02,
+        min: 0.001,
+        max: 0.2,
+        step: 0.001,
+      },
+      {
+        key: 'maxStep',
+        label: 'Max Step',
+        defaultValue: 0.2,
+        min: 0.01,
+        max: 1,
+        step: 0.01,
+      },
+    ],
+  },
+];
+
+export function getOverlayDefinition(type: OverlayType): OverlayDefinition {
+  return overlayDefinitions.find(d => d.type === type) || overlayDefinitions[0];
+}
+
+export function createOverlayConfig(type: OverlayType): OverlayConfig {
+  const definition = getOverlayDefinition(type);
+  return {
+    id: `${type}-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+    type,
+    color: definition.color,
+    params: Object.fromEntries(
+      definition.params.map(p => [p.key, p.defaultValue])
+    ),
+  };
+}
+
+export function describeOverlay(config: OverlayConfig): string {
+  const definition = getOverlayDefinition(config.type);
+  const values = definition.params.map(p => config.params[p.key]);
+  return values.length > 0
+    ? `${definition.label} (${values.join(', ')})`
+    : definition.label;
+}
+
+// Colour trend-following points green/red by direction
+function directionalPoints(
+  candles: CandleData[],
+  values: (number | null)[],
+  direction: (1 | -1 | null)[]
+): IndicatorPoint[] {
+  const points: IndicatorPoint[] = [];
+  values.forEach((value, i) => {
+    if (value === null) return;
+    points.push({
+      timestamp: candles[i].timestamp,
+      value,
+      color: direction[i] === -1 ? '#ef4444' : '#10b981',
+    });
+  });
+  return points;
+}
+
+export function computeOverlay(
+  config: OverlayConfig,
+  candles: CandleData[]
+): OverlayLine[] {
+  const p = config.params;
+  const label = describeOverlay(config);
+  const line = (
+    suffix: string,
+    points: IndicatorPoint[],
+    style: OverlayLine['style'] = 'line',
+    color: string = config.color
+  ): OverlayLine => ({
+    key: `${config.id}-${suffix}`,
+    label,
+    color,
+    points,
+    style,
+  });
+
+  switch (config.type) {
+    case 'sma':
+      return [line('sma', toPoints(candles, sma(closes(candles), p.period)))];
+    case 'ema':
+      return [line('ema', toPoints(candles, ema(closes(candles), p.period)))];
+    case 'wma':
+      return [line('wma', toPoints(candles, wma(closes(candles), p.period)))];
+    case 'bollinger': {
+      const bands = bollingerBands(closes(candles), p.period, p.multiplier);
+      return [
+        line('upper', toPoints(candles, bands.upper)),
+        line('middle', toPoints(candles, bands.middle), 'dashed'),
+        line('lower', toPoints(candles, bands.lower)),
+      ];
+    }
+    case 'vwap':
+      return [line('vwap', toPoints(candles, vwap(candles)))];
+    case 'ichimoku': {
+      const cloud = ichimoku(
+        candles,
+        p.conversion,
+        p.base,
+        p.spanB,
+        p.displacement
+      );
+      return [
+        line('conversion', cloud.conversion, 'line', '#3b82f6'),
+        line('base', cloud.base, 'line', '#ef4444'),
+        line('spanA', cloud.spanA, 'line', config.color),
+        line('spanB', cloud.spanB, 'dashed', '#f97316'),
+        line('lagging', cloud.lagging, 'line', '#a855f7'),
+      ];
+    }
+    case 'supertrend': {
+      const result = supertrend(candles, p.period, p.multiplier);
+      return [
+        line(
+          'supertrend',
+          directionalPoints(candles, result.value, result.direction)
+        ),
+      ];
+    }
+    case 'psar': {
+      const result = parabolicSar(candles, p.step, p.maxStep);
+      return [line('psar', toPoints(candles, result.value), 'dots')];
+    }
+    default:
+      return [];
+  }
+}
@@ -0,0 +1,239 @@
+import type { CandleData } from '@/services/bitgetApi';
+import {
+  atr,
+  closes,
+  IndicatorPoint,
+  macd,
+  obv,
+  rsi,
+  stochastic,
+  toPoints,
+} from '@/lib/indicators';
+import type { OverlayParam } from '@/lib/overlays';
+
+export type PaneType = 'volume' | 'rsi' | 'macd' | 'stochastic' | 'atr' | 'obv';
+
+export interface PaneDefinition {
+  type: PaneType;
+  label: string;
+  params: OverlayParam[];
+  levels: number[]; // horizontal reference lines, e.g. RSI 30/70
+}
+
+export interface PaneConfig {
+  id: string;
+  type: PaneType;
+  height: number; // px
+  params: { [key: string]: number };
+}
+
+export interface PaneSeries {
+  key: string;
+  label: string;
+  kind: 'line' | 'histogram';
+  color: string;
+  points: IndicatorPoint[];
+  volumeFormat?: boolean;
+}
+
+// Everything the chart needs to draw one pane below the price series
+export interface PaneData {
+  id: string;
+  label: string;
+  height: number;
+  series: PaneSeries[];
+  levels: number[];
+}
+
+export const MIN_PANE_HEIGHT = 60;
+export const MAX_PANE_HEIGHT = 400;
+export const DEFAULT_PANE_HEIGHT = 120;
+
+// Open time of the last candle opening at or before timestamp, so pane points
+// line up with the candles' time grid. Null before the first candle.
+export function candleBucket(
+  candles: CandleData[],
+  timestamp: number
+): number | null {
+  if (candles.length === 0 || timestamp < candles[0].timestamp) return null;
+  let low = 0;
+  let high = candles.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (candles[mid].timestamp <= timestamp) low = mid;
+    else high = mid - 1;
+  }
+  return candles[low].timestamp;
+}
+
+const param = (
+  key: string,
+  label: string,
+  defaultValue: number,
+  max: number = 200
+): OverlayParam => ({ key, label, defaultValue, min: 1, max, step: 1 });
+
+export const paneDefinitions: PaneDefinition[] = [
+  { type: 'volume', label: 'Volume', params: [], levels: [] },
+  {
+    type: 'rsi',
+    label: 'RSI',
+    params: [param('period', 'Period', 14)],
+    levels: [30, 70],
+  },
+  {
+    type: 'macd',
+    label: 'MACD',
+    params: [
+      param('fast', 'Fast', 12),
+      param('slow', 'Slow', 26),
+      param('signal', 'Signal', 9),
+    ],
+    levels: [0],
+  },
+  {
+    type: 'stochastic',
+    label: 'Stochastic',
+    params: [
+      param('kPeriod', '%K', 14),
+      param('kSmoothing', 'Smooth', 3, 50),
+      param('dPeriod', '%D', 3, 50),
+    ],
+    levels: [20, 80],
+  },
+  {
+    type: 'atr',
+    label: 'ATR',
+    params: [param('period', 'Period', 14)],
+    levels: [],
+  },
+  { type: 'obv', label: 'OBV', params: [], levels: [] },
+];
+
+export function getPaneDefinition(type: PaneType): PaneDefinition {
+  return paneDefinitions.find(d => d.type === type) || paneDefinitions[0];
+}
+
+export function createPaneConfig(type: PaneType): PaneConfig {
+  const definition = getPaneDefinition(type);
+  return {
+    id: `${type}-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+    type,
+    height: DEFAULT_PANE_HEIGHT,
+    params: Object.fromEntries(
+      definition.params.map(p => [p.key, p.defaultValue])
+    ),
+  };
+}
+
+export function describePane(config: PaneConfig): string {
+  const definition = getPaneDefinition(config.type);
+  const values = definition.params.map(p => config.params[p.key]);
+  return values.length > 0
+    ? `${definition.label} (${values.join(', ')})`
+    : definition.label;
+}
+
+export function computePane(
+  config: PaneConfig,
+  candles: CandleData[]
+): PaneData {
+  const p = config.params;
+  const definition = getPaneDefinition(config.type);
+  const label = describePane(config);
+  const series = (
+    suffix: string,
+    kind: PaneSeries['kind'],
+    color: string,
+    points: IndicatorPoint[]
+  ): PaneSeries => ({
+    key: `${config.id}-${suffix}`,
+    label,
+    kind,
+    color,
+    points,
+  });
+
+  let paneSeries: PaneSeries[] = [];
+
+  switch (config.type) {
+    case 'volume':
+      paneSeries = [
+        {
+          ...series(
+            'volume',
+            'histogram',
+            '#6b7280',
+            candles.map(c => ({
+              timestamp: c.timestamp,
+              value: c.volume,
+              color: c.close >= c.open ? '#26a69a' : '#ef5350',
+            }))
+          ),
+          volumeFormat: true,
+        },
+      ];
+      break;
+    case 'rsi':
+      paneSeries = [
+        series(
+          'rsi',
+          'line',
+          '#a855f7',
+          toPoints(candles, rsi(closes(candles), p.period))
+        ),
+      ];
+      break;
+    case 'macd': {
+      const result = macd(closes(candles), p.fast, p.slow, p.signal);
+      paneSeries = [
+        series(
+          'histogram',
+          'histogram',
+          '#6b7280',
+          toPoints(candles, result.histogram).map(point => ({
+            ...point,
+            color: point.value >= 0 ? '#26a69a' : '#ef5350',
+          }))
+        ),
+        series('macd', 'line', '#3b82f6', toPoints(candles, result.macd)),
+        series('signal', 'line', '#f97316', toPoints(candles, result.signal)),
+      ];
+      break;
+    }
+    case 'stochastic': {
+      const result = stochastic(candles, p.kPeriod, p.kSmoothing, p.dPeriod);
+      paneSeries = [
+        series('k', 'line', '#3b82f6', toPoints(candles, result.k)),
+        series('d', 'line', '#f97316', toPoints(candles, result.d)),
+      ];
+      break;
+    }
+    case 'atr':
+      paneSeries = [
+        series(
+          'atr',
+          'line',
+          '#eab308',
+          toPoints(candles, atr(candles, p.period))
+        ),
+      ];
+      break;
+    case 'obv':
+      paneSeries = [
+        {
+          ...series('obv', 'line', '#06b6d4', toPoints(candles, obv(candles))),
+          volumeFormat: true,
+        },
+      ];
+      break;
+  }
+
+  return {
+    id: config.id,
+    label,
+    height: config.height,
+    series: paneSeries,
+    levels: definition.levels,
+  };
+}
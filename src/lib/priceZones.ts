@@ -0,0 +1,126 @@
+// Horizontal price levels and shaded price zones drawn on the candle series,
+// e.g. AI trade plans. Zones are drawn by a series primitive because
+// lightweight-charts has no built-in rectangle shape.
+
+import type {
+  AutoscaleInfo,
+  IPrimitivePaneRenderer,
+  IPrimitivePaneView,
+  ISeriesApi,
+  ISeriesPrimitive,
+  SeriesAttachedParameter,
+  SeriesType,
+  Time,
+} from 'lightweight-charts';
+
+export interface PriceLevel {
+  price: number;
+  color: string;
+  title: string;
+  style?: 'solid' | 'dashed' | 'dotted';
+}
+
+export interface PriceZone {
+  from: number;
+  to: number;
+  color: string; // fill, usually translucent
+  startTime?: number; // ms; the zone extends from here to the right edge
+}
+
+type DrawTarget = Parameters<IPrimitivePaneRenderer['draw']>[0];
+
+interface ZoneRect {
+  x: number;
+  top: number;
+  bottom: number;
+  color: string;
+}
+
+class ZonesRenderer implements IPrimitivePaneRenderer {
+  constructor(private rects: ZoneRect[]) {}
+
+  draw(target: DrawTarget) {
+    target.useBitmapCoordinateSpace(
+      ({ context, bitmapSize, horizontalPixelRatio, verticalPixelRatio }) => {
+        this.rects.forEach(rect => {
+          const x = Math.round(rect.x * horizontalPixelRatio);
+          const top = Math.round(rect.top * verticalPixelRatio);
+          const bottom = Math.round(rect.bottom * verticalPixelRatio);
+          context.fillStyle = rect.color;
+          context.fillRect(x, top, bitmapSize.width - x, bottom - top);
+        });
+      }
+    );
+  }
+}
+
+export class PriceZonesPrimitive implements ISeriesPrimitive<Time> {
+  private zones: PriceZone[];
+  private params: SeriesAttachedParameter<Time> | null = null;
+  private views: IPrimitivePaneView[];
+
+  constructor(zones: PriceZone[]) {
+    this.zones = zones;
+    // Behind the candles so they stay readable
+    this.views = [
+      {
+        zOrder: () => 'bottom',
+        renderer: () => new ZonesRenderer(this.rects()),
+      },
+    ];
+  }
+
+  attached(params: SeriesAttachedParameter<Time>) {
+    this.params = params;
+  }
+
+  detached() {
+    this.params = null;
+  }
+
+  paneViews() {
+    return this.views;
+  }
+
+  // Keep the zones in view when autoscaling
+  autoscaleInfo(): AutoscaleInfo | null {
+    if (this.zones.length === 0) return null;
+    const prices = this.zones.flatMap(zone => [zone.from, zone.to]);
+    return {
+      priceRange: {
+        minValue: Math.min(...prices),
+        maxValue: Math.max(...prices),
+      },
+    };
+  }
+
+  private startX(series: ISeriesApi<SeriesType>, startTime?: number) {
+    if (startTime === undefined || !this.params) return 0;
+    const data = series.data();
+    if (data.length === 0) return 0;
+    // Anchor to the first bar at or after the start, or the last bar
+    const startSeconds = startTime / 1000;
+    const bar =
+      data.find(item => (item.time as number) >= startSeconds) ||
+      data[data.length - 1];
+    return this.params.chart.timeScale().timeToCoordinate(bar.time) ?? 0;
+  }
+
+  private rects(): ZoneRect[] {
+    if (!this.params) return [];
+    const series = this.params.series;
+    return this.zones.flatMap(zone => {
+      const y1 = series.priceToCoordinate(zone.from);
+      const y2 = series.priceToCoordinate(zone.to);
+      if (y1 === null || y2 === null) return [];
+      return [
+        {
+          x: this.startX(series, zone.startTime),
+          top: Math.min(y1, y2),
+          bottom: Math.max(y1, y2),
+          color: zone.color,
+        },
+      ];
+    });
+  }
+}
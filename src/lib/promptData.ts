@@ -0,0 +1,281 @@
+// Compact encodings of candle history for inlining into AI prompts, with a
+// token estimate and automatic compression to fit a context budget.
+
+import type { CandleData } from '@/services/bitgetApi';
+
+export type DataEncoding = 'csv' | 'delta' | 'stats';
+
+// 'downsampled' is CSV that merges candles to fit the budget
+export type DataMode = 'auto' | 'downsampled' | DataEncoding | 'none';
+
+export interface DataBlockOptions {
+  mode: DataMode;
+  contextTokens: number; // model context window
+  reservedTokens: number; // kept free for the answer
+}
+
+export interface DataBlock {
+  text: string;
+  encoding: DataEncoding;
+  rows: number; // candles after downsampling
+  sourceRows: number;
+  tokens: number;
+  fits: boolean;
+}
+
+export const dataModes: { value: DataMode; label: string }[] = [
+  { value: 'auto', label: 'Auto-fit' },
+  { value: 'csv', label: 'Full CSV' },
+  { value: 'downsampled', label: 'Downsampled CSV' },
+  { value: 'delta', label: 'Delta-encoded' },
+  { value: 'stats', label: 'Statistics only' },
+  { value: 'none', label: 'No data' },
+];
+
+export const contextBudgets: { value: number; label: string }[] = [
+  { value: 8000, label: '8K' },
+  { value: 16000, label: '16K' },
+  { value: 32000, label: '32K' },
+  { value: 128000, label: '128K' },
+  { value: 200000, label: '200K' },
+  { value: 1000000, label: '1M' },
+];
+
+// Downsampling stops here; below it the statistics summary is more useful
+const MIN_ROWS = 20;
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+// Rough estimate: digits tokenize at about three per token, prose at about
+// four characters per token
+export function estimateTokens(text: string): number {
+  const digits = (text.match(/\d/g) || []).length;
+  return Math.ceil(digits / 3 + (text.length - digits) / 4);
+}
+
+const formatPrice = (value: number) => String(Number(value.toPrecision(8)));
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toISOString().slice(0, 16) + 'Z';
+
+function formatInterval(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) return `${minutes}m`;
+  if (minutes < 1440) return `${Math.round(minutes / 60)}h`;
+  return `${Math.round(minutes / 1440)}d`;
+}
+
+// Median spacing, so a few gaps do not distort it
+function candleInterval(candles: CandleData[]): number {
+  const gaps = candles
+    .slice(1)
+    .map((c, i) => c.timestamp - candles[i].timestamp)
+    .sort((a, b) => a - b);
+  return gaps.length > 0 ? gaps[Math.floor(gaps.length / 2)] : 0;
+}
+
+// Merge consecutive candles so at most maxRows remain
+export function downsample(
+  candles: CandleData[],
+  maxRows: number
+): CandleData[] {
+  if (candles.length <= maxRows) return candles;
+  const size = Math.ceil(candles.length / maxRows);
+  const result: CandleData[] = [];
+  for (let i = 0; i < candles.length; i += size) {
+    const bucket = candles.slice(i, i + size);
+    result.push({
+      timestamp: bucket[0].timestamp,
+      open: bucket[0].open,
+      high: Math.max(...bucket.map(c => c.high)),
+      low: Math.min(...bucket.map(c => c.low)),
+      close: bucket[bucket.length - 1].close,
+      volume: bucket.reduce((sum, c) => sum + c.volume, 0),
+      quoteVolume: bucket.reduce((sum, c) => sum + c.quoteVolume, 0),
+    });
+  }
+  return result;
+}
+
+function encodeCsv(candles: CandleData[], title: string): string {
+  const rows = candles.map(c =>
+    [
+      formatTime(c.timestamp),
+      formatPrice(c.open),
+      formatPrice(c.high),
+      formatPrice(c.low),
+      formatPrice(c.close),
+      Number(c.volume.toPrecision(4)),
+    ].join(',')
+  );
+  return [title, 'time,open,high,low,close,volume', ...rows].join('\n');
+}
+
+// Prices become integer ticks; each close is stored as the change from the
+// previous close and open/high/low as offsets from their own close
+function encodeDelta(candles: CandleData[], sourceRows: number): string {
+  const maxPrice = Math.max(...candles.map(c => c.high));
+  const tick = Math.pow(10, Math.floor(Math.log10(maxPrice)) - 5);
+  const ticks = (value: number) => Math.round(value / tick);
+
+  let previousClose = 0;
+  const rows = candles.map((c, i) => {
+    const close = ticks(c.close);
+    const row = [
+      i === 0 ? close : close - previousClose,
+      ticks(c.open) - close,
+      ticks(c.high) - close,
+      ticks(c.low) - close,
+      Number(c.volume.toPrecision(3)),
+    ].join(',');
+    previousClose = close;
+    return row;
+  });
+
+  return [
+    `${candles.length} candles${candles.length < sourceRows ? ` merged from ${sourceRows}` : ''}, delta-encoded, oldest first.`,
+    `start=${formatTime(candles[0].timestamp)} interval=${formatInterval(candleInterval(candles))} tick=${Number(tick.toPrecision(1))}`,
+    'Prices are integer multiples of tick. Columns: close (first row absolute, later rows change from the previous close), open-close, high-close, low-close, volume',
+    ...rows,
+  ].join('\n');
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(2)}%`;
+
+function quantile(sorted: number[], q: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length))];
+}
+
+function encodeStats(candles: CandleData[]): string {
+  const closes = candles.map(c => c.close);
+  const sorted = [...closes].sort((a, b) => a - b);
+  const returns = closes.slice(1).map((close, i) => close / closes[i] - 1);
+  const meanReturn =
+    returns.reduce((sum, r) => sum + r, 0) / Math.max(returns.length, 1);
+  const std = Math.sqrt(
+    returns.reduce((sum, r) => sum + (r - meanReturn) ** 2, 0) /
+      Math.max(returns.length - 1, 1)
+  );
+  const interval = candleInterval(candles);
+  const annualized = interval > 0 ? std * Math.sqrt(YEAR_MS / interval) : 0;
+
+  let peak = closes[0];
+  let maxDrawdown = 0;
+  for (const close of closes) {
+    peak = Math.max(peak, close);
+    maxDrawdown = Math.min(maxDrawdown, close / peak - 1);
+  }
+
+  const high = candles.reduce((a, b) => (b.high > a.high ? b : a));
+  const low = candles.reduce((a, b) => (b.low < a.low ? b : a));
+  const avgVolume =
+    candles.reduce((sum, c) => sum + c.volume, 0) / candles.length;
+  const recent = candles.slice(-Math.max(1, Math.floor(candles.length / 10)));
+  const recentVolume =
+    recent.reduce((sum, c) => sum + c.volume, 0) / recent.length;
+  const path = downsample(candles, 10).map(c => formatPrice(c.close));
+  const first = candles[0];
+  const last = candles[candles.length - 1];
+
+  return [
+    `Statistics for ${candles.length} candles (${formatInterval(interval)}) from ${formatTime(first.timestamp)} to ${formatTime(last.timestamp)}:`,
+    `- Open ${formatPrice(first.open)}, close ${formatPrice(last.close)}, change ${percent(last.close / first.open - 1)}`,
+    `- High ${formatPrice(high.high)} at ${formatTime(high.timestamp)}, low ${formatPrice(low.low)} at ${formatTime(low.timestamp)}`,
+    `- Close quantiles p10/p25/p50/p75/p90: ${[0.1, 0.25, 0.5, 0.75, 0.9].map(q => formatPrice(quantile(sorted, q))).join(' / ')}`,
+    `- Per-candle return mean ${percent(meanReturn)}, std ${percent(std)}, annualized volatility ${percent(annualized)}`,
+    `- Max drawdown ${percent(maxDrawdown)}`,
+    `- Average volume ${Number(avgVolume.toPrecision(4))}; last 10% of candles average ${Number(recentVolume.toPrecision(4))}`,
+    `- Close at each tenth of the period: ${path.join(', ')}`,
+    '',
+    encodeCsv(candles.slice(-10), 'Most recent candles:'),
+  ].join('\n');
+}
+
+function encode(
+  encoding: DataEncoding,
+  candles: CandleData[],
+  sourceRows: number
+): string {
+  switch (encoding) {
+    case 'delta':
+      return encodeDelta(candles, sourceRows);
+    case 'stats':
+      return encodeStats(candles);
+    default:
+      return encodeCsv(
+        candles,
+        `${candles.length} candles${candles.length < sourceRows ? ` merged from ${sourceRows}` : ''}, ${formatInterval(candleInterval(candles))} each, oldest first:`
+      );
+  }
+}
+
+function block(
+  encoding: DataEncoding,
+  candles: CandleData[],
+  sourceRows: number,
+  available: number
+): DataBlock {
+  const text = encode(encoding, candles, sourceRows);
+  const tokens = estimateTokens(text);
+  return {
+    text,
+    encoding,
+    rows: encoding === 'stats' ? sourceRows : candles.length,
+    sourceRows,
+    tokens,
+    fits: tokens <= available,
+  };
+}
+
+// Merge candles until the encoding fits or MIN_ROWS is reached
+function shrinkToFit(
+  encoding: 'csv' | 'delta',
+  candles: CandleData[],
+  available: number
+): DataBlock {
+  let rows = candles.length;
+  let result = block(encoding, candles, candles.length, available);
+  while (!result.fits && rows > MIN_ROWS) {
+    // At least halve, more when far over budget, so this converges quickly
+    const ratio = available / result.tokens;
+    rows = Math.max(
+      MIN_ROWS,
+      Math.min(Math.floor(rows / 2), Math.floor(rows * ratio))
+    );
+    result = block(
+      encoding,
+      downsample(candles, rows),
+      candles.length,
+      available
+    );
+  }
+  return result;
+}
+
+// Build the data section for a prompt. promptTokens covers everything else
+// sent, so the budget left for data is context - reserved - promptTokens.
+export function buildDataBlock(
+  candles: CandleData[],
+  promptTokens: number,
+  options: DataBlockOptions
+): DataBlock | null {
+  if (options.mode === 'none' || candles.length === 0) return null;
+  const available =
+    options.contextTokens - options.reservedTokens - promptTokens;
+
+  switch (options.mode) {
+    case 'csv':
+    case 'stats':
+      return block(options.mode, candles, candles.length, available);
+    case 'downsampled':
+      return shrinkToFit('csv', candles, available);
+    case 'delta':
+      return shrinkToFit('delta', candles, available);
+  }
+
+  // Auto: the most detailed representation that fits
+  const full = block('csv', candles, candles.length, available);
+  if (full.fits) return full;
+  const delta = shrinkToFit('delta', candles, available);
+  if (delta.fits) return delta;
+  return block('stats', candles, candles.length, available);
+}
@@ -0,0 +1,345 @@
+// Prompt templates with {{placeholder}} variables. Built-in templates live
+// here; user templates are versioned and stored in the browser.
+
+import type { CandleData, DataSummary, MarketType } from '@/services/bitgetApi';
+import { readStored, writeStored } from '@/lib/storage';
+import { atr, closes, ema, macd, obv, rsi, sma, wma } from '@/lib/indicators';
+import { formatCurrency } from '@/lib/utils';
+
+export interface PromptTemplateVersion {
+  version: number;
+  body: string;
+  savedAt: number;
+  note?: string;
+}
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  builtIn?: boolean;
+  versions: PromptTemplateVersion[]; // oldest first; the last is current
+}
+
+export interface PromptContext {
+  symbol: string;
+  exchange: string; // display name, e.g. Binance
+  marketType: MarketType;
+  granularity: string;
+  granularityLabel: string;
+  timeRange: number;
+  summary: DataSummary;
+  candles: CandleData[];
+}
+
+export interface RenderedPrompt {
+  text: string;
+  missing: string[]; // placeholders that could not be resolved
+}
+
+const TEMPLATES_KEY = 'coinai.promptTemplates';
+const ACTIVE_TEMPLATE_KEY = 'coinai.activePromptTemplate';
+
+// Listed in the editor as a reference
+export const templateVariables: { name: string; description: string }[] = [
+  { name: 'symbol', description: 'Trading pair, e.g. BTCUSDT' },
+  { name: 'exchange', description: 'Exchange the data came from, e.g. Bitget' },
+  { name: 'marketType', description: 'spot or futures' },
+  { name: 'granularity', description: 'Candle size, e.g. 1h' },
+  { name: 'granularityLabel', description: 'Candle size, e.g. 1 Hour' },
+  { name: 'timeRange', description: 'Requested range in days' },
+  {
+    name: 'summary.<field>',
+    description:
+      'startDate, endDate, totalDays, candleCount, startPrice, endPrice, highestPrice, lowestPrice, priceChange, priceChangePercent, totalVolume',
+  },
+  {
+    name: 'indicators.<name><period>',
+    description: 'Latest rsi, sma, ema, wma or atr value, e.g. rsi14, ema50',
+  },
+  {
+    name: 'indicators.<name>',
+    description: 'Latest macd, macdSignal, macdHistogram or obv value',
+  },
+  {
+    name: 'candles:last<N>:csv',
+    description:
+      'Last N candles as CSV; use json for JSON or all for every candle',
+  },
+  {
+    name: '<value>|currency',
+    description: 'Format as currency; also |percent and |number',
+  },
+];
+
+const researchReport = `Act as an elite cryptocurrency research analyst at a top-tier digital asset fund.
+Your task is to analyze a cryptocurrency using both fundamental and macroeconomic perspectives. Structure your response according to the framework below.
+
+Crypto Token/Coin: {{symbol}}
+
+Data Summary:
+- Period: {{summary.startDate}} to {{summary.endDate}} ({{summary.totalDays}} days)
+- Data Granularity: {{granularityLabel}}
+- Candles: {{summary.candleCount}}
+- Price Range: {{summary.lowestPrice|currency}} - {{summary.highestPrice|currency}}
+- Start Price: {{summary.startPrice|currency}}
+- End Price: {{summary.endPrice|currency}}
+- Price Change: {{summary.priceChange|currency}} ({{summary.priceChangePercent|percent}})
+- Total Volume: {{summary.totalVolume|number}}
+
+Instructions:
+
+Use the following structure to deliver a clear, well-reasoned crypto research report:
+
+1. Technical analysis of the price movement
+2. Key support and resistance levels
+3. Trading recommendations (Buy, Sell, Hold) and Futures Setup
+4. Risk assessment
+5. Potential future price targets
+
+✅ Formatting Requirements
+- Use **markdown**
+- Use **bullet points** where appropriate
+- Be **concise, professional, and insight-driven**
+- Do **not** explain your process just deliver the analysis
+
+Historical data is attached below, or available in the exported CSV/JSON files.`;
+
+const swingTrade = `You are a swing trader planning trades that last from a few days to a few weeks.
+
+Market: {{symbol}} ({{marketType}}) on {{exchange}}, {{granularityLabel}} candles from {{summary.startDate}} to {{summary.endDate}}.
+Last price {{summary.endPrice|currency}}, {{summary.priceChangePercent|percent}} over the period, range {{summary.lowestPrice|currency}} - {{summary.highestPrice|currency}}.
+RSI(14): {{indicators.rsi14}} · EMA(20): {{indicators.ema20}} · EMA(50): {{indicators.ema50}} · ATR(14): {{indicators.atr14}}
+
+Recent candles:
+{{candles:last50:csv}}
+
+Give, in markdown:
+1. Trend and market structure
+2. The best swing setup right now (long, short or none) with entry zone, stop-loss and two targets
+3. Reward-to-risk for the setup
+4. What would invalidate it`;
+
+const futuresSetup = `You are a derivatives trader. Design a leveraged futures trade for {{symbol}}.
+
+Period: {{summary.startDate}} to {{summary.endDate}} ({{granularityLabel}} candles)
+Last price: {{summary.endPrice|currency}} ({{summary.priceChangePercent|percent}} over the period)
+RSI(14): {{indicators.rsi14}} · MACD: {{indicators.macd}} / signal {{indicators.macdSignal}} · ATR(14): {{indicators.atr14}}
+
+Recent candles:
+{{candles:last30:csv}}
+
+Answer in markdown with:
+1. Direction and conviction
+2. Entry, stop-loss and take-profit levels
+3. Suggested leverage and position size as % of account, keeping liquidation well beyond the stop
+4. Funding and volatility risks`;
+
+const riskReview = `Act as a risk manager reviewing exposure to {{symbol}} ({{marketType}}).
+
+Over {{summary.totalDays}} days the price moved from {{summary.startPrice|currency}} to {{summary.endPrice|currency}} ({{summary.priceChangePercent|percent}}), trading between {{summary.lowestPrice|currency}} and {{summary.highestPrice|currency}}.
+ATR(14): {{indicators.atr14}} on {{granularityLabel}} candles.
+
+Recent candles:
+{{candles:last30:csv}}
+
+In markdown, assess:
+1. Realized volatility and drawdown risk
+2. Key levels where risk increases
+3. Position sizing and stop placement guidelines
+4. Scenarios that would call for reducing exposure`;
+
+const fundamentals = `Act as a crypto fundamentals analyst. Without using on-chain data, assess {{symbol}}.
+
+Price context: {{summary.endPrice|currency}}, {{summary.priceChangePercent|percent}} from {{summary.startDate}} to {{summary.endDate}}.
+
+Cover in markdown:
+1. What the project does and its competitive position
+2. Token economics: supply, emissions, unlocks and utility
+3. Team, governance and funding
+4. Regulatory and macro factors
+5. Overall fundamental outlook and how it compares with the recent price action`;
+
+const builtIn = (id: string, name: string, body: string): PromptTemplate => ({
+  id,
+  name,
+  builtIn: true,
+  versions: [{ version: 1, body, savedAt: 0 }],
+});
+
+export const builtInTemplates: PromptTemplate[] = [
+  builtIn('builtin-research', 'Research report', researchReport),
+  builtIn('builtin-swing', 'Swing trade', swingTrade),
+  builtIn('builtin-futures', 'Futures setup', futuresSetup),
+  builtIn('builtin-risk', 'Risk review', riskReview),
+  builtIn('builtin-fundamentals', 'Fundamentals (no on-chain)', fundamentals),
+];
+
+export const currentVersion = (template: PromptTemplate) =>
+  template.versions[template.versions.length - 1];
+
+export function loadUserTemplates(): PromptTemplate[] {
+  const templates = readStored<PromptTemplate[]>(TEMPLATES_KEY, []);
+  return Array.isArray(templates)
+    ? templates.filter(t => t && Array.isArray(t.versions) && t.versions.length)
+    : [];
+}
+
+export function saveUserTemplates(templates: PromptTemplate[]): void {
+  writeStored(
+    TEMPLATES_KEY,
+    templates.filter(template => !template.builtIn)
+  );
+}
+
+export function loadActiveTemplateId(): string {
+  return readStored<string>(ACTIVE_TEMPLATE_KEY, builtInTemplates[0].id);
+}
+
+export function saveActiveTemplateId(id: string): void {
+  writeStored(ACTIVE_TEMPLATE_KEY, id);
+}
+
+export function createTemplate(
+  name: string,
+  body: string,
+  now: number = Date.now()
+): PromptTemplate {
+  return {
+    id: `template-${now}-${Math.random().toString(36).slice(2, 7)}`,
+    name,
+    versions: [{ version: 1, body, savedAt: now }],
+  };
+}
+
+// Append a version; saving an unchanged body is a no-op
+export function addVersion(
+  template: PromptTemplate,
+  body: string,
+  note?: string,
+  now: number = Date.now()
+): PromptTemplate {
+  const current = currentVersion(template);
+  if (current.body === body) return template;
+  return {
+    ...template,
+    versions: [
+      ...template.versions,
+      { version: current.version + 1, body, savedAt: now, note },
+    ],
+  };
+}
+
+const formatNumber = (value: number) => String(Number(value.toPrecision(8)));
+
+const latest = (values: (number | null)[]) => {
+  for (let i = values.length - 1; i >= 0; i--) {
+    if (values[i] !== null) return values[i];
+  }
+  return null;
+};
+
+function indicatorValue(name: string, candles: CandleData[]): number | null {
+  const prices = closes(candles);
+  switch (name) {
+    case 'macd':
+      return latest(macd(prices).macd);
+    case 'macdSignal':
+      return latest(macd(prices).signal);
+    case 'macdHistogram':
+      return latest(macd(prices).histogram);
+    case 'obv':
+      return latest(obv(candles));
+  }
+
+  const match = name.match(/^(rsi|sma|ema|wma|atr)(\d+)$/);
+  if (!match) return null;
+  const period = parseInt(match[2]);
+  if (period < 1) return null;
+  switch (match[1]) {
+    case 'rsi':
+      return latest(rsi(prices, period));
+    case 'sma':
+      return latest(sma(prices, period));
+    case 'ema':
+      return latest(ema(prices, period));
+    case 'wma':
+      return latest(wma(prices, period));
+    default:
+      return latest(atr(candles, period));
+  }
+}
+
+function candlesBlock(spec: string, candles: CandleData[]): string | null {
+  const match = spec.match(/^candles:(all|last(\d+)):(csv|json)$/);
+  if (!match) return null;
+  const selected = match[2] ? candles.slice(-parseInt(match[2])) : candles;
+  const rows = selected.map(c => ({
+    timestamp: new Date(c.timestamp).toISOString(),
+    open: c.open,
+    high: c.high,
+    low: c.low,
+    close: c.close,
+    volume: c.volume,
+  }));
+  if (match[3] === 'json') return JSON.stringify(rows);
+  return [
+    'timestamp,open,high,low,close,volume',
+    ...rows.map(row => Object.values(row).join(',')),
+  ].join('\n');
+}
+
+function resolveValue(
+  path: string,
+  context: PromptContext
+): string | number | null {
+  if (path.startsWith('indicators.')) {
+    return indicatorValue(path.slice('indicators.'.length), context.candles);
+  }
+  let value: unknown = context;
+  for (const key of path.split('.')) {
+    if (value === null || typeof value !== 'object' || key === 'candles') {
+      return null;
+    }
+    value = (value as Record<string, unknown>)[key];
+  }
+  return typeof value === 'string' || typeof value === 'number' ? value : null;
+}
+
+function applyFilter(value: string | number, filter?: string): string | null {
+  if (!filter) return typeof value === 'number' ? formatNumber(value) : value;
+  if (typeof value !== 'number') return null;
+  switch (filter) {
+    case 'currency':
+      return formatCurrency(value);
+    case 'percent':
+      return `${value.toFixed(2)}%`;
+    case 'number':
+      return value.toLocaleString();
+    default:
+      return null;
+  }
+}
+
+// Replace every {{placeholder}}; unresolved ones are left in place and listed
+export function renderTemplate(
+  body: string,
+  context: PromptContext
+): RenderedPrompt {
+  const missing = new Set<string>();
+  const text = body.replace(/\{\{\s*([^}]+?)\s*\}\}/g, (token, expression) => {
+    if (expression.startsWith('candles:')) {
+      const block = candlesBlock(expression, context.candles);
+      if (block === null) missing.add(expression);
+      return block ?? token;
+    }
+    const [path, filter] = expression.split('|').map((s: string) => s.trim());
+    const value = resolveValue(path, context);
+    const formatted = value === null ? null : applyFilter(value, filter);
+    if (formatted === null) {
+      missing.add(expression);
+      return token;
+    }
+    return formatted;
+  });
+  return { text, missing: Array.from(missing) };
+}
@@ -0,0 +1,141 @@
+// Scores the trade plan of a saved analysis report against the candles that
+// followed it on the report's exchange, using the shared candle cache. A
+// background loop (started from src/instrumentation.ts) scores each plan once
+// its horizon has passed.
+
+import type { CandleData } from '@/services/bitgetApi';
+import { AnalysisReport, planHorizonEnd } from '@/lib/analysis';
+import { getCandlesWithCache } from '@/lib/candleCache';
+import { granularityToMs } from '@/lib/granularity';
+import { getReport, listReports, saveReport } from '@/lib/reportStore';
+import { scoreTradePlan } from '@/lib/tradePlan';
+
+const DEFAULT_INTERVAL_MS = 15 * 60 * 1000;
+
+export class ReportScoringError extends Error {
+  constructor(
+    message: string,
+    public status: number
+  ) {
+    super(message);
+  }
+}
+
+// Finer candles for short horizons so entries and stops resolve in order.
+// Bitget futures take their own granularity names; everything else the UI's.
+function scoringGranularity(report: AnalysisReport, horizonHours: number) {
+  const fine = horizonHours <= 72;
+  if (
+    (report.exchange ?? 'bitget') === 'bitget' &&
+    report.marketType === 'futures'
+  )
+    return fine ? '15m' : '1H';
+  return fine ? '15min' : '1h';
+}
+
+export async function scoreReport(
+  id: string,
+  now: number = Date.now()
+): Promise<AnalysisReport> {
+  const report = await getReport(id);
+  if (!report) throw new ReportScoringError('Report not found', 404);
+  if (!report.plan) {
+    throw new ReportScoringError('Report has no trade plan to score', 400);
+  }
+
+  const horizonEnd = planHorizonEnd(report) as number;
+  const granularity = scoringGranularity(report, report.plan.horizonHours);
+  const endTime = Math.min(now, horizonEnd);
+  const {
+    candles: rows,
+    coverage,
+    cache,
+  } = await getCandlesWithCache({
+    exchange: report.exchange ?? 'bitget',
+    market: report.marketType,
+    symbol: report.symbol,
+    granularity,
+    startTime: report.createdAt,
+    endTime,
+    limit:
+      Math.ceil((endTime - report.createdAt) / granularityToMs(granularity)) +
+      1,
+  });
+  const candles: CandleData[] = rows.map(row => ({
+    timestamp: parseInt(row[0]),
+    open: parseFloat(row[1]),
+    high: parseFloat(row[2]),
+    low: parseFloat(row[3]),
+    close: parseFloat(row[4]),
+    volume: parseFloat(row[5]),
+    quoteVolume: parseFloat(row[6]),
+  }));
+
+  // A gap or an unreachable exchange leaves the score provisional, so the
+  // scheduler picks the report up again instead of finalizing it
+  const dataComplete = coverage.complete && !cache.stale;
+  const scored = {
+    ...report,
+    score: scoreTradePlan(
+      report.plan,
+      report.createdAt,
+      candles,
+      now,
+      dataComplete
+    ),
+  };
+  await saveReport(scored);
+  return scored;
+}
+
+// Score every plan whose horizon has passed but has no final score yet.
+// Returns the ids scored; failures and provisional scores are retried on the
+// next run.
+export async function scoreDueReports(
+  now: number = Date.now()
+): Promise<string[]> {
+  const due = (await listReports()).filter(report => {
+    const horizonEnd = planHorizonEnd(report);
+    return horizonEnd !== null && horizonEnd <= now && !report.score?.complete;
+  });
+
+  const scored: string[] = [];
+  // One at a time to stay well inside the exchanges' rate limits
+  for (const report of due) {
+    try {
+      await scoreReport(report.id, now);
+      scored.push(report.id);
+    } catch (error) {
+      console.error(`Scoring report ${report.id} failed:`, error);
+    }
+  }
+  return scored;
+}
+
+const schedulerState = globalThis as typeof globalThis & {
+  reportScoringScheduler?: ReturnType<typeof setInterval>;
+};
+
+// Start the background scoring loop once per server process
+export function startReportScoringScheduler(
+  intervalMs: number = parseInt(process.env.REPORT_SCORING_INTERVAL_MS || '') ||
+    DEFAULT_INTERVAL_MS
+): void {
+  if (schedulerState.reportScoringScheduler) return;
+
+  let running = false;
+  schedulerState.reportScoringScheduler = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      const scored = await scoreDueReports();
+      if (scored.length > 0) {
+        console.log(`Scored analysis reports: ${scored.join(', ')}`);
+      }
+    } catch (error) {
+      console.error('Report scoring failed:', error);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+}
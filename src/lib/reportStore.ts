@@ -0,0 +1,85 @@
+// File-based store for analysis reports. Each report, inputs included, is
+// one JSON file; a small index keeps listings from reading them all.
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  AnalysisReport,
+  AnalysisReportSummary,
+  toReportSummary,
+} from '@/lib/analysis';
+
+const REPORTS_DIR =
+  process.env.REPORTS_DIR || path.join(process.cwd(), '.cache', 'reports');
+const INDEX_FILE = path.join(REPORTS_DIR, 'index.json');
+
+let queue: Promise<unknown> = Promise.resolve();
+
+function enqueue<T>(task: () => Promise<T>): Promise<T> {
+  const run = queue.then(task, task);
+  queue = run.catch(() => undefined);
+  return run;
+}
+
+const reportFile = (id: string) => path.join(REPORTS_DIR, `${id}.json`);
+
+// Ids come from URLs, so only accept the shape createReportId produces
+const isValidId = (id: string) => /^report-[a-z0-9-]+$/.test(id);
+
+export const createReportId = () =>
+  `report-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+
+async function writeAtomic(file: string, data: unknown): Promise<void> {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const tmpFile = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(tmpFile, JSON.stringify(data));
+  await fs.rename(tmpFile, file);
+}
+
+async function readIndex(): Promise<AnalysisReportSummary[]> {
+  try {
+    const data = JSON.parse(await fs.readFile(INDEX_FILE, 'utf8'));
+    return Array.isArray(data) ? data : [];
+  } catch {
+    return [];
+  }
+}
+
+// Newest first
+export function listReports(): Promise<AnalysisReportSummary[]> {
+  return enqueue(readIndex);
+}
+
+export async function getReport(id: string): Promise<AnalysisReport | null> {
+  if (!isValidId(id)) return null;
+  try {
+    return JSON.parse(await fs.readFile(reportFile(id), 'utf8'));
+  } catch {
+    return null;
+  }
+}
+
+export function saveReport(report: AnalysisReport): Promise<void> {
+  return enqueue(async () => {
+    await writeAtomic(reportFile(report.id), report);
+    const index = await readIndex();
+    const position = index.findIndex(r => r.id === report.id);
+    // Updates, e.g. scoring, keep their place in the listing
+    if (position === -1) index.unshift(toReportSummary(report));
+    else index[position] = toReportSummary(report);
+    await writeAtomic(INDEX_FILE, index);
+  });
+}
+
+export function deleteReport(id: string): Promise<boolean> {
+  return enqueue(async () => {
+    const index = await readIndex();
+    if (!isValidId(id) || !index.some(r => r.id === id)) return false;
+    await fs.rm(reportFile(id), { force: true });
+    await writeAtomic(
+      INDEX_FILE,
+      index.filter(r => r.id !== id)
+    );
+    return true;
+  });
+}
@@ -0,0 +1,74 @@
+// Response helpers shared by the API routes: CORS headers for the public
+// market data routes, error responses that keep the upstream client's error
+// code, and the same-origin check for routes that act on the server's behalf.
+
+import { NextResponse } from 'next/server';
+import { UpstreamError, UpstreamErrorCode } from '@/lib/upstream';
+
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+const upstreamStatus: Record<UpstreamErrorCode, number> = {
+  TIMEOUT: 504,
+  NETWORK: 502,
+  RATE_LIMITED: 429,
+  HTTP_ERROR: 502,
+  API_ERROR: 502,
+  INVALID_RESPONSE: 502,
+  CIRCUIT_OPEN: 503,
+};
+
+// Routes that spend the server's credentials or read and change stored data
+// send no CORS headers, so other sites cannot read their responses. Browsers
+// still send a cross-origin POST with a text/plain body without asking first,
+// so those requests are refused here before they do anything.
+export function rejectCrossOrigin(request: Request): NextResponse | null {
+  const origin = request.headers.get('origin');
+  // Same-origin GETs and non-browser clients such as cron send no Origin
+  if (!origin) return null;
+  try {
+    if (new URL(origin).host === request.headers.get('host')) return null;
+  } catch {
+    // Opaque origins such as "null" are never the dashboard
+  }
+  return NextResponse.json(
+    { error: 'Cross-origin requests are not allowed' },
+    { status: 403 }
+  );
+}
+
+export function optionsResponse(): NextResponse {
+  return new NextResponse(null, { status: 200, headers: corsHeaders });
+}
+
+// { error, code, details } for upstream failures, { error } with a 500 for
+// anything else
+export function errorResponse(error: unknown, message: string): NextResponse {
+  if (error instanceof UpstreamError) {
+    const { retryAfterMs, upstreamCode } = error.details;
+    return NextResponse.json(
+      {
+        error: message,
+        code: error.code,
+        ...(upstreamCode ? { upstreamCode } : {}),
+        details: error.message,
+      },
+      {
+        status: upstreamStatus[error.code],
+        headers: {
+          ...corsHeaders,
+          ...(retryAfterMs
+            ? { 'Retry-After': Math.ceil(retryAfterMs / 1000).toString() }
+            : {}),
+        },
+      }
+    );
+  }
+  return NextResponse.json(
+    { error: message },
+    { status: 500, headers: corsHeaders }
+  );
+}
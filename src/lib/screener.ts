@@ -0,0 +1,206 @@
+import type { FuturesTickerData, TickerData } from '@/services/bitgetApi';
+import { readStored, writeStored } from '@/lib/storage';
+
+export interface ScreenerRow {
+  symbol: string;
+  lastPrice: number;
+  change24h: number; // fraction
+  high24h: number;
+  low24h: number;
+  quoteVolume: number;
+  bid: number;
+  ask: number;
+  spreadBps: number | null;
+}
+
+export type NumericColumn =
+  | 'lastPrice'
+  | 'change24h'
+  | 'high24h'
+  | 'low24h'
+  | 'quoteVolume'
+  | 'spreadBps';
+
+export type ScreenerColumn = 'symbol' | NumericColumn;
+
+export interface ColumnRange {
+  min?: number;
+  max?: number;
+}
+
+export interface ScreenerFilters {
+  search: string;
+  quote: string; // '' for any quote coin
+  ranges: Partial<Record<NumericColumn, ColumnRange>>;
+}
+
+export interface ScreenerSort {
+  column: ScreenerColumn;
+  direction: 'asc' | 'desc';
+}
+
+export interface ScreenPreset {
+  id: string;
+  name: string;
+  filters: ScreenerFilters;
+  sort: ScreenerSort;
+  builtIn?: boolean;
+}
+
+// Range filters are entered in display units; change24h is shown in percent
+export const screenerColumns: {
+  key: ScreenerColumn;
+  label: string;
+  scale?: number; // stored value * scale = displayed value
+}[] = [
+  { key: 'symbol', label: 'Symbol' },
+  { key: 'lastPrice', label: 'Last' },
+  { key: 'change24h', label: '24h %', scale: 100 },
+  { key: 'high24h', label: '24h High' },
+  { key: 'low24h', label: '24h Low' },
+  { key: 'quoteVolume', label: 'Volume (Quote)' },
+  { key: 'spreadBps', label: 'Spread (bps)' },
+];
+
+export const emptyFilters: ScreenerFilters = {
+  search: '',
+  quote: 'USDT',
+  ranges: {},
+};
+
+export const builtInPresets: ScreenPreset[] = [
+  {
+    id: 'builtin-volume',
+    name: 'Most active',
+    filters: emptyFilters,
+    sort: { column: 'quoteVolume', direction: 'desc' },
+    builtIn: true,
+  },
+  {
+    id: 'builtin-gainers',
+    name: 'Top gainers',
+    filters: { ...emptyFilters, ranges: { quoteVolume: { min: 1000000 } } },
+    sort: { column: 'change24h', direction: 'desc' },
+    builtIn: true,
+  },
+  {
+    id: 'builtin-losers',
+    name: 'Top losers',
+    filters: { ...emptyFilters, ranges: { quoteVolume: { min: 1000000 } } },
+    sort: { column: 'change24h', direction: 'asc' },
+    builtIn: true,
+  },
+  {
+    id: 'builtin-tight',
+    name: 'Tight spreads',
+    filters: {
+      ...emptyFilters,
+      ranges: { quoteVolume: { min: 1000000 }, spreadBps: { max: 5 } },
+    },
+    sort: { column: 'spreadBps', direction: 'asc' },
+    builtIn: true,
+  },
+];
+
+const PRESETS_KEY = 'coinai.screenerPresets';
+
+const num = (...values: (string | undefined)[]): number => {
+  for (const value of values) {
+    const parsed = parseFloat(value ?? '');
+    if (!isNaN(parsed)) return parsed;
+  }
+  return NaN;
+};
+
+// Accepts both the v1 and v2 Bitget ticker shapes for spot and futures
+export function toScreenerRow(
+  ticker: TickerData | FuturesTickerData
+): ScreenerRow | null {
+  const fields = ticker as Partial<TickerData & FuturesTickerData>;
+  const lastPrice = num(fields.lastPr, fields.close);
+  if (!ticker.symbol || isNaN(lastPrice)) return null;
+
+  const open = num(fields.open24h, fields.open);
+  const change24h =
+    open > 0 ? lastPrice / open - 1 : num(fields.change24h) || 0;
+  const bid = num(fields.bidPr, fields.buyOne);
+  const ask = num(fields.askPr, fields.sellOne);
+  const mid = (bid + ask) / 2;
+
+  return {
+    symbol: ticker.symbol,
+    lastPrice,
+    change24h,
+    high24h: num(fields.high24h),
+    low24h: num(fields.low24h),
+    quoteVolume: num(fields.quoteVolume, fields.quoteVol, fields.usdtVol) || 0,
+    bid,
+    ask,
+    spreadBps: bid > 0 && ask >= bid ? ((ask - bid) / mid) * 10000 : null,
+  };
+}
+
+export function applyScreen(
+  rows: ScreenerRow[],
+  filters: ScreenerFilters,
+  sort: ScreenerSort
+): ScreenerRow[] {
+  const search = filters.search.trim().toUpperCase();
+  const ranges = Object.entries(filters.ranges) as [
+    NumericColumn,
+    ColumnRange,
+  ][];
+
+  const filtered = rows.filter(row => {
+    if (search && !row.symbol.includes(search)) return false;
+    if (filters.quote && !row.symbol.endsWith(filters.quote)) return false;
+    return ranges.every(([column, range]) => {
+      const value = row[column];
+      if (range.min === undefined && range.max === undefined) return true;
+      if (value === null || isNaN(value)) return false;
+      const scale = screenerColumns.find(c => c.key === column)?.scale ?? 1;
+      const display = value * scale;
+      if (range.min !== undefined && display < range.min) return false;
+      if (range.max !== undefined && display > range.max) return false;
+      return true;
+    });
+  });
+
+  const sign = sort.direction === 'asc' ? 1 : -1;
+  return filtered.sort((a, b) => {
+    if (sort.column === 'symbol') {
+      return sign * a.symbol.localeCompare(b.symbol);
+    }
+    const left = a[sort.column];
+    const right = b[sort.column];
+    // Missing values always sink to the bottom
+    if (left === null || isNaN(left)) return 1;
+    if (right === null || isNaN(right)) return -1;
+    return sign * (left - right);
+  });
+}
+
+export function loadSavedPresets(): ScreenPreset[] {
+  const presets = readStored<ScreenPreset[]>(PRESETS_KEY, []);
+  return Array.isArray(presets) ? presets : [];
+}
+
+export function savePresets(presets: ScreenPreset[]): void {
+  writeStored(
+    PRESETS_KEY,
+    presets.filter(preset => !preset.builtIn)
+  );
+}
+
+export function createPreset(
+  name: string,
+  filters: ScreenerFilters,
+  sort: ScreenerSort
+): ScreenPreset {
+  return {
+    id: `screen-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+    name,
+    filters,
+    sort,
+  };
+}
@@ -0,0 +1,197 @@
+// Trade tape analytics: taker buy/sell volume, cumulative volume delta per
+// candle and large-trade flags. Bitget reports the taker side of each fill,
+// so a "buy" is a market order lifting the ask.
+
+import type { CandleData, TradeData } from '@/services/bitgetApi';
+import { candleBucket, DEFAULT_PANE_HEIGHT, PaneData } from '@/lib/panes';
+import { readStored, writeStored } from '@/lib/storage';
+
+export interface Trade {
+  id: string;
+  timestamp: number; // ms
+  price: number;
+  size: number; // base coin
+  notional: number; // quote
+  side: 'buy' | 'sell';
+}
+
+export interface AggressorVolume {
+  trades: number;
+  buyVolume: number; // base
+  sellVolume: number;
+  buyNotional: number; // quote
+  sellNotional: number;
+  delta: number; // buy minus sell, base
+  buyShare: number | null; // of total quote value
+  largeBuys: number;
+  largeSells: number;
+}
+
+export interface TradeFlowSettings {
+  largeTradeSize: number; // quote; 0 disables highlighting
+  windowMinutes: number; // 0 uses every loaded trade
+  largeOnly: boolean;
+  cvdPane: boolean;
+}
+
+const SETTINGS_KEY = 'coinai.tradeFlowSettings';
+
+export const MAX_TRADES = 2000;
+export const windowOptions = [1, 5, 15, 60, 0];
+
+export const defaultTradeFlowSettings: TradeFlowSettings = {
+  largeTradeSize: 100000,
+  windowMinutes: 5,
+  largeOnly: false,
+  cvdPane: true,
+};
+
+export function loadTradeFlowSettings(): TradeFlowSettings {
+  const stored = readStored<Partial<TradeFlowSettings>>(SETTINGS_KEY, {});
+  return { ...defaultTradeFlowSettings, ...stored };
+}
+
+export function saveTradeFlowSettings(settings: TradeFlowSettings): void {
+  writeStored(SETTINGS_KEY, settings);
+}
+
+export function parseTrades(raw: TradeData[]): Trade[] {
+  return raw
+    .map(row => {
+      const price = parseFloat(row.price);
+      const size = parseFloat(row.size);
+      return {
+        id: row.tradeId,
+        timestamp: parseInt(row.ts),
+        price,
+        size,
+        notional: price * size,
+        side: row.side === 'sell' ? ('sell' as const) : ('buy' as const),
+      };
+    })
+    .filter(trade => trade.price > 0 && trade.size > 0 && trade.timestamp > 0);
+}
+
+// Merge new fills into the tape, dropping repeats (the stream replays recent
+// trades on subscribe), newest first and capped
+export function mergeTrades(
+  current: Trade[],
+  incoming: Trade[],
+  max: number = MAX_TRADES
+): Trade[] {
+  if (incoming.length === 0) return current;
+  const seen = new Set(current.map(trade => trade.id));
+  const fresh = incoming.filter(trade => {
+    if (seen.has(trade.id)) return false;
+    seen.add(trade.id);
+    return true;
+  });
+  if (fresh.length === 0) return current;
+  return [...fresh, ...current]
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .slice(0, max);
+}
+
+export const isLargeTrade = (trade: Trade, threshold: number) =>
+  threshold > 0 && trade.notional >= threshold;
+
+// Trades from the last `windowMinutes` before the newest one
+export function tradesInWindow(trades: Trade[], windowMinutes: number) {
+  if (!(windowMinutes > 0) || trades.length === 0) return trades;
+  const latest = Math.max(...trades.map(trade => trade.timestamp));
+  const from = latest - windowMinutes * 60 * 1000;
+  return trades.filter(trade => trade.timestamp >= from);
+}
+
+export function aggressorVolume(
+  trades: Trade[],
+  largeTradeSize: number
+): AggressorVolume {
+  const volume: AggressorVolume = {
+    trades: trades.length,
+    buyVolume: 0,
+    sellVolume: 0,
+    buyNotional: 0,
+    sellNotional: 0,
+    delta: 0,
+    buyShare: null,
+    largeBuys: 0,
+    largeSells: 0,
+  };
+  trades.forEach(trade => {
+    const large = isLargeTrade(trade, largeTradeSize);
+    if (trade.side === 'buy') {
+      volume.buyVolume += trade.size;
+      volume.buyNotional += trade.notional;
+      if (large) volume.largeBuys++;
+    } else {
+      volume.sellVolume += trade.size;
+      volume.sellNotional += trade.notional;
+      if (large) volume.largeSells++;
+    }
+  });
+  volume.delta = volume.buyVolume - volume.sellVolume;
+  const total = volume.buyNotional + volume.sellNotional;
+  volume.buyShare = total > 0 ? volume.buyNotional / total : null;
+  return volume;
+}
+
+// Bucket trades into the candles they fall in and accumulate the signed
+// volume, starting from zero at the first candle with a trade. Trades after
+// the last loaded candle count towards it, older ones are dropped.
+export function cumulativeVolumeDelta(
+  trades: Trade[],
+  candles: CandleData[]
+): { timestamp: number; delta: number; cvd: number }[] {
+  if (candles.length === 0 || trades.length === 0) return [];
+  const deltas = new Map<number, number>();
+  trades.forEach(trade => {
+    const bucket = candleBucket(candles, trade.timestamp);
+    if (bucket === null) return;
+    const signed = trade.side === 'buy' ? trade.size : -trade.size;
+    deltas.set(bucket, (deltas.get(bucket) || 0) + signed);
+  });
+
+  let cvd = 0;
+  return Array.from(deltas.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([timestamp, delta]) => {
+      cvd += delta;
+      return { timestamp, delta, cvd };
+    });
+}
+
+export function cvdPane(trades: Trade[], candles: CandleData[]): PaneData {
+  const points = cumulativeVolumeDelta(trades, candles);
+  return {
+    id: 'trade-flow-cvd',
+    label: 'CVD',
+    height: DEFAULT_PANE_HEIGHT,
+    series: [
+      {
+        key: 'volume-delta',
+        label: 'Delta',
+        kind: 'histogram',
+        color: '#10b981',
+        points: points.map(point => ({
+          timestamp: point.timestamp,
+          value: point.delta,
+          color: point.delta >= 0 ? '#10b981' : '#ef4444',
+        })),
+        volumeFormat: true,
+      },
+      {
+        key: 'cvd',
+        label: 'CVD',
+        kind: 'line',
+        color: '#3b82f6',
+        points: points.map(point => ({
+          timestamp: point.timestamp,
+          value: point.cvd,
+        })),
+        volumeFormat: true,
+      },
+    ],
+    levels: [0],
+  };
+}
@@ -0,0 +1,440 @@
+// Structured trade plans requested from the model alongside its markdown
+// report: the JSON schema, parsing and validation, scoring against the
+// prices that followed, and conversion to chart levels and zones.
+
+import type { CandleData } from '@/services/bitgetApi';
+import type { PriceLevel, PriceZone } from '@/lib/priceZones';
+
+export type PlanBias = 'bullish' | 'bearish' | 'neutral';
+
+export interface TradeSetup {
+  direction: 'long' | 'short';
+  entryLow: number;
+  entryHigh: number;
+  stopLoss: number;
+  takeProfits: number[]; // nearest first
+  leverage?: number;
+}
+
+export interface TradePlan {
+  bias: PlanBias;
+  supports: number[];
+  resistances: number[];
+  setup: TradeSetup | null;
+  horizonHours: number;
+  confidence?: number; // 0-1
+  rationale?: string;
+}
+
+export type PlanOutcome =
+  | 'pending' // entry not reached yet, horizon not over
+  | 'no-entry' // horizon passed without reaching the entry zone
+  | 'open' // entered, neither stop nor final target hit yet
+  | 'stopped'
+  | 'target' // final take-profit hit
+  | 'expired'; // entered but the horizon ended first
+
+export interface PlanScore {
+  scoredAt: number;
+  evaluatedUntil: number; // last candle time considered
+  complete: boolean; // false while the horizon is still running
+  partialData?: boolean; // candles were missing or stale; scored again later
+  outcome: PlanOutcome | null; // null when the plan has no setup
+  entryPrice?: number;
+  entryTime?: number;
+  exitPrice?: number;
+  exitTime?: number;
+  targetsHit: number;
+  rMultiple: number | null; // result in units of the initial risk
+  maxFavorablePercent: number | null;
+  maxAdversePercent: number | null;
+  priceChangePercent: number;
+  biasCorrect: boolean | null; // null for a neutral bias
+  supportsHeld: number;
+  supportsBroken: number;
+  resistancesHeld: number;
+  resistancesBroken: number;
+}
+
+// Draft-07 schema given to the model; validateTradePlan enforces the same
+// rules plus price consistency
+export const tradePlanSchema = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  type: 'object',
+  required: ['bias', 'supports', 'resistances', 'setup', 'horizonHours'],
+  additionalProperties: false,
+  properties: {
+    bias: { enum: ['bullish', 'bearish', 'neutral'] },
+    supports: { type: 'array', items: { type: 'number', exclusiveMinimum: 0 } },
+    resistances: {
+      type: 'array',
+      items: { type: 'number', exclusiveMinimum: 0 },
+    },
+    setup: {
+      oneOf: [
+        { type: 'null' },
+        {
+          type: 'object',
+          required: [
+            'direction',
+            'entryLow',
+            'entryHigh',
+            'stopLoss',
+            'takeProfits',
+          ],
+          additionalProperties: false,
+          properties: {
+            direction: { enum: ['long', 'short'] },
+            entryLow: { type: 'number', exclusiveMinimum: 0 },
+            entryHigh: { type: 'number', exclusiveMinimum: 0 },
+            stopLoss: { type: 'number', exclusiveMinimum: 0 },
+            takeProfits: {
+              type: 'array',
+              minItems: 1,
+              items: { type: 'number', exclusiveMinimum: 0 },
+            },
+            leverage: { type: 'number', minimum: 1 },
+          },
+        },
+      ],
+    },
+    horizonHours: { type: 'number', exclusiveMinimum: 0 },
+    confidence: { type: 'number', minimum: 0, maximum: 1 },
+    rationale: { type: 'string' },
+  },
+};
+
+export const tradePlanInstructions = `After the report, output your trade plan as one \`\`\`json code block that validates against this JSON schema. Use "setup": null if there is no trade worth taking. horizonHours is how long the plan stays valid.
+
+\`\`\`json
+${JSON.stringify(tradePlanSchema)}
+\`\`\``;
+
+export class TradePlanError extends Error {
+  constructor(public issues: string[]) {
+    super(issues.join('; '));
+  }
+}
+
+const isPrice = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+// Returns the problems found; an empty list means the plan is usable
+export function validateTradePlan(value: unknown): string[] {
+  const issues: string[] = [];
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return ['Plan must be a JSON object'];
+  }
+  const plan = value as Record<string, unknown>;
+
+  if (!['bullish', 'bearish', 'neutral'].includes(plan.bias as string)) {
+    issues.push('bias must be bullish, bearish or neutral');
+  }
+  for (const key of ['supports', 'resistances']) {
+    const levels = plan[key];
+    if (!Array.isArray(levels) || !levels.every(isPrice)) {
+      issues.push(`${key} must be an array of positive prices`);
+    }
+  }
+  if (
+    typeof plan.horizonHours !== 'number' ||
+    !(plan.horizonHours > 0) ||
+    !Number.isFinite(plan.horizonHours)
+  ) {
+    issues.push('horizonHours must be a positive number');
+  }
+  if (
+    plan.confidence !== undefined &&
+    (typeof plan.confidence !== 'number' ||
+      plan.confidence < 0 ||
+      plan.confidence > 1)
+  ) {
+    issues.push('confidence must be between 0 and 1');
+  }
+
+  if (plan.setup === undefined) {
+    issues.push('setup is required (use null for no trade)');
+  } else if (plan.setup !== null) {
+    const setup = plan.setup as Record<string, unknown>;
+    const { direction, entryLow, entryHigh, stopLoss, takeProfits } = setup;
+    if (direction !== 'long' && direction !== 'short') {
+      issues.push('setup.direction must be long or short');
+    }
+    if (!isPrice(entryLow) || !isPrice(entryHigh) || entryLow > entryHigh) {
+      issues.push('setup.entryLow and entryHigh must be prices, low first');
+    }
+    if (!isPrice(stopLoss)) issues.push('setup.stopLoss must be a price');
+    if (
+      !Array.isArray(takeProfits) ||
+      takeProfits.length === 0 ||
+      !takeProfits.every(isPrice)
+    ) {
+      issues.push('setup.takeProfits must be a non-empty array of prices');
+    }
+    if (
+      setup.leverage !== undefined &&
+      (typeof setup.leverage !== 'number' || setup.leverage < 1)
+    ) {
+      issues.push('setup.leverage must be at least 1');
+    }
+
+    if (issues.length === 0) {
+      const low = entryLow as number;
+      const high = entryHigh as number;
+      const targets = takeProfits as number[];
+      if (direction === 'long') {
+        if ((stopLoss as number) >= low) {
+          issues.push('long stopLoss must be below the entry zone');
+        }
+        if (targets.some(tp => tp <= high)) {
+          issues.push('long takeProfits must be above the entry zone');
+        }
+      } else {
+        if ((stopLoss as number) <= high) {
+          issues.push('short stopLoss must be above the entry zone');
+        }
+        if (targets.some(tp => tp >= low)) {
+          issues.push('short takeProfits must be below the entry zone');
+        }
+      }
+    }
+  }
+  return issues;
+}
+
+// Take the last ```json block (or, failing that, the last {...} span) from a
+// model answer and validate it
+export function parseTradePlan(output: string): TradePlan {
+  const blocks = Array.from(output.matchAll(/```json\s*\n([\s\S]*?)```/g));
+  let json = blocks.length > 0 ? blocks[blocks.length - 1][1] : null;
+  if (json === null) {
+    const start = output.lastIndexOf('{"bias"');
+    const end = output.lastIndexOf('}');
+    if (start !== -1 && end > start) json = output.slice(start, end + 1);
+  }
+  if (json === null) throw new TradePlanError(['No JSON trade plan found']);
+
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    throw new TradePlanError(['Trade plan is not valid JSON']);
+  }
+  const issues = validateTradePlan(value);
+  if (issues.length > 0) throw new TradePlanError(issues);
+
+  const plan = value as TradePlan;
+  if (!plan.setup) return plan;
+  // Nearest target first, whatever order the model used
+  const sign = plan.setup.direction === 'long' ? 1 : -1;
+  return {
+    ...plan,
+    setup: {
+      ...plan.setup,
+      takeProfits: [...plan.setup.takeProfits].sort((a, b) => sign * (a - b)),
+    },
+  };
+}
+
+const percentChange = (from: number, to: number) => ((to - from) / from) * 100;
+
+// Score a plan against the candles that followed it. Within one candle the
+// stop is assumed to trade before any target, so results err on the
+// pessimistic side. Without every candle up to the horizon (dataComplete
+// false) the score stays provisional even after the horizon has passed.
+export function scoreTradePlan(
+  plan: TradePlan,
+  createdAt: number,
+  candles: CandleData[],
+  now: number = Date.now(),
+  dataComplete: boolean = true
+): PlanScore {
+  const horizonEnd = createdAt + plan.horizonHours * 60 * 60 * 1000;
+  const window = candles.filter(
+    c => c.timestamp >= createdAt && c.timestamp < horizonEnd
+  );
+  const complete = now >= horizonEnd && dataComplete;
+  const first = window[0];
+  const last = window[window.length - 1];
+
+  const score: PlanScore = {
+    scoredAt: now,
+    evaluatedUntil: last ? last.timestamp : createdAt,
+    complete,
+    outcome: null,
+    targetsHit: 0,
+    rMultiple: null,
+    maxFavorablePercent: null,
+    maxAdversePercent: null,
+    priceChangePercent: first ? percentChange(first.open, last.close) : 0,
+    biasCorrect: null,
+    supportsHeld: 0,
+    supportsBroken: 0,
+    resistancesHeld: 0,
+    resistancesBroken: 0,
+    ...(dataComplete ? {} : { partialData: true }),
+  };
+  if (!first) {
+    if (plan.setup) score.outcome = complete ? 'no-entry' : 'pending';
+    return score;
+  }
+
+  if (plan.bias !== 'neutral') {
+    score.biasCorrect =
+      plan.bias === 'bullish'
+        ? last.close > first.open
+        : last.close < first.open;
+  }
+  // A level breaks when a candle closes beyond it
+  plan.supports.forEach(level => {
+    if (window.some(c => c.close < level)) score.supportsBroken++;
+    else score.supportsHeld++;
+  });
+  plan.resistances.forEach(level => {
+    if (window.some(c => c.close > level)) score.resistancesBroken++;
+    else score.resistancesHeld++;
+  });
+
+  const setup = plan.setup;
+  if (!setup) return score;
+
+  const long = setup.direction === 'long';
+  const entryIndex = window.findIndex(
+    c => c.low <= setup.entryHigh && c.high >= setup.entryLow
+  );
+  if (entryIndex === -1) {
+    score.outcome = complete ? 'no-entry' : 'pending';
+    return score;
+  }
+
+  const entryCandle = window[entryIndex];
+  const entryPrice = Math.min(
+    Math.max(entryCandle.open, setup.entryLow),
+    setup.entryHigh
+  );
+  const risk = Math.abs(entryPrice - setup.stopLoss);
+  const finalTarget = setup.takeProfits[setup.takeProfits.length - 1];
+  const rMultiple = (exit: number) =>
+    risk > 0 ? (long ? exit - entryPrice : entryPrice - exit) / risk : null;
+
+  score.entryPrice = entryPrice;
+  score.entryTime = entryCandle.timestamp;
+
+  let favorable = 0;
+  let adverse = 0;
+  for (let i = entryIndex; i < window.length; i++) {
+    const c = window[i];
+    favorable = Math.max(
+      favorable,
+      long
+        ? percentChange(entryPrice, c.high)
+        : -percentChange(entryPrice, c.low)
+    );
+    adverse = Math.min(
+      adverse,
+      long
+        ? percentChange(entryPrice, c.low)
+        : -percentChange(entryPrice, c.high)
+    );
+
+    const stopped = long ? c.low <= setup.stopLoss : c.high >= setup.stopLoss;
+    if (stopped) {
+      score.outcome = 'stopped';
+      score.exitPrice = setup.stopLoss;
+      score.exitTime = c.timestamp;
+      break;
+    }
+    score.targetsHit = Math.max(
+      score.targetsHit,
+      setup.takeProfits.filter(tp => (long ? c.high >= tp : c.low <= tp)).length
+    );
+    if (score.targetsHit === setup.takeProfits.length) {
+      score.outcome = 'target';
+      score.exitPrice = finalTarget;
+      score.exitTime = c.timestamp;
+      break;
+    }
+  }
+
+  score.maxFavorablePercent = favorable;
+  score.maxAdversePercent = adverse;
+  if (score.outcome === null) {
+    // Still in the trade: mark to the latest close
+    score.outcome = complete ? 'expired' : 'open';
+    score.rMultiple = rMultiple(last.close);
+  } else {
+    score.rMultiple = rMultiple(score.exitPrice as number);
+  }
+  return score;
+}
+
+// Levels as price lines and the setup as shaded entry, risk and reward zones
+export function tradePlanToChart(
+  plan: TradePlan,
+  createdAt: number
+): { levels: PriceLevel[]; zones: PriceZone[] } {
+  const levels: PriceLevel[] = [
+    ...plan.supports.map((price, i) => ({
+      price,
+      color: '#10b981',
+      title: `S${i + 1}`,
+      style: 'dashed' as const,
+    })),
+    ...plan.resistances.map((price, i) => ({
+      price,
+      color: '#ef4444',
+      title: `R${i + 1}`,
+      style: 'dashed' as const,
+    })),
+  ];
+  const zones: PriceZone[] = [];
+
+  const setup = plan.setup;
+  if (setup) {
+    const long = setup.direction === 'long';
+    const entryEdge = long ? setup.entryLow : setup.entryHigh;
+    const rewardEdge = long ? setup.entryHigh : setup.entryLow;
+    const finalTarget = setup.takeProfits[setup.takeProfits.length - 1];
+    zones.push(
+      {
+        from: setup.entryLow,
+        to: setup.entryHigh,
+        color: 'rgba(59, 130, 246, 0.25)',
+        startTime: createdAt,
+      },
+      {
+        from: entryEdge,
+        to: setup.stopLoss,
+        color: 'rgba(239, 68, 68, 0.15)',
+        startTime: createdAt,
+      },
+      {
+        from: rewardEdge,
+        to: finalTarget,
+        color: 'rgba(16, 185, 129, 0.15)',
+        startTime: createdAt,
+      }
+    );
+    levels.push(
+      {
+        price: (setup.entryLow + setup.entryHigh) / 2,
+        color: '#3b82f6',
+        title: `Entry ${setup.direction}`,
+        style: 'solid',
+      },
+      {
+        price: setup.stopLoss,
+        color: '#ef4444',
+        title: 'SL',
+        style: 'solid',
+      },
+      ...setup.takeProfits.map((price, i) => ({
+        price,
+        color: '#10b981',
+        title: `TP${i + 1}`,
+        style: 'solid' as const,
+      }))
+    );
+  }
+  return { levels, zones };
+}
@@ -0,0 +1,318 @@
+// Shared client for every exchange request the server makes. Requests wait
+// for a token from their endpoint's bucket, are retried with exponential
+// backoff and full jitter, stop for a while once a host keeps failing, and
+// identical requests already in flight share one response. Failures are
+// thrown as UpstreamError with a code routes can map to a status.
+
+export type UpstreamErrorCode =
+  | 'TIMEOUT' // no response within the timeout
+  | 'NETWORK' // the request could not be sent
+  | 'RATE_LIMITED' // HTTP 429, or our own bucket would wait too long
+  | 'HTTP_ERROR' // any other non-2xx status
+  | 'API_ERROR' // 2xx response whose body reports an error
+  | 'INVALID_RESPONSE' // body is not JSON
+  | 'CIRCUIT_OPEN'; // the host is failing; the request was not sent
+
+export class UpstreamError extends Error {
+  constructor(
+    message: string,
+    readonly code: UpstreamErrorCode,
+    readonly details: {
+      status?: number; // HTTP status
+      upstreamCode?: string; // exchange error code from the body
+      retryAfterMs?: number;
+    } = {}
+  ) {
+    super(message);
+  }
+
+  get retryable(): boolean {
+    return (
+      this.code === 'TIMEOUT' ||
+      this.code === 'NETWORK' ||
+      this.code === 'RATE_LIMITED' ||
+      (this.code === 'HTTP_ERROR' && (this.details.status ?? 0) >= 500)
+    );
+  }
+}
+
+export interface UpstreamRequestOptions {
+  timeoutMs?: number;
+  retries?: number; // attempts after the first
+}
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_RETRIES = 2;
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 8000;
+const MAX_QUEUE_WAIT_MS = 10000; // beyond this a request fails as rate limited
+const BREAKER_THRESHOLD = 5; // consecutive failed requests
+const BREAKER_COOLDOWN_MS = 30000;
+const USER_AGENT = 'Mozilla/5.0 (compatible; BitgetDashboard/1.0)';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Tokens refill continuously up to one second's worth. Takers may borrow
+// ahead, so waits queue up in call order.
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+
+  constructor(private readonly perSecond: number) {
+    this.tokens = perSecond;
+  }
+
+  // Milliseconds the caller has to wait, or null when that exceeds maxWaitMs
+  reserve(maxWaitMs: number): number | null {
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.perSecond,
+      this.tokens + ((now - this.updatedAt) / 1000) * this.perSecond
+    );
+    this.updatedAt = now;
+    const waitMs = Math.max(0, ((1 - this.tokens) / this.perSecond) * 1000);
+    if (waitMs > maxWaitMs) return null;
+    this.tokens -= 1;
+    return waitMs;
+  }
+}
+
+// Opens after BREAKER_THRESHOLD failed requests in a row, then lets a single
+// trial request through once the cooldown has passed. The trial has to end
+// in success(), failure() or release(), or the host stays blocked.
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+
+  // Milliseconds until a request may be sent, 0 when it may go now
+  blockedFor(): number {
+    if (this.openedAt === null) return 0;
+    const remaining = this.openedAt + BREAKER_COOLDOWN_MS - Date.now();
+    if (remaining > 0) return remaining;
+    if (this.trialInFlight) return BREAKER_COOLDOWN_MS;
+    this.trialInFlight = true;
+    return 0;
+  }
+
+  // Whether the request just let through is the half-open trial
+  get isTrial(): boolean {
+    return this.trialInFlight;
+  }
+
+  success(): void {
+    this.failures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  failure(): void {
+    this.failures++;
+    if (this.trialInFlight || this.failures >= BREAKER_THRESHOLD) {
+      this.openedAt = Date.now();
+    }
+    this.trialInFlight = false;
+  }
+
+  // The trial was never sent; the next caller may try instead
+  release(): void {
+    this.trialInFlight = false;
+  }
+}
+
+// Requests per second by endpoint. Bitget allows 20 on most public market
+// endpoints; other hosts get a conservative default.
+const BITGET_HOST = 'api.bitget.com';
+const BITGET_DEFAULT_RATE = 20;
+const bitgetRates: { [path: string]: number } = {
+  '/api/v2/spot/market/fills': 10,
+  '/api/v2/spot/market/fills-history': 10,
+};
+const DEFAULT_RATE = 10;
+
+const rateFor = (url: URL) =>
+  url.host === BITGET_HOST
+    ? bitgetRates[url.pathname] || BITGET_DEFAULT_RATE
+    : DEFAULT_RATE;
+
+const buckets = new Map<string, TokenBucket>();
+const breakers = new Map<string, CircuitBreaker>();
+const inFlight = new Map<string, Promise<unknown>>();
+
+function bucketFor(url: URL): TokenBucket {
+  const key = `${url.host}${url.pathname}`;
+  let bucket = buckets.get(key);
+  if (!bucket) {
+    bucket = new TokenBucket(rateFor(url));
+    buckets.set(key, bucket);
+  }
+  return bucket;
+}
+
+function breakerFor(url: URL): CircuitBreaker {
+  let breaker = breakers.get(url.host);
+  if (!breaker) {
+    breaker = new CircuitBreaker();
+    breakers.set(url.host, breaker);
+  }
+  return breaker;
+}
+
+const backoffDelay = (attempt: number) =>
+  Math.random() * Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+
+function retryAfterMs(response: Response): number | undefined {
+  const value = response.headers.get('Retry-After');
+  if (!value) return undefined;
+  const seconds = parseFloat(value);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+async function attempt(url: string, timeoutMs: number): Promise<unknown> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': USER_AGENT,
+          Accept: 'application/json',
+        },
+        signal: controller.signal,
+      });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new UpstreamError(`Timed out after ${timeoutMs}ms`, 'TIMEOUT');
+      }
+      throw new UpstreamError(
+        error instanceof Error ? error.message : 'Request failed',
+        'NETWORK'
+      );
+    }
+
+    const text = await response.text();
+    if (!response.ok) {
+      throw new UpstreamError(
+        `HTTP error! status: ${response.status}, response: ${text.slice(0, 500)}`,
+        response.status === 429 ? 'RATE_LIMITED' : 'HTTP_ERROR',
+        { status: response.status, retryAfterMs: retryAfterMs(response) }
+      );
+    }
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new UpstreamError('Response is not JSON', 'INVALID_RESPONSE', {
+        status: response.status,
+      });
+    }
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+async function request(
+  url: string,
+  { timeoutMs = DEFAULT_TIMEOUT_MS, retries = DEFAULT_RETRIES }
+): Promise<unknown> {
+  const parsed = new URL(url);
+  const bucket = bucketFor(parsed);
+  const breaker = breakerFor(parsed);
+
+  for (let i = 0; ; i++) {
+    const blockedMs = breaker.blockedFor();
+    if (blockedMs > 0) {
+      throw new UpstreamError(
+        `${parsed.host} is unavailable, not retrying for ${Math.ceil(blockedMs / 1000)}s`,
+        'CIRCUIT_OPEN',
+        { retryAfterMs: blockedMs }
+      );
+    }
+    const trial = breaker.isTrial;
+    const waitMs = bucket.reserve(MAX_QUEUE_WAIT_MS);
+    if (waitMs === null) {
+      if (trial) breaker.release();
+      throw new UpstreamError(
+        `Too many queued requests for ${parsed.pathname}`,
+        'RATE_LIMITED',
+        { retryAfterMs: MAX_QUEUE_WAIT_MS }
+      );
+    }
+    if (waitMs > 0) await sleep(waitMs);
+
+    try {
+      const body = await attempt(url, timeoutMs);
+      breaker.success();
+      return body;
+    } catch (error) {
+      const upstreamError =
+        error instanceof UpstreamError
+          ? error
+          : new UpstreamError(String(error), 'NETWORK');
+      // A failed trial reopens the breaker straight away rather than retrying
+      if (!upstreamError.retryable || i >= retries || trial) {
+        // A bad request says nothing about the host's health
+        if (upstreamError.retryable) breaker.failure();
+        else breaker.success();
+        throw upstreamError;
+      }
+      console.warn(
+        `Attempt ${i + 1} for ${parsed.pathname} failed:`,
+        upstreamError.message
+      );
+      await sleep(
+        Math.max(backoffDelay(i), upstreamError.details.retryAfterMs ?? 0)
+      );
+    }
+  }
+}
+
+// GET a URL and parse its JSON body. Callers asking for the same URL while a
+// request is in flight share its result, so treat it as read-only.
+export function fetchUpstreamJson<T = unknown>(
+  url: string,
+  options: UpstreamRequestOptions = {}
+): Promise<T> {
+  let pending = inFlight.get(url);
+  if (!pending) {
+    pending = request(url, options).finally(() => inFlight.delete(url));
+    inFlight.set(url, pending);
+  }
+  return pending as Promise<T>;
+}
+
+export interface BitgetResponse<T> {
+  code: string;
+  msg: string;
+  requestTime: number;
+  data: T;
+}
+
+const BITGET_BASE_URL = `https://${BITGET_HOST}`;
+
+// GET a Bitget path, e.g. /api/v2/spot/market/tickers, and check the body's
+// code. Resolves with the whole body so routes can pass it through.
+export async function fetchBitgetJson<T = unknown>(
+  path: string,
+  params?: { [key: string]: string } | URLSearchParams,
+  options?: UpstreamRequestOptions
+): Promise<BitgetResponse<T>> {
+  const query = params ? new URLSearchParams(params).toString() : '';
+  const body = await fetchUpstreamJson<BitgetResponse<T>>(
+    `${BITGET_BASE_URL}${path}${query ? `?${query}` : ''}`,
+    options
+  );
+  if (body?.code && body.code !== '00000') {
+    throw new UpstreamError(
+      `Bitget API error: ${body.msg || 'Unknown error'}`,
+      body.code === '429' ? 'RATE_LIMITED' : 'API_ERROR',
+      { upstreamCode: body.code }
+    );
+  }
+  return body;
+}
@@ -0,0 +1,128 @@
+import type { MarketType } from '@/services/bitgetApi';
+import { readStored, writeStored } from '@/lib/storage';
+
+export interface WatchlistItem {
+  symbol: string;
+  marketType: MarketType;
+}
+
+export interface Watchlist {
+  id: string;
+  name: string;
+  items: WatchlistItem[];
+}
+
+// Shape of exported files; bump the version if the format changes
+export interface WatchlistExport {
+  version: 1;
+  exportedAt: string;
+  watchlists: Watchlist[];
+}
+
+const WATCHLISTS_KEY = 'coinai.watchlists';
+
+const createId = () =>
+  `watchlist-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+
+export const sameItem = (a: WatchlistItem, b: WatchlistItem) =>
+  a.symbol === b.symbol && a.marketType === b.marketType;
+
+export function createWatchlist(
+  name: string,
+  items: WatchlistItem[] = []
+): Watchlist {
+  return { id: createId(), name, items };
+}
+
+const defaultWatchlists = (): Watchlist[] => [
+  createWatchlist('Favorites', [
+    { symbol: 'BTCUSDT', marketType: 'spot' },
+    { symbol: 'ETHUSDT', marketType: 'spot' },
+    { symbol: 'BTCUSDT', marketType: 'futures' },
+  ]),
+];
+
+// Drop anything that does not look like a watchlist so a bad import or an
+// old storage format cannot break the sidebar
+function sanitize(value: unknown): Watchlist[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap(list => {
+    if (!list || typeof list.name !== 'string' || !Array.isArray(list.items)) {
+      return [];
+    }
+    const items: WatchlistItem[] = [];
+    for (const item of list.items) {
+      if (!item || typeof item.symbol !== 'string') continue;
+      const next: WatchlistItem = {
+        symbol: item.symbol.trim().toUpperCase(),
+        marketType: item.marketType === 'futures' ? 'futures' : 'spot',
+      };
+      if (next.symbol && !items.some(i => sameItem(i, next))) items.push(next);
+    }
+    return [
+      {
+        id: typeof list.id === 'string' && list.id ? list.id : createId(),
+        name: list.name.trim() || 'Untitled',
+        items,
+      },
+    ];
+  });
+}
+
+export function loadWatchlists(): Watchlist[] {
+  const lists = sanitize(readStored<unknown>(WATCHLISTS_KEY, null));
+  return lists.length > 0 ? lists : defaultWatchlists();
+}
+
+export function saveWatchlists(lists: Watchlist[]): void {
+  writeStored(WATCHLISTS_KEY, lists);
+}
+
+export function addItem(list: Watchlist, item: WatchlistItem): Watchlist {
+  if (list.items.some(i => sameItem(i, item))) return list;
+  return { ...list, items: [...list.items, item] };
+}
+
+export function removeItem(list: Watchlist, item: WatchlistItem): Watchlist {
+  return { ...list, items: list.items.filter(i => !sameItem(i, item)) };
+}
+
+export function moveItem(
+  list: Watchlist,
+  index: number,
+  offset: number
+): Watchlist {
+  const target = index + offset;
+  if (target < 0 || target >= list.items.length) return list;
+  const items = [...list.items];
+  [items[index], items[target]] = [items[target], items[index]];
+  return { ...list, items };
+}
+
+export function exportWatchlists(lists: Watchlist[]): string {
+  const payload: WatchlistExport = {
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    watchlists: lists,
+  };
+  return JSON.stringify(payload, null, 2);
+}
+
+// Accepts an export file or a bare array of watchlists. Imported lists get
+// fresh ids so they never overwrite existing ones.
+export function parseWatchlistImport(text: string): Watchlist[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+  const raw = Array.isArray(parsed)
+    ? parsed
+    : (parsed as Partial<WatchlistExport> | null)?.watchlists;
+  const lists = sanitize(raw);
+  if (lists.length === 0) {
+    throw new Error('No watchlists found in file');
+  }
+  return lists.map(list => ({ ...list, id: createId() }));
+}
@@ -0,0 +1,78 @@
+// Server-side check that an alert webhook points at a public HTTPS endpoint,
+// so alerts cannot make the server call localhost, the private network or a
+// cloud metadata address. Runs when an alert is saved and again before each
+// delivery, since a hostname can be re-pointed after it was accepted.
+
+import { lookup } from 'node:dns/promises';
+import { BlockList, isIP } from 'node:net';
+import { AlertValidationError } from '@/lib/alerts';
+
+const blocked = new BlockList();
+[
+  ['0.0.0.0', 8], // "this" network
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10], // carrier-grade NAT
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16], // link-local, including cloud metadata
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15], // benchmarking
+  ['224.0.0.0', 4], // multicast
+  ['240.0.0.0', 4], // reserved and broadcast
+].forEach(([network, prefix]) =>
+  blocked.addSubnet(network as string, prefix as number, 'ipv4')
+);
+[
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96], // NAT64 of IPv4 addresses
+  ['fc00::', 7], // unique local
+  ['fe80::', 10], // link-local
+  ['ff00::', 8], // multicast
+].forEach(([network, prefix]) =>
+  blocked.addSubnet(network as string, prefix as number, 'ipv6')
+);
+
+function isPublicAddress(address: string): boolean {
+  // IPv4-mapped IPv6 addresses reach the IPv4 host
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i)?.[1];
+  if (mapped) return !blocked.check(mapped, 'ipv4');
+  const family = isIP(address);
+  if (family === 0) return false;
+  return !blocked.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+// Throws AlertValidationError unless the URL is https: and every address its
+// host resolves to is public
+export async function assertPublicWebhookUrl(value: string): Promise<void> {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new AlertValidationError('Webhook URL is not a valid URL');
+  }
+  if (url.protocol !== 'https:') {
+    throw new AlertValidationError('Webhook URL must use https://');
+  }
+
+  // URL keeps IPv6 literals in brackets
+  const host = url.hostname.replace(/^\[(.*)\]$/, '$1');
+  let addresses: string[];
+  if (isIP(host)) {
+    addresses = [host];
+  } else {
+    try {
+      addresses = (await lookup(host, { all: true })).map(
+        entry => entry.address
+      );
+    } catch {
+      throw new AlertValidationError(`Webhook host ${host} does not resolve`);
+    }
+  }
+  if (addresses.length === 0 || !addresses.every(isPublicAddress)) {
+    throw new AlertValidationError(
+      'Webhook URL must point to a public host, not a private or local address'
+    );
+  }
+}
@@ -0,0 +1,88 @@
+import axios from 'axios';
+import type { AlertEvent, AlertInput, AlertRule } from '@/lib/alerts';
+
+const API_BASE_URL = '/api/alerts';
+
+// Prefer the route's validation message over a generic one
+function errorMessage(error: unknown, fallback: string): string {
+  if (axios.isAxiosError(error) && error.response?.data?.error) {
+    return error.response.data.error;
+  }
+  return fallback;
+}
+
+class AlertsApiService {
+  private baseURL: string;
+
+  constructor() {
+    this.baseURL = API_BASE_URL;
+  }
+
+  async getAlerts(): Promise<AlertRule[]> {
+    try {
+      const response = await axios.get(this.baseURL);
+      return response.data.data || [];
+    } catch (error) {
+      console.error('Error fetching alerts:', error);
+      throw new Error('Failed to fetch alerts');
+    }
+  }
+
+  async createAlert(input: AlertInput): Promise<AlertRule> {
+    try {
+      const response = await axios.post(this.baseURL, input);
+      return response.data.data;
+    } catch (error) {
+      console.error('Error creating alert:', error);
+      throw new Error(errorMessage(error, 'Failed to create alert'));
+    }
+  }
+
+  async updateAlert(
+    id: string,
+    changes: Partial<AlertInput>
+  ): Promise<AlertRule> {
+    try {
+      const response = await axios.put(`${this.baseURL}/${id}`, changes);
+      return response.data.data;
+    } catch (error) {
+      console.error('Error updating alert:', error);
+      throw new Error(errorMessage(error, 'Failed to update alert'));
+    }
+  }
+
+  async deleteAlert(id: string): Promise<void> {
+    try {
+      await axios.delete(`${this.baseURL}/${id}`);
+    } catch (error) {
+      console.error('Error deleting alert:', error);
+      throw new Error('Failed to delete alert');
+    }
+  }
+
+  // Trigger log, newest first
+  async getEvents(since?: number): Promise<AlertEvent[]> {
+    try {
+      const response = await axios.get(`${this.baseURL}/events`, {
+        params: since ? { since } : undefined,
+      });
+      return response.data.data || [];
+    } catch (error) {
+      console.error('Error fetching alert events:', error);
+      throw new Error('Failed to fetch alert events');
+    }
+  }
+
+  // Evaluate all alerts now instead of waiting for the scheduler
+  async evaluate(): Promise<AlertEvent[]> {
+    try {
+      const response = await axios.post(`${this.baseURL}/evaluate`);
+      return response.data.data || [];
+    } catch (error) {
+      console.error('Error evaluating alerts:', error);
+      throw new Error('Failed to evaluate alerts');
+    }
+  }
+}
+
+export const alertsApi = new AlertsApiService();
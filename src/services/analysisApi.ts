@@ -0,0 +1,110 @@
+import axios from 'axios';
+import type {
+  AnalysisProviderInfo,
+  AnalysisReport,
+  AnalysisReportSummary,
+  AnalysisRequest,
+} from '@/lib/analysis';
+
+const API_BASE_URL = '/api/analysis';
+
+// Prefer the route's message, e.g. a report without a trade plan
+function errorMessage(error: unknown, fallback: string): string {
+  if (axios.isAxiosError(error) && error.response?.data?.error) {
+    return error.response.data.error;
+  }
+  return fallback;
+}
+
+export interface AnalysisReportList {
+  reports: AnalysisReportSummary[];
+  provider: AnalysisProviderInfo | null;
+}
+
+class AnalysisApiService {
+  private baseURL: string;
+
+  constructor() {
+    this.baseURL = API_BASE_URL;
+  }
+
+  // Run an analysis, calling onText with each chunk of markdown as it
+  // arrives. Resolves with the saved report's id.
+  async runAnalysis(
+    request: AnalysisRequest,
+    onText: (text: string) => void,
+    signal?: AbortSignal
+  ): Promise<string> {
+    // axios cannot stream response bodies in the browser, so use fetch
+    const response = await fetch(this.baseURL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+      signal,
+    });
+
+    if (!response.ok || !response.body) {
+      const data = await response.json().catch(() => null);
+      throw new Error(data?.error || 'Failed to run analysis');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      onText(decoder.decode(value, { stream: true }));
+    }
+    const rest = decoder.decode();
+    if (rest) onText(rest);
+
+    return response.headers.get('X-Report-Id') || '';
+  }
+
+  async getReports(symbol?: string): Promise<AnalysisReportList> {
+    try {
+      const response = await axios.get(this.baseURL, {
+        params: symbol ? { symbol } : undefined,
+      });
+      return {
+        reports: response.data.data || [],
+        provider: response.data.provider || null,
+      };
+    } catch (error) {
+      console.error('Error fetching analysis reports:', error);
+      throw new Error('Failed to fetch analysis reports');
+    }
+  }
+
+  async getReport(id: string): Promise<AnalysisReport> {
+    try {
+      const response = await axios.get(`${this.baseURL}/${id}`);
+      return response.data.data;
+    } catch (error) {
+      console.error('Error fetching analysis report:', error);
+      throw new Error('Failed to fetch analysis report');
+    }
+  }
+
+  // Score the report's trade plan against prices since it was created
+  async scoreReport(id: string): Promise<AnalysisReport> {
+    try {
+      const response = await axios.post(`${this.baseURL}/${id}/score`);
+      return response.data.data;
+    } catch (error) {
+      console.error('Error scoring analysis report:', error);
+      throw new Error(errorMessage(error, 'Failed to score analysis report'));
+    }
+  }
+
+  async deleteReport(id: string): Promise<void> {
+    try {
+      await axios.delete(`${this.baseURL}/${id}`);
+    } catch (error) {
+      console.error('Error deleting analysis report:', error);
+      throw new Error('Failed to delete analysis report');
+    }
+  }
+}
+
+export const analysisApi = new AnalysisApiService();
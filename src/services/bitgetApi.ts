@@ -1,4 +1,5 @@
 import axios from 'axios';
+import { granularityToMs, MAX_HISTORY_CANDLES } from '@/lib/granularity';
 
 // Use local API routes to avoid CORS issues
 const API_BASE_URL = '/api/bitget';
@@ -41,6 +42,12 @@ export interface TickerData {
   openUtc: string;
   changeUtc24h: string;
   change24h: string;
+  // v2 field names; older responses use close/quoteVol/buyOne/sellOne
+  lastPr?: string;
+  open?: string;
+  quoteVolume?: string;
+  bidPr?: string;
+  askPr?: string;
 }
 
 export interface OrderbookData {
@@ -49,6 +56,15 @@ export interface OrderbookData {
   ts: string;
 }
 
+// Public fill as returned by Bitget's fills endpoints and trade channel
+export interface TradeData {
+  tradeId: string;
+  price: string;
+  size: string; // base coin
+  side: 'buy' | 'sell'; // taker side
+  ts: string;
+}
+
 // Futures-specific interfaces
 export interface FuturesSymbolInfo {
   symbol: string;
@@ -78,10 +94,70 @@ export interface FuturesTickerData {
   bidSz: string;
   askSz: string;
   openUtc: string;
+  // v2 field names; older responses use quoteVol/buyOne/sellOne
+  open24h?: string;
+  quoteVolume?: string;
+  bidPr?: string;
+  askPr?: string;
+  fundingRate?: string;
+  markPrice?: string;
+  indexPrice?: string;
+  holdingAmount?: string; // open interest in base coin
+}
+
+export interface FundingRateData {
+  timestamp: number; // settlement time
+  rate: number; // fraction paid by longs to shorts, e.g. 0.0001
+}
+
+export interface CurrentFundingData {
+  symbol: string;
+  rate: number; // fraction for the upcoming settlement
+  intervalHours: number;
+  nextFundingTime: number | null; // ms
+  minRate: number | null;
+  maxRate: number | null;
+}
+
+export interface OpenInterestPoint {
+  timestamp: number;
+  size: number; // open contracts in base coin
+}
+
+export interface OpenInterestHistory {
+  points: OpenInterestPoint[]; // recorded samples, oldest first
+  current: OpenInterestPoint | null;
 }
 
+export type FuturesPriceType = 'mark' | 'index';
+
 export type MarketType = 'spot' | 'futures';
 
+export interface DataSummary {
+  totalDays: number; // days actually covered by the returned candles
+  requestedDays: number;
+  startDate: string;
+  endDate: string;
+  startPrice: number;
+  endPrice: number;
+  highestPrice: number;
+  lowestPrice: number;
+  totalVolume: number;
+  priceChange: number;
+  priceChangePercent: number;
+  candleCount: number;
+  expectedCandles: number;
+  coveragePercent: number;
+}
+
+export interface AIDataResult {
+  symbol: string;
+  data: CandleData[];
+  summary: DataSummary;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 class BitgetApiService {
   private baseURL: string;
   private futuresBaseURL: string;
@@ -146,7 +222,7 @@ class BitgetApiService {
       } = {
         symbol,
         granularity: this.mapGranularity(granularity),
-        limit: Math.min(limit, 1000), // API limit is 1000
+        limit: Math.min(limit, MAX_HISTORY_CANDLES), // Routes paginate past 1000
       };
 
       if (startTime) params.startTime = startTime;
@@ -207,120 +283,32 @@ class BitgetApiService {
     }
   }
 
+  // Get the most recent public trades for a symbol, newest first
+  async getRecentTrades(
+    symbol: string,
+    limit: number = 100
+  ): Promise<TradeData[]> {
+    try {
+      const response = await axios.get(`${this.baseURL}/trades`, {
+        params: {
+          symbol,
+          limit: Math.min(limit, 500), // API limit is 500
+        },
+      });
+      return response.data.data || [];
+    } catch (error) {
+      console.error('Error fetching recent trades:', error);
+      throw new Error(`Failed to fetch recent trades for ${symbol}`);
+    }
+  }
+
   // Helper method to get data for AI analysis
   async getDataForAI(
     symbol: string,
     days: number = 30,
     granularity: string = '1D'
-  ): Promise<{
-    symbol: string;
-    data: CandleData[];
-    summary: {
-      totalDays: number;
-      startDate: string;
-      endDate: string;
-      startPrice: number;
-      endPrice: number;
-      highestPrice: number;
-      lowestPrice: number;
-      totalVolume: number;
-      priceChange: number;
-      priceChangePercent: number;
-    };
-  }> {
-    // Calculate the proper date range
-    const endTime = new Date();
-    const startTime = new Date(endTime.getTime() - days * 24 * 60 * 60 * 1000);
-
-    // Convert to milliseconds for the API
-    const startTimeMs = startTime.getTime().toString();
-    const endTimeMs = endTime.getTime().toString();
-
-    // Calculate appropriate limit based on granularity and days
-    let limit = 1000; // API maximum
-
-    // Estimate how many data points we need based on granularity
-    switch (granularity) {
-      case '1min':
-        limit = Math.min(days * 24 * 60, 1000); // 1 point per minute
-        break;
-      case '5min':
-        limit = Math.min(days * 24 * 12, 1000); // 12 points per hour
-        break;
-      case '15min':
-        limit = Math.min(days * 24 * 4, 1000); // 4 points per hour
-        break;
-      case '1h':
-        limit = Math.min(days * 24, 1000); // 24 points per day
-        break;
-      case '4h':
-        limit = Math.min(days * 6, 1000); // 6 points per day
-        break;
-      case '1day':
-        limit = Math.min(days, 1000); // 1 point per day
-        break;
-      case '1week':
-        limit = Math.min(Math.ceil(days / 7), 1000); // 1 point per week
-        break;
-      case '1month':
-        limit = Math.min(Math.ceil(days / 30), 1000); // 1 point per month
-        break;
-      default:
-        limit = Math.min(days, 1000);
-    }
-
-    let data = await this.getHistoricalData(
-      symbol,
-      granularity,
-      startTimeMs,
-      endTimeMs,
-      limit
-    );
-
-    // If no data found for the specific time range, try to get recent data as fallback
-    if (data.length === 0) {
-      console.warn(
-        `No data found for ${symbol} in specified time range, trying recent data...`
-      );
-      data = await this.getHistoricalData(
-        symbol,
-        granularity,
-        undefined,
-        undefined,
-        Math.min(limit, 200)
-      );
-    }
-
-    if (data.length === 0) {
-      throw new Error(`No data available for ${symbol}`);
-    }
-
-    const startPrice = data[0].open;
-    const endPrice = data[data.length - 1].close;
-    const highestPrice = Math.max(...data.map(d => d.high));
-    const lowestPrice = Math.min(...data.map(d => d.low));
-    const totalVolume = data.reduce((sum, d) => sum + d.volume, 0);
-    const priceChange = endPrice - startPrice;
-    const priceChangePercent = (priceChange / startPrice) * 100;
-
-    return {
-      symbol,
-      data,
-      summary: {
-        totalDays: days,
-        startDate: new Date(data[0].timestamp).toISOString().split('T')[0],
-        endDate: new Date(data[data.length - 1].timestamp)
-          .toISOString()
-          .split('T')[0],
-        startPrice,
-        endPrice,
-        highestPrice,
-        lowestPrice,
-        totalVolume,
-        priceChange,
-        priceChangePercent,
-      },
-    };
+  ): Promise<AIDataResult> {
+    return this.getDataForAIByMarket('spot', symbol, days, granularity);
   }
 
   // Export data in CSV format for AI analysis
@@ -412,7 +400,7 @@ class BitgetApiService {
       } = {
         symbol,
         granularity: this.mapGranularity(granularity),
-        limit: Math.min(limit, 1000),
+        limit: Math.min(limit, MAX_HISTORY_CANDLES),
       };
 
       if (startTime) params.startTime = startTime;
@@ -473,6 +461,175 @@ class BitgetApiService {
     }
   }
 
+  // Get the most recent futures trades for a symbol, newest first
+  async getFuturesRecentTrades(
+    symbol: string,
+    limit: number = 100
+  ): Promise<TradeData[]> {
+    try {
+      const response = await axios.get(`${this.futuresBaseURL}/trades`, {
+        params: {
+          symbol,
+          limit: Math.min(limit, 100), // API limit is 100
+        },
+      });
+      return response.data.data || [];
+    } catch (error) {
+      console.error('Error fetching futures recent trades:', error);
+      throw new Error(`Failed to fetch futures recent trades for ${symbol}`);
+    }
+  }
+
+  // Get futures funding rate settlements, oldest first
+  async getFuturesFundingHistory(
+    symbol: string,
+    startTime?: string,
+    endTime?: string
+  ): Promise<FundingRateData[]> {
+    try {
+      const params: { symbol: string; startTime?: string; endTime?: string } = {
+        symbol,
+      };
+      if (startTime) params.startTime = startTime;
+      if (endTime) params.endTime = endTime;
+
+      const response = await axios.get(
+        `${this.futuresBaseURL}/funding-history`,
+        { params }
+      );
+
+      return (response.data.data || [])
+        .map((rate: { fundingRate: string; fundingTime: string }) => ({
+          timestamp: parseInt(rate.fundingTime),
+          rate: parseFloat(rate.fundingRate),
+        }))
+        .sort(
+          (a: FundingRateData, b: FundingRateData) => a.timestamp - b.timestamp
+        );
+    } catch (error) {
+      console.error('Error fetching futures funding history:', error);
+      throw new Error(`Failed to fetch futures funding history for ${symbol}`);
+    }
+  }
+
+  // Get the futures ticker for one symbol, including mark and index price
+  async getFuturesTicker(symbol: string): Promise<FuturesTickerData> {
+    try {
+      const response = await axios.get(`${this.futuresBaseURL}/ticker`, {
+        params: { symbol },
+      });
+      const ticker = response.data.data?.[0];
+      if (!ticker) throw new Error(`No ticker returned for ${symbol}`);
+      return ticker;
+    } catch (error) {
+      console.error('Error fetching futures ticker:', error);
+      throw new Error(`Failed to fetch futures ticker for ${symbol}`);
+    }
+  }
+
+  // Get the funding rate for the upcoming settlement
+  async getFuturesCurrentFunding(symbol: string): Promise<CurrentFundingData> {
+    try {
+      const response = await axios.get(`${this.futuresBaseURL}/funding-rate`, {
+        params: { symbol },
+      });
+      const funding = response.data.data;
+      const optional = (value?: string) =>
+        value === undefined || isNaN(parseFloat(value))
+          ? null
+          : parseFloat(value);
+      return {
+        symbol: funding.symbol,
+        rate: parseFloat(funding.fundingRate),
+        intervalHours: parseInt(funding.fundingRateInterval) || 8,
+        nextFundingTime: optional(funding.nextUpdate),
+        minRate: optional(funding.minFundingRate),
+        maxRate: optional(funding.maxFundingRate),
+      };
+    } catch (error) {
+      console.error('Error fetching futures funding rate:', error);
+      throw new Error(`Failed to fetch futures funding rate for ${symbol}`);
+    }
+  }
+
+  // Get open interest samples recorded by the server, oldest first
+  async getFuturesOpenInterestHistory(
+    symbol: string,
+    startTime?: string,
+    endTime?: string
+  ): Promise<OpenInterestHistory> {
+    try {
+      const params: { symbol: string; startTime?: string; endTime?: string } = {
+        symbol,
+      };
+      if (startTime) params.startTime = startTime;
+      if (endTime) params.endTime = endTime;
+
+      const response = await axios.get(`${this.futuresBaseURL}/open-interest`, {
+        params,
+      });
+      return {
+        points: response.data.data || [],
+        current: response.data.current || null,
+      };
+    } catch (error) {
+      console.error('Error fetching futures open interest:', error);
+      throw new Error(`Failed to fetch futures open interest for ${symbol}`);
+    }
+  }
+
+  // Get mark or index price candles; volume fields are zero
+  async getFuturesPriceCandles(
+    symbol: string,
+    priceType: FuturesPriceType,
+    granularity: string = '1D',
+    startTime?: string,
+    endTime?: string,
+    limit: number = 200
+  ): Promise<CandleData[]> {
+    try {
+      const params: {
+        symbol: string;
+        priceType: FuturesPriceType;
+        granularity: string;
+        limit: number;
+        startTime?: string;
+        endTime?: string;
+      } = {
+        symbol,
+        priceType,
+        granularity: this.mapGranularity(granularity),
+        limit: Math.min(limit, MAX_HISTORY_CANDLES),
+      };
+
+      if (startTime) params.startTime = startTime;
+      if (endTime) params.endTime = endTime;
+
+      const response = await axios.get(`${this.futuresBaseURL}/price-candles`, {
+        params,
+      });
+
+      const candles = response.data.data || [];
+
+      return candles
+        .map((candle: string[]) => ({
+          timestamp: parseInt(candle[0]),
+          open: parseFloat(candle[1]),
+          high: parseFloat(candle[2]),
+          low: parseFloat(candle[3]),
+          close: parseFloat(candle[4]),
+          volume: parseFloat(candle[5]) || 0,
+          quoteVolume: parseFloat(candle[6]) || 0,
+        }))
+        .sort((a: CandleData, b: CandleData) => a.timestamp - b.timestamp);
+    } catch (error) {
+      console.error(`Error fetching futures ${priceType} candles:`, error);
+      throw new Error(
+        `Failed to fetch futures ${priceType} candles for ${symbol}`
+      );
+    }
+  }
+
   // UNIFIED METHODS (work with both spot and futures)
 
   // Get symbols for specified market type
@@ -534,68 +691,37 @@ class BitgetApiService {
       : this.getOrderbook(symbol, limit);
   }
 
+  // Get recent trades for specified market type
+  async getRecentTradesByMarket(
+    marketType: MarketType,
+    symbol: string,
+    limit: number = 100
+  ): Promise<TradeData[]> {
+    return marketType === 'futures'
+      ? this.getFuturesRecentTrades(symbol, limit)
+      : this.getRecentTrades(symbol, limit);
+  }
+
   // Get data for AI analysis for specified market type
   async getDataForAIByMarket(
     marketType: MarketType,
     symbol: string,
     days: number = 30,
     granularity: string = '1D'
-  ): Promise<{
-    symbol: string;
-    data: CandleData[];
-    summary: {
-      totalDays: number;
-      startDate: string;
-      endDate: string;
-      startPrice: number;
-      endPrice: number;
-      highestPrice: number;
-      lowestPrice: number;
-      totalVolume: number;
-      priceChange: number;
-      priceChangePercent: number;
-    };
-  }> {
+  ): Promise<AIDataResult> {
     // Calculate the proper date range
     const endTime = new Date();
-    const startTime = new Date(endTime.getTime() - days * 24 * 60 * 60 * 1000);
+    const startTime = new Date(endTime.getTime() - days * DAY_MS);
 
     // Convert to milliseconds for the API
     const startTimeMs = startTime.getTime().toString();
     const endTimeMs = endTime.getTime().toString();
 
-    // Calculate appropriate limit based on granularity and days
-    let limit = 1000; // API maximum
-
-    // Estimate how many data points we need based on granularity
-    switch (granularity) {
-      case '1min':
-        limit = Math.min(days * 24 * 60, 1000); // 1 point per minute
-        break;
-      case '5min':
-        limit = Math.min(days * 24 * 12, 1000); // 12 points per hour
-        break;
-      case '15min':
-        limit = Math.min(days * 24 * 4, 1000); // 4 points per hour
-        break;
-      case '1h':
-        limit = Math.min(days * 24, 1000); // 24 points per day
-        break;
-      case '4h':
-        limit = Math.min(days * 6, 1000); // 6 points per day
-        break;
-      case '1day':
-        limit = Math.min(days, 1000); // 1 point per day
-        break;
-      case '1week':
-        limit = Math.min(Math.ceil(days / 7), 1000); // 1 point per week
-        break;
-      case '1month':
-        limit = Math.min(Math.ceil(days / 30), 1000); // 1 point per month
-        break;
-      default:
-        limit = Math.min(days, 1000);
-    }
+    // Estimate how many candles cover the range; the routes page through
+    // Bitget in chunks, so this is only capped by MAX_HISTORY_CANDLES
+    const stepMs = granularityToMs(granularity);
+    const expectedCandles = Math.max(1, Math.ceil((days * DAY_MS) / stepMs));
+    const limit = Math.min(expectedCandles, MAX_HISTORY_CANDLES);
 
     let data = await this.getHistoricalDataByMarket(
       marketType,
@@ -625,31 +751,50 @@ class BitgetApiService {
       throw new Error(`No data available for ${symbol}`);
     }
 
+    return {
+      symbol,
+      data,
+      summary: this.buildSummary(data, days, stepMs, expectedCandles),
+    };
+  }
+
+  // Summarize candles, reporting the span actually covered rather than the
+  // span that was requested
+  buildSummary(
+    data: CandleData[],
+    requestedDays: number,
+    stepMs: number,
+    expectedCandles: number
+  ): DataSummary {
     const startPrice = data[0].open;
     const endPrice = data[data.length - 1].close;
-    const highestPrice = Math.max(...data.map(d => d.high));
-    const lowestPrice = Math.min(...data.map(d => d.low));
+    const highestPrice = data.reduce(
+      (max, d) => Math.max(max, d.high),
+      -Infinity
+    );
+    const lowestPrice = data.reduce((min, d) => Math.min(min, d.low), Infinity);
     const totalVolume = data.reduce((sum, d) => sum + d.volume, 0);
     const priceChange = endPrice - startPrice;
     const priceChangePercent = (priceChange / startPrice) * 100;
+    const spanMs = data[data.length - 1].timestamp - data[0].timestamp + stepMs;
 
     return {
-      symbol,
-      data,
-      summary: {
-        totalDays: days,
-        startDate: new Date(data[0].timestamp).toISOString().split('T')[0],
-        endDate: new Date(data[data.length - 1].timestamp)
-          .toISOString()
-          .split('T')[0],
-        startPrice,
-        endPrice,
-        highestPrice,
-        lowestPrice,
-        totalVolume,
-        priceChange,
-        priceChangePercent,
-      },
+      totalDays: Math.round((spanMs / DAY_MS) * 10) / 10,
+      requestedDays,
+      startDate: new Date(data[0].timestamp).toISOString().split('T')[0],
+      endDate: new Date(data[data.length - 1].timestamp)
+        .toISOString()
+        .split('T')[0],
+      startPrice,
+      endPrice,
+      highestPrice,
+      lowestPrice,
+      totalVolume,
+      priceChange,
+      priceChangePercent,
+      candleCount: data.length,
+      expectedCandles,
+      coveragePercent: Math.min(100, (data.length / expectedCandles) * 100),
     };
   }
 }
@@ -0,0 +1,377 @@
+import type {
+  CandleData,
+  MarketType,
+  OrderbookData,
+  TradeData,
+} from './bitgetApi';
+
+// Bitget public WebSocket; point NEXT_PUBLIC_BITGET_WS_URL at a local mock
+// server (see scripts/mock-bitget-ws.mjs) to develop without the exchange
+const DEFAULT_WS_URL =
+  process.env.NEXT_PUBLIC_BITGET_WS_URL || 'wss://ws.bitget.com/v2/ws/public';
+
+const SOCKET_OPEN = 1; // WebSocket.OPEN, without relying on a global
+
+export type StreamStatus = 'idle' | 'connecting' | 'open' | 'reconnecting';
+
+export interface LiveTicker {
+  symbol: string;
+  lastPrice: number;
+  high24h: number;
+  low24h: number;
+  change24h: number; // fraction, e.g. 0.0123
+  bidPrice: number;
+  askPrice: number;
+  baseVolume: number;
+  quoteVolume: number;
+  timestamp: number;
+}
+
+export interface BitgetStreamOptions {
+  url?: string;
+  // Lets non-browser callers supply their own client, e.g. in Node scripts
+  createSocket?: (url: string) => WebSocket;
+  pingInterval?: number; // ms; Bitget drops connections idle for 2 minutes
+  reconnectDelay?: number; // ms, doubled per failed attempt
+  maxReconnectDelay?: number; // ms
+  idleTimeout?: number; // ms to keep the socket open without subscriptions
+}
+
+interface ChannelArg {
+  instType: 'SPOT' | 'USDT-FUTURES';
+  channel: string;
+  instId: string;
+}
+
+interface Subscription {
+  arg: ChannelArg;
+  listeners: Set<(data: unknown[]) => void>;
+}
+
+// Map UI granularity values to WebSocket candle channels
+const candleChannels: { [key: string]: string } = {
+  '1min': 'candle1m',
+  '5min': 'candle5m',
+  '15min': 'candle15m',
+  '1h': 'candle1H',
+  '4h': 'candle4H',
+  '1day': 'candle1D',
+  '1week': 'candle1W',
+  '1month': 'candle1M',
+};
+
+const argKey = (arg: ChannelArg) =>
+  `${arg.instType}:${arg.channel}:${arg.instId}`;
+
+const toInstType = (marketType: MarketType): ChannelArg['instType'] =>
+  marketType === 'futures' ? 'USDT-FUTURES' : 'SPOT';
+
+// Candle rows arrive as [ts, open, high, low, close, baseVol, quoteVol, ...]
+const parseCandle = (row: string[]): CandleData => ({
+  timestamp: parseInt(row[0]),
+  open: parseFloat(row[1]),
+  high: parseFloat(row[2]),
+  low: parseFloat(row[3]),
+  close: parseFloat(row[4]),
+  volume: parseFloat(row[5]),
+  quoteVolume: parseFloat(row[6]),
+});
+
+const parseTicker = (ticker: { [key: string]: string }): LiveTicker => ({
+  symbol: ticker.instId || ticker.symbol,
+  lastPrice: parseFloat(ticker.lastPr),
+  high24h: parseFloat(ticker.high24h),
+  low24h: parseFloat(ticker.low24h),
+  change24h: parseFloat(ticker.change24h),
+  bidPrice: parseFloat(ticker.bidPr),
+  askPrice: parseFloat(ticker.askPr),
+  baseVolume: parseFloat(ticker.baseVolume),
+  quoteVolume: parseFloat(ticker.quoteVolume),
+  timestamp: parseInt(ticker.ts),
+});
+
+export class BitgetStream {
+  private url: string;
+  private createSocket: (url: string) => WebSocket;
+  private pingInterval: number;
+  private reconnectDelay: number;
+  private maxReconnectDelay: number;
+  private idleTimeout: number;
+
+  private socket: WebSocket | null = null;
+  private status: StreamStatus = 'idle';
+  private subscriptions = new Map<string, Subscription>();
+  private statusListeners = new Set<(status: StreamStatus) => void>();
+  private attempts = 0;
+  private lastMessageAt = 0;
+  private pingTimer: ReturnType<typeof setInterval> | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: BitgetStreamOptions = {}) {
+    this.url = options.url || DEFAULT_WS_URL;
+    this.createSocket = options.createSocket || (url => new WebSocket(url));
+    this.pingInterval = options.pingInterval ?? 25000;
+    this.reconnectDelay = options.reconnectDelay ?? 1000;
+    this.maxReconnectDelay = options.maxReconnectDelay ?? 30000;
+    this.idleTimeout = options.idleTimeout ?? 5000;
+  }
+
+  getStatus(): StreamStatus {
+    return this.status;
+  }
+
+  onStatus(listener: (status: StreamStatus) => void): () => void {
+    this.statusListeners.add(listener);
+    listener(this.status);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  subscribeTicker(
+    marketType: MarketType,
+    symbol: string,
+    listener: (ticker: LiveTicker) => void
+  ): () => void {
+    return this.subscribe(
+      { instType: toInstType(marketType), channel: 'ticker', instId: symbol },
+      data => {
+        const latest = data[data.length - 1];
+        if (latest) listener(parseTicker(latest as { [key: string]: string }));
+      }
+    );
+  }
+
+  // Delivers the candles in each push, oldest first; the first push is a
+  // snapshot of recent candles, later ones update the forming candle
+  subscribeCandles(
+    marketType: MarketType,
+    symbol: string,
+    granularity: string,
+    listener: (candles: CandleData[]) => void
+  ): () => void {
+    return this.subscribe(
+      {
+        instType: toInstType(marketType),
+        channel: candleChannels[granularity] || 'candle1D',
+        instId: symbol,
+      },
+      data => {
+        const candles = (data as string[][])
+          .map(parseCandle)
+          .sort((a, b) => a.timestamp - b.timestamp);
+        if (candles.length > 0) listener(candles);
+      }
+    );
+  }
+
+  // Top 15 levels per side, pushed as full snapshots
+  subscribeDepth(
+    marketType: MarketType,
+    symbol: string,
+    listener: (orderbook: OrderbookData) => void
+  ): () => void {
+    return this.subscribe(
+      { instType: toInstType(marketType), channel: 'books15', instId: symbol },
+      data => {
+        const book = data[0] as OrderbookData | undefined;
+        if (book) listener({ asks: book.asks, bids: book.bids, ts: book.ts });
+      }
+    );
+  }
+
+  // Public fills; the first push replays the latest trades, later pushes
+  // carry only new ones
+  subscribeTrades(
+    marketType: MarketType,
+    symbol: string,
+    listener: (trades: TradeData[]) => void
+  ): () => void {
+    return this.subscribe(
+      { instType: toInstType(marketType), channel: 'trade', instId: symbol },
+      data => listener(data as TradeData[])
+    );
+  }
+
+  // Drop every subscription and close the connection
+  close(): void {
+    this.subscriptions.clear();
+    this.disconnect();
+  }
+
+  private subscribe(
+    arg: ChannelArg,
+    listener: (data: unknown[]) => void
+  ): () => void {
+    const key = argKey(arg);
+    let subscription = this.subscriptions.get(key);
+    if (!subscription) {
+      subscription = { arg, listeners: new Set() };
+      this.subscriptions.set(key, subscription);
+      this.send({ op: 'subscribe', args: [arg] });
+    }
+    subscription.listeners.add(listener);
+
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+    if (!this.socket && !this.reconnectTimer) this.connect();
+
+    return () => {
+      const current = this.subscriptions.get(key);
+      if (!current) return;
+      current.listeners.delete(listener);
+      if (current.listeners.size > 0) return;
+
+      this.subscriptions.delete(key);
+      this.send({ op: 'unsubscribe', args: [arg] });
+      if (this.subscriptions.size === 0) {
+        this.idleTimer = setTimeout(() => this.disconnect(), this.idleTimeout);
+      }
+    };
+  }
+
+  private connect(): void {
+    this.setStatus(this.attempts > 0 ? 'reconnecting' : 'connecting');
+
+    let socket: WebSocket;
+    try {
+      socket = this.createSocket(this.url);
+    } catch (error) {
+      console.error('Failed to open Bitget stream:', error);
+      this.scheduleReconnect();
+      return;
+    }
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.attempts = 0;
+      this.lastMessageAt = Date.now();
+      this.setStatus('open');
+      // Resubscribe everything after a reconnect
+      const args = Array.from(this.subscriptions.values()).map(s => s.arg);
+      if (args.length > 0) this.send({ op: 'subscribe', args });
+      this.startPing();
+    };
+
+    socket.onmessage = event => {
+      this.lastMessageAt = Date.now();
+      this.handleMessage(event.data);
+    };
+
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.stopPing();
+      if (this.subscriptions.size > 0) {
+        this.scheduleReconnect();
+      } else {
+        this.setStatus('idle');
+      }
+    };
+
+    socket.onerror = () => {
+      // onclose follows and takes care of reconnecting
+      console.warn('Bitget stream error');
+    };
+  }
+
+  private disconnect(): void {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.stopPing();
+    const socket = this.socket;
+    this.socket = null;
+    this.attempts = 0;
+    if (socket) socket.close();
+    this.setStatus('idle');
+  }
+
+  // Exponential backoff with jitter so many tabs do not reconnect in lockstep
+  private scheduleReconnect(): void {
+    this.attempts++;
+    this.setStatus('reconnecting');
+    const delay = Math.min(
+      this.maxReconnectDelay,
+      this.reconnectDelay * 2 ** (this.attempts - 1)
+    );
+    this.reconnectTimer = setTimeout(
+      () => {
+        this.reconnectTimer = null;
+        if (this.subscriptions.size > 0) this.connect();
+      },
+      delay * (0.5 + Math.random() * 0.5)
+    );
+  }
+
+  private startPing(): void {
+    this.stopPing();
+    this.pingTimer = setInterval(() => {
+      // A connection that stopped answering pings is treated as dropped
+      if (Date.now() - this.lastMessageAt > this.pingInterval * 2) {
+        this.socket?.close();
+        return;
+      }
+      this.sendRaw('ping');
+    }, this.pingInterval);
+  }
+
+  private stopPing(): void {
+    if (this.pingTimer) {
+      clearInterval(this.pingTimer);
+      this.pingTimer = null;
+    }
+  }
+
+  private handleMessage(raw: unknown): void {
+    if (typeof raw !== 'string' || raw === 'pong') return;
+
+    let message: {
+      event?: string;
+      code?: number | string;
+      msg?: string;
+      arg?: ChannelArg;
+      data?: unknown[];
+    };
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      return;
+    }
+
+    if (message.event === 'error') {
+      console.error('Bitget stream error:', message.code, message.msg);
+      return;
+    }
+    if (!message.arg || !Array.isArray(message.data)) return;
+
+    const subscription = this.subscriptions.get(argKey(message.arg));
+    subscription?.listeners.forEach(listener => listener(message.data!));
+  }
+
+  private send(payload: object): void {
+    this.sendRaw(JSON.stringify(payload));
+  }
+
+  private sendRaw(payload: string): void {
+    if (this.socket && this.socket.readyState === SOCKET_OPEN) {
+      this.socket.send(payload);
+    }
+  }
+
+  private setStatus(status: StreamStatus): void {
+    if (this.status === status) return;
+    this.status = status;
+    this.statusListeners.forEach(listener => listener(status));
+  }
+}
+
+export const bitgetStream = new BitgetStream();
@@ -0,0 +1,220 @@
+import axios from 'axios';
+import { granularityToMs, MAX_HISTORY_CANDLES } from '@/lib/granularity';
+import {
+  defaultFees,
+  ExchangeId,
+  MarketSymbol,
+  MarketTicker,
+  VenueQuotesResult,
+} from '@/lib/exchanges/types';
+import {
+  AIDataResult,
+  bitgetApi,
+  CandleData,
+  MarketType,
+  OrderbookData,
+  SymbolInfo,
+} from './bitgetApi';
+
+// Use local API routes to avoid CORS issues
+const API_BASE_URL = '/api/exchanges';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Fill the Bitget symbol shape the coin picker and backtests expect. Other
+// exchanges do not report limits or fees through the provider interface, so
+// the fees are the exchange's base-tier rates.
+export function symbolInfoFrom(
+  symbol: MarketSymbol,
+  exchange: ExchangeId,
+  marketType: MarketType
+): SymbolInfo {
+  const fees = defaultFees[exchange][marketType];
+  return {
+    symbol: symbol.symbol,
+    baseCoin: symbol.baseCoin,
+    quoteCoin: symbol.quoteCoin,
+    minTradeAmount: '',
+    maxTradeAmount: '',
+    takerFeeRate: fees.taker.toString(),
+    makerFeeRate: fees.maker.toString(),
+    status: symbol.active ? 'online' : 'offline',
+  };
+}
+
+// Market data from any supported exchange. Bitget keeps going through
+// bitgetApi and its dedicated routes; the others use /api/exchanges.
+class MarketDataApiService {
+  private baseURL: string;
+
+  constructor() {
+    this.baseURL = API_BASE_URL;
+  }
+
+  async getSymbols(
+    exchange: ExchangeId,
+    marketType: MarketType
+  ): Promise<MarketSymbol[]> {
+    try {
+      const response = await axios.get(`${this.baseURL}/${exchange}/symbols`, {
+        params: { market: marketType },
+      });
+      return response.data.data || [];
+    } catch (error) {
+      console.error('Error fetching exchange symbols:', error);
+      throw new Error(`Failed to fetch symbols from ${exchange}`);
+    }
+  }
+
+  async getTickers(
+    exchange: ExchangeId,
+    marketType: MarketType
+  ): Promise<MarketTicker[]> {
+    try {
+      const response = await axios.get(`${this.baseURL}/${exchange}/tickers`, {
+        params: { market: marketType },
+      });
+      return response.data.data || [];
+    } catch (error) {
+      console.error('Error fetching exchange tickers:', error);
+      throw new Error(`Failed to fetch tickers from ${exchange}`);
+    }
+  }
+
+  // The symbol's ticker on every exchange for the given markets
+  async getVenueQuotes(
+    symbol: string,
+    markets: MarketType[] = ['spot', 'futures']
+  ): Promise<VenueQuotesResult> {
+    try {
+      const response = await axios.get(`${this.baseURL}/quotes`, {
+        params: { symbol, markets: markets.join(',') },
+      });
+      return response.data.data || { quotes: [], failed: [] };
+    } catch (error) {
+      console.error('Error fetching venue quotes:', error);
+      throw new Error(`Failed to fetch quotes for ${symbol}`);
+    }
+  }
+
+  // Candles oldest first; granularity is the UI value, e.g. 1h or 1day
+  async getHistoricalData(
+    exchange: ExchangeId,
+    marketType: MarketType,
+    symbol: string,
+    granularity: string = '1day',
+    startTime?: string,
+    endTime?: string,
+    limit: number = 200
+  ): Promise<CandleData[]> {
+    if (exchange === 'bitget') {
+      return bitgetApi.getHistoricalDataByMarket(
+        marketType,
+        symbol,
+        granularity,
+        startTime,
+        endTime,
+        limit
+      );
+    }
+    try {
+      const response = await axios.get(`${this.baseURL}/${exchange}/candles`, {
+        params: {
+          market: marketType,
+          symbol,
+          granularity,
+          limit: Math.min(limit, MAX_HISTORY_CANDLES),
+          ...(startTime ? { startTime } : {}),
+          ...(endTime ? { endTime } : {}),
+        },
+      });
+      return response.data.data || [];
+    } catch (error) {
+      console.error('Error fetching exchange candles:', error);
+      throw new Error(`Failed to fetch historical data for ${symbol}`);
+    }
+  }
+
+  async getOrderbook(
+    exchange: ExchangeId,
+    marketType: MarketType,
+    symbol: string,
+    limit: number = 100
+  ): Promise<OrderbookData> {
+    if (exchange === 'bitget') {
+      return bitgetApi.getOrderbookByMarket(marketType, symbol, limit);
+    }
+    try {
+      const response = await axios.get(
+        `${this.baseURL}/${exchange}/orderbook`,
+        { params: { market: marketType, symbol, limit } }
+      );
+      return response.data.data;
+    } catch (error) {
+      console.error('Error fetching exchange orderbook:', error);
+      throw new Error(`Failed to fetch orderbook for ${symbol}`);
+    }
+  }
+
+  // Same range, fallback and summary as bitgetApi.getDataForAIByMarket
+  async getDataForAI(
+    exchange: ExchangeId,
+    marketType: MarketType,
+    symbol: string,
+    days: number = 30,
+    granularity: string = '1day'
+  ): Promise<AIDataResult> {
+    if (exchange === 'bitget') {
+      return bitgetApi.getDataForAIByMarket(
+        marketType,
+        symbol,
+        days,
+        granularity
+      );
+    }
+
+    const endTime = Date.now();
+    const startTime = endTime - days * DAY_MS;
+    const stepMs = granularityToMs(granularity);
+    const expectedCandles = Math.max(1, Math.ceil((days * DAY_MS) / stepMs));
+    const limit = Math.min(expectedCandles, MAX_HISTORY_CANDLES);
+
+    let data = await this.getHistoricalData(
+      exchange,
+      marketType,
+      symbol,
+      granularity,
+      startTime.toString(),
+      endTime.toString(),
+      limit
+    );
+
+    if (data.length === 0) {
+      console.warn(
+        `No data found for ${symbol} in specified time range, trying recent data...`
+      );
+      data = await this.getHistoricalData(
+        exchange,
+        marketType,
+        symbol,
+        granularity,
+        undefined,
+        undefined,
+        Math.min(limit, 200)
+      );
+    }
+
+    if (data.length === 0) {
+      throw new Error(`No data available for ${symbol}`);
+    }
+
+    return {
+      symbol,
+      data,
+      summary: bitgetApi.buildSummary(data, days, stepMs, expectedCandles),
+    };
+  }
+}
+
+export const marketDataApi = new MarketDataApiService();
+export default marketDataApi;